@@ -4,34 +4,185 @@ import SwiftUI
 
 /// Thread-safe NSCache-backed image cache singleton.
 /// Auto-evicts under memory pressure via NSCache's built-in LRU behavior.
-final class ImageCache {
+/// Limits, prefetching, and stats are exposed to JS as module functions.
+final class ImageCache: NSObject, NSCacheDelegate {
     static let shared = ImageCache()
 
-    private let cache = NSCache<NSURL, UIImage>()
+    static let defaultCountLimit = 100
+    static let defaultCostLimitBytes = 100 * 1024 * 1024 // 100 MB
 
-    private init() {
-        cache.countLimit = 100
-        cache.totalCostLimit = 100 * 1024 * 1024 // 100 MB
+    /// Maximum number of images fetched at once by prefetch(_:)
+    private static let maxConcurrentPrefetches = 4
+
+    /// Boxed cache value; the generation tells a replaced entry's eviction apart from the current one
+    private final class Entry {
+        let url: NSURL
+        let image: UIImage
+        let generation: Int
+
+        init(url: NSURL, image: UIImage, generation: Int) {
+            self.url = url
+            self.image = image
+            self.generation = generation
+        }
+    }
+
+    private let cache = NSCache<NSURL, Entry>()
+
+    /// NSCache doesn't expose its contents, so count and cost are tracked here for stats()
+    private let lock = NSLock()
+    private var costs: [NSURL: (cost: Int, generation: Int)] = [:]
+    private var nextGeneration = 0
+
+    private override init() {
+        super.init()
+        cache.countLimit = Self.defaultCountLimit
+        cache.totalCostLimit = Self.defaultCostLimitBytes
+        cache.delegate = self
     }
 
     func image(for url: URL) -> UIImage? {
-        cache.object(forKey: url as NSURL)
+        cache.object(forKey: url as NSURL)?.image
     }
 
     func setImage(_ image: UIImage, for url: URL) {
+        let key = url as NSURL
         let cost = image.cgImage.map { $0.bytesPerRow * $0.height } ?? 0
-        cache.setObject(image, forKey: url as NSURL, cost: cost)
+
+        lock.lock()
+        nextGeneration += 1
+        let generation = nextGeneration
+        costs[key] = (cost, generation)
+        lock.unlock()
+
+        // Outside the lock: setObject may evict synchronously and call cache(_:willEvictObject:)
+        cache.setObject(Entry(url: key, image: image, generation: generation), forKey: key, cost: cost)
+    }
+
+    /// Applies new limits; nil leaves a limit unchanged. 0 means no limit.
+    func configure(countLimit: Int?, costLimitBytes: Int?) {
+        if let countLimit = countLimit {
+            cache.countLimit = countLimit
+        }
+        if let costLimitBytes = costLimitBytes {
+            cache.totalCostLimit = costLimitBytes
+        }
+    }
+
+    func removeAll() {
+        lock.lock()
+        costs.removeAll()
+        lock.unlock()
+        cache.removeAllObjects()
+    }
+
+    func stats() -> [String: Int] {
+        lock.lock()
+        let count = costs.count
+        let totalCost = costs.values.reduce(0) { $0 + $1.cost }
+        lock.unlock()
+        return [
+            "count": count,
+            "totalCostBytes": totalCost,
+            "countLimit": cache.countLimit,
+            "costLimitBytes": cache.totalCostLimit
+        ]
+    }
+
+    func cache(_ cache: NSCache<AnyObject, AnyObject>, willEvictObject obj: Any) {
+        guard let entry = obj as? Entry else { return }
+        lock.lock()
+        if costs[entry.url]?.generation == entry.generation {
+            costs[entry.url] = nil
+        }
+        lock.unlock()
+    }
+
+    /// Returns the image for url from the cache, or loads, caches, and returns it.
+    /// Returns nil when the image can't be loaded or decoded.
+    func loadImage(_ url: URL) async -> UIImage? {
+        if let cached = image(for: url) {
+            return cached
+        }
+
+        // Local file — load directly, no network needed
+        if url.isFileURL {
+            guard let image = UIImage(contentsOfFile: url.path) else {
+                #if DEBUG
+                print("[expo-tvos-search] Failed to load local image at \(url.path)")
+                #endif
+                return nil
+            }
+            setImage(image, for: url)
+            return image
+        }
+
+        // Data URI — manually extract and decode base64, no network needed
+        // Uses Data(base64Encoded:) instead of Data(contentsOf:) for tvOS 16.x compatibility
+        if url.scheme?.lowercased() == "data" {
+            guard let data = ImageUrlParser.decodeDataUri(url.absoluteString),
+                  let image = UIImage(data: data) else {
+                #if DEBUG
+                print("[expo-tvos-search] Failed to decode data URI")
+                #endif
+                return nil
+            }
+            setImage(image, for: url)
+            return image
+        }
+
+        // Remote URL — fetch via URLSession
+        do {
+            let (data, _) = try await URLSession.shared.data(from: url)
+            guard let image = UIImage(data: data) else {
+                #if DEBUG
+                print("[expo-tvos-search] UIImage(data:) returned nil for \(url) (\(data.count) bytes)")
+                #endif
+                return nil
+            }
+            setImage(image, for: url)
+            return image
+        } catch {
+            #if DEBUG
+            print("[expo-tvos-search] Image load failed for \(url): \(error.localizedDescription)")
+            #endif
+            return nil
+        }
+    }
+
+    /// Loads urls into the cache, a few at a time. Returns how many are now cached.
+    func prefetch(_ urls: [URL]) async -> Int {
+        await withTaskGroup(of: Bool.self) { group in
+            var pending = urls[...]
+            for _ in 0..<Self.maxConcurrentPrefetches {
+                guard let url = pending.popFirst() else { break }
+                group.addTask { await self.loadImage(url) != nil }
+            }
+
+            var loaded = 0
+            for await success in group {
+                if success { loaded += 1 }
+                if let url = pending.popFirst() {
+                    group.addTask { await self.loadImage(url) != nil }
+                }
+            }
+            return loaded
+        }
     }
 }
 
 /// SwiftUI view that loads images with NSCache backing.
 /// Cached images appear instantly (no loading flash).
-/// On failure, renders EmptyView so the parent placeholder shows through.
+/// When `url` fails, `fallbackUrl` is loaded instead; if that fails too,
+/// renders EmptyView so the parent placeholder shows through.
 struct CachedAsyncImage: View {
     let url: URL
+    var fallbackUrl: URL? = nil
     let contentMode: ContentMode
     let width: CGFloat
     let height: CGFloat
+    /// Show a spinner while loading; off when the parent already draws a placeholder
+    var showsProgress: Bool = true
 
     @State private var uiImage: UIImage?
     @State private var isLoading = true
@@ -43,7 +194,7 @@ struct CachedAsyncImage: View {
                     .resizable()
                     .aspectRatio(contentMode: contentMode)
                     .frame(width: width, height: height)
-            } else if isLoading {
+            } else if isLoading && showsProgress {
                 ProgressView()
             } else {
                 // Failure — show nothing, parent placeholder shows through
@@ -54,58 +205,9 @@ struct CachedAsyncImage: View {
         .task(id: url) {
             uiImage = nil
             isLoading = true
-
-            if let cached = ImageCache.shared.image(for: url) {
-                uiImage = cached
-                isLoading = false
-                return
-            }
-
-            // Local file — load directly, no network needed
-            if url.isFileURL {
-                if let image = UIImage(contentsOfFile: url.path) {
-                    ImageCache.shared.setImage(image, for: url)
-                    uiImage = image
-                } else {
-                    #if DEBUG
-                    print("[expo-tvos-search] Failed to load local image at \(url.path)")
-                    #endif
-                }
-                isLoading = false
-                return
-            }
-
-            // Data URI — manually extract and decode base64, no network needed
-            // Uses Data(base64Encoded:) instead of Data(contentsOf:) for tvOS 16.x compatibility
-            if url.scheme?.lowercased() == "data" {
-                if let data = ImageUrlParser.decodeDataUri(url.absoluteString),
-                   let image = UIImage(data: data) {
-                    ImageCache.shared.setImage(image, for: url)
-                    uiImage = image
-                } else {
-                    #if DEBUG
-                    print("[expo-tvos-search] Failed to decode data URI")
-                    #endif
-                }
-                isLoading = false
-                return
-            }
-
-            // Remote URL — fetch via URLSession
-            do {
-                let (data, _) = try await URLSession.shared.data(from: url)
-                if let image = UIImage(data: data) {
-                    ImageCache.shared.setImage(image, for: url)
-                    uiImage = image
-                } else {
-                    #if DEBUG
-                    print("[expo-tvos-search] UIImage(data:) returned nil for \(url) (\(data.count) bytes)")
-                    #endif
-                }
-            } catch {
-                #if DEBUG
-                print("[expo-tvos-search] Image load failed for \(url): \(error.localizedDescription)")
-                #endif
+            uiImage = await ImageCache.shared.loadImage(url)
+            if uiImage == nil, let fallbackUrl = fallbackUrl {
+                uiImage = await ImageCache.shared.loadImage(fallbackUrl)
             }
             isLoading = false
         }
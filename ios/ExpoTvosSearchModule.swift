@@ -7,6 +7,10 @@ public class ExpoTvosSearchModule: Module {
     private static let maxResults = 500
     private static let maxMarqueeDelay: Double = 60.0
     private static let maxStringLength = 500
+    private static let maxEndReachedThreshold = 10
+    private static let maxRecentSearches = 20
+    private static let maxSuggestions = 20
+    private static let maxScopes = 10
 
     /// Truncates a string to maxStringLength and emits a validation warning if truncation occurred.
     private static func truncateString(
@@ -25,11 +29,70 @@ public class ExpoTvosSearchModule: Module {
         return truncated
     }
 
+    /// Clamps a per-section layout value, emitting a warning that names the section.
+    private static func clampSectionLayout(
+        _ value: Double,
+        name: String,
+        range: ClosedRange<Double>,
+        sectionId: String,
+        view: ExpoTvosSearchView
+    ) -> Double {
+        let clampedValue = min(max(range.lowerBound, value), range.upperBound)
+        if clampedValue != value {
+            view.onValidationWarning([
+                "type": "value_clamped",
+                "message": "section '\(sectionId)' \(name) value \(value) was clamped to range [\(range.lowerBound), \(range.upperBound)]",
+                "context": "\(name)=\(clampedValue)"
+            ])
+        }
+        return clampedValue
+    }
+
     public func definition() -> ModuleDefinition {
         Name("ExpoTvosSearch")
 
+        // Image cache control, shared by every search view (see ImageCache)
+        AsyncFunction("prefetchImages") { (urls: [String]) async -> Int in
+            #if os(tvOS)
+            let validUrls = urls
+                .filter { ImageUrlParser.isAllowedScheme($0) }
+                .compactMap { URL(string: $0) }
+            return await ImageCache.shared.prefetch(validUrls)
+            #else
+            return 0
+            #endif
+        }
+
+        Function("clearImageCache") {
+            #if os(tvOS)
+            ImageCache.shared.removeAll()
+            #endif
+        }
+
+        Function("getImageCacheStats") { () -> [String: Int] in
+            #if os(tvOS)
+            return ImageCache.shared.stats()
+            #else
+            return ["count": 0, "totalCostBytes": 0, "countLimit": 0, "costLimitBytes": 0]
+            #endif
+        }
+
+        Function("configureImageCache") { (countLimit: Int?, costLimitBytes: Int?) in
+            #if os(tvOS)
+            ImageCache.shared.configure(
+                countLimit: countLimit.map { max(0, $0) },
+                costLimitBytes: costLimitBytes.map { max(0, $0) }
+            )
+            #endif
+        }
+
         View(ExpoTvosSearchView.self) {
-            Events("onSearch", "onSelectItem", "onError", "onValidationWarning", "onSearchFieldFocused", "onSearchFieldBlurred")
+            Events("onSearch", "onSelectItem", "onError", "onValidationWarning", "onSearchFieldFocused", "onSearchFieldBlurred", "onEndReached", "onFocusItem", "onBlurItem", "onSelectRecentSearch", "onClearHistory", "onSelectSuggestion", "onScopeChange", "onItemAction")
+
+            OnViewDidUpdateProps { (view: ExpoTvosSearchView) in
+                // Props are clamped one at a time; check they fit together once all are applied
+                view.checkGridFits()
+            }
 
             Prop("results") { (view: ExpoTvosSearchView, results: [[String: Any]]) in
                 // Limit results array size to prevent memory issues
@@ -44,6 +107,56 @@ public class ExpoTvosSearchModule: Module {
                 view.updateResults(limitedResults)
             }
 
+            Prop("sections") { (view: ExpoTvosSearchView, sections: [[String: Any]]) in
+                // The results cap applies across all sections combined
+                var remaining = Self.maxResults
+                var totalResults = 0
+                var limitedSections: [[String: Any]] = []
+
+                for section in sections {
+                    var limited = section
+                    let results = section["results"] as? [[String: Any]] ?? []
+                    totalResults += results.count
+                    let kept = Array(results.prefix(remaining))
+                    remaining -= kept.count
+                    limited["results"] = kept
+
+                    if var layout = section["layout"] as? [String: Any] {
+                        let sectionId = section["id"] as? String ?? ""
+                        if let columns = (layout["columns"] as? NSNumber)?.intValue {
+                            let clamped = Self.clampSectionLayout(
+                                Double(columns),
+                                name: "columns",
+                                range: Double(Self.minColumns)...Double(Self.maxColumns),
+                                sectionId: sectionId,
+                                view: view
+                            )
+                            layout["columns"] = Int(clamped)
+                        }
+                        for key in ["cardWidth", "cardHeight"] {
+                            if let value = (layout[key] as? NSNumber)?.doubleValue {
+                                layout[key] = Self.clampSectionLayout(value, name: key, range: 50...1000, sectionId: sectionId, view: view)
+                            }
+                        }
+                        limited["layout"] = layout
+                    }
+                    limitedSections.append(limited)
+                }
+
+                if totalResults > Self.maxResults {
+                    view.onValidationWarning([
+                        "type": "value_clamped",
+                        "message": "Results array truncated from \(totalResults) to \(Self.maxResults) items",
+                        "context": "maxResults=\(Self.maxResults)"
+                    ])
+                }
+                view.updateSections(limitedSections)
+            }
+
+            Prop("defaultActions") { (view: ExpoTvosSearchView, actions: [[String: Any]]) in
+                view.updateDefaultActions(actions)
+            }
+
             Prop("columns") { (view: ExpoTvosSearchView, columns: Int) in
                 // Clamp columns between min and max for safe grid layout
                 let clampedValue = min(max(Self.minColumns, columns), Self.maxColumns)
@@ -85,6 +198,10 @@ public class ExpoTvosSearchModule: Module {
                 view.showFocusBorder = showFocusBorder
             }
 
+            Prop("renderInitials") { (view: ExpoTvosSearchView, renderInitials: Bool) in
+                view.renderInitials = renderInitials
+            }
+
             Prop("topInset") { (view: ExpoTvosSearchView, topInset: Double) in
                 // Clamp to non-negative values (max 500 points reasonable for any screen)
                 let clampedValue = min(max(0, topInset), 500)
@@ -135,6 +252,67 @@ public class ExpoTvosSearchModule: Module {
                 view.noResultsHintText = Self.truncateString(text, propName: "noResultsHintText", view: view)
             }
 
+            Prop("recentSearches") { (view: ExpoTvosSearchView, queries: [String]) in
+                let limitedQueries = Array(queries.prefix(Self.maxRecentSearches))
+                if queries.count > Self.maxRecentSearches {
+                    view.onValidationWarning([
+                        "type": "value_clamped",
+                        "message": "recentSearches truncated from \(queries.count) to \(Self.maxRecentSearches) items",
+                        "context": "maxRecentSearches=\(Self.maxRecentSearches)"
+                    ])
+                }
+                view.recentSearches = limitedQueries.map {
+                    Self.truncateString($0, propName: "recentSearches item", view: view)
+                }
+            }
+
+            Prop("suggestions") { (view: ExpoTvosSearchView, suggestions: [[String: Any]]) in
+                let limitedSuggestions = Array(suggestions.prefix(Self.maxSuggestions))
+                if suggestions.count > Self.maxSuggestions {
+                    view.onValidationWarning([
+                        "type": "value_clamped",
+                        "message": "suggestions truncated from \(suggestions.count) to \(Self.maxSuggestions) items",
+                        "context": "maxSuggestions=\(Self.maxSuggestions)"
+                    ])
+                }
+                view.updateSuggestions(limitedSuggestions)
+            }
+
+            Prop("scopes") { (view: ExpoTvosSearchView, scopes: [[String: Any]]) in
+                let limitedScopes = Array(scopes.prefix(Self.maxScopes))
+                if scopes.count > Self.maxScopes {
+                    view.onValidationWarning([
+                        "type": "value_clamped",
+                        "message": "scopes truncated from \(scopes.count) to \(Self.maxScopes) items",
+                        "context": "maxScopes=\(Self.maxScopes)"
+                    ])
+                }
+                view.updateScopes(limitedScopes)
+            }
+
+            Prop("selectedScope") { (view: ExpoTvosSearchView, scopeId: String?) in
+                view.selectedScopeProp = scopeId
+            }
+
+            Prop("recentSearchesTitle") { (view: ExpoTvosSearchView, text: String) in
+                view.recentSearchesTitle = Self.truncateString(text, propName: "recentSearchesTitle", view: view)
+            }
+
+            Prop("clearHistoryText") { (view: ExpoTvosSearchView, text: String) in
+                view.clearHistoryText = Self.truncateString(text, propName: "clearHistoryText", view: view)
+            }
+
+            Prop("accessibilityResultsAnnouncement") { (view: ExpoTvosSearchView, text: String) in
+                view.accessibilityResultsAnnouncement = Self.truncateString(text, propName: "accessibilityResultsAnnouncement", view: view)
+            }
+
+            // Sent as `accessibilityLabel` from JS, renamed so it doesn't label the whole view
+            Prop("searchFieldAccessibilityLabel") { (view: ExpoTvosSearchView, label: String?) in
+                view.searchFieldAccessibilityLabel = label.map {
+                    Self.truncateString($0, propName: "accessibilityLabel", view: view)
+                }
+            }
+
             Prop("textColor") { (view: ExpoTvosSearchView, colorHex: String?) in
                 view.textColor = colorHex
             }
@@ -210,6 +388,52 @@ public class ExpoTvosSearchModule: Module {
                 }
                 view.overlayTitleSize = CGFloat(clampedValue)
             }
+
+            Prop("hasMore") { (view: ExpoTvosSearchView, hasMore: Bool) in
+                view.hasMore = hasMore
+            }
+
+            Prop("isLoadingMore") { (view: ExpoTvosSearchView, isLoadingMore: Bool) in
+                view.isLoadingMore = isLoadingMore
+            }
+
+            Prop("onEndReachedThreshold") { (view: ExpoTvosSearchView, rows: Int) in
+                // Threshold is in rows from the end of the grid
+                let clampedValue = min(max(0, rows), Self.maxEndReachedThreshold)
+                if clampedValue != rows {
+                    view.onValidationWarning([
+                        "type": "value_clamped",
+                        "message": "onEndReachedThreshold value \(rows) was clamped to range [0, \(Self.maxEndReachedThreshold)]",
+                        "context": "onEndReachedThreshold=\(clampedValue)"
+                    ])
+                }
+                view.onEndReachedThreshold = clampedValue
+            }
+
+            // Imperative commands, called from JS through the TvosSearchViewHandle ref
+            AsyncFunction("focusSearchField") { (view: ExpoTvosSearchView) in
+                view.focusSearchField()
+            }.runOnQueue(.main)
+
+            AsyncFunction("blurSearchField") { (view: ExpoTvosSearchView) in
+                view.blurSearchField()
+            }.runOnQueue(.main)
+
+            AsyncFunction("clear") { (view: ExpoTvosSearchView) in
+                view.clearSearchText()
+            }.runOnQueue(.main)
+
+            AsyncFunction("setQuery") { (view: ExpoTvosSearchView, text: String, emit: Bool) in
+                view.setSearchText(Self.truncateString(text, propName: "setQuery text", view: view), emit: emit)
+            }.runOnQueue(.main)
+
+            AsyncFunction("scrollToTop") { (view: ExpoTvosSearchView) in
+                view.scrollToTop()
+            }.runOnQueue(.main)
+
+            AsyncFunction("scrollToItem") { (view: ExpoTvosSearchView, id: String) in
+                view.scrollToItem(id)
+            }.runOnQueue(.main)
         }
     }
 }
@@ -8,15 +8,66 @@ private let RCTTVEnableGestureHandlersCancelTouchesNotification = Notification.N
 
 #if os(tvOS)
 
+/// A scroll request issued from JS via the imperative ref API.
+/// `token` makes repeated requests for the same target distinct so `onChange` fires each time.
+struct ScrollTarget: Equatable {
+    /// Result id to scroll to, or nil to scroll to the top of the grid
+    let id: String?
+    let token = UUID()
+}
+
 /// ObservableObject that holds state for the search view.
 /// This allows updating properties without recreating the entire view hierarchy.
 class SearchViewModel: ObservableObject {
-    @Published var results: [SearchResultItem] = []
-    @Published var isLoading: Bool = false
+    @Published var results: [SearchResultItem] = [] {
+        didSet { scheduleAnnouncement() }
+    }
+    /// Grouped results; when non-empty, rendered instead of `results`
+    @Published var sections: [SearchSectionItem] = [] {
+        didSet { scheduleAnnouncement() }
+    }
+    @Published var isLoading: Bool = false {
+        didSet { scheduleAnnouncement() }
+    }
     @Published var searchText: String = ""
 
     var onSearch: ((String) -> Void)?
-    var onSelectItem: ((String) -> Void)?
+    /// Called with the selected result id and, for sectioned results, its section id
+    var onSelectItem: ((String, String?) -> Void)?
+    /// Called with the result id, its index (within its section, if any) and section id
+    var onFocusItem: ((String, Int, String?) -> Void)?
+    var onBlurItem: ((String, Int, String?) -> Void)?
+
+    var onSelectRecentSearch: ((String) -> Void)?
+    var onClearHistory: (() -> Void)?
+    var onSelectSuggestion: ((SearchSuggestionItem) -> Void)?
+    /// Called with the id of the scope the user picked
+    var onScopeChange: ((String) -> Void)?
+    /// Called with the result id, the chosen action id and, for sectioned results, its section id
+    var onItemAction: ((String, String, String?) -> Void)?
+
+    /// Text set via `setQuery(text, { emit: false })`; its onChange must not fire onSearch
+    var suppressedSearchText: String? = nil
+
+    /// Latest scroll request from JS (`scrollToTop` / `scrollToItem`)
+    @Published var scrollTarget: ScrollTarget? = nil
+
+    // Pagination options (configurable from JS)
+    @Published var hasMore: Bool = false
+    @Published var isLoadingMore: Bool = false {
+        didSet {
+            // A finished page load (successful or not) re-arms onEndReached
+            if oldValue && !isLoadingMore {
+                endReachedResultCount = nil
+            }
+        }
+    }
+    var endReachedThreshold: Int = 1
+    var onEndReached: ((Int) -> Void)?
+
+    /// Result count when onEndReached last fired, so it fires once per page
+    private var endReachedResultCount: Int? = nil
+
     @Published var columns: Int = 5
     @Published var placeholder: String = "Search..."
 
@@ -24,6 +75,8 @@ class SearchViewModel: ObservableObject {
     @Published var showTitle: Bool = false
     @Published var showSubtitle: Bool = false
     @Published var showFocusBorder: Bool = false
+    /// Draw a colored tile with the title's initials behind images and for results without one
+    @Published var renderInitials: Bool = false
     @Published var topInset: CGFloat = 0  // Extra top padding for tab bar
 
     // Title overlay options (configurable from JS)
@@ -37,6 +90,32 @@ class SearchViewModel: ObservableObject {
     @Published var noResultsText: String = "No results found"
     @Published var noResultsHintText: String = "Try a different search term"
 
+    // Recent searches shown in the empty state (configurable from JS)
+    @Published var recentSearches: [String] = []
+    @Published var recentSearchesTitle: String = "Recent Searches"
+    @Published var clearHistoryText: String = "Clear Recent Searches"
+
+    /// Query suggestions listed below the search field (configurable from JS)
+    @Published var suggestions: [SearchSuggestionItem] = []
+
+    /// Scopes shown in the scope bar (configurable from JS)
+    @Published var scopes: [SearchScopeItem] = []
+    /// Id of the selected scope, or "" without scopes. Switching from one scope
+    /// to another with a query in the field searches it again in the new scope.
+    @Published var selectedScope: String = "" {
+        didSet {
+            guard !oldValue.isEmpty, !selectedScope.isEmpty, oldValue != selectedScope,
+                  !searchText.isEmpty else { return }
+            onSearch?(searchText)
+        }
+    }
+    /// Scope set by JS through `selectedScope`, or nil when the view picks its own.
+    /// While set, the user's picks are only reported; JS switches by updating the prop.
+    var controlledScope: String? = nil
+
+    /// Context menu actions for results that don't define their own (configurable from JS)
+    @Published var defaultActions: [SearchResultAction] = []
+
     // Color customization options (configurable from JS)
     @Published var textColor: Color? = nil
     @Published var accentColor: Color = Color(red: 1, green: 0.765, blue: 0.07) // #FFC312 (gold)
@@ -52,6 +131,111 @@ class SearchViewModel: ObservableObject {
     @Published var cardMargin: CGFloat = 40  // Spacing between cards
     @Published var cardPadding: CGFloat = 16  // Padding inside cards
     @Published var overlayTitleSize: CGFloat = 20  // Font size for overlay title
+
+    // VoiceOver announcements (configurable from JS)
+    /// Template with `{count}` and `{query}` placeholders; JS picks the plural form
+    var resultsAnnouncement: String = "{count} results"
+    /// Posts an announcement; set by ExpoTvosSearchView
+    var onAnnounce: ((String) -> Void)?
+
+    /// Last announcement and the query it was for, so unrelated updates don't repeat it
+    private var lastAnnouncement: (text: String, query: String)? = nil
+    private var announcementScheduled = false
+
+    /// Number of results shown, flat or across sections
+    var resultCount: Int {
+        sections.isEmpty ? results.count : sections.reduce(0) { $0 + $1.results.count }
+    }
+
+    /// What VoiceOver should hear for the current state: the searching text while
+    /// loading, then the result count or no-results text. Nil while the field is empty.
+    func currentAnnouncement() -> String? {
+        guard !searchText.isEmpty else { return nil }
+        if isLoading {
+            return hasResults ? nil : searchingText
+        }
+        guard hasResults else { return noResultsText }
+        return resultsAnnouncement
+            .replacingOccurrences(of: "{count}", with: String(resultCount))
+            .replacingOccurrences(of: "{query}", with: searchText)
+    }
+
+    /// Announces the current state unless it was already announced for this query.
+    func announceIfChanged() {
+        guard let text = currentAnnouncement() else { return }
+        guard lastAnnouncement?.text != text || lastAnnouncement?.query != searchText else { return }
+        lastAnnouncement = (text: text, query: searchText)
+        onAnnounce?(text)
+    }
+
+    /// Coalesces the prop updates of one render (results, isLoading) into one announcement.
+    private func scheduleAnnouncement() {
+        guard !announcementScheduled else { return }
+        announcementScheduled = true
+        DispatchQueue.main.async { [weak self] in
+            guard let self = self else { return }
+            self.announcementScheduled = false
+            self.announceIfChanged()
+        }
+    }
+
+    /// Runs a recent search: reports the selection, then fills the field,
+    /// which fires onSearch like typing the query would.
+    func selectRecentSearch(_ query: String) {
+        onSelectRecentSearch?(query)
+        searchText = query
+    }
+
+    /// Runs a suggestion the same way as a recent search. The field's onChange fires
+    /// onSearch once, so JS never has to echo the text back through `searchText`.
+    func selectSuggestion(_ suggestion: SearchSuggestionItem) {
+        onSelectSuggestion?(suggestion)
+        searchText = suggestion.text
+    }
+
+    /// Reports a scope the user picked, then switches to it (which searches again)
+    /// unless `controlledScope` is set
+    func selectScope(_ id: String) {
+        guard id != selectedScope else { return }
+        onScopeChange?(id)
+        if controlledScope == nil {
+            selectedScope = id
+        }
+    }
+
+    /// Context menu actions for a result: its own when set (even if empty), otherwise `defaultActions`
+    func actions(for item: SearchResultItem) -> [SearchResultAction] {
+        item.actions ?? defaultActions
+    }
+
+    /// Whether there is anything to show in the grid, flat or sectioned
+    var hasResults: Bool {
+        !results.isEmpty || sections.contains { !$0.results.isEmpty }
+    }
+
+    /// Called when the card at `index` appears. Fires onEndReached when the card is
+    /// within `endReachedThreshold` rows of the last row and more results are available.
+    func resultDidAppear(at index: Int) {
+        guard hasMore, !isLoadingMore, endReachedResultCount != results.count else { return }
+        let perRow = max(columns, 1)
+        let lastRow = (results.count - 1) / perRow
+        guard lastRow - index / perRow <= endReachedThreshold else { return }
+        endReachedResultCount = results.count
+        onEndReached?(results.count)
+    }
+
+    /// Replaces the results, appending in place when `newResults` extends the current
+    /// list so cards already on screen keep their position and focus.
+    func applyResults(_ newResults: [SearchResultItem]) {
+        let current = results
+        if !current.isEmpty,
+           newResults.count > current.count,
+           Array(newResults.prefix(current.count)) == current {
+            results.append(contentsOf: newResults[current.count...])
+        } else {
+            results = newResults
+        }
+    }
 }
 
 class ExpoTvosSearchView: ExpoView {
@@ -64,6 +248,15 @@ class ExpoTvosSearchView: ExpoView {
     /// Maximum length for data: URIs to prevent memory exhaustion (~750KB decoded).
     private static let maxDataUrlLength = 1_000_000
 
+    /// Longest valid placeholder hash: a 9×9-component BlurHash is 166 characters.
+    private static let maxPlaceholderHashLength = 200
+
+    /// Valid range for a result's watch progress.
+    private static let progressRange: ClosedRange<Double> = 0...1
+
+    /// Valid range for a result's aspect ratio (width / height), from tall banners to wide strips.
+    private static let aspectRatioRange: ClosedRange<Double> = 0.25...4
+
     // Track if we've disabled RN gesture handlers for keyboard input
     private var gestureHandlersDisabled = false
 
@@ -90,6 +283,16 @@ class ExpoTvosSearchView: ExpoView {
         }
     }
 
+    /// Scope selected from JS; controls the selection while it names one of the scopes
+    var selectedScopeProp: String? = nil {
+        didSet {
+            // After any pending scopes update, which is also applied asynchronously
+            DispatchQueue.main.async { [weak self] in
+                self?.applySelectedScope()
+            }
+        }
+    }
+
     var isLoading: Bool = false {
         didSet {
             viewModel.isLoading = isLoading
@@ -114,6 +317,12 @@ class ExpoTvosSearchView: ExpoView {
         }
     }
 
+    var renderInitials: Bool = false {
+        didSet {
+            viewModel.renderInitials = renderInitials
+        }
+    }
+
     var topInset: CGFloat = 0 {
         didSet {
             viewModel.topInset = topInset
@@ -216,6 +425,19 @@ class ExpoTvosSearchView: ExpoView {
         }
     }
 
+    var accessibilityResultsAnnouncement: String = "{count} results" {
+        didSet {
+            viewModel.resultsAnnouncement = accessibilityResultsAnnouncement
+        }
+    }
+
+    /// VoiceOver label for the search field; nil keeps the system label (the placeholder)
+    var searchFieldAccessibilityLabel: String? = nil {
+        didSet {
+            applySearchFieldAccessibilityLabel()
+        }
+    }
+
     var cardPadding: CGFloat = 16 {
         didSet {
             viewModel.cardPadding = cardPadding
@@ -228,12 +450,57 @@ class ExpoTvosSearchView: ExpoView {
         }
     }
 
+    var recentSearches: [String] = [] {
+        didSet {
+            viewModel.recentSearches = recentSearches
+        }
+    }
+
+    var recentSearchesTitle: String = "Recent Searches" {
+        didSet {
+            viewModel.recentSearchesTitle = recentSearchesTitle
+        }
+    }
+
+    var clearHistoryText: String = "Clear Recent Searches" {
+        didSet {
+            viewModel.clearHistoryText = clearHistoryText
+        }
+    }
+
+    var hasMore: Bool = false {
+        didSet {
+            viewModel.hasMore = hasMore
+        }
+    }
+
+    var isLoadingMore: Bool = false {
+        didSet {
+            viewModel.isLoadingMore = isLoadingMore
+        }
+    }
+
+    // Validation is handled by ExpoTvosSearchModule
+    var onEndReachedThreshold: Int = 1 {
+        didSet {
+            viewModel.endReachedThreshold = onEndReachedThreshold
+        }
+    }
+
     let onSearch = EventDispatcher()
     let onSelectItem = EventDispatcher()
     let onError = EventDispatcher()
     let onValidationWarning = EventDispatcher()
     let onSearchFieldFocused = EventDispatcher()
     let onSearchFieldBlurred = EventDispatcher()
+    let onEndReached = EventDispatcher()
+    let onFocusItem = EventDispatcher()
+    let onBlurItem = EventDispatcher()
+    let onSelectRecentSearch = EventDispatcher()
+    let onClearHistory = EventDispatcher()
+    let onSelectSuggestion = EventDispatcher()
+    let onScopeChange = EventDispatcher()
+    let onItemAction = EventDispatcher()
 
     required init(appContext: AppContext? = nil) {
         super.init(appContext: appContext)
@@ -292,10 +559,51 @@ class ExpoTvosSearchView: ExpoView {
 
         // Configure viewModel callbacks
         viewModel.onSearch = { [weak self] query in
-            self?.onSearch(["query": query])
+            guard let self = self else { return }
+            var payload: [String: Any] = ["query": query]
+            if !self.viewModel.selectedScope.isEmpty {
+                payload["scopeId"] = self.viewModel.selectedScope
+            }
+            self.onSearch(payload)
+        }
+        viewModel.onSelectItem = { [weak self] id, sectionId in
+            var payload: [String: Any] = ["id": id]
+            if let sectionId = sectionId {
+                payload["sectionId"] = sectionId
+            }
+            self?.onSelectItem(payload)
+        }
+        viewModel.onFocusItem = { [weak self] id, index, sectionId in
+            self?.onFocusItem(Self.itemEventPayload(id: id, index: index, sectionId: sectionId))
+        }
+        viewModel.onBlurItem = { [weak self] id, index, sectionId in
+            self?.onBlurItem(Self.itemEventPayload(id: id, index: index, sectionId: sectionId))
+        }
+        viewModel.onSelectRecentSearch = { [weak self] query in
+            self?.onSelectRecentSearch(["query": query])
+        }
+        viewModel.onClearHistory = { [weak self] in
+            self?.onClearHistory([:])
+        }
+        viewModel.onSelectSuggestion = { [weak self] suggestion in
+            self?.onSelectSuggestion(["id": suggestion.id, "text": suggestion.text])
         }
-        viewModel.onSelectItem = { [weak self] id in
-            self?.onSelectItem(["id": id])
+        viewModel.onScopeChange = { [weak self] scopeId in
+            self?.onScopeChange(["scopeId": scopeId])
+        }
+        viewModel.onItemAction = { [weak self] itemId, actionId, sectionId in
+            var payload: [String: Any] = ["itemId": itemId, "actionId": actionId]
+            if let sectionId = sectionId {
+                payload["sectionId"] = sectionId
+            }
+            self?.onItemAction(payload)
+        }
+        viewModel.onEndReached = { [weak self] resultCount in
+            self?.onEndReached(["resultCount": resultCount])
+        }
+        viewModel.onAnnounce = { text in
+            guard UIAccessibility.isVoiceOverRunning else { return }
+            UIAccessibility.post(notification: .announcement, argument: text)
         }
 
         // Add hosting controller view with constraints
@@ -330,6 +638,15 @@ class ExpoTvosSearchView: ExpoView {
         )
     }
 
+    /// Builds the payload for item focus events, omitting `sectionId` for flat results.
+    private static func itemEventPayload(id: String, index: Int, sectionId: String?) -> [String: Any] {
+        var payload: [String: Any] = ["id": id, "index": index]
+        if let sectionId = sectionId {
+            payload["sectionId"] = sectionId
+        }
+        return payload
+    }
+
     // MARK: - View Controller Containment
 
     /// Manages UIHostingController child VC containment when the view moves
@@ -346,6 +663,10 @@ class ExpoTvosSearchView: ExpoView {
                 parentVC.addChild(controller)
                 controller.didMove(toParent: parentVC)
             }
+            // The search field is created once SwiftUI lays out .searchable
+            DispatchQueue.main.async { [weak self] in
+                self?.applySearchFieldAccessibilityLabel()
+            }
         } else {
             // View removed from window — tear down child VC relationship
             controller.willMove(toParent: nil)
@@ -421,6 +742,97 @@ class ExpoTvosSearchView: ExpoView {
         onSearchFieldBlurred([:])
     }
 
+    // MARK: - Imperative Commands
+
+    /// Finds the `.searchable` text field inside the hosting controller's view hierarchy.
+    private func findSearchTextField(in view: UIView? = nil) -> UITextField? {
+        guard let root = view ?? hostingController?.view else { return nil }
+        if let textField = root as? UITextField {
+            return textField
+        }
+        for subview in root.subviews {
+            if let textField = findSearchTextField(in: subview) {
+                return textField
+            }
+        }
+        return nil
+    }
+
+    private func applySearchFieldAccessibilityLabel() {
+        guard let label = searchFieldAccessibilityLabel else { return }
+        findSearchTextField()?.accessibilityLabel = label
+    }
+
+    func focusSearchField() {
+        guard let textField = findSearchTextField() else {
+            #if DEBUG
+            print("[expo-tvos-search] focusSearchField: search field not found in view hierarchy")
+            #endif
+            return
+        }
+        textField.becomeFirstResponder()
+    }
+
+    func blurSearchField() {
+        findSearchTextField()?.resignFirstResponder()
+    }
+
+    /// Clears the search field. Fires onSearch with an empty query, like a user clearing it.
+    func clearSearchText() {
+        viewModel.searchText = ""
+    }
+
+    /// Sets the search field text. When `emit` is false, onSearch is not fired for this change.
+    func setSearchText(_ text: String, emit: Bool) {
+        guard text != viewModel.searchText else { return }
+        if !emit {
+            viewModel.suppressedSearchText = text
+        }
+        viewModel.searchText = text
+    }
+
+    func scrollToTop() {
+        viewModel.scrollTarget = ScrollTarget(id: nil)
+    }
+
+    func scrollToItem(_ id: String) {
+        viewModel.scrollTarget = ScrollTarget(id: id)
+    }
+
+    // MARK: - Grid Fit Check
+
+    /// Width of a 1080p tvOS screen in points.
+    static let screenWidth: CGFloat = 1920
+
+    /// Horizontal padding on each side of the grid (see TvosSearchContentView).
+    static let gridHorizontalPadding: CGFloat = 60
+
+    // Last overflow reported, so unrelated prop updates don't repeat it
+    private var reportedGridOverflow: String?
+
+    /// Width the grid needs for the current columns, card width and margin.
+    static func requiredGridWidth(columns: Int, cardWidth: CGFloat, cardMargin: CGFloat) -> CGFloat {
+        CGFloat(columns) * cardWidth + CGFloat(max(columns - 1, 0)) * cardMargin + 2 * gridHorizontalPadding
+    }
+
+    /// Warns when columns × cardWidth plus margins is wider than the screen.
+    /// Each prop is clamped on its own, so this runs once all props of an update are set.
+    func checkGridFits() {
+        let required = Self.requiredGridWidth(columns: columns, cardWidth: cardWidth, cardMargin: cardMargin)
+        guard required > Self.screenWidth else {
+            reportedGridOverflow = nil
+            return
+        }
+        let context = "columns=\(columns), cardWidth=\(Int(cardWidth.rounded())), cardMargin=\(Int(cardMargin.rounded()))"
+        guard context != reportedGridOverflow else { return }
+        reportedGridOverflow = context
+        emitWarning(
+            type: "layout_overflow",
+            message: "\(columns) columns of \(Int(cardWidth.rounded()))pt cards need \(Int(required.rounded(.up)))pt, which overflows the \(Int(Self.screenWidth))pt screen",
+            context: context
+        )
+    }
+
     // MARK: - Validation Warning Helper
 
     /// Emits a validation warning event with optional debug-only context
@@ -463,17 +875,258 @@ class ExpoTvosSearchView: ExpoView {
         disabledGestureRecognizers.removeAll()
     }
 
-    func updateResults(_ results: [[String: Any]]) {
-        var validResults: [SearchResultItem] = []
+    /// Counts of result validation issues, reported once per results/sections update.
+    private struct ResultValidationStats {
         var skippedCount = 0
         var urlValidationFailures = 0
         var httpUrlCount = 0
         var truncatedFields = 0
+        var skippedActions = 0
+        var invalidPlaceholders = 0
+    }
+
+    func updateResults(_ results: [[String: Any]]) {
+        var stats = ResultValidationStats()
+        let validResults = parseResults(results, stats: &stats)
+        reportResultValidation(stats, validCount: validResults.count)
+
+        // Ensure UI updates happen on main thread
+        DispatchQueue.main.async { [weak self] in
+            self?.viewModel.applyResults(validResults)
+        }
+    }
+
+    /// Parses sections (already capped and clamped by ExpoTvosSearchModule).
+    /// Results are validated like `updateResults`, with warnings aggregated across sections.
+    func updateSections(_ sections: [[String: Any]]) {
+        var stats = ResultValidationStats()
+        var validSections: [SearchSectionItem] = []
+        var skippedSections = 0
+        let maxLen = Self.maxStringFieldLength
+
+        for (index, dict) in sections.enumerated() {
+            guard let id = dict["id"] as? String, !id.isEmpty else {
+                skippedSections += 1
+                #if DEBUG
+                print("[expo-tvos-search] Section at index \(index) skipped: missing or empty 'id' field")
+                #endif
+                continue
+            }
+
+            let title = dict["title"] as? String ?? ""
+            let layout = dict["layout"] as? [String: Any]
+            validSections.append(SearchSectionItem(
+                id: String(id.prefix(maxLen)),
+                title: String(title.prefix(maxLen)),
+                results: parseResults(dict["results"] as? [[String: Any]] ?? [], stats: &stats),
+                columns: (layout?["columns"] as? NSNumber)?.intValue,
+                cardWidth: (layout?["cardWidth"] as? NSNumber).map { CGFloat($0.doubleValue) },
+                cardHeight: (layout?["cardHeight"] as? NSNumber).map { CGFloat($0.doubleValue) }
+            ))
+        }
+
+        if skippedSections > 0 {
+            emitWarning(type: "validation_failed",
+                       message: "Skipped \(skippedSections) section(s) due to missing id",
+                       debugContext: "validSections=\(validSections.count), skipped=\(skippedSections)")
+        }
+        reportResultValidation(stats, validCount: validSections.reduce(0) { $0 + $1.results.count })
+
+        // Ensure UI updates happen on main thread
+        DispatchQueue.main.async { [weak self] in
+            self?.viewModel.sections = validSections
+        }
+    }
+
+    /// Parses suggestion dictionaries, skipping entries without an id or text.
+    /// The item cap is applied by ExpoTvosSearchModule.
+    func updateSuggestions(_ suggestions: [[String: Any]]) {
+        let maxLen = Self.maxStringFieldLength
+        var validSuggestions: [SearchSuggestionItem] = []
+        var skipped = 0
+
+        for dict in suggestions {
+            guard let id = dict["id"] as? String, !id.isEmpty,
+                  let text = dict["text"] as? String, !text.isEmpty else {
+                skipped += 1
+                continue
+            }
+            let icon = (dict["icon"] as? String).flatMap { $0.isEmpty ? nil : $0 }
+            validSuggestions.append(SearchSuggestionItem(
+                id: String(id.prefix(maxLen)),
+                text: String(text.prefix(maxLen)),
+                icon: icon
+            ))
+        }
+
+        if skipped > 0 {
+            emitWarning(type: "validation_failed",
+                       message: "Skipped \(skipped) suggestion(s) due to missing id or text",
+                       debugContext: "validSuggestions=\(validSuggestions.count), skipped=\(skipped)")
+        }
+
+        DispatchQueue.main.async { [weak self] in
+            self?.viewModel.suggestions = validSuggestions
+        }
+    }
+
+    /// Parses scope dictionaries, skipping entries without an id or title.
+    /// The item cap is applied by ExpoTvosSearchModule.
+    func updateScopes(_ scopes: [[String: Any]]) {
+        let maxLen = Self.maxStringFieldLength
+        var validScopes: [SearchScopeItem] = []
+        var skipped = 0
+
+        for dict in scopes {
+            guard let id = dict["id"] as? String, !id.isEmpty,
+                  let title = dict["title"] as? String, !title.isEmpty else {
+                skipped += 1
+                continue
+            }
+            validScopes.append(SearchScopeItem(
+                id: String(id.prefix(maxLen)),
+                title: String(title.prefix(maxLen))
+            ))
+        }
+
+        if skipped > 0 {
+            emitWarning(type: "validation_failed",
+                       message: "Skipped \(skipped) scope(s) due to missing id or title",
+                       debugContext: "validScopes=\(validScopes.count), skipped=\(skipped)")
+        }
+
+        DispatchQueue.main.async { [weak self] in
+            guard let self = self else { return }
+            if self.viewModel.scopes != validScopes {
+                self.viewModel.scopes = validScopes
+            }
+            self.applySelectedScope()
+        }
+    }
+
+    /// Reconciles the selected scope with `scopes`, like `useSearchScope` in src/scopes.ts:
+    /// a `selectedScope` prop naming a scope is always shown; otherwise the current scope
+    /// is kept while it exists, falling back to the first scope.
+    private func applySelectedScope() {
+        let ids = viewModel.scopes.map { $0.id }
+        let controlled = selectedScopeProp.flatMap { ids.contains($0) ? $0 : nil }
+        viewModel.controlledScope = controlled
+        let selected = controlled
+            ?? (ids.contains(viewModel.selectedScope) ? viewModel.selectedScope : ids.first ?? "")
+        if selected != viewModel.selectedScope {
+            viewModel.selectedScope = selected
+        }
+    }
+
+    func updateDefaultActions(_ actions: [[String: Any]]) {
+        var skipped = 0
+        let validActions = parseActions(actions, skipped: &skipped)
+        if skipped > 0 {
+            emitWarning(type: "validation_failed",
+                       message: "Skipped \(skipped) defaultActions item(s) with a missing id or title, or a duplicate id",
+                       debugContext: "Action ids must be unique within each list")
+        }
+
+        DispatchQueue.main.async { [weak self] in
+            self?.viewModel.defaultActions = validActions
+        }
+    }
+
+    /// Parses action dictionaries, skipping entries without an id or title and
+    /// repeated ids (the first one wins), which would break the menu's ForEach.
+    private func parseActions(_ actions: [[String: Any]], skipped: inout Int) -> [SearchResultAction] {
+        let maxLen = Self.maxStringFieldLength
+        var seenIds = Set<String>()
+        var validActions: [SearchResultAction] = []
+
+        for dict in actions {
+            guard let id = dict["id"] as? String, !id.isEmpty,
+                  let title = dict["title"] as? String, !title.isEmpty,
+                  !seenIds.contains(id) else {
+                skipped += 1
+                continue
+            }
+            seenIds.insert(id)
+            let systemImage = (dict["systemImage"] as? String).flatMap { $0.isEmpty ? nil : $0 }
+            validActions.append(SearchResultAction(
+                id: String(id.prefix(maxLen)),
+                title: String(title.prefix(maxLen)),
+                systemImage: systemImage,
+                destructive: dict["destructive"] as? Bool ?? false
+            ))
+        }
+
+        return validActions
+    }
+
+    /// Validates an image URL field, counting invalid and insecure URLs into `stats`.
+    /// Returns the URL when it can be loaded, or nil.
+    private func validateImageUrl(
+        _ value: Any?,
+        field: String,
+        title: String,
+        id: String,
+        stats: inout ResultValidationStats
+    ) -> String? {
+        guard let imageUrl = value as? String, !imageUrl.isEmpty else { return nil }
+
+        // Accept HTTP/HTTPS URLs, file: URLs (bundled assets), and data: URIs
+        guard let url = URL(string: imageUrl),
+              let scheme = url.scheme?.lowercased(),
+              ImageUrlParser.allowedSchemes.contains(scheme) else {
+            stats.urlValidationFailures += 1
+            #if DEBUG
+            print("[expo-tvos-search] Result '\(title)' (id: '\(id)'): invalid \(field) '\(imageUrl)'. Only HTTP/HTTPS URLs, file: URLs, and data: URIs are supported.")
+            #endif
+            return nil
+        }
+
+        // Warn about insecure HTTP URLs (HTTPS recommended)
+        if scheme == "http" {
+            stats.httpUrlCount += 1
+            #if DEBUG
+            print("[expo-tvos-search] Result '\(title)' (id: '\(id)'): using insecure HTTP URL. HTTPS is recommended for security.")
+            #endif
+        }
+
+        // Reject oversized data URIs to prevent memory exhaustion
+        if scheme == "data" && imageUrl.count > Self.maxDataUrlLength {
+            stats.urlValidationFailures += 1
+            #if DEBUG
+            print("[expo-tvos-search] Result '\(title)' (id: '\(id)'): data URL too large (\(imageUrl.count) chars, max \(Self.maxDataUrlLength)). Skipped.")
+            #endif
+            return nil
+        }
+        return imageUrl
+    }
+
+    /// Returns a blurhash or thumbhash string when `isValid` accepts it, counting malformed ones into `stats`.
+    private func validatePlaceholderHash(
+        _ value: Any?,
+        field: String,
+        id: String,
+        isValid: (String) -> Bool,
+        stats: inout ResultValidationStats
+    ) -> String? {
+        guard let hash = value as? String, !hash.isEmpty else { return nil }
+        guard hash.count <= Self.maxPlaceholderHashLength, isValid(hash) else {
+            stats.invalidPlaceholders += 1
+            #if DEBUG
+            print("[expo-tvos-search] Result '\(id)': malformed \(field) '\(hash.prefix(40))'. Ignored.")
+            #endif
+            return nil
+        }
+        return hash
+    }
+
+    /// Validates and sanitizes raw result dictionaries, counting issues into `stats`.
+    private func parseResults(_ results: [[String: Any]], stats: inout ResultValidationStats) -> [SearchResultItem] {
+        var validResults: [SearchResultItem] = []
 
         for (index, dict) in results.enumerated() {
             // Validate required fields
             guard let id = dict["id"] as? String, !id.isEmpty else {
-                skippedCount += 1
+                stats.skippedCount += 1
                 #if DEBUG
                 print("[expo-tvos-search] Result at index \(index) skipped: missing or empty 'id' field")
                 #endif
@@ -481,43 +1134,15 @@ class ExpoTvosSearchView: ExpoView {
             }
 
             guard let title = dict["title"] as? String, !title.isEmpty else {
-                skippedCount += 1
+                stats.skippedCount += 1
                 #if DEBUG
                 print("[expo-tvos-search] Result at index \(index) (id: '\(id)') skipped: missing or empty 'title' field")
                 #endif
                 continue
             }
 
-            // Validate and sanitize imageUrl if present
-            var validatedImageUrl: String? = nil
-            if let imageUrl = dict["imageUrl"] as? String, !imageUrl.isEmpty {
-                // Accept HTTP/HTTPS URLs, file: URLs (bundled assets), and data: URIs
-                if let url = URL(string: imageUrl),
-                   let scheme = url.scheme?.lowercased(),
-                   ImageUrlParser.allowedSchemes.contains(scheme) {
-                    // Reject oversized data URIs to prevent memory exhaustion
-                    if scheme == "data" && imageUrl.count > Self.maxDataUrlLength {
-                        urlValidationFailures += 1
-                        #if DEBUG
-                        print("[expo-tvos-search] Result '\(title)' (id: '\(id)'): data URL too large (\(imageUrl.count) chars, max \(Self.maxDataUrlLength)). Skipped.")
-                        #endif
-                    } else {
-                        validatedImageUrl = imageUrl
-                    }
-                    // Warn about insecure HTTP URLs (HTTPS recommended)
-                    if scheme == "http" {
-                        httpUrlCount += 1
-                        #if DEBUG
-                        print("[expo-tvos-search] Result '\(title)' (id: '\(id)'): using insecure HTTP URL. HTTPS is recommended for security.")
-                        #endif
-                    }
-                } else {
-                    urlValidationFailures += 1
-                    #if DEBUG
-                    print("[expo-tvos-search] Result '\(title)' (id: '\(id)'): invalid imageUrl '\(imageUrl)'. Only HTTP/HTTPS URLs, file: URLs, and data: URIs are supported.")
-                    #endif
-                }
-            }
+            let validatedImageUrl = validateImageUrl(dict["imageUrl"], field: "imageUrl", title: title, id: id, stats: &stats)
+            let validatedFallbackUrl = validateImageUrl(dict["fallbackImageUrl"], field: "fallbackImageUrl", title: title, id: id, stats: &stats)
 
             // Track if any fields were truncated
             let maxLen = Self.maxStringFieldLength
@@ -527,7 +1152,7 @@ class ExpoTvosSearchView: ExpoView {
             let subtitleTruncated = (subtitle?.count ?? 0) > maxLen
 
             if idTruncated || titleTruncated || subtitleTruncated {
-                truncatedFields += 1
+                stats.truncatedFields += 1
                 #if DEBUG
                 var truncatedList: [String] = []
                 if idTruncated { truncatedList.append("id (\(id.count) chars)") }
@@ -541,54 +1166,103 @@ class ExpoTvosSearchView: ExpoView {
                 id: String(id.prefix(maxLen)),
                 title: String(title.prefix(maxLen)),
                 subtitle: subtitle.map { String($0.prefix(maxLen)) },
-                imageUrl: validatedImageUrl
+                imageUrl: validatedImageUrl,
+                actions: (dict["actions"] as? [[String: Any]]).map {
+                    parseActions($0, skipped: &stats.skippedActions)
+                },
+                badges: Self.parseLines(dict["badges"]),
+                progress: (dict["progress"] as? NSNumber).map {
+                    clampResultValue($0.doubleValue, name: "progress", range: Self.progressRange, resultId: id)
+                },
+                metadata: Self.parseLines(dict["metadata"]),
+                aspectRatio: (dict["aspectRatio"] as? NSNumber).map {
+                    clampResultValue($0.doubleValue, name: "aspectRatio", range: Self.aspectRatioRange, resultId: id)
+                },
+                accessibilityLabel: Self.parseText(dict["accessibilityLabel"]),
+                accessibilityHint: Self.parseText(dict["accessibilityHint"]),
+                blurhash: validatePlaceholderHash(dict["blurhash"], field: "blurhash", id: id, isValid: BlurHashDecoder.isValid, stats: &stats),
+                thumbhash: validatePlaceholderHash(dict["thumbhash"], field: "thumbhash", id: id, isValid: ThumbHashDecoder.isValid, stats: &stats),
+                fallbackImageUrl: validatedFallbackUrl,
+                sourceIndex: index
             ))
         }
 
-        // Log summary of validation issues and emit warnings
+        return validResults
+    }
+
+    /// Non-empty strings from a badges/metadata array, truncated to the field length limit.
+    private static func parseLines(_ value: Any?) -> [String] {
+        guard let lines = value as? [String] else { return [] }
+        return lines.filter { !$0.isEmpty }.map { String($0.prefix(maxStringFieldLength)) }
+    }
+
+    /// A non-empty string truncated to the field length limit, or nil.
+    private static func parseText(_ value: Any?) -> String? {
+        guard let text = value as? String, !text.isEmpty else { return nil }
+        return String(text.prefix(maxStringFieldLength))
+    }
+
+    /// Clamps a per-result numeric field, emitting a warning that names the result.
+    private func clampResultValue(_ value: Double, name: String, range: ClosedRange<Double>, resultId: String) -> Double {
+        let clampedValue = min(max(range.lowerBound, value), range.upperBound)
+        if clampedValue != value {
+            emitWarning(type: "value_clamped",
+                       message: "result '\(resultId)' \(name) value \(value) was clamped to range [\(range.lowerBound), \(range.upperBound)]",
+                       context: "\(name)=\(clampedValue)")
+        }
+        return clampedValue
+    }
+
+    /// Logs a summary of validation issues and emits warnings for production monitoring.
+    private func reportResultValidation(_ stats: ResultValidationStats, validCount: Int) {
         #if DEBUG
-        if skippedCount > 0 {
-            print("[expo-tvos-search] Skipped \(skippedCount) result(s) due to missing required fields (id or title)")
+        if stats.skippedCount > 0 {
+            print("[expo-tvos-search] Skipped \(stats.skippedCount) result(s) due to missing required fields (id or title)")
         }
-        if urlValidationFailures > 0 {
-            print("[expo-tvos-search] \(urlValidationFailures) image URL(s) failed validation (non-HTTP/HTTPS or malformed)")
+        if stats.urlValidationFailures > 0 {
+            print("[expo-tvos-search] \(stats.urlValidationFailures) image URL(s) failed validation (non-HTTP/HTTPS or malformed)")
         }
-        if httpUrlCount > 0 {
-            print("[expo-tvos-search] \(httpUrlCount) image URL(s) use insecure HTTP. HTTPS is recommended.")
+        if stats.httpUrlCount > 0 {
+            print("[expo-tvos-search] \(stats.httpUrlCount) image URL(s) use insecure HTTP. HTTPS is recommended.")
         }
-        if truncatedFields > 0 {
-            print("[expo-tvos-search] Truncated \(truncatedFields) result(s) with fields exceeding maximum length (500 chars)")
+        if stats.truncatedFields > 0 {
+            print("[expo-tvos-search] Truncated \(stats.truncatedFields) result(s) with fields exceeding maximum length (500 chars)")
         }
-        if validResults.count > 0 {
-            print("[expo-tvos-search] Processed \(validResults.count) valid result(s)")
+        if validCount > 0 {
+            print("[expo-tvos-search] Processed \(validCount) valid result(s)")
         }
         #endif
 
         // Emit validation warnings for production monitoring
-        if skippedCount > 0 {
+        if stats.skippedCount > 0 {
             emitWarning(type: "validation_failed",
-                       message: "Skipped \(skippedCount) result(s) due to missing required fields",
-                       debugContext: "validResults=\(validResults.count), skipped=\(skippedCount)")
+                       message: "Skipped \(stats.skippedCount) result(s) due to missing required fields",
+                       debugContext: "validResults=\(validCount), skipped=\(stats.skippedCount)")
         }
-        if urlValidationFailures > 0 {
+        if stats.urlValidationFailures > 0 {
             emitWarning(type: "url_invalid",
-                       message: "\(urlValidationFailures) image URL(s) failed validation",
+                       message: "\(stats.urlValidationFailures) image URL(s) failed validation",
                        debugContext: "Non-HTTP/HTTPS or malformed URLs")
         }
-        if httpUrlCount > 0 {
+        if stats.httpUrlCount > 0 {
             emitWarning(type: "url_insecure",
-                       message: "\(httpUrlCount) image URL(s) use insecure HTTP. HTTPS is recommended.",
+                       message: "\(stats.httpUrlCount) image URL(s) use insecure HTTP. HTTPS is recommended.",
                        context: "Consider using HTTPS URLs")
         }
-        if truncatedFields > 0 {
+        if stats.truncatedFields > 0 {
             emitWarning(type: "field_truncated",
-                       message: "Truncated \(truncatedFields) result(s) with fields exceeding 500 characters",
+                       message: "Truncated \(stats.truncatedFields) result(s) with fields exceeding 500 characters",
                        debugContext: "Check id, title, or subtitle field lengths")
         }
-
-        // Ensure UI updates happen on main thread
-        DispatchQueue.main.async { [weak self] in
-            self?.viewModel.results = validResults
+        if stats.skippedActions > 0 {
+            emitWarning(type: "validation_failed",
+                       message: "Skipped \(stats.skippedActions) result action(s) with a missing id or title, or a duplicate id",
+                       debugContext: "Action ids must be unique within each list")
+        }
+        if stats.invalidPlaceholders > 0 {
+            emitWarning(type: "placeholder_invalid",
+                       message: "Ignored \(stats.invalidPlaceholders) malformed blurhash/thumbhash value(s)",
+                       debugContext: "Check the placeholder hash encoding")
         }
     }
 }
@@ -613,10 +1287,12 @@ class ExpoTvosSearchView: ExpoView {
     var columns: Int = 5
     var placeholder: String = "Search..."
     var searchTextProp: String? = nil
+    var selectedScopeProp: String? = nil
     var isLoading: Bool = false
     var showTitle: Bool = false
     var showSubtitle: Bool = false
     var showFocusBorder: Bool = false
+    var renderInitials: Bool = false
     var topInset: CGFloat = 0
     var showTitleOverlay: Bool = true
     var enableMarquee: Bool = true
@@ -634,6 +1310,14 @@ class ExpoTvosSearchView: ExpoView {
     var cardMargin: CGFloat = 40
     var cardPadding: CGFloat = 16
     var overlayTitleSize: CGFloat = 20
+    var recentSearches: [String] = []
+    var recentSearchesTitle: String = "Recent Searches"
+    var clearHistoryText: String = "Clear Recent Searches"
+    var hasMore: Bool = false
+    var isLoadingMore: Bool = false
+    var onEndReachedThreshold: Int = 1
+    var accessibilityResultsAnnouncement: String = "{count} results"
+    var searchFieldAccessibilityLabel: String? = nil
 
     // Event dispatchers required by ExpoTvosSearchModule's Event() registration.
     // Intentionally no-ops on non-tvOS — the fallback view never fires events.
@@ -643,6 +1327,14 @@ class ExpoTvosSearchView: ExpoView {
     let onValidationWarning = EventDispatcher()
     let onSearchFieldFocused = EventDispatcher()
     let onSearchFieldBlurred = EventDispatcher()
+    let onEndReached = EventDispatcher()
+    let onFocusItem = EventDispatcher()
+    let onBlurItem = EventDispatcher()
+    let onSelectRecentSearch = EventDispatcher()
+    let onClearHistory = EventDispatcher()
+    let onSelectSuggestion = EventDispatcher()
+    let onScopeChange = EventDispatcher()
+    let onItemAction = EventDispatcher()
 
     required init(appContext: AppContext? = nil) {
         super.init(appContext: appContext)
@@ -665,6 +1357,34 @@ class ExpoTvosSearchView: ExpoView {
     func updateResults(_ results: [[String: Any]]) {
         // No-op on non-tvOS
     }
+
+    func updateSections(_ sections: [[String: Any]]) {
+        // No-op on non-tvOS
+    }
+
+    func updateSuggestions(_ suggestions: [[String: Any]]) {
+        // No-op on non-tvOS
+    }
+
+    func updateScopes(_ scopes: [[String: Any]]) {
+        // No-op on non-tvOS
+    }
+
+    func updateDefaultActions(_ actions: [[String: Any]]) {
+        // No-op on non-tvOS
+    }
+
+    func checkGridFits() {
+        // No-op on non-tvOS
+    }
+
+    // Imperative commands registered by ExpoTvosSearchModule — no-ops on non-tvOS
+    func focusSearchField() {}
+    func blurSearchField() {}
+    func clearSearchText() {}
+    func setSearchText(_ text: String, emit: Bool) {}
+    func scrollToTop() {}
+    func scrollToItem(_ id: String) {}
 }
 
 #endif
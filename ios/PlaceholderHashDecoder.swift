@@ -0,0 +1,264 @@
+import Foundation
+
+/// RGBA pixels decoded from a placeholder hash, 4 bytes per pixel, row by row.
+struct PlaceholderBitmap: Equatable {
+    let width: Int
+    let height: Int
+    let rgba: [UInt8]
+}
+
+/// Validates and decodes BlurHash strings (https://blurha.sh).
+/// Extracted from view code to enable unit testing without tvOS target.
+/// Validation matches `isValidBlurhash` in src/placeholders.ts.
+struct BlurHashDecoder {
+
+    private static let base83Characters = Array("0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~")
+    private static let base83Values: [Character: Int] = Dictionary(
+        uniqueKeysWithValues: base83Characters.enumerated().map { ($1, $0) }
+    )
+
+    /// Decodes a run of base83 characters, or nil if one isn't in the alphabet.
+    private static func decode83<S: Sequence>(_ characters: S) -> Int? where S.Element == Character {
+        var value = 0
+        for character in characters {
+            guard let digit = base83Values[character] else { return nil }
+            value = value * 83 + digit
+        }
+        return value
+    }
+
+    /// Number of components encoded in the size flag, as (x, y).
+    private static func components(_ hash: [Character]) -> (x: Int, y: Int)? {
+        guard let first = hash.first, let sizeFlag = decode83([first]) else { return nil }
+        return (sizeFlag % 9 + 1, sizeFlag / 9 + 1)
+    }
+
+    /// Returns true when the hash only uses base83 characters and its length matches its size flag.
+    static func isValid(_ hash: String) -> Bool {
+        let characters = Array(hash)
+        guard characters.count >= 6,
+              let size = components(characters),
+              characters.count == 4 + 2 * size.x * size.y else {
+            return false
+        }
+        return characters.allSatisfy { base83Values[$0] != nil }
+    }
+
+    /// Decodes the hash into a width × height bitmap, or nil if it's invalid.
+    /// `punch` scales the contrast of the detail components.
+    static func decode(_ hash: String, width: Int, height: Int, punch: Double = 1) -> PlaceholderBitmap? {
+        guard width > 0, height > 0, isValid(hash) else { return nil }
+        let characters = Array(hash)
+        guard let size = components(characters),
+              let quantisedMaximum = decode83([characters[1]]),
+              let dc = decode83(characters[2..<6]) else {
+            return nil
+        }
+        let (componentsX, componentsY) = size
+        let maximumValue = Double(quantisedMaximum + 1) / 166
+
+        var colors: [(Double, Double, Double)] = [
+            (sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255))
+        ]
+        for index in 1..<(componentsX * componentsY) {
+            let start = 4 + index * 2
+            guard let value = decode83(characters[start..<(start + 2)]) else { return nil }
+            let component = { (quantised: Int) in
+                signedPow((Double(quantised) - 9) / 9, 2) * maximumValue * punch
+            }
+            colors.append((component(value / (19 * 19)), component((value / 19) % 19), component(value % 19)))
+        }
+
+        var rgba = [UInt8](repeating: 255, count: width * height * 4)
+        for y in 0..<height {
+            for x in 0..<width {
+                var (r, g, b) = (0.0, 0.0, 0.0)
+                for j in 0..<componentsY {
+                    for i in 0..<componentsX {
+                        let basis = cos(Double.pi * Double(x) * Double(i) / Double(width))
+                            * cos(Double.pi * Double(y) * Double(j) / Double(height))
+                        let color = colors[i + j * componentsX]
+                        r += color.0 * basis
+                        g += color.1 * basis
+                        b += color.2 * basis
+                    }
+                }
+                let offset = (y * width + x) * 4
+                rgba[offset] = linearToSRGB(r)
+                rgba[offset + 1] = linearToSRGB(g)
+                rgba[offset + 2] = linearToSRGB(b)
+            }
+        }
+        return PlaceholderBitmap(width: width, height: height, rgba: rgba)
+    }
+
+    private static func sRGBToLinear(_ value: Int) -> Double {
+        let v = Double(value) / 255
+        return v <= 0.04045 ? v / 12.92 : pow((v + 0.055) / 1.055, 2.4)
+    }
+
+    private static func linearToSRGB(_ value: Double) -> UInt8 {
+        let v = min(max(0, value), 1)
+        let encoded = v <= 0.0031308 ? v * 12.92 : 1.055 * pow(v, 1 / 2.4) - 0.055
+        return UInt8(encoded * 255 + 0.5)
+    }
+
+    private static func signedPow(_ value: Double, _ exponent: Double) -> Double {
+        (value < 0 ? -1 : 1) * pow(abs(value), exponent)
+    }
+}
+
+/// Validates and decodes base64 ThumbHash strings (https://evanw.github.io/thumbhash).
+/// Extracted from view code to enable unit testing without tvOS target.
+/// Validation matches `isValidThumbhash` in src/placeholders.ts.
+struct ThumbHashDecoder {
+
+    /// Header fields shared by validation and decoding.
+    private struct Header {
+        let lDC, pDC, qDC, lScale, pScale, qScale: Double
+        let hasAlpha: Bool
+        let lx, ly: Int
+        let acStart: Int
+    }
+
+    /// Number of AC coefficients for an nx × ny channel (the DC term is stored separately).
+    private static func coefficientCount(_ nx: Int, _ ny: Int) -> Int {
+        var count = 0
+        for cy in 0..<ny {
+            var cx = cy > 0 ? 0 : 1
+            while cx * ny < nx * (ny - cy) {
+                count += 1
+                cx += 1
+            }
+        }
+        return count
+    }
+
+    private static func header(_ bytes: [UInt8]) -> Header? {
+        guard bytes.count >= 5 else { return nil }
+        let header24 = Int(bytes[0]) | Int(bytes[1]) << 8 | Int(bytes[2]) << 16
+        let header16 = Int(bytes[3]) | Int(bytes[4]) << 8
+        let hasAlpha = header24 >> 23 != 0
+        let isLandscape = header16 >> 15 != 0
+        let lx = max(3, isLandscape ? (hasAlpha ? 5 : 7) : header16 & 7)
+        let ly = max(3, isLandscape ? header16 & 7 : (hasAlpha ? 5 : 7))
+        let acStart = hasAlpha ? 6 : 5
+        let count = coefficientCount(lx, ly) + 2 * coefficientCount(3, 3) + (hasAlpha ? coefficientCount(5, 5) : 0)
+        guard bytes.count >= acStart + (count + 1) / 2 else { return nil }
+        return Header(
+            lDC: Double(header24 & 63) / 63,
+            pDC: Double((header24 >> 6) & 63) / 31.5 - 1,
+            qDC: Double((header24 >> 12) & 63) / 31.5 - 1,
+            lScale: Double((header24 >> 18) & 31) / 31,
+            pScale: Double((header16 >> 3) & 63) / 63,
+            qScale: Double((header16 >> 9) & 63) / 63,
+            hasAlpha: hasAlpha,
+            lx: lx,
+            ly: ly,
+            acStart: acStart
+        )
+    }
+
+    /// Decodes standard base64, with or without padding.
+    private static func bytes(_ hash: String) -> [UInt8]? {
+        let padding = String(repeating: "=", count: (4 - hash.count % 4) % 4)
+        return Data(base64Encoded: hash + padding).map { [UInt8]($0) }
+    }
+
+    /// Returns true when the string is base64 and long enough for the channels its header declares.
+    static func isValid(_ hash: String) -> Bool {
+        guard let bytes = bytes(hash) else { return false }
+        return header(bytes) != nil
+    }
+
+    /// Decodes the hash into a bitmap of at most 32 × 32 pixels with the image's
+    /// approximate aspect ratio, or nil if it's invalid.
+    static func decode(_ hash: String) -> PlaceholderBitmap? {
+        guard let bytes = bytes(hash), let header = header(bytes) else { return nil }
+
+        let aDC = header.hasAlpha ? Double(bytes[5] & 15) / 15 : 1
+        let aScale = Double(bytes[5] >> 4) / 15
+
+        var acIndex = 0
+        func decodeChannel(_ nx: Int, _ ny: Int, _ scale: Double) -> [Double] {
+            var ac: [Double] = []
+            for cy in 0..<ny {
+                var cx = cy > 0 ? 0 : 1
+                while cx * ny < nx * (ny - cy) {
+                    let byte = bytes[header.acStart + (acIndex >> 1)]
+                    let nibble = (Int(byte) >> ((acIndex & 1) << 2)) & 15
+                    ac.append((Double(nibble) / 7.5 - 1) * scale)
+                    acIndex += 1
+                    cx += 1
+                }
+            }
+            return ac
+        }
+        let lAC = decodeChannel(header.lx, header.ly, header.lScale)
+        let pAC = decodeChannel(3, 3, header.pScale * 1.25)
+        let qAC = decodeChannel(3, 3, header.qScale * 1.25)
+        let aAC = header.hasAlpha ? decodeChannel(5, 5, aScale) : []
+
+        let ratio = Double(header.lx) / Double(header.ly)
+        let width = Int((ratio > 1 ? 32 : 32 * ratio).rounded())
+        let height = Int((ratio > 1 ? 32 / ratio : 32).rounded())
+
+        var rgba = [UInt8](repeating: 0, count: width * height * 4)
+        let fxCount = max(header.lx, header.hasAlpha ? 5 : 3)
+        let fyCount = max(header.ly, header.hasAlpha ? 5 : 3)
+        for y in 0..<height {
+            for x in 0..<width {
+                var (l, p, q, a) = (header.lDC, header.pDC, header.qDC, aDC)
+                let fx = (0..<fxCount).map { cos(Double.pi / Double(width) * (Double(x) + 0.5) * Double($0)) }
+                let fy = (0..<fyCount).map { cos(Double.pi / Double(height) * (Double(y) + 0.5) * Double($0)) }
+
+                var j = 0
+                for cy in 0..<header.ly {
+                    let fy2 = fy[cy] * 2
+                    var cx = cy > 0 ? 0 : 1
+                    while cx * header.ly < header.lx * (header.ly - cy) {
+                        l += lAC[j] * fx[cx] * fy2
+                        j += 1
+                        cx += 1
+                    }
+                }
+
+                j = 0
+                for cy in 0..<3 {
+                    let fy2 = fy[cy] * 2
+                    for cx in (cy > 0 ? 0 : 1)..<(3 - cy) {
+                        let f = fx[cx] * fy2
+                        p += pAC[j] * f
+                        q += qAC[j] * f
+                        j += 1
+                    }
+                }
+
+                if header.hasAlpha {
+                    j = 0
+                    for cy in 0..<5 {
+                        let fy2 = fy[cy] * 2
+                        for cx in (cy > 0 ? 0 : 1)..<(5 - cy) {
+                            a += aAC[j] * fx[cx] * fy2
+                            j += 1
+                        }
+                    }
+                }
+
+                let b = l - 2.0 / 3.0 * p
+                let r = (3 * l - b + q) / 2
+                let g = r - q
+                let offset = (y * width + x) * 4
+                rgba[offset] = toByte(r)
+                rgba[offset + 1] = toByte(g)
+                rgba[offset + 2] = toByte(b)
+                rgba[offset + 3] = toByte(a)
+            }
+        }
+        return PlaceholderBitmap(width: width, height: height, rgba: rgba)
+    }
+
+    private static func toByte(_ value: Double) -> UInt8 {
+        UInt8(max(0, 255 * min(1, value)))
+    }
+}
@@ -0,0 +1,99 @@
+#if os(tvOS)
+
+import SwiftUI
+
+extension PlaceholderBitmap {
+    /// Non-premultiplied RGBA image of the bitmap.
+    var uiImage: UIImage? {
+        guard let provider = CGDataProvider(data: Data(rgba) as CFData),
+              let cgImage = CGImage(
+                width: width,
+                height: height,
+                bitsPerComponent: 8,
+                bitsPerPixel: 32,
+                bytesPerRow: width * 4,
+                space: CGColorSpaceCreateDeviceRGB(),
+                bitmapInfo: CGBitmapInfo(rawValue: CGImageAlphaInfo.last.rawValue),
+                provider: provider,
+                decode: nil,
+                shouldInterpolate: true,
+                intent: .defaultIntent
+              ) else {
+            return nil
+        }
+        return UIImage(cgImage: cgImage)
+    }
+}
+
+/// Decoded placeholder hashes, keyed by hash, so cards don't decode them on every render.
+private let placeholderImageCache: NSCache<NSString, UIImage> = {
+    let cache = NSCache<NSString, UIImage>()
+    cache.countLimit = 500
+    return cache
+}()
+
+/// What a card shows behind its image while it loads, when it fails, or when
+/// there is none: the result's blurhash/thumbhash, an initials tile, or the photo icon.
+struct ResultPlaceholder: View {
+    let item: SearchResultItem
+    let renderInitials: Bool
+    /// Whether to draw the photo icon when there is no hash or initials tile
+    let showIcon: Bool
+    let width: CGFloat
+    let height: CGFloat
+
+    /// BlurHash is decoded at a small fixed size and scaled up; it's a blur anyway
+    private static let blurHashSize = 32
+
+    private var hashImage: UIImage? {
+        guard let hash = item.blurhash ?? item.thumbhash else { return nil }
+        if let cached = placeholderImageCache.object(forKey: hash as NSString) {
+            return cached
+        }
+        let bitmap = item.blurhash != nil
+            ? BlurHashDecoder.decode(hash, width: Self.blurHashSize, height: Self.blurHashSize)
+            : ThumbHashDecoder.decode(hash)
+        guard let image = bitmap?.uiImage else { return nil }
+        placeholderImageCache.setObject(image, forKey: hash as NSString)
+        return image
+    }
+
+    var body: some View {
+        if let image = hashImage {
+            Image(uiImage: image)
+                .resizable()
+                .frame(width: width, height: height)
+        } else if renderInitials {
+            initialsTile
+        } else if showIcon {
+            placeholderIcon
+        }
+    }
+
+    private var initialsTile: some View {
+        ZStack {
+            Color(hex: item.initialsColor) ?? Color.gray
+            Text(item.initials)
+                .font(.system(size: min(width, height) * 0.3, weight: .bold))
+                .foregroundColor(.white)
+                .lineLimit(1)
+                .minimumScaleFactor(0.5)
+        }
+        .frame(width: width, height: height)
+        .accessibilityHidden(true)
+    }
+
+    private var placeholderIcon: some View {
+        ZStack {
+            Circle()
+                .fill(Color.white.opacity(0.1))
+                .frame(width: 120, height: 120)
+
+            Image(systemName: "photo")
+                .font(.system(size: 60, weight: .light))
+                .foregroundColor(.white.opacity(0.7))
+        }
+    }
+}
+
+#endif
@@ -0,0 +1,10 @@
+import Foundation
+
+/// A context menu action shown when a result card is long-pressed.
+/// `systemImage` is an SF Symbol name.
+struct SearchResultAction: Identifiable, Equatable {
+    let id: String
+    let title: String
+    let systemImage: String?
+    let destructive: Bool
+}
@@ -46,11 +46,39 @@ private struct NoHaloButtonStyle: ButtonStyle {
     }
 }
 
+/// Attaches a long-press context menu, only when there are actions to show,
+/// so cards without actions keep the plain select behavior.
+private struct ResultActionsMenu: ViewModifier {
+    let actions: [SearchResultAction]
+    let onAction: (String) -> Void
+
+    func body(content: Content) -> some View {
+        if actions.isEmpty {
+            content
+        } else {
+            content.contextMenu {
+                ForEach(actions) { action in
+                    Button(role: action.destructive ? .destructive : nil) {
+                        onAction(action.id)
+                    } label: {
+                        if let systemImage = action.systemImage {
+                            Label(action.title, systemImage: systemImage)
+                        } else {
+                            Text(action.title)
+                        }
+                    }
+                }
+            }
+        }
+    }
+}
+
 struct SearchResultCard: View {
     let item: SearchResultItem
     let showTitle: Bool
     let showSubtitle: Bool
     let showFocusBorder: Bool
+    let renderInitials: Bool
     let showTitleOverlay: Bool
     let enableMarquee: Bool
     let marqueeDelay: Double
@@ -61,7 +89,13 @@ struct SearchResultCard: View {
     let imageContentMode: ContentMode
     let cardPadding: CGFloat
     let overlayTitleSize: CGFloat
+    /// Context menu actions shown on long press; no menu when empty
+    let actions: [SearchResultAction]
     let onSelect: () -> Void
+    /// Called with the id of the context menu action the user chose
+    let onAction: (String) -> Void
+    /// Called with the new focus state whenever the card gains or loses focus
+    let onFocusChange: (Bool) -> Void
     @FocusState private var isFocused: Bool
 
     private let placeholderColor = Color(white: 0.2)
@@ -96,8 +130,30 @@ struct SearchResultCard: View {
         )
     }
 
+    /// Image to load: `imageUrl`, or `fallbackImageUrl` when there is none
+    private var imageURL: URL? {
+        (item.imageUrl ?? item.fallbackImageUrl).flatMap { URL(string: $0) }
+    }
+
+    /// Image to load when `imageUrl` fails
+    private var fallbackImageURL: URL? {
+        guard item.imageUrl != nil else { return nil }
+        return item.fallbackImageUrl.flatMap { URL(string: $0) }
+    }
+
+    /// A hash or initials tile already fills the image area, so no loading spinner is needed
+    private var hasPlaceholder: Bool {
+        renderInitials || item.blurhash != nil || item.thumbhash != nil
+    }
+
+    /// Image height: derived from the result's aspect ratio when set, otherwise `cardHeight`
+    private var imageHeight: CGFloat {
+        guard let aspectRatio = item.aspectRatio, aspectRatio > 0 else { return cardHeight }
+        return cardWidth / CGFloat(aspectRatio)
+    }
+
     // Title overlay height
-    private var overlayHeight: CGFloat { cardHeight * 0.25 }  // 25% of card
+    private var overlayHeight: CGFloat { imageHeight * 0.25 }  // 25% of card
 
     /// Card visual content extracted to avoid duplication in version-gated body
     @ViewBuilder
@@ -108,18 +164,26 @@ struct SearchResultCard: View {
                 ZStack {
                     placeholderColor
 
-                    if let imageUrl = item.imageUrl, let url = URL(string: imageUrl) {
+                    ResultPlaceholder(
+                        item: item,
+                        renderInitials: renderInitials,
+                        showIcon: imageURL == nil,
+                        width: cardWidth,
+                        height: imageHeight
+                    )
+
+                    if let url = imageURL {
                         CachedAsyncImage(
                             url: url,
+                            fallbackUrl: fallbackImageURL,
                             contentMode: imageContentMode,
                             width: cardWidth,
-                            height: cardHeight
+                            height: imageHeight,
+                            showsProgress: !hasPlaceholder
                         )
-                    } else {
-                        placeholderIcon
                     }
                 }
-                .frame(width: cardWidth, height: cardHeight)
+                .frame(width: cardWidth, height: imageHeight)
                 .clipped()
 
                 // Title overlay with native material blur
@@ -151,8 +215,17 @@ struct SearchResultCard: View {
                     }
                     .frame(width: cardWidth, height: overlayHeight)
                 }
+
+                if let progress = item.progress {
+                    progressBar(progress)
+                }
+            }
+            .frame(width: cardWidth, height: imageHeight)
+            .overlay(alignment: .topLeading) {
+                if !item.badges.isEmpty {
+                    badgesRow
+                }
             }
-            .frame(width: cardWidth, height: cardHeight)
             .clipShape(cardShape)
             .overlay(
                 cardShape.stroke(shouldShowFocusBorder && isFocused ? focusBorderColor : Color.clear, lineWidth: 4)
@@ -175,6 +248,15 @@ struct SearchResultCard: View {
                             .foregroundColor(textColor ?? .secondary)
                             .lineLimit(1)
                     }
+
+                    if showSubtitle {
+                        ForEach(Array(item.metadata.enumerated()), id: \.offset) { _, line in
+                            Text(line)
+                                .font(.caption2)
+                                .foregroundColor(textColor ?? .secondary)
+                                .lineLimit(1)
+                        }
+                    }
                 }
                 .padding(cardPadding)
                 .frame(width: cardWidth, alignment: .leading)
@@ -192,27 +274,52 @@ struct SearchResultCard: View {
                 cardContent
             }
             .buttonStyle(.card)
+            .accessibilityLabel(item.resolvedAccessibilityLabel)
+            .accessibilityHint(item.accessibilityHint ?? "")
             .focused($isFocused)
+            .onChange(of: isFocused, perform: onFocusChange)
+            .modifier(ResultActionsMenu(actions: actions, onAction: onAction))
         } else {
             Button(action: onSelect) {
                 cardContent
             }
             .buttonStyle(NoHaloButtonStyle())
+            .accessibilityLabel(item.resolvedAccessibilityLabel)
+            .accessibilityHint(item.accessibilityHint ?? "")
             .focused($isFocused)
+            .onChange(of: isFocused, perform: onFocusChange)
+            .modifier(ResultActionsMenu(actions: actions, onAction: onAction))
         }
     }
 
-    private var placeholderIcon: some View {
-        ZStack {
-            Circle()
-                .fill(Color.white.opacity(0.1))
-                .frame(width: 120, height: 120)
+    /// Badges such as "NEW" or "4K" in the top leading corner of the image
+    private var badgesRow: some View {
+        HStack(spacing: 8) {
+            ForEach(Array(item.badges.enumerated()), id: \.offset) { _, badge in
+                Text(badge)
+                    .font(.caption2)
+                    .fontWeight(.bold)
+                    .foregroundColor(.white)
+                    .padding(.horizontal, 10)
+                    .padding(.vertical, 4)
+                    .background(Capsule().fill(Color.black.opacity(0.7)))
+            }
+        }
+        .padding(cardPadding)
+    }
 
-            Image(systemName: "photo")
-                .font(.system(size: 60, weight: .light))
-                .foregroundColor(.white.opacity(0.7))
+    /// Resume progress along the bottom edge of the image
+    private func progressBar(_ progress: Double) -> some View {
+        ZStack(alignment: .leading) {
+            Rectangle()
+                .fill(Color.white.opacity(0.3))
+            Rectangle()
+                .fill(accentColor)
+                .frame(width: cardWidth * CGFloat(progress))
         }
+        .frame(width: cardWidth, height: 6)
     }
+
 }
 
 #endif
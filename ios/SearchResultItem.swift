@@ -5,4 +5,55 @@ struct SearchResultItem: Identifiable, Equatable {
     let title: String
     let subtitle: String?
     let imageUrl: String?
+    /// Context menu actions for this result; nil falls back to the view's `defaultActions`
+    var actions: [SearchResultAction]? = nil
+    /// Short labels shown on the card image, e.g. "NEW" or "4K"
+    var badges: [String] = []
+    /// Watch progress in 0...1, drawn as a bar along the bottom of the image
+    var progress: Double? = nil
+    /// Extra lines shown below the subtitle, e.g. year, runtime or rating
+    var metadata: [String] = []
+    /// Image width divided by height; overrides the card height when set
+    var aspectRatio: Double? = nil
+    /// VoiceOver label; nil reads `defaultAccessibilityLabel`
+    var accessibilityLabel: String? = nil
+    /// VoiceOver hint describing what selecting the card does
+    var accessibilityHint: String? = nil
+    /// BlurHash drawn while the image loads, or instead of a missing image
+    var blurhash: String? = nil
+    /// Base64 ThumbHash, used like `blurhash` when that isn't set
+    var thumbhash: String? = nil
+    /// Image shown when `imageUrl` is missing or fails to load
+    var fallbackImageUrl: String? = nil
+    /// Position in the `results` array (or its section's) sent from JS, before invalid entries were skipped
+    var sourceIndex: Int? = nil
+
+    /// Tile colors for `renderInitials`, matching INITIALS_COLORS in src/placeholders.ts
+    static let initialsColors = ["#E53935", "#D81B60", "#8E24AA", "#3949AB", "#039BE5", "#00897B", "#43A047", "#FB8C00"]
+
+    /// Title, subtitle and badges, matching `buildAccessibilityLabel` in src/accessibility.ts
+    var defaultAccessibilityLabel: String {
+        ([title, subtitle ?? ""] + badges).filter { !$0.isEmpty }.joined(separator: ", ")
+    }
+
+    /// Label VoiceOver reads for the card
+    var resolvedAccessibilityLabel: String {
+        accessibilityLabel ?? defaultAccessibilityLabel
+    }
+
+    /// First letter or digit of the title's first two words, matching `getInitials` in src/placeholders.ts
+    var initials: String {
+        title.split(whereSeparator: { $0.isWhitespace })
+            .compactMap { word in word.first(where: { $0.isLetter || $0.isNumber }) }
+            .prefix(2)
+            .map { String($0).uppercased() }
+            .joined()
+    }
+
+    /// Initials tile color, stable per title, matching `getInitialsColor` in src/placeholders.ts
+    var initialsColor: String {
+        // djb2 over UTF-16 code units, wrapping like the JS implementation
+        let hash = title.utf16.reduce(UInt32(5381)) { $0 &* 33 &+ UInt32($1) }
+        return Self.initialsColors[Int(hash % UInt32(Self.initialsColors.count))]
+    }
 }
@@ -0,0 +1,7 @@
+import Foundation
+
+/// A search scope shown in the scope bar below the search field.
+struct SearchScopeItem: Identifiable, Equatable {
+    let id: String
+    let title: String
+}
@@ -0,0 +1,13 @@
+import Foundation
+import CoreGraphics
+
+/// A titled group of results with optional per-section card geometry.
+/// Nil layout values fall back to the view-level `columns`, `cardWidth` and `cardHeight`.
+struct SearchSectionItem: Identifiable, Equatable {
+    let id: String
+    let title: String
+    let results: [SearchResultItem]
+    let columns: Int?
+    let cardWidth: CGFloat?
+    let cardHeight: CGFloat?
+}
@@ -0,0 +1,9 @@
+import Foundation
+
+/// A query suggestion shown below the search field.
+/// `icon` is an SF Symbol name.
+struct SearchSuggestionItem: Identifiable, Equatable {
+    let id: String
+    let text: String
+    let icon: String?
+}
@@ -0,0 +1,82 @@
+import XCTest
+
+/// Unit tests for BlurHashDecoder and ThumbHashDecoder
+final class PlaceholderHashDecoderTests: XCTestCase {
+
+    private let blurhash = "LEHV6nWB2yk8pyo0adR*.7kCMdnj"
+    private let thumbhash = "1QcSHQRnh493V4dIh4eXh1h4kJUI"
+
+    // MARK: - BlurHash validation
+
+    func testBlurHashIsValid_wellFormedHash_returnsTrue() {
+        XCTAssertTrue(BlurHashDecoder.isValid(blurhash))
+        XCTAssertTrue(BlurHashDecoder.isValid("00TI:j"))
+    }
+
+    func testBlurHashIsValid_lengthMismatch_returnsFalse() {
+        XCTAssertFalse(BlurHashDecoder.isValid(String(blurhash.dropLast())))
+        XCTAssertFalse(BlurHashDecoder.isValid("LEHV6"))
+    }
+
+    func testBlurHashIsValid_nonBase83Character_returnsFalse() {
+        XCTAssertFalse(BlurHashDecoder.isValid("LEHV6nWB2yk8pyo0adR*.7kCMd j"))
+    }
+
+    // MARK: - BlurHash decoding
+
+    func testBlurHashDecode_returnsOpaqueBitmapOfRequestedSize() {
+        let bitmap = BlurHashDecoder.decode(blurhash, width: 32, height: 20)
+
+        XCTAssertEqual(bitmap?.width, 32)
+        XCTAssertEqual(bitmap?.height, 20)
+        XCTAssertEqual(bitmap?.rgba.count, 32 * 20 * 4)
+        XCTAssertEqual(bitmap?.rgba[3], 255)
+    }
+
+    func testBlurHashDecode_invalidHash_returnsNil() {
+        XCTAssertNil(BlurHashDecoder.decode("LEHV6", width: 32, height: 32))
+        XCTAssertNil(BlurHashDecoder.decode(blurhash, width: 0, height: 32))
+    }
+
+    // MARK: - ThumbHash validation
+
+    func testThumbHashIsValid_wellFormedHash_returnsTrue() {
+        XCTAssertTrue(ThumbHashDecoder.isValid(thumbhash))
+        XCTAssertTrue(ThumbHashDecoder.isValid("3OcRJYB4d3h/iIeHeEh3eIhw+j2w"))
+    }
+
+    func testThumbHashIsValid_acceptsMissingPadding() {
+        XCTAssertTrue(ThumbHashDecoder.isValid("1QcSHQRnh493V4dIh4eXh1h4kJUIAA"))
+    }
+
+    func testThumbHashIsValid_tooShortForHeader_returnsFalse() {
+        XCTAssertFalse(ThumbHashDecoder.isValid("1QcSHQRnh493V4dIh4eXh1h4"))
+        XCTAssertFalse(ThumbHashDecoder.isValid("1QcS"))
+    }
+
+    func testThumbHashIsValid_notBase64_returnsFalse() {
+        XCTAssertFalse(ThumbHashDecoder.isValid(blurhash))
+    }
+
+    // MARK: - ThumbHash decoding
+
+    func testThumbHashDecode_portraitHash_keepsAspectRatio() {
+        let bitmap = ThumbHashDecoder.decode(thumbhash)
+
+        // 5 × 7 luminance components: a portrait image
+        XCTAssertEqual(bitmap?.width, 23)
+        XCTAssertEqual(bitmap?.height, 32)
+        XCTAssertEqual(bitmap?.rgba.count, 23 * 32 * 4)
+    }
+
+    func testThumbHashDecode_landscapeHash_keepsAspectRatio() {
+        let bitmap = ThumbHashDecoder.decode("3OcRJYB4d3h/iIeHeEh3eIhw+j2w")
+
+        XCTAssertEqual(bitmap?.width, 32)
+        XCTAssertEqual(bitmap?.height, 23)
+    }
+
+    func testThumbHashDecode_invalidHash_returnsNil() {
+        XCTAssertNil(ThumbHashDecoder.decode("1QcS"))
+    }
+}
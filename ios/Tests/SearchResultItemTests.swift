@@ -195,6 +195,93 @@ final class SearchResultItemTests: XCTestCase {
 
         XCTAssertEqual(item.title, unicodeTitle)
     }
+
+    // MARK: - Rich Metadata
+
+    func testInit_richMetadataDefaults() {
+        let item = SearchResultItem(id: "1", title: "Test", subtitle: nil, imageUrl: nil)
+
+        XCTAssertNil(item.actions)
+        XCTAssertTrue(item.badges.isEmpty)
+        XCTAssertNil(item.progress)
+        XCTAssertTrue(item.metadata.isEmpty)
+        XCTAssertNil(item.aspectRatio)
+    }
+
+    func testInit_richMetadata() {
+        let item = SearchResultItem(
+            id: "1",
+            title: "Episode 4",
+            subtitle: "Season 2",
+            imageUrl: nil,
+            badges: ["NEW", "4K"],
+            progress: 0.4,
+            metadata: ["2024", "48 min"],
+            aspectRatio: 16.0 / 9.0
+        )
+
+        XCTAssertEqual(item.badges, ["NEW", "4K"])
+        XCTAssertEqual(item.progress, 0.4)
+        XCTAssertEqual(item.metadata, ["2024", "48 min"])
+        XCTAssertEqual(item.aspectRatio ?? 0, 16.0 / 9.0, accuracy: 0.0001)
+    }
+
+    func testEquatable_comparesRichMetadata() {
+        let item = SearchResultItem(id: "1", title: "Test", subtitle: nil, imageUrl: nil, progress: 0.2)
+        let resumed = SearchResultItem(id: "1", title: "Test", subtitle: nil, imageUrl: nil, progress: 0.6)
+
+        XCTAssertNotEqual(item, resumed)
+    }
+
+    // MARK: - Accessibility
+
+    func testDefaultAccessibilityLabel_joinsTitleSubtitleAndBadges() {
+        let item = SearchResultItem(id: "1", title: "Interstellar", subtitle: "2014", imageUrl: nil, badges: ["NEW", "4K"])
+
+        XCTAssertEqual(item.defaultAccessibilityLabel, "Interstellar, 2014, NEW, 4K")
+        XCTAssertEqual(item.resolvedAccessibilityLabel, "Interstellar, 2014, NEW, 4K")
+    }
+
+    func testDefaultAccessibilityLabel_skipsMissingSubtitle() {
+        let item = SearchResultItem(id: "1", title: "Interstellar", subtitle: nil, imageUrl: nil)
+
+        XCTAssertEqual(item.defaultAccessibilityLabel, "Interstellar")
+    }
+
+    func testResolvedAccessibilityLabel_prefersCustomLabel() {
+        let item = SearchResultItem(
+            id: "1",
+            title: "Interstellar",
+            subtitle: "2014",
+            imageUrl: nil,
+            accessibilityLabel: "Interstellar, science fiction",
+            accessibilityHint: "Opens the movie details"
+        )
+
+        XCTAssertEqual(item.resolvedAccessibilityLabel, "Interstellar, science fiction")
+        XCTAssertEqual(item.accessibilityHint, "Opens the movie details")
+    }
+
+    // MARK: - Placeholder Tests
+
+    func testInitials_usesFirstTwoWords() {
+        let item = SearchResultItem(id: "1", title: "star wars: a new hope", subtitle: nil, imageUrl: nil)
+
+        XCTAssertEqual(item.initials, "SW")
+    }
+
+    func testInitials_skipsPunctuation() {
+        let item = SearchResultItem(id: "1", title: "(500) Days of Summer", subtitle: nil, imageUrl: nil)
+
+        XCTAssertEqual(item.initials, "5D")
+    }
+
+    func testInitialsColor_matchesJavaScript() {
+        // getInitialsColor('Star Wars') in src/placeholders.ts
+        let item = SearchResultItem(id: "1", title: "Star Wars", subtitle: nil, imageUrl: nil)
+
+        XCTAssertEqual(item.initialsColor, "#039BE5")
+    }
 }
 
 #endif
@@ -155,13 +155,16 @@ final class SearchViewModelTests: XCTestCase {
 
     func testOnSelectItemCallback() {
         var capturedId: String?
-        viewModel.onSelectItem = { id in
+        var capturedSectionId: String?
+        viewModel.onSelectItem = { id, sectionId in
             capturedId = id
+            capturedSectionId = sectionId
         }
 
-        viewModel.onSelectItem?("item-123")
+        viewModel.onSelectItem?("item-123", nil)
 
         XCTAssertEqual(capturedId, "item-123")
+        XCTAssertNil(capturedSectionId)
     }
 
     func testOnSearchCallback_emptyQuery() {
@@ -180,7 +183,7 @@ final class SearchViewModelTests: XCTestCase {
         viewModel.onSelectItem = nil
 
         viewModel.onSearch?("test")
-        viewModel.onSelectItem?("test")
+        viewModel.onSelectItem?("test", nil)
     }
 
     // MARK: - Published Property Tests
@@ -197,6 +200,318 @@ final class SearchViewModelTests: XCTestCase {
         viewModel.searchText = "action"
         XCTAssertEqual(viewModel.searchText, "action")
     }
+
+    // MARK: - Imperative Command State
+
+    func testInitialState_noSuppressedSearchText() {
+        XCTAssertNil(viewModel.suppressedSearchText)
+    }
+
+    func testInitialState_noScrollTarget() {
+        XCTAssertNil(viewModel.scrollTarget)
+    }
+
+    func testScrollTarget_repeatedRequestsAreDistinct() {
+        let first = ScrollTarget(id: "item-1")
+        let second = ScrollTarget(id: "item-1")
+        XCTAssertNotEqual(first, second)
+    }
+
+    func testScrollTarget_nilIdMeansTop() {
+        viewModel.scrollTarget = ScrollTarget(id: nil)
+        XCTAssertNil(viewModel.scrollTarget?.id)
+    }
+
+    // MARK: - Pagination
+
+    private func makeItems(_ range: Range<Int>) -> [SearchResultItem] {
+        range.map { SearchResultItem(id: "\($0)", title: "Item \($0)", subtitle: nil, imageUrl: nil) }
+    }
+
+    func testInitialState_paginationDefaults() {
+        XCTAssertFalse(viewModel.hasMore)
+        XCTAssertFalse(viewModel.isLoadingMore)
+        XCTAssertEqual(viewModel.endReachedThreshold, 1)
+    }
+
+    func testResultDidAppear_firesWithinThreshold() {
+        var capturedCount: Int?
+        viewModel.onEndReached = { capturedCount = $0 }
+        viewModel.columns = 5
+        viewModel.hasMore = true
+        viewModel.results = makeItems(0..<20)  // 4 rows
+
+        viewModel.resultDidAppear(at: 9)  // row 1, two rows from the end
+        XCTAssertNil(capturedCount)
+
+        viewModel.resultDidAppear(at: 10)  // row 2, one row from the end
+        XCTAssertEqual(capturedCount, 20)
+    }
+
+    func testResultDidAppear_firesOncePerPage() {
+        var callCount = 0
+        viewModel.onEndReached = { _ in callCount += 1 }
+        viewModel.hasMore = true
+        viewModel.results = makeItems(0..<10)
+
+        viewModel.resultDidAppear(at: 9)
+        viewModel.resultDidAppear(at: 8)
+        XCTAssertEqual(callCount, 1)
+
+        viewModel.results = makeItems(0..<20)
+        viewModel.resultDidAppear(at: 19)
+        XCTAssertEqual(callCount, 2)
+    }
+
+    func testResultDidAppear_skippedWithoutHasMore() {
+        var fired = false
+        viewModel.onEndReached = { _ in fired = true }
+        viewModel.results = makeItems(0..<10)
+
+        viewModel.resultDidAppear(at: 9)
+        XCTAssertFalse(fired)
+    }
+
+    func testResultDidAppear_skippedWhileLoadingMore() {
+        var fired = false
+        viewModel.onEndReached = { _ in fired = true }
+        viewModel.hasMore = true
+        viewModel.isLoadingMore = true
+        viewModel.results = makeItems(0..<10)
+
+        viewModel.resultDidAppear(at: 9)
+        XCTAssertFalse(fired)
+    }
+
+    func testResultDidAppear_rearmedAfterLoadingMoreFinishes() {
+        var callCount = 0
+        viewModel.onEndReached = { _ in callCount += 1 }
+        viewModel.hasMore = true
+        viewModel.results = makeItems(0..<10)
+
+        viewModel.resultDidAppear(at: 9)
+        viewModel.isLoadingMore = true
+        viewModel.isLoadingMore = false  // e.g. the page request failed
+        viewModel.resultDidAppear(at: 9)
+        XCTAssertEqual(callCount, 2)
+    }
+
+    func testApplyResults_appendsWhenExtendingCurrentResults() {
+        viewModel.results = makeItems(0..<5)
+        viewModel.applyResults(makeItems(0..<8))
+        XCTAssertEqual(viewModel.results, makeItems(0..<8))
+    }
+
+    func testApplyResults_replacesWhenResultsDiffer() {
+        viewModel.results = makeItems(0..<5)
+        viewModel.applyResults(makeItems(10..<12))
+        XCTAssertEqual(viewModel.results, makeItems(10..<12))
+    }
+
+    // MARK: - Sections
+
+    func testInitialState_sectionsEmpty() {
+        XCTAssertTrue(viewModel.sections.isEmpty)
+        XCTAssertFalse(viewModel.hasResults)
+    }
+
+    func testHasResults_countsSectionResults() {
+        let item = SearchResultItem(id: "1", title: "Dune", subtitle: nil, imageUrl: nil)
+        viewModel.sections = [
+            SearchSectionItem(id: "people", title: "People", results: [], columns: nil, cardWidth: nil, cardHeight: nil)
+        ]
+        XCTAssertFalse(viewModel.hasResults)
+
+        viewModel.sections.append(
+            SearchSectionItem(id: "movies", title: "Movies", results: [item], columns: 4, cardWidth: 300, cardHeight: 450)
+        )
+        XCTAssertTrue(viewModel.hasResults)
+    }
+
+    func testOnSelectItemCallback_reportsSectionId() {
+        var capturedSectionId: String?
+        viewModel.onSelectItem = { _, sectionId in
+            capturedSectionId = sectionId
+        }
+
+        viewModel.onSelectItem?("dune", "movies")
+
+        XCTAssertEqual(capturedSectionId, "movies")
+    }
+
+    // MARK: - Item Focus
+
+    func testOnFocusItemCallback() {
+        var captured: (id: String, index: Int, sectionId: String?)?
+        viewModel.onFocusItem = { id, index, sectionId in
+            captured = (id, index, sectionId)
+        }
+
+        viewModel.onFocusItem?("dune", 3, "movies")
+
+        XCTAssertEqual(captured?.id, "dune")
+        XCTAssertEqual(captured?.index, 3)
+        XCTAssertEqual(captured?.sectionId, "movies")
+    }
+
+    func testFocusCallbacksNil_noError() {
+        viewModel.onFocusItem = nil
+        viewModel.onBlurItem = nil
+
+        viewModel.onFocusItem?("test", 0, nil)
+        viewModel.onBlurItem?("test", 0, nil)
+    }
+
+    // MARK: - Recent Searches
+
+    func testInitialState_recentSearchesDefaults() {
+        XCTAssertTrue(viewModel.recentSearches.isEmpty)
+        XCTAssertEqual(viewModel.recentSearchesTitle, "Recent Searches")
+        XCTAssertEqual(viewModel.clearHistoryText, "Clear Recent Searches")
+    }
+
+    func testSelectRecentSearch_reportsSelectionAndSetsSearchText() {
+        var capturedQuery: String?
+        viewModel.onSelectRecentSearch = { query in
+            capturedQuery = query
+        }
+
+        viewModel.selectRecentSearch("blade runner")
+
+        XCTAssertEqual(capturedQuery, "blade runner")
+        XCTAssertEqual(viewModel.searchText, "blade runner")
+    }
+
+    // MARK: - Suggestions
+
+    func testInitialState_suggestionsEmpty() {
+        XCTAssertTrue(viewModel.suggestions.isEmpty)
+    }
+
+    func testSelectSuggestion_reportsSelectionAndSetsSearchText() {
+        let suggestion = SearchSuggestionItem(id: "dune", text: "Dune: Part Two", icon: "film")
+        var captured: SearchSuggestionItem?
+        viewModel.onSelectSuggestion = { captured = $0 }
+
+        viewModel.selectSuggestion(suggestion)
+
+        XCTAssertEqual(captured, suggestion)
+        XCTAssertEqual(viewModel.searchText, "Dune: Part Two")
+    }
+
+    // MARK: - Scopes
+
+    func testSelectScope_reportsAndSwitchesWhenUncontrolled() {
+        var reported: [String] = []
+        var searched: [String] = []
+        viewModel.onScopeChange = { reported.append($0) }
+        viewModel.onSearch = { searched.append($0) }
+        viewModel.selectedScope = "movies"
+        viewModel.searchText = "dune"
+        searched.removeAll()
+
+        viewModel.selectScope("tv")
+
+        XCTAssertEqual(reported, ["tv"])
+        XCTAssertEqual(viewModel.selectedScope, "tv")
+        XCTAssertEqual(searched, ["dune"])
+    }
+
+    func testSelectScope_onlyReportsWhenControlled() {
+        var reported: [String] = []
+        viewModel.onScopeChange = { reported.append($0) }
+        viewModel.selectedScope = "movies"
+        viewModel.controlledScope = "movies"
+
+        viewModel.selectScope("tv")
+
+        XCTAssertEqual(reported, ["tv"])
+        XCTAssertEqual(viewModel.selectedScope, "movies")
+    }
+
+    // MARK: - Context Actions
+
+    private let watchlistAction = SearchResultAction(id: "watchlist", title: "Add to Watchlist", systemImage: "plus", destructive: false)
+    private let removeAction = SearchResultAction(id: "remove", title: "Remove", systemImage: nil, destructive: true)
+
+    func testActions_fallBackToDefaultActions() {
+        viewModel.defaultActions = [watchlistAction]
+        let item = SearchResultItem(id: "1", title: "Dune", subtitle: nil, imageUrl: nil)
+
+        XCTAssertEqual(viewModel.actions(for: item), [watchlistAction])
+    }
+
+    func testActions_resultActionsOverrideDefaults() {
+        viewModel.defaultActions = [watchlistAction]
+        let item = SearchResultItem(id: "1", title: "Dune", subtitle: nil, imageUrl: nil, actions: [removeAction])
+
+        XCTAssertEqual(viewModel.actions(for: item), [removeAction])
+    }
+
+    func testActions_emptyResultActionsDisableMenu() {
+        viewModel.defaultActions = [watchlistAction]
+        let item = SearchResultItem(id: "1", title: "Dune", subtitle: nil, imageUrl: nil, actions: [])
+
+        XCTAssertTrue(viewModel.actions(for: item).isEmpty)
+    }
+
+    func testOnItemAction_passesItemActionAndSection() {
+        var captured: (String, String, String?)?
+        viewModel.onItemAction = { itemId, actionId, sectionId in
+            captured = (itemId, actionId, sectionId)
+        }
+
+        viewModel.onItemAction?("1", "watchlist", "movies")
+
+        XCTAssertEqual(captured?.0, "1")
+        XCTAssertEqual(captured?.1, "watchlist")
+        XCTAssertEqual(captured?.2, "movies")
+    }
+
+    // MARK: - Announcements
+
+    func testCurrentAnnouncement_nilWhileSearchTextEmpty() {
+        viewModel.isLoading = true
+
+        XCTAssertNil(viewModel.currentAnnouncement())
+    }
+
+    func testCurrentAnnouncement_searchingWhileLoadingWithoutResults() {
+        viewModel.searchText = "dune"
+        viewModel.isLoading = true
+
+        XCTAssertEqual(viewModel.currentAnnouncement(), "Searching...")
+    }
+
+    func testCurrentAnnouncement_fillsCountAndQuery() {
+        viewModel.searchText = "dune"
+        viewModel.resultsAnnouncement = "{count} results for {query}"
+        viewModel.results = [
+            SearchResultItem(id: "1", title: "Dune", subtitle: nil, imageUrl: nil),
+            SearchResultItem(id: "2", title: "Dune: Part Two", subtitle: nil, imageUrl: nil),
+        ]
+
+        XCTAssertEqual(viewModel.currentAnnouncement(), "2 results for dune")
+    }
+
+    func testCurrentAnnouncement_noResults() {
+        viewModel.searchText = "zzz"
+
+        XCTAssertEqual(viewModel.currentAnnouncement(), "No results found")
+    }
+
+    func testAnnounceIfChanged_skipsRepeatsForSameQuery() {
+        var announced: [String] = []
+        viewModel.onAnnounce = { announced.append($0) }
+        viewModel.searchText = "zzz"
+
+        viewModel.announceIfChanged()
+        viewModel.announceIfChanged()
+        viewModel.searchText = "yyy"
+        viewModel.announceIfChanged()
+
+        XCTAssertEqual(announced, ["No results found", "No results found"])
+    }
 }
 
 #endif
@@ -6,16 +6,20 @@ struct TvosSearchContentView: View {
     @ObservedObject var viewModel: SearchViewModel
 
     private var gridColumns: [GridItem] {
-        Array(repeating: GridItem(.flexible(), spacing: viewModel.cardMargin), count: viewModel.columns)
+        gridColumns(count: viewModel.columns)
+    }
+
+    private func gridColumns(count: Int) -> [GridItem] {
+        Array(repeating: GridItem(.flexible(), spacing: viewModel.cardMargin), count: count)
     }
 
     var body: some View {
         NavigationView {
             ZStack {
                 Group {
-                    if viewModel.results.isEmpty && viewModel.searchText.isEmpty {
+                    if !viewModel.hasResults && viewModel.searchText.isEmpty {
                         emptyStateView
-                    } else if viewModel.results.isEmpty && !viewModel.searchText.isEmpty {
+                    } else if !viewModel.hasResults && !viewModel.searchText.isEmpty {
                         if viewModel.isLoading {
                             searchingStateView
                         } else {
@@ -27,12 +31,30 @@ struct TvosSearchContentView: View {
                 }
 
                 // Loading overlay when loading with results
-                if viewModel.isLoading && !viewModel.results.isEmpty {
+                if viewModel.isLoading && viewModel.hasResults {
                     loadingOverlay
                 }
             }
             .searchable(text: $viewModel.searchText, prompt: viewModel.placeholder)
+            .searchSuggestions {
+                ForEach(viewModel.suggestions) { suggestion in
+                    Button {
+                        viewModel.selectSuggestion(suggestion)
+                    } label: {
+                        if let icon = suggestion.icon {
+                            Label(suggestion.text, systemImage: icon)
+                        } else {
+                            Text(suggestion.text)
+                        }
+                    }
+                }
+            }
+            .modifier(SearchScopesModifier(viewModel: viewModel))
             .onChange(of: viewModel.searchText) { newValue in
+                // Skip the event for text set via setQuery(text, { emit: false })
+                let suppressed = viewModel.suppressedSearchText
+                viewModel.suppressedSearchText = nil
+                guard newValue != suppressed else { return }
                 viewModel.onSearch?(newValue)
             }
         }
@@ -45,11 +67,38 @@ struct TvosSearchContentView: View {
             Image(systemName: "magnifyingglass")
                 .font(.system(size: 80))
                 .foregroundColor(viewModel.textColor ?? .secondary)
-            Text(viewModel.emptyStateText)
+            if viewModel.recentSearches.isEmpty {
+                Text(viewModel.emptyStateText)
+                    .font(.headline)
+                    .foregroundColor(viewModel.textColor ?? .secondary)
+            } else {
+                recentSearchesView
+            }
+        }
+        .frame(maxWidth: .infinity, maxHeight: .infinity)
+    }
+
+    /// Selectable recent queries, shown in place of `emptyStateText` when available
+    private var recentSearchesView: some View {
+        VStack(spacing: 12) {
+            Text(viewModel.recentSearchesTitle)
                 .font(.headline)
                 .foregroundColor(viewModel.textColor ?? .secondary)
+            ForEach(viewModel.recentSearches, id: \.self) { query in
+                Button {
+                    viewModel.selectRecentSearch(query)
+                } label: {
+                    Label(query, systemImage: "clock.arrow.circlepath")
+                        .frame(minWidth: 500, alignment: .leading)
+                }
+            }
+            Button(role: .destructive) {
+                viewModel.onClearHistory?()
+            } label: {
+                Text(viewModel.clearHistoryText)
+            }
+            .padding(.top, 20)
         }
-        .frame(maxWidth: .infinity, maxHeight: .infinity)
     }
 
     private var searchingStateView: some View {
@@ -94,30 +143,144 @@ struct TvosSearchContentView: View {
     }
 
     private var resultsGridView: some View {
-        ScrollView {
-            LazyVGrid(columns: gridColumns, spacing: viewModel.cardMargin) {
-                ForEach(viewModel.results) { item in
-                    SearchResultCard(
-                        item: item,
-                        showTitle: viewModel.showTitle,
-                        showSubtitle: viewModel.showSubtitle,
-                        showFocusBorder: viewModel.showFocusBorder,
-                        showTitleOverlay: viewModel.showTitleOverlay,
-                        enableMarquee: viewModel.enableMarquee,
-                        marqueeDelay: viewModel.marqueeDelay,
-                        textColor: viewModel.textColor,
-                        accentColor: viewModel.accentColor,
-                        cardWidth: viewModel.cardWidth,
-                        cardHeight: viewModel.cardHeight,
-                        imageContentMode: viewModel.imageContentMode,
-                        cardPadding: viewModel.cardPadding,
-                        overlayTitleSize: viewModel.overlayTitleSize,
-                        onSelect: { viewModel.onSelectItem?(item.id) }
-                    )
+        ScrollViewReader { proxy in
+            ScrollView {
+                if viewModel.sections.isEmpty {
+                    resultsGrid
+                } else {
+                    sectionsList
+                }
+                if viewModel.isLoadingMore {
+                    loadingMoreFooter
+                }
+            }
+            .onChange(of: viewModel.scrollTarget) { target in
+                guard let target = target else { return }
+                withAnimation {
+                    if let id = target.id {
+                        proxy.scrollTo(id, anchor: .top)
+                    } else if let section = viewModel.sections.first(where: { !$0.results.isEmpty }) {
+                        proxy.scrollTo(SectionAnchor(id: section.id), anchor: .top)
+                    } else if let id = viewModel.results.first?.id {
+                        proxy.scrollTo(id, anchor: .top)
+                    }
                 }
             }
-            .padding(.horizontal, 60)
-            .padding(.vertical, 40)
+        }
+    }
+
+    private var resultsGrid: some View {
+        LazyVGrid(columns: gridColumns, spacing: viewModel.cardMargin) {
+            ForEach(Array(viewModel.results.enumerated()), id: \.element.id) { index, item in
+                resultCard(item, index: index, sectionId: nil, cardWidth: viewModel.cardWidth, cardHeight: viewModel.cardHeight)
+                    .onAppear { viewModel.resultDidAppear(at: index) }
+            }
+        }
+        .padding(.horizontal, 60)
+        .padding(.vertical, 40)
+    }
+
+    /// Sections stacked vertically, each with a header and its own grid geometry
+    private var sectionsList: some View {
+        LazyVStack(alignment: .leading, spacing: viewModel.cardMargin) {
+            ForEach(viewModel.sections.filter { !$0.results.isEmpty }) { section in
+                VStack(alignment: .leading, spacing: 24) {
+                    if !section.title.isEmpty {
+                        Text(section.title)
+                            .font(.title3)
+                            .fontWeight(.semibold)
+                            .foregroundColor(viewModel.textColor ?? .primary)
+                    }
+                    LazyVGrid(columns: gridColumns(count: section.columns ?? viewModel.columns), spacing: viewModel.cardMargin) {
+                        ForEach(Array(section.results.enumerated()), id: \.element.id) { index, item in
+                            resultCard(
+                                item,
+                                index: index,
+                                sectionId: section.id,
+                                cardWidth: section.cardWidth ?? viewModel.cardWidth,
+                                cardHeight: section.cardHeight ?? viewModel.cardHeight
+                            )
+                        }
+                    }
+                }
+                .id(SectionAnchor(id: section.id))
+            }
+        }
+        .padding(.horizontal, 60)
+        .padding(.vertical, 40)
+    }
+
+    private func resultCard(
+        _ item: SearchResultItem,
+        index: Int,
+        sectionId: String?,
+        cardWidth: CGFloat,
+        cardHeight: CGFloat
+    ) -> some View {
+        SearchResultCard(
+            item: item,
+            showTitle: viewModel.showTitle,
+            showSubtitle: viewModel.showSubtitle,
+            showFocusBorder: viewModel.showFocusBorder,
+            renderInitials: viewModel.renderInitials,
+            showTitleOverlay: viewModel.showTitleOverlay,
+            enableMarquee: viewModel.enableMarquee,
+            marqueeDelay: viewModel.marqueeDelay,
+            textColor: viewModel.textColor,
+            accentColor: viewModel.accentColor,
+            cardWidth: cardWidth,
+            cardHeight: cardHeight,
+            imageContentMode: viewModel.imageContentMode,
+            cardPadding: viewModel.cardPadding,
+            overlayTitleSize: viewModel.overlayTitleSize,
+            actions: viewModel.actions(for: item),
+            onSelect: { viewModel.onSelectItem?(item.id, sectionId) },
+            onAction: { actionId in viewModel.onItemAction?(item.id, actionId, sectionId) },
+            onFocusChange: { focused in
+                // Like onSelect, report the index in `results` (or the section), not among the shown cards
+                let sourceIndex = item.sourceIndex ?? index
+                if focused {
+                    viewModel.onFocusItem?(item.id, sourceIndex, sectionId)
+                } else {
+                    viewModel.onBlurItem?(item.id, sourceIndex, sectionId)
+                }
+            }
+        )
+    }
+
+    private var loadingMoreFooter: some View {
+        ProgressView()
+            .frame(maxWidth: .infinity)
+            .padding(.bottom, 60)
+    }
+}
+
+/// Scroll anchor for a section, kept distinct from result ids in `ScrollViewReader`
+private struct SectionAnchor: Hashable {
+    let id: String
+}
+
+/// Shows `scopes` in the search scope bar on tvOS 16.4+, where `.searchScopes`
+/// is available. Picks go through `selectScope` so JS hears about them.
+struct SearchScopesModifier: ViewModifier {
+    @ObservedObject var viewModel: SearchViewModel
+
+    func body(content: Content) -> some View {
+        if #available(tvOS 16.4, *) {
+            if viewModel.scopes.isEmpty {
+                content
+            } else {
+                content.searchScopes(Binding(
+                    get: { viewModel.selectedScope },
+                    set: { viewModel.selectScope($0) }
+                )) {
+                    ForEach(viewModel.scopes) { scope in
+                        Text(scope.title).tag(scope.id)
+                    }
+                }
+            }
+        } else {
+            content
         }
     }
 }
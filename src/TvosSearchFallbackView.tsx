@@ -0,0 +1,840 @@
+import React, { forwardRef, useCallback, useRef, useState } from "react";
+import {
+  AccessibilityInfo,
+  ActivityIndicator,
+  FlatList,
+  Image,
+  PixelRatio,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { buildAccessibilityLabel } from "./accessibility";
+import { useSearchAnalytics } from "./analytics";
+import { resolveEventHandlers, type ResolvedSearchViewProps } from "./eventHandlers";
+import { useResolvedImageUrls } from "./imageUrlResolver";
+import { getInitials, getInitialsColor } from "./placeholders";
+import { useQueryTransform } from "./queryTransform";
+import {
+  clampColumns,
+  DEFAULT_ACCENT_COLOR,
+  DEFAULT_CARD_HEIGHT,
+  DEFAULT_CARD_MARGIN,
+  DEFAULT_CARD_PADDING,
+  DEFAULT_CARD_WIDTH,
+  DEFAULT_CLEAR_HISTORY_TEXT,
+  DEFAULT_COLUMNS,
+  DEFAULT_EMPTY_STATE_TEXT,
+  DEFAULT_END_REACHED_THRESHOLD,
+  DEFAULT_NO_RESULTS_HINT_TEXT,
+  DEFAULT_NO_RESULTS_TEXT,
+  DEFAULT_OVERLAY_TITLE_SIZE,
+  DEFAULT_PLACEHOLDER,
+  DEFAULT_RECENT_SEARCHES_TITLE,
+  DEFAULT_RESULTS_ANNOUNCEMENT,
+  DEFAULT_SEARCHING_TEXT,
+  getResultsAnnouncement,
+  getSectionLayout,
+  getTextColor,
+  getValidResults,
+  getValidSections,
+  getValidSuggestions,
+  MAX_RECENT_SEARCHES,
+  useEndReached,
+  useResultsAnnouncement,
+  useSearchQuery,
+  useSearchViewHandle,
+} from "./searchViewState";
+import { findResult } from "./sections";
+import { localizeProps } from "./strings";
+import { useThemedProps } from "./theme";
+import type {
+  FocusItemEvent,
+  SearchResult,
+  SearchResultAction,
+  SearchSection,
+  TvosSearchViewHandle,
+  TvosSearchViewProps,
+} from "./index";
+
+const DEFAULT_ACTION_MENU_CANCEL_TEXT = "Cancel";
+const DESTRUCTIVE_COLOR = "#FF453A";
+
+/** Mirrors ExpoTvosSearchView.parseActions: skips actions without an id or title and repeated ids. */
+function validActions(actions: SearchResultAction[]): SearchResultAction[] {
+  const seenIds = new Set<string>();
+  return actions.filter((action) => {
+    if (!action.id || !action.title || seenIds.has(action.id)) return false;
+    seenIds.add(action.id);
+    return true;
+  });
+}
+
+/** The result whose context menu is open */
+interface ActionMenuState {
+  itemId: string;
+  sectionId?: string;
+  actions: SearchResultAction[];
+}
+
+interface FallbackCardProps {
+  item: SearchResult;
+  index: number;
+  sectionId?: string;
+  width: number;
+  height: number;
+  margin: number;
+  padding: number;
+  showTitle: boolean;
+  showSubtitle: boolean;
+  showTitleOverlay: boolean;
+  overlayTitleSize: number;
+  renderInitials: boolean;
+  resizeMode: "cover" | "contain";
+  textColor: string;
+  accentColor: string;
+  onSelect: (id: string, sectionId?: string) => void;
+  /** Opens the context menu; omitted when the result has no actions */
+  onLongPress?: () => void;
+  onFocusChange: (focused: boolean, event: FocusItemEvent) => void;
+}
+
+function FallbackCard({
+  item,
+  index,
+  sectionId,
+  width,
+  height,
+  margin,
+  padding,
+  showTitle,
+  showSubtitle,
+  showTitleOverlay,
+  overlayTitleSize,
+  renderInitials,
+  resizeMode,
+  textColor,
+  accentColor,
+  onSelect,
+  onLongPress,
+  onFocusChange,
+}: FallbackCardProps): JSX.Element {
+  const [isFocused, setIsFocused] = useState(false);
+  const hasFooter = showTitle || showSubtitle;
+  // Same clamping as ExpoTvosSearchView.parseResults
+  const aspectRatio =
+    item.aspectRatio === undefined ? undefined : Math.min(Math.max(0.25, item.aspectRatio), 4);
+  const imageHeight = aspectRatio ? width / aspectRatio : height;
+  const progress = item.progress === undefined ? undefined : Math.min(Math.max(0, item.progress), 1);
+  const badges = item.badges?.filter(Boolean) ?? [];
+  // Like CachedAsyncImage: imageUrl, then fallbackImageUrl once it fails to load
+  const [failedUrls, setFailedUrls] = useState<ReadonlySet<string>>(() => new Set());
+  const imageUrl = [item.imageUrl, item.fallbackImageUrl].find((url) => url && !failedUrls.has(url));
+
+  const handleFocusChange = (focused: boolean) => {
+    setIsFocused(focused);
+    onFocusChange(focused, {
+      nativeEvent:
+        sectionId === undefined ? { id: item.id, index } : { id: item.id, index, sectionId },
+    });
+  };
+
+  return (
+    <Pressable
+      testID={`tvos-search-result-${item.id}`}
+      accessibilityRole="button"
+      accessibilityLabel={item.accessibilityLabel || buildAccessibilityLabel(item)}
+      accessibilityHint={item.accessibilityHint}
+      onPress={() => onSelect(item.id, sectionId)}
+      onLongPress={onLongPress}
+      onFocus={() => handleFocusChange(true)}
+      onBlur={() => handleFocusChange(false)}
+      style={{ width, margin: margin / 2 }}
+    >
+      <View
+        style={[
+          styles.cardImage,
+          { width, height: imageHeight },
+          hasFooter && styles.cardImageWithFooter,
+          {
+            // No system focus effect outside tvOS, so always outline the focused card
+            borderColor: isFocused ? accentColor : "transparent",
+            transform: [{ scale: isFocused ? 1.05 : 1 }],
+          },
+        ]}
+      >
+        {renderInitials ? (
+          <View
+            style={[styles.initialsTile, { width, height: imageHeight, backgroundColor: getInitialsColor(item.title) }]}
+          >
+            <Text style={[styles.initialsText, { fontSize: Math.min(width, imageHeight) * 0.3 }]}>
+              {getInitials(item.title)}
+            </Text>
+          </View>
+        ) : null}
+        {imageUrl ? (
+          <Image
+            source={{ uri: imageUrl }}
+            style={{ width, height: imageHeight }}
+            resizeMode={resizeMode}
+            onError={() => setFailedUrls((failed) => new Set(failed).add(imageUrl))}
+          />
+        ) : null}
+        {showTitleOverlay ? (
+          <View style={[styles.overlay, { height: imageHeight * 0.25, paddingHorizontal: padding }]}>
+            <Text
+              numberOfLines={2}
+              style={[styles.overlayTitle, { fontSize: overlayTitleSize }]}
+            >
+              {item.title}
+            </Text>
+          </View>
+        ) : null}
+        {badges.length > 0 ? (
+          <View style={[styles.badges, { top: padding, left: padding }]}>
+            {badges.map((badge, badgeIndex) => (
+              <Text key={badgeIndex} style={styles.badge}>
+                {badge}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+        {progress !== undefined ? (
+          <View testID={`tvos-search-progress-${item.id}`} style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: width * progress, backgroundColor: accentColor }]} />
+          </View>
+        ) : null}
+      </View>
+      {hasFooter ? (
+        <View style={{ padding }}>
+          {showTitle ? (
+            <Text numberOfLines={2} style={[styles.cardTitle, { color: textColor }]}>
+              {item.title}
+            </Text>
+          ) : null}
+          {showSubtitle && item.subtitle ? (
+            <Text numberOfLines={1} style={[styles.cardSubtitle, { color: textColor }]}>
+              {item.subtitle}
+            </Text>
+          ) : null}
+          {showSubtitle
+            ? item.metadata?.filter(Boolean).map((line, lineIndex) => (
+                <Text key={lineIndex} numberOfLines={1} style={[styles.cardMetadata, { color: textColor }]}>
+                  {line}
+                </Text>
+              ))
+            : null}
+        </View>
+      ) : null}
+    </Pressable>
+  );
+}
+
+function FallbackSearchViewImpl<T extends SearchResult>(
+  props: ResolvedSearchViewProps<T>,
+  ref: React.ForwardedRef<TvosSearchViewHandle>
+): JSX.Element {
+  const {
+    results = [],
+    sections,
+    columns = DEFAULT_COLUMNS,
+    placeholder = DEFAULT_PLACEHOLDER,
+    searchText,
+    isLoading = false,
+    showTitle = false,
+    showSubtitle = false,
+    topInset = 0,
+    showTitleOverlay = true,
+    emptyStateText = DEFAULT_EMPTY_STATE_TEXT,
+    searchingText = DEFAULT_SEARCHING_TEXT,
+    noResultsText = DEFAULT_NO_RESULTS_TEXT,
+    noResultsHintText = DEFAULT_NO_RESULTS_HINT_TEXT,
+    recentSearches = [],
+    recentSearchesTitle = DEFAULT_RECENT_SEARCHES_TITLE,
+    clearHistoryText = DEFAULT_CLEAR_HISTORY_TEXT,
+    actionMenuCancelText = DEFAULT_ACTION_MENU_CANCEL_TEXT,
+    accessibilityLabel,
+    accessibilityResultsAnnouncement = DEFAULT_RESULTS_ANNOUNCEMENT,
+    onSelectRecentSearch,
+    onClearHistory,
+    suggestions = [],
+    onSelectSuggestion,
+    scopes = [],
+    selectedScope,
+    onScopeChange,
+    defaultActions = [],
+    onItemAction,
+    accentColor = DEFAULT_ACCENT_COLOR,
+    colorScheme = "system",
+    cardWidth = DEFAULT_CARD_WIDTH,
+    cardHeight = DEFAULT_CARD_HEIGHT,
+    imageContentMode = "fill",
+    cardMargin = DEFAULT_CARD_MARGIN,
+    cardPadding = DEFAULT_CARD_PADDING,
+    overlayTitleSize = DEFAULT_OVERLAY_TITLE_SIZE,
+    renderInitials = false,
+    hasMore = false,
+    isLoadingMore = false,
+    onEndReachedThreshold = DEFAULT_END_REACHED_THRESHOLD,
+    onEndReached,
+    onSearch,
+    onSelectItem,
+    onFocusItem,
+    onBlurItem,
+    onSearchFieldFocused,
+    onSearchFieldBlurred,
+    style,
+  } = props;
+
+  // FlatList can't render 0 columns
+  const gridColumns = clampColumns(columns);
+  const textColor = getTextColor(props.textColor, colorScheme);
+  const search = useSearchQuery({ searchText, onSearch, scopes, selectedScope, onScopeChange });
+  const { query, queryRef, handleChangeText, scopes: validScopes, scopeId, selectScope } = search;
+
+  const onSelectItemRef = useRef(onSelectItem);
+  onSelectItemRef.current = onSelectItem;
+
+  const handleSelect = useCallback((id: string, sectionId?: string) => {
+    onSelectItemRef.current?.({
+      nativeEvent: sectionId === undefined ? { id } : { id, sectionId },
+    });
+  }, []);
+
+  const focusHandlersRef = useRef({ onFocusItem, onBlurItem, results, sections });
+  focusHandlersRef.current = { onFocusItem, onBlurItem, results, sections };
+
+  const handleFocusChange = useCallback((focused: boolean, event: FocusItemEvent) => {
+    const { onFocusItem: onFocus, onBlurItem: onBlur, ...source } = focusHandlersRef.current;
+    const { id, sectionId } = event.nativeEvent;
+    // Like onSelect, report the index in `results` (or the section), not among the shown cards
+    const index = findResult(source, id, sectionId)?.index ?? event.nativeEvent.index;
+    (focused ? onFocus : onBlur)?.({ nativeEvent: { ...event.nativeEvent, index } });
+  }, []);
+
+  const validSections = getValidSections(sections);
+  const validResults = validSections
+    ? validSections.flatMap((section) => section.results)
+    : getValidResults(results);
+  const validSuggestions = getValidSuggestions(suggestions);
+
+  const announcement = getResultsAnnouncement(query, validResults.length, isLoading, {
+    searchingText,
+    noResultsText,
+    template: accessibilityResultsAnnouncement,
+  });
+  useResultsAnnouncement(announcement, query, (text) => AccessibilityInfo.announceForAccessibility(text));
+
+  const handleEndReached = useEndReached(validResults.length, { hasMore, isLoadingMore, onEndReached });
+
+  // FlatList measures its threshold in viewport lengths, so convert from rows once laid out
+  const [listHeight, setListHeight] = useState(0);
+  const thresholdRows = Math.min(Math.max(0, onEndReachedThreshold), 10);
+  const endReachedThreshold =
+    listHeight > 0 ? (thresholdRows * (cardHeight + cardMargin)) / listHeight : thresholdRows;
+
+  const inputRef = useRef<TextInput>(null);
+  const listRef = useRef<FlatList<T>>(null);
+  const sectionListRef = useRef<FlatList<SearchSection<T>>>(null);
+
+  useSearchViewHandle(ref, search, inputRef, {
+    scrollToTop: () => {
+      listRef.current?.scrollToOffset({ offset: 0, animated: true });
+      sectionListRef.current?.scrollToOffset({ offset: 0, animated: true });
+    },
+    scrollToItem: (id) => {
+      const index = validResults.findIndex((item) => item.id === id);
+      if (index === -1) return false;
+      if (validSections) {
+        // Sections are list items, so scroll to the section containing the result
+        const sectionIndex = validSections.findIndex((section) =>
+          section.results.some((item) => item.id === id)
+        );
+        sectionListRef.current?.scrollToIndex({ index: sectionIndex, animated: true });
+      } else {
+        // With numColumns, FlatList indexes rows rather than items
+        listRef.current?.scrollToIndex({ index: Math.floor(index / gridColumns), animated: true });
+      }
+      return true;
+    },
+  });
+
+  const [actionMenu, setActionMenu] = useState<ActionMenuState | null>(null);
+
+  const renderCard = (item: T, index: number, width: number, height: number, sectionId?: string) => {
+    // Same lookup as SearchViewModel.actions(for:): the result's own actions win, even when empty
+    const actions = validActions(item.actions ?? defaultActions);
+    return (
+      <FallbackCard
+        key={item.id}
+        item={item}
+        index={index}
+        sectionId={sectionId}
+        width={width}
+        height={height}
+        margin={cardMargin}
+        padding={cardPadding}
+        showTitle={showTitle}
+        showSubtitle={showSubtitle}
+        showTitleOverlay={showTitleOverlay}
+        overlayTitleSize={overlayTitleSize}
+        renderInitials={renderInitials}
+        resizeMode={imageContentMode === "fill" ? "cover" : "contain"}
+        textColor={textColor}
+        accentColor={accentColor}
+        onSelect={handleSelect}
+        onLongPress={
+          actions.length > 0 ? () => setActionMenu({ itemId: item.id, sectionId, actions }) : undefined
+        }
+        onFocusChange={handleFocusChange}
+      />
+    );
+  };
+
+  let content: JSX.Element;
+  if (validResults.length === 0 && query.length === 0 && recentSearches.length > 0) {
+    content = (
+      <View style={styles.stateContainer}>
+        <Text style={[styles.stateTitle, { color: textColor }]}>{recentSearchesTitle}</Text>
+        {recentSearches.slice(0, MAX_RECENT_SEARCHES).map((recent, index) => (
+          <Pressable
+            key={`${index}-${recent}`}
+            testID={`tvos-search-recent-${index}`}
+            accessibilityRole="button"
+            onPress={() => {
+              // Same order as SearchViewModel.selectRecentSearch: report, then fill the field
+              onSelectRecentSearch?.({ nativeEvent: { query: recent } });
+              handleChangeText(recent);
+            }}
+            style={styles.recentSearch}
+          >
+            <Text style={[styles.recentSearchText, { color: textColor }]}>{recent}</Text>
+          </Pressable>
+        ))}
+        <Pressable
+          testID="tvos-search-clear-history"
+          accessibilityRole="button"
+          onPress={() => onClearHistory?.({ nativeEvent: {} })}
+          style={styles.clearHistory}
+        >
+          <Text style={[styles.recentSearchText, { color: accentColor }]}>{clearHistoryText}</Text>
+        </Pressable>
+      </View>
+    );
+  } else if (validResults.length === 0 && query.length === 0) {
+    content = (
+      <View style={styles.stateContainer}>
+        <Text style={[styles.stateTitle, { color: textColor }]}>{emptyStateText}</Text>
+      </View>
+    );
+  } else if (validResults.length === 0 && isLoading) {
+    content = (
+      <View style={styles.stateContainer}>
+        <ActivityIndicator color={accentColor} size="large" />
+        <Text style={[styles.stateTitle, { color: textColor }]}>{searchingText}</Text>
+      </View>
+    );
+  } else if (validResults.length === 0) {
+    content = (
+      <View style={styles.stateContainer}>
+        <Text style={[styles.stateTitle, { color: textColor }]}>{noResultsText}</Text>
+        <Text style={[styles.stateHint, { color: textColor }]}>{noResultsHintText}</Text>
+      </View>
+    );
+  } else if (validSections) {
+    content = (
+      <FlatList
+        ref={sectionListRef}
+        data={validSections}
+        keyExtractor={(section: SearchSection<T>) => section.id}
+        contentContainerStyle={styles.grid}
+        renderItem={({ item: section }: { item: SearchSection<T> }) => {
+          const { columns: perRow, cardWidth: width, cardHeight: height } = getSectionLayout(section, {
+            columns: gridColumns,
+            cardWidth,
+            cardHeight,
+          });
+          return (
+            <View testID={`tvos-search-section-${section.id}`} style={{ marginBottom: cardMargin }}>
+              {section.title ? (
+                <Text style={[styles.sectionTitle, { color: textColor }]}>{section.title}</Text>
+              ) : null}
+              {/* Wrap at the section's column count, like FlatList numColumns */}
+              <View style={[styles.sectionGrid, { width: perRow * (width + cardMargin) }]}>
+                {section.results.map((item, index) => renderCard(item, index, width, height, section.id))}
+              </View>
+            </View>
+          );
+        }}
+      />
+    );
+  } else {
+    content = (
+      <FlatList
+        ref={listRef}
+        // numColumns can't change on the fly, so remount when it does
+        key={`columns-${gridColumns}`}
+        data={validResults}
+        numColumns={gridColumns}
+        keyExtractor={(item: T) => item.id}
+        contentContainerStyle={styles.grid}
+        onLayout={(event) => setListHeight(event.nativeEvent.layout.height)}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={endReachedThreshold}
+        ListFooterComponent={
+          isLoadingMore ? (
+            <View testID="tvos-search-loading-more" style={styles.loadingMoreFooter}>
+              <ActivityIndicator color={accentColor} />
+            </View>
+          ) : null
+        }
+        renderItem={({ item, index }: { item: T; index: number }) =>
+          renderCard(item, index, cardWidth, cardHeight)
+        }
+      />
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: topInset }, style]}>
+      <TextInput
+        ref={inputRef}
+        testID="tvos-search-input"
+        value={query}
+        placeholder={placeholder}
+        placeholderTextColor={textColor}
+        accessibilityLabel={accessibilityLabel ?? placeholder}
+        onChangeText={handleChangeText}
+        onFocus={() => onSearchFieldFocused?.({ nativeEvent: {} })}
+        onBlur={() => onSearchFieldBlurred?.({ nativeEvent: {} })}
+        autoCorrect={false}
+        autoCapitalize="none"
+        selectionColor={accentColor}
+        style={[styles.input, { color: textColor, borderColor: accentColor }]}
+      />
+      {validScopes.length > 0 ? (
+        <View style={styles.scopes} accessibilityRole="tablist">
+          {validScopes.map((scope, index) => {
+            const selected = scope.id === scopeId;
+            return (
+              <Pressable
+                key={scope.id}
+                testID={`tvos-search-scope-${index}`}
+                accessibilityRole="tab"
+                accessibilityState={{ selected }}
+                onPress={() => selectScope(scope.id)}
+                style={[styles.scope, selected && { backgroundColor: accentColor }]}
+              >
+                <Text style={[styles.recentSearchText, { color: selected ? "#000000" : textColor }]}>
+                  {scope.title}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+      {validSuggestions.length > 0 ? (
+        <View style={styles.suggestions}>
+          {validSuggestions.map((suggestion, index) => (
+            <Pressable
+              key={suggestion.id}
+              testID={`tvos-search-suggestion-${index}`}
+              accessibilityRole="button"
+              onPress={() => {
+                // Same order as SearchViewModel.selectSuggestion: report, then fill the field.
+                // Like the native onChange, re-selecting the current text doesn't search again.
+                onSelectSuggestion?.({ nativeEvent: { id: suggestion.id, text: suggestion.text } });
+                if (suggestion.text !== queryRef.current) handleChangeText(suggestion.text);
+              }}
+              style={styles.suggestion}
+            >
+              <Text style={[styles.recentSearchText, { color: textColor }]}>{suggestion.text}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+      {content}
+      {actionMenu ? (
+        <View testID="tvos-search-action-menu" style={styles.actionMenu}>
+          {actionMenu.actions.map((action) => (
+            <Pressable
+              key={action.id}
+              testID={`tvos-search-action-${action.id}`}
+              accessibilityRole="button"
+              onPress={() => {
+                const { itemId, sectionId } = actionMenu;
+                setActionMenu(null);
+                onItemAction?.({
+                  nativeEvent:
+                    sectionId === undefined
+                      ? { itemId, actionId: action.id }
+                      : { itemId, actionId: action.id, sectionId },
+                });
+              }}
+              style={styles.recentSearch}
+            >
+              <Text
+                style={[
+                  styles.recentSearchText,
+                  { color: action.destructive ? DESTRUCTIVE_COLOR : textColor },
+                ]}
+              >
+                {action.title}
+              </Text>
+            </Pressable>
+          ))}
+          <Pressable
+            testID="tvos-search-action-cancel"
+            accessibilityRole="button"
+            onPress={() => setActionMenu(null)}
+            style={styles.clearHistory}
+          >
+            <Text style={[styles.recentSearchText, { color: accentColor }]}>
+              {actionMenuCancelText}
+            </Text>
+          </Pressable>
+        </View>
+      ) : null}
+      {isLoading && validResults.length > 0 ? (
+        <View style={styles.loadingOverlay}>
+          <ActivityIndicator color={accentColor} />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+/**
+ * The fallback view itself, for props that already went through the prop
+ * pipeline (analytics, locale, theme, event handlers, query transform and
+ * image URLs). `TvosSearchView` renders it with `fallback="auto"`, so the
+ * pipeline runs once.
+ */
+export const FallbackSearchView = forwardRef(FallbackSearchViewImpl) as <
+  T extends SearchResult = SearchResult,
+>(
+  props: ResolvedSearchViewProps<T> & React.RefAttributes<TvosSearchViewHandle>
+) => JSX.Element;
+
+function TvosSearchFallbackViewImpl<T extends SearchResult>(
+  props: TvosSearchViewProps<T>,
+  ref: React.ForwardedRef<TvosSearchViewHandle>
+): JSX.Element {
+  const viewProps = useResolvedImageUrls(
+    useQueryTransform(resolveEventHandlers(useThemedProps(localizeProps(useSearchAnalytics(props))))),
+    PixelRatio.get()
+  );
+  return <FallbackSearchView {...viewProps} ref={ref} />;
+}
+
+/**
+ * Search view built from React Native primitives for platforms without the
+ * native tvOS module (Android TV, web, iOS phones).
+ *
+ * Accepts the same props as `TvosSearchView` and fires the same
+ * `nativeEvent`-shaped events, so one screen can serve every platform.
+ * Rendered automatically by `TvosSearchView` when `fallback="auto"`.
+ *
+ * Props that only apply to the SwiftUI view (`enableMarquee`, `marqueeDelay`,
+ * `showFocusBorder`) are accepted and ignored: the focused card is always
+ * outlined in `accentColor`, since there is no system focus effect to rely on.
+ * `onSearchFieldFocused`/`onSearchFieldBlurred` fire when the text input gains
+ * or loses focus. A `ref` exposes the same `TvosSearchViewHandle` as the native view.
+ * `sections` render as a list of headed groups, each wrapping at its own column count.
+ *
+ * @example
+ * ```tsx
+ * import { TvosSearchView, TvosSearchFallbackView, isNativeSearchAvailable } from 'expo-tvos-search';
+ *
+ * const SearchView = isNativeSearchAvailable() ? TvosSearchView : TvosSearchFallbackView;
+ * return <SearchView results={results} onSearch={handleSearch} onSelectItem={handleSelect} />;
+ * ```
+ */
+export const TvosSearchFallbackView = forwardRef(TvosSearchFallbackViewImpl) as <
+  T extends SearchResult = SearchResult,
+>(
+  props: TvosSearchViewProps<T> & React.RefAttributes<TvosSearchViewHandle>
+) => JSX.Element;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  input: {
+    marginHorizontal: 60,
+    marginVertical: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderWidth: 2,
+    borderRadius: 12,
+    fontSize: 28,
+  },
+  scopes: {
+    flexDirection: "row",
+    marginHorizontal: 60,
+    marginBottom: 20,
+  },
+  scope: {
+    paddingHorizontal: 28,
+    paddingVertical: 10,
+    marginRight: 12,
+    borderRadius: 24,
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  suggestions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginHorizontal: 60,
+    marginBottom: 20,
+  },
+  suggestion: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    marginRight: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  grid: {
+    paddingHorizontal: 60,
+    paddingVertical: 40,
+  },
+  sectionTitle: {
+    fontSize: 32,
+    fontWeight: "600",
+    marginBottom: 20,
+  },
+  sectionGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  cardImage: {
+    overflow: "hidden",
+    borderRadius: 12,
+    borderWidth: 4,
+    backgroundColor: "#333333",
+    justifyContent: "flex-end",
+  },
+  cardImageWithFooter: {
+    borderBottomLeftRadius: 0,
+    borderBottomRightRadius: 0,
+  },
+  initialsTile: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  initialsText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+  },
+  overlay: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  overlayTitle: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  cardTitle: {
+    fontSize: 22,
+    fontWeight: "500",
+  },
+  cardSubtitle: {
+    fontSize: 18,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  cardMetadata: {
+    fontSize: 16,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  badges: {
+    position: "absolute",
+    flexDirection: "row",
+  },
+  badge: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "700",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 8,
+    borderRadius: 12,
+    overflow: "hidden",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+  },
+  progressTrack: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 6,
+    backgroundColor: "rgba(255, 255, 255, 0.3)",
+  },
+  progressFill: {
+    height: 6,
+  },
+  stateContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stateTitle: {
+    fontSize: 28,
+    marginTop: 20,
+  },
+  stateHint: {
+    fontSize: 22,
+    marginTop: 12,
+    opacity: 0.7,
+  },
+  recentSearch: {
+    minWidth: 500,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    marginTop: 12,
+    borderRadius: 12,
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  recentSearchText: {
+    fontSize: 24,
+  },
+  clearHistory: {
+    marginTop: 32,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  loadingMoreFooter: {
+    alignItems: "center",
+    paddingBottom: 60,
+  },
+  actionMenu: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.8)",
+  },
+  loadingOverlay: {
+    position: "absolute",
+    top: 20,
+    right: 60,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+});
@@ -0,0 +1,926 @@
+import React, { forwardRef, useEffect, useRef, useState } from "react";
+import { buildAccessibilityLabel } from "./accessibility";
+import { useSearchAnalytics } from "./analytics";
+import { resolveEventHandlers } from "./eventHandlers";
+import { useResolvedImageUrls } from "./imageUrlResolver";
+import { getInitials, getInitialsColor } from "./placeholders";
+import { useQueryTransform } from "./queryTransform";
+import { GRID_HORIZONTAL_PADDING } from "./layout";
+import {
+  clampColumns,
+  DEFAULT_ACCENT_COLOR,
+  DEFAULT_CARD_HEIGHT,
+  DEFAULT_CARD_MARGIN,
+  DEFAULT_CARD_PADDING,
+  DEFAULT_CARD_WIDTH,
+  DEFAULT_CLEAR_HISTORY_TEXT,
+  DEFAULT_COLUMNS,
+  DEFAULT_EMPTY_STATE_TEXT,
+  DEFAULT_END_REACHED_THRESHOLD,
+  DEFAULT_NO_RESULTS_HINT_TEXT,
+  DEFAULT_NO_RESULTS_TEXT,
+  DEFAULT_OVERLAY_TITLE_SIZE,
+  DEFAULT_PLACEHOLDER,
+  DEFAULT_RECENT_SEARCHES_TITLE,
+  DEFAULT_RESULTS_ANNOUNCEMENT,
+  DEFAULT_SEARCHING_TEXT,
+  getResultsAnnouncement,
+  getSectionLayout,
+  getTextColor,
+  getValidResults,
+  getValidSections,
+  getValidSuggestions,
+  MAX_RECENT_SEARCHES,
+  useEndReached,
+  useResultsAnnouncement,
+  useSearchQuery,
+  useSearchViewHandle,
+} from "./searchViewState";
+import { findResult } from "./sections";
+import { findNextFocus, type FocusDirection, type GridCell } from "./spatialNavigation";
+import { localizeProps } from "./strings";
+import { useThemedProps } from "./theme";
+import { useValidationWarnings } from "./validation";
+import type {
+  FocusItemEvent,
+  SearchResult,
+  SearchSection,
+  TvosSearchViewHandle,
+  TvosSearchViewProps,
+} from "./index";
+
+// Same as SearchViewModel's marquee defaults
+const DEFAULT_MARQUEE_DELAY = 1.5;
+const MAX_MARQUEE_DELAY = 60;
+
+// Same as MarqueeAnimationCalculator's defaults
+const MARQUEE_SPACING = 40;
+const MARQUEE_PIXELS_PER_SECOND = 30;
+
+const ARROW_KEYS: Record<string, FocusDirection> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+};
+
+interface MarqueeTitleProps {
+  text: string;
+  style: React.CSSProperties;
+  /** Seconds to wait after focus before scrolling */
+  delay: number;
+  /** Whether the card is focused; scrolling stops and resets when it isn't */
+  animate: boolean;
+}
+
+/**
+ * Mirrors MarqueeText: a single line that, while `animate` is true, scrolls
+ * horizontally after `delay` when the text is wider than its container.
+ */
+function MarqueeTitle({ text, style, delay, animate }: MarqueeTitleProps): JSX.Element {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLSpanElement>(null);
+  // Scroll distance while scrolling, 0 otherwise
+  const [distance, setDistance] = useState(0);
+
+  useEffect(() => {
+    setDistance(0);
+    if (!animate) return;
+    const timer = setTimeout(() => {
+      const container = containerRef.current;
+      const measured = textRef.current;
+      if (!container || !measured) return;
+      const textWidth = measured.scrollWidth;
+      if (textWidth > container.clientWidth && container.clientWidth > 0) {
+        setDistance(textWidth + MARQUEE_SPACING);
+      }
+    }, Math.min(Math.max(0, delay), MAX_MARQUEE_DELAY) * 1000);
+    return () => clearTimeout(timer);
+  }, [animate, delay, text]);
+
+  useEffect(() => {
+    if (distance === 0) return;
+    const animation = trackRef.current?.animate?.(
+      [{ transform: "translateX(0)" }, { transform: `translateX(-${distance}px)` }],
+      {
+        duration: (distance / MARQUEE_PIXELS_PER_SECOND) * 1000,
+        iterations: Infinity,
+        easing: "linear",
+      }
+    );
+    return () => animation?.cancel();
+  }, [distance]);
+
+  return (
+    <div ref={containerRef} style={{ ...styles.marqueeContainer, ...style }}>
+      <div ref={trackRef} style={styles.marqueeTrack}>
+        <span ref={textRef}>{text}</span>
+        {distance > 0 ? (
+          <span aria-hidden="true" style={{ marginLeft: MARQUEE_SPACING }}>
+            {text}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+interface WebCardProps {
+  item: SearchResult;
+  width: number;
+  height: number;
+  padding: number;
+  showTitle: boolean;
+  showSubtitle: boolean;
+  showTitleOverlay: boolean;
+  overlayTitleSize: number;
+  renderInitials: boolean;
+  objectFit: "cover" | "contain";
+  textColor: string;
+  accentColor: string;
+  enableMarquee: boolean;
+  marqueeDelay: number;
+  cardRef: (element: HTMLDivElement | null) => void;
+  onSelect: () => void;
+  onFocusChange: (focused: boolean) => void;
+  onKeyDown: (event: React.KeyboardEvent) => void;
+}
+
+function WebCard({
+  item,
+  width,
+  height,
+  padding,
+  showTitle,
+  showSubtitle,
+  showTitleOverlay,
+  overlayTitleSize,
+  renderInitials,
+  objectFit,
+  textColor,
+  accentColor,
+  enableMarquee,
+  marqueeDelay,
+  cardRef,
+  onSelect,
+  onFocusChange,
+  onKeyDown,
+}: WebCardProps): JSX.Element {
+  const [isFocused, setIsFocused] = useState(false);
+  const hasFooter = showTitle || showSubtitle;
+  // Same clamping as ExpoTvosSearchView.parseResults
+  const aspectRatio =
+    item.aspectRatio === undefined ? undefined : Math.min(Math.max(0.25, item.aspectRatio), 4);
+  const imageHeight = aspectRatio ? width / aspectRatio : height;
+  const progress = item.progress === undefined ? undefined : Math.min(Math.max(0, item.progress), 1);
+  const badges = item.badges?.filter(Boolean) ?? [];
+  const overlayTitleStyle = { ...styles.overlayTitle, fontSize: overlayTitleSize };
+  // Like CachedAsyncImage: imageUrl, then fallbackImageUrl once it fails to load
+  const [failedUrls, setFailedUrls] = useState<ReadonlySet<string>>(() => new Set());
+  const imageUrl = [item.imageUrl, item.fallbackImageUrl].find((url) => url && !failedUrls.has(url));
+
+  const handleFocusChange = (focused: boolean) => {
+    setIsFocused(focused);
+    onFocusChange(focused);
+  };
+
+  return (
+    <div
+      ref={cardRef}
+      data-testid={`tvos-search-result-${item.id}`}
+      role="button"
+      tabIndex={0}
+      aria-label={item.accessibilityLabel || buildAccessibilityLabel(item)}
+      title={item.accessibilityHint}
+      onClick={onSelect}
+      onKeyDown={onKeyDown}
+      onFocus={() => handleFocusChange(true)}
+      onBlur={() => handleFocusChange(false)}
+      style={{
+        ...styles.card,
+        width,
+        // Browsers have no TV focus effect, so always outline the focused card
+        transform: `scale(${isFocused ? 1.05 : 1})`,
+      }}
+    >
+      <div
+        style={{
+          ...styles.cardImage,
+          ...(hasFooter ? styles.cardImageWithFooter : null),
+          width,
+          height: imageHeight,
+          borderColor: isFocused ? accentColor : "transparent",
+        }}
+      >
+        {renderInitials ? (
+          <div
+            style={{
+              ...styles.initialsTile,
+              width,
+              height: imageHeight,
+              backgroundColor: getInitialsColor(item.title),
+              fontSize: Math.min(width, imageHeight) * 0.3,
+            }}
+          >
+            {getInitials(item.title)}
+          </div>
+        ) : null}
+        {imageUrl ? (
+          <img
+            src={imageUrl}
+            alt=""
+            style={{ ...styles.cardImageContent, width, height: imageHeight, objectFit }}
+            onError={() => setFailedUrls((failed) => new Set(failed).add(imageUrl))}
+          />
+        ) : null}
+        {showTitleOverlay ? (
+          <div style={{ ...styles.overlay, height: imageHeight * 0.25, padding: `0 ${padding}px` }}>
+            {enableMarquee ? (
+              <MarqueeTitle
+                text={item.title}
+                style={overlayTitleStyle}
+                delay={marqueeDelay}
+                animate={isFocused}
+              />
+            ) : (
+              <div style={{ ...overlayTitleStyle, ...styles.twoLines }}>{item.title}</div>
+            )}
+          </div>
+        ) : null}
+        {badges.length > 0 ? (
+          <div style={{ ...styles.badges, top: padding, left: padding }}>
+            {badges.map((badge, badgeIndex) => (
+              <span key={badgeIndex} style={styles.badge}>
+                {badge}
+              </span>
+            ))}
+          </div>
+        ) : null}
+        {progress !== undefined ? (
+          <div data-testid={`tvos-search-progress-${item.id}`} style={styles.progressTrack}>
+            <div
+              style={{ ...styles.progressFill, width: width * progress, backgroundColor: accentColor }}
+            />
+          </div>
+        ) : null}
+      </div>
+      {hasFooter ? (
+        <div style={{ padding, color: textColor }}>
+          {showTitle ? <div style={{ ...styles.cardTitle, ...styles.twoLines }}>{item.title}</div> : null}
+          {showSubtitle && item.subtitle ? (
+            <div style={{ ...styles.cardSubtitle, ...styles.oneLine }}>{item.subtitle}</div>
+          ) : null}
+          {showSubtitle
+            ? item.metadata?.filter(Boolean).map((line, lineIndex) => (
+                <div key={lineIndex} style={{ ...styles.cardMetadata, ...styles.oneLine }}>
+                  {line}
+                </div>
+              ))
+            : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/** A card in display order, with the position used for arrow-key navigation. */
+interface GridEntry<T extends SearchResult> {
+  item: T;
+  /** Index within `results`, or within the section */
+  index: number;
+  sectionId?: string;
+  width: number;
+  height: number;
+  cell: GridCell;
+}
+
+function TvosSearchWebViewImpl<T extends SearchResult>(
+  props: TvosSearchViewProps<T>,
+  ref: React.ForwardedRef<TvosSearchViewHandle>
+): JSX.Element {
+  const themedProps = useThemedProps(localizeProps(useSearchAnalytics(props)));
+  const viewProps = useResolvedImageUrls(
+    useQueryTransform(resolveEventHandlers(themedProps)),
+    typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1
+  );
+
+  // Same development checks as the native TvosSearchView, so prop mistakes surface in the browser
+  useValidationWarnings(viewProps);
+
+  const {
+    results = [],
+    sections,
+    columns = DEFAULT_COLUMNS,
+    placeholder = DEFAULT_PLACEHOLDER,
+    searchText,
+    isLoading = false,
+    showTitle = false,
+    showSubtitle = false,
+    topInset = 0,
+    showTitleOverlay = true,
+    enableMarquee = true,
+    marqueeDelay = DEFAULT_MARQUEE_DELAY,
+    emptyStateText = DEFAULT_EMPTY_STATE_TEXT,
+    searchingText = DEFAULT_SEARCHING_TEXT,
+    noResultsText = DEFAULT_NO_RESULTS_TEXT,
+    noResultsHintText = DEFAULT_NO_RESULTS_HINT_TEXT,
+    recentSearches = [],
+    recentSearchesTitle = DEFAULT_RECENT_SEARCHES_TITLE,
+    clearHistoryText = DEFAULT_CLEAR_HISTORY_TEXT,
+    accessibilityLabel,
+    accessibilityResultsAnnouncement = DEFAULT_RESULTS_ANNOUNCEMENT,
+    onSelectRecentSearch,
+    onClearHistory,
+    suggestions = [],
+    onSelectSuggestion,
+    scopes = [],
+    selectedScope,
+    onScopeChange,
+    accentColor = DEFAULT_ACCENT_COLOR,
+    colorScheme = "system",
+    cardWidth = DEFAULT_CARD_WIDTH,
+    cardHeight = DEFAULT_CARD_HEIGHT,
+    imageContentMode = "fill",
+    cardMargin = DEFAULT_CARD_MARGIN,
+    cardPadding = DEFAULT_CARD_PADDING,
+    overlayTitleSize = DEFAULT_OVERLAY_TITLE_SIZE,
+    renderInitials = false,
+    hasMore = false,
+    isLoadingMore = false,
+    onEndReachedThreshold = DEFAULT_END_REACHED_THRESHOLD,
+    onEndReached,
+    onSearch,
+    onSelectItem,
+    onFocusItem,
+    onBlurItem,
+    onSearchFieldFocused,
+    onSearchFieldBlurred,
+    style,
+  } = viewProps;
+
+  const gridColumns = clampColumns(columns);
+  const textColor = getTextColor(themedProps.textColor, colorScheme);
+  const search = useSearchQuery({ searchText, onSearch, scopes, selectedScope, onScopeChange });
+  const { query, queryRef, handleChangeText, scopes: validScopes, scopeId, selectScope } = search;
+  const validSections = getValidSections(sections);
+
+  // Lay out every card on one grid of rows, continuing the row count across sections
+  const entries: GridEntry<T>[] = [];
+  const addRows = (items: T[], perRow: number, width: number, height: number, sectionId?: string) => {
+    const firstRow = entries.length === 0 ? 0 : entries[entries.length - 1].cell.row + 1;
+    items.forEach((item, index) => {
+      const column = index % perRow;
+      entries.push({
+        item,
+        index,
+        sectionId,
+        width,
+        height,
+        cell: {
+          row: firstRow + Math.floor(index / perRow),
+          x: column * (width + cardMargin) + width / 2,
+        },
+      });
+    });
+  };
+  if (validSections) {
+    for (const section of validSections) {
+      const layout = getSectionLayout(section, { columns: gridColumns, cardWidth, cardHeight });
+      addRows(section.results, layout.columns, layout.cardWidth, layout.cardHeight, section.id);
+    }
+  } else {
+    addRows(getValidResults(results), gridColumns, cardWidth, cardHeight);
+  }
+  const resultCount = entries.length;
+
+  const validSuggestions = getValidSuggestions(suggestions);
+
+  // Read out by the live region below
+  const announcement = getResultsAnnouncement(query, resultCount, isLoading, {
+    searchingText,
+    noResultsText,
+    template: accessibilityResultsAnnouncement,
+  });
+  const [liveAnnouncement, setLiveAnnouncement] = useState("");
+  useResultsAnnouncement(announcement, query, setLiveAnnouncement);
+
+  const handleEndReached = useEndReached(resultCount, { hasMore, isLoadingMore, onEndReached });
+  const thresholdRows = Math.min(Math.max(0, onEndReachedThreshold), 10);
+  const lastRow = resultCount > 0 ? entries[resultCount - 1].cell.row : 0;
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, clientHeight, scrollHeight } = event.currentTarget;
+    if (scrollHeight - (scrollTop + clientHeight) <= thresholdRows * (cardHeight + cardMargin)) {
+      handleEndReached();
+    }
+  };
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+  cardRefs.current.length = resultCount;
+
+  const handleSelect = (entry: GridEntry<T>) => {
+    const { item, sectionId } = entry;
+    onSelectItem?.({ nativeEvent: sectionId === undefined ? { id: item.id } : { id: item.id, sectionId } });
+  };
+
+  const handleFocusChange = (entry: GridEntry<T>, focused: boolean) => {
+    const { item, sectionId } = entry;
+    // Like onSelect, report the index in `results` (or the section), not among the shown cards
+    const index = findResult({ results, sections }, item.id, sectionId)?.index ?? entry.index;
+    const event: FocusItemEvent = {
+      nativeEvent: sectionId === undefined ? { id: item.id, index } : { id: item.id, index, sectionId },
+    };
+    (focused ? onFocusItem : onBlurItem)?.(event);
+    if (focused && entry.cell.row >= lastRow - thresholdRows) {
+      handleEndReached();
+    }
+  };
+
+  const handleCardKeyDown = (position: number, event: React.KeyboardEvent) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      handleSelect(entries[position]);
+      return;
+    }
+    const direction = ARROW_KEYS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+    const next = findNextFocus(
+      entries.map((entry) => entry.cell),
+      position,
+      direction
+    );
+    if (next !== null) {
+      cardRefs.current[next]?.focus();
+    } else if (direction === "up") {
+      // Like the tvOS focus engine, moving up from the first row reaches the search field
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== "ArrowDown" || resultCount === 0) return;
+    event.preventDefault();
+    cardRefs.current[0]?.focus();
+  };
+
+  useSearchViewHandle(ref, search, inputRef, {
+    scrollToTop: () => scrollerRef.current?.scrollTo({ top: 0, behavior: "smooth" }),
+    scrollToItem: (id) => {
+      const position = entries.findIndex((entry) => entry.item.id === id);
+      if (position === -1) return false;
+      cardRefs.current[position]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+      return true;
+    },
+  });
+
+  const renderCards = (from: number, to: number, perRow: number, width: number) => (
+    <div
+      style={{
+        ...styles.grid,
+        gridTemplateColumns: `repeat(${perRow}, ${width}px)`,
+        gap: cardMargin,
+      }}
+    >
+      {entries.slice(from, to).map((entry, offset) => {
+        const position = from + offset;
+        return (
+          <WebCard
+            key={entry.item.id}
+            item={entry.item}
+            width={entry.width}
+            height={entry.height}
+            padding={cardPadding}
+            showTitle={showTitle}
+            showSubtitle={showSubtitle}
+            showTitleOverlay={showTitleOverlay}
+            overlayTitleSize={overlayTitleSize}
+            renderInitials={renderInitials}
+            objectFit={imageContentMode === "fill" ? "cover" : "contain"}
+            textColor={textColor}
+            accentColor={accentColor}
+            enableMarquee={enableMarquee}
+            marqueeDelay={marqueeDelay}
+            cardRef={(element) => {
+              cardRefs.current[position] = element;
+            }}
+            onSelect={() => handleSelect(entry)}
+            onFocusChange={(focused) => handleFocusChange(entry, focused)}
+            onKeyDown={(event) => handleCardKeyDown(position, event)}
+          />
+        );
+      })}
+    </div>
+  );
+
+  let content: JSX.Element;
+  if (resultCount === 0 && query.length === 0 && recentSearches.length > 0) {
+    content = (
+      <div style={styles.stateContainer}>
+        <div style={styles.stateTitle}>{recentSearchesTitle}</div>
+        {recentSearches.slice(0, MAX_RECENT_SEARCHES).map((recent, index) => (
+          <button
+            key={`${index}-${recent}`}
+            type="button"
+            data-testid={`tvos-search-recent-${index}`}
+            onClick={() => {
+              // Same order as SearchViewModel.selectRecentSearch: report, then fill the field
+              onSelectRecentSearch?.({ nativeEvent: { query: recent } });
+              handleChangeText(recent);
+            }}
+            style={{ ...styles.button, ...styles.recentSearch, color: textColor }}
+          >
+            {recent}
+          </button>
+        ))}
+        <button
+          type="button"
+          data-testid="tvos-search-clear-history"
+          onClick={() => onClearHistory?.({ nativeEvent: {} })}
+          style={{ ...styles.button, ...styles.clearHistory, color: accentColor }}
+        >
+          {clearHistoryText}
+        </button>
+      </div>
+    );
+  } else if (resultCount === 0 && query.length === 0) {
+    content = (
+      <div style={styles.stateContainer}>
+        <div style={styles.stateTitle}>{emptyStateText}</div>
+      </div>
+    );
+  } else if (resultCount === 0 && isLoading) {
+    content = (
+      <div style={styles.stateContainer}>
+        <div style={styles.stateTitle}>{searchingText}</div>
+      </div>
+    );
+  } else if (resultCount === 0) {
+    content = (
+      <div style={styles.stateContainer}>
+        <div style={styles.stateTitle}>{noResultsText}</div>
+        <div style={styles.stateHint}>{noResultsHintText}</div>
+      </div>
+    );
+  } else {
+    let grids: JSX.Element | JSX.Element[];
+    if (validSections) {
+      let from = 0;
+      grids = validSections.map((section) => {
+        const to = from + section.results.length;
+        const layout = getSectionLayout(section, { columns: gridColumns, cardWidth, cardHeight });
+        const cards = renderCards(from, to, layout.columns, layout.cardWidth);
+        from = to;
+        return (
+          <section
+            key={section.id}
+            data-testid={`tvos-search-section-${section.id}`}
+            style={{ marginBottom: cardMargin }}
+          >
+            {section.title ? <h2 style={styles.sectionTitle}>{section.title}</h2> : null}
+            {cards}
+          </section>
+        );
+      });
+    } else {
+      grids = renderCards(0, resultCount, gridColumns, cardWidth);
+    }
+    content = (
+      <div
+        ref={scrollerRef}
+        data-testid="tvos-search-grid"
+        onScroll={handleScroll}
+        style={styles.scroller}
+      >
+        {grids}
+        {isLoadingMore ? (
+          <div data-testid="tvos-search-loading-more" role="progressbar" style={styles.loadingMore}>
+            {searchingText}
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        ...styles.container,
+        paddingTop: topInset,
+        color: textColor,
+        ...(style as React.CSSProperties | undefined),
+      }}
+    >
+      <input
+        ref={inputRef}
+        data-testid="tvos-search-input"
+        type="search"
+        value={query}
+        placeholder={placeholder}
+        aria-label={accessibilityLabel ?? placeholder}
+        onChange={(event) => handleChangeText(event.target.value)}
+        onKeyDown={handleInputKeyDown}
+        onFocus={() => onSearchFieldFocused?.({ nativeEvent: {} })}
+        onBlur={() => onSearchFieldBlurred?.({ nativeEvent: {} })}
+        autoComplete="off"
+        autoCorrect="off"
+        autoCapitalize="none"
+        spellCheck={false}
+        style={{ ...styles.input, color: textColor, borderColor: accentColor, caretColor: accentColor }}
+      />
+      {validScopes.length > 0 ? (
+        <div role="tablist" style={styles.scopes}>
+          {validScopes.map((scope, index) => {
+            const selected = scope.id === scopeId;
+            return (
+              <button
+                key={scope.id}
+                type="button"
+                role="tab"
+                aria-selected={selected}
+                data-testid={`tvos-search-scope-${index}`}
+                onClick={() => selectScope(scope.id)}
+                style={{
+                  ...styles.button,
+                  ...styles.scope,
+                  ...(selected ? { backgroundColor: accentColor, color: "#000000" } : { color: textColor }),
+                }}
+              >
+                {scope.title}
+              </button>
+            );
+          })}
+        </div>
+      ) : null}
+      {validSuggestions.length > 0 ? (
+        <div style={styles.suggestions}>
+          {validSuggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.id}
+              type="button"
+              data-testid={`tvos-search-suggestion-${index}`}
+              onClick={() => {
+                // Same order as SearchViewModel.selectSuggestion: report, then fill the field.
+                // Like the native onChange, re-selecting the current text doesn't search again.
+                onSelectSuggestion?.({ nativeEvent: { id: suggestion.id, text: suggestion.text } });
+                if (suggestion.text !== queryRef.current) handleChangeText(suggestion.text);
+              }}
+              style={{ ...styles.button, ...styles.suggestion, color: textColor }}
+            >
+              {suggestion.text}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {content}
+      {isLoading && resultCount > 0 ? (
+        <div data-testid="tvos-search-loading" role="progressbar" style={styles.loadingOverlay}>
+          {searchingText}
+        </div>
+      ) : null}
+      <div aria-live="polite" style={styles.visuallyHidden}>
+        {liveAnnouncement}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Search view built from DOM elements, used as `TvosSearchView` on web
+ * (`index.web.tsx`) for TV-style browser builds.
+ *
+ * Accepts the same props and fires the same `nativeEvent`-shaped events as the
+ * native view. Arrow keys move focus between cards the way the tvOS focus
+ * engine does (up from the first row returns to the search field, down from the
+ * field enters the grid), and Enter or Space selects the focused card. The
+ * focused card is outlined in `accentColor`, and with `enableMarquee` its
+ * overflowing overlay title scrolls after `marqueeDelay` seconds.
+ *
+ * Context `actions` are not shown on web.
+ */
+export const TvosSearchWebView = forwardRef(TvosSearchWebViewImpl) as <
+  T extends SearchResult = SearchResult,
+>(
+  props: TvosSearchViewProps<T> & React.RefAttributes<TvosSearchViewHandle>
+) => JSX.Element;
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: "relative",
+    display: "flex",
+    flexDirection: "column",
+    flex: 1,
+    minHeight: 0,
+    boxSizing: "border-box",
+    fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  },
+  input: {
+    margin: `20px ${GRID_HORIZONTAL_PADDING}px`,
+    padding: "12px 20px",
+    borderWidth: 2,
+    borderStyle: "solid",
+    borderRadius: 12,
+    fontSize: 28,
+    backgroundColor: "transparent",
+    outline: "none",
+  },
+  scopes: {
+    display: "flex",
+    margin: `0 ${GRID_HORIZONTAL_PADDING}px 20px`,
+    gap: 12,
+  },
+  scope: {
+    padding: "10px 28px",
+    borderRadius: 24,
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  suggestions: {
+    display: "flex",
+    flexWrap: "wrap",
+    margin: `0 ${GRID_HORIZONTAL_PADDING}px 20px`,
+    gap: 12,
+  },
+  button: {
+    border: "none",
+    borderRadius: 12,
+    cursor: "pointer",
+    fontSize: 24,
+    fontFamily: "inherit",
+  },
+  suggestion: {
+    padding: "12px 24px",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  scroller: {
+    flex: 1,
+    minHeight: 0,
+    overflowY: "auto",
+    padding: `40px ${GRID_HORIZONTAL_PADDING}px`,
+  },
+  grid: {
+    display: "grid",
+    justifyContent: "start",
+  },
+  sectionTitle: {
+    fontSize: 32,
+    fontWeight: 600,
+    margin: "0 0 20px",
+  },
+  card: {
+    cursor: "pointer",
+    outline: "none",
+    transition: "transform 150ms ease-out",
+  },
+  cardImage: {
+    position: "relative",
+    overflow: "hidden",
+    borderRadius: 12,
+    borderWidth: 4,
+    borderStyle: "solid",
+    boxSizing: "border-box",
+    backgroundColor: "#333333",
+  },
+  // Positioned so it paints above the initials tile
+  cardImageContent: {
+    position: "relative",
+  },
+  initialsTile: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    color: "#FFFFFF",
+    fontWeight: 700,
+  },
+  cardImageWithFooter: {
+    borderBottomLeftRadius: 0,
+    borderBottomRightRadius: 0,
+  },
+  overlay: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  overlayTitle: {
+    color: "#FFFFFF",
+    fontWeight: 600,
+    textAlign: "center",
+  },
+  marqueeContainer: {
+    width: "100%",
+    overflow: "hidden",
+    whiteSpace: "nowrap",
+  },
+  marqueeTrack: {
+    display: "inline-flex",
+  },
+  twoLines: {
+    display: "-webkit-box",
+    WebkitLineClamp: 2,
+    WebkitBoxOrient: "vertical",
+    overflow: "hidden",
+  },
+  oneLine: {
+    overflow: "hidden",
+    whiteSpace: "nowrap",
+    textOverflow: "ellipsis",
+  },
+  cardTitle: {
+    fontSize: 22,
+    fontWeight: 500,
+  },
+  cardSubtitle: {
+    fontSize: 18,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  cardMetadata: {
+    fontSize: 16,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  badges: {
+    position: "absolute",
+    display: "flex",
+    gap: 8,
+  },
+  badge: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: 700,
+    padding: "4px 10px",
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+  },
+  progressTrack: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 6,
+    backgroundColor: "rgba(255, 255, 255, 0.3)",
+  },
+  progressFill: {
+    height: 6,
+  },
+  stateContainer: {
+    flex: 1,
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stateTitle: {
+    fontSize: 28,
+    marginTop: 20,
+  },
+  stateHint: {
+    fontSize: 22,
+    marginTop: 12,
+    opacity: 0.7,
+  },
+  recentSearch: {
+    minWidth: 500,
+    padding: "12px 24px",
+    marginTop: 12,
+    textAlign: "left",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  clearHistory: {
+    marginTop: 32,
+    padding: "12px 24px",
+    backgroundColor: "transparent",
+  },
+  loadingMore: {
+    textAlign: "center",
+    paddingBottom: 60,
+    fontSize: 22,
+  },
+  loadingOverlay: {
+    position: "absolute",
+    top: 20,
+    right: GRID_HORIZONTAL_PADDING,
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 20,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+  },
+  visuallyHidden: {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    overflow: "hidden",
+    clip: "rect(0 0 0 0)",
+    whiteSpace: "nowrap",
+  },
+};
@@ -0,0 +1,799 @@
+/**
+ * Tests for the React Native fallback search view
+ *
+ * Rendered with react-test-renderer against the host-component mocks in
+ * __mocks__/react-native.ts.
+ */
+
+import React from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { TvosSearchFallbackView } from '../TvosSearchFallbackView';
+import type { TvosSearchViewHandle, TvosSearchViewProps } from '../index';
+import {
+  mockTvOSPlatform,
+  mockWebPlatform,
+  mockNativeModuleAvailable,
+  mockNativeModuleUnavailable,
+  renderView,
+} from './setup';
+
+const results = [
+  { id: 'earth', title: 'Earth', subtitle: 'The Blue Marble', imageUrl: 'https://example.com/earth.jpg' },
+  { id: 'mars', title: 'Mars' },
+];
+
+function render(props: Partial<TvosSearchViewProps> = {}): ReactTestRenderer {
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(
+      <TvosSearchFallbackView
+        results={[]}
+        onSearch={jest.fn()}
+        onSelectItem={jest.fn()}
+        {...props}
+      />
+    );
+  });
+  return renderer;
+}
+
+function textContent(renderer: ReactTestRenderer): string[] {
+  return renderer.root.findAllByType('Text' as any).map((node) => node.props.children);
+}
+
+describe('TvosSearchFallbackView', () => {
+  describe('state views', () => {
+    it('shows the empty state when there is no query', () => {
+      const renderer = render();
+      expect(textContent(renderer)).toContain('Search your library');
+    });
+
+    it('shows the searching state while loading a query', () => {
+      const renderer = render({ searchText: 'star', isLoading: true });
+      expect(textContent(renderer)).toContain('Searching...');
+    });
+
+    it('shows no results with hint when a query has no matches', () => {
+      const renderer = render({ searchText: 'zzz' });
+      expect(textContent(renderer)).toEqual(
+        expect.arrayContaining(['No results found', 'Try a different search term'])
+      );
+    });
+
+    it('shows recent searches instead of the empty state text', () => {
+      const renderer = render({ recentSearches: ['dune', 'arrival'], recentSearchesTitle: 'Recent' });
+
+      expect(textContent(renderer)).toEqual(
+        expect.arrayContaining(['Recent', 'dune', 'arrival', 'Clear Recent Searches'])
+      );
+      expect(textContent(renderer)).not.toContain('Search your library');
+    });
+
+    it('hides recent searches once there is a query', () => {
+      const renderer = render({ recentSearches: ['dune'], searchText: 'ar' });
+      expect(textContent(renderer)).not.toContain('dune');
+    });
+
+    it('uses custom state texts', () => {
+      const renderer = render({
+        searchText: 'zzz',
+        noResultsText: 'Nothing here',
+        noResultsHintText: 'Try again',
+      });
+      expect(textContent(renderer)).toEqual(expect.arrayContaining(['Nothing here', 'Try again']));
+    });
+  });
+
+  describe('results grid', () => {
+    it('renders a card per valid result with the configured columns', () => {
+      const renderer = render({ results, columns: 3 });
+      const grid = renderer.root.findByType('FlatList' as any);
+
+      expect(grid.props.numColumns).toBe(3);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-result-earth' })).toHaveLength(1);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-result-mars' })).toHaveLength(1);
+    });
+
+    it('skips results with empty id or title', () => {
+      const renderer = render({
+        results: [...results, { id: '', title: 'No id' }, { id: 'no-title', title: '' }],
+      });
+      expect(renderer.root.findAllByType('Pressable' as any)).toHaveLength(2);
+    });
+
+    it('shows at most 500 results, counting skipped ones like the native module', () => {
+      const many = Array.from({ length: 600 }, (_, i) => ({ id: `r${i}`, title: `Result ${i}` }));
+      const renderer = render({ results: [{ id: '', title: 'No id' }, ...many] });
+
+      expect(renderer.root.findAllByType('Pressable' as any)).toHaveLength(499);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-result-r498' })).toHaveLength(1);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-result-r499' })).toHaveLength(0);
+    });
+
+    it('clamps columns to the native range', () => {
+      expect(render({ results, columns: 0 }).root.findByType('FlatList' as any).props.numColumns).toBe(1);
+      expect(render({ results, columns: 25 }).root.findByType('FlatList' as any).props.numColumns).toBe(10);
+    });
+
+    it('applies card dimensions', () => {
+      const renderer = render({ results, cardWidth: 420, cardHeight: 240 });
+      const card = renderer.root.findByProps({ testID: 'tvos-search-result-earth' });
+      expect(card.props.style.width).toBe(420);
+      expect(renderer.root.findAllByType('Image' as any)[0].props.style).toEqual({ width: 420, height: 240 });
+    });
+
+    it('shows title and subtitle below the card when enabled', () => {
+      const renderer = render({ results, showTitle: true, showSubtitle: true, showTitleOverlay: false });
+      expect(textContent(renderer)).toEqual(['Earth', 'The Blue Marble', 'Mars']);
+    });
+
+    it('hides title and subtitle by default', () => {
+      const renderer = render({ results, showTitleOverlay: false });
+      expect(textContent(renderer)).toEqual([]);
+    });
+
+    it('sizes the image from a result aspect ratio', () => {
+      const renderer = render({
+        results: [{ id: 'ep', title: 'Episode', imageUrl: 'https://example.com/ep.jpg', aspectRatio: 2 }],
+        cardWidth: 400,
+      });
+      expect(renderer.root.findByType('Image' as any).props.style).toEqual({ width: 400, height: 200 });
+    });
+
+    it('renders badges, a clamped progress bar and metadata lines', () => {
+      const renderer = render({
+        results: [
+          { id: 'ep', title: 'Episode', badges: ['NEW', '4K'], progress: 1.5, metadata: ['2024', '48 min'] },
+        ],
+        cardWidth: 300,
+        showSubtitle: true,
+        showTitleOverlay: false,
+      });
+
+      expect(textContent(renderer)).toEqual(['NEW', '4K', '2024', '48 min']);
+      const [, fill] = renderer.root
+        .findByProps({ testID: 'tvos-search-progress-ep' })
+        .findAllByType('View' as any);
+      expect(fill.props.style[1].width).toBe(300);
+    });
+
+    it('maps imageContentMode to Image resizeMode', () => {
+      expect(render({ results }).root.findByType('Image' as any).props.resizeMode).toBe('cover');
+      expect(
+        render({ results, imageContentMode: 'fit' }).root.findByType('Image' as any).props.resizeMode
+      ).toBe('contain');
+    });
+
+    it('switches to fallbackImageUrl when the image fails to load', () => {
+      const renderer = render({
+        results: [{ ...results[0], fallbackImageUrl: 'https://example.com/planet.jpg' }],
+      });
+      const image = () => renderer.root.findByType('Image' as any);
+
+      act(() => image().props.onError());
+      expect(image().props.source).toEqual({ uri: 'https://example.com/planet.jpg' });
+
+      act(() => image().props.onError());
+      expect(renderer.root.findAllByType('Image' as any)).toHaveLength(0);
+    });
+
+    it('uses fallbackImageUrl for results without an image', () => {
+      const renderer = render({ results: [{ id: 'mars', title: 'Mars', fallbackImageUrl: 'https://example.com/planet.jpg' }] });
+
+      expect(renderer.root.findByType('Image' as any).props.source).toEqual({ uri: 'https://example.com/planet.jpg' });
+    });
+
+    it('draws initials tiles with renderInitials', () => {
+      const renderer = render({
+        results: [{ id: 'sw', title: 'star wars: a new hope' }],
+        renderInitials: true,
+        showTitleOverlay: false,
+      });
+
+      expect(textContent(renderer)).toEqual(['SW']);
+      expect(renderer.root.findByType('Text' as any).parent!.props.style[1].backgroundColor).toMatch(/^#[0-9A-F]{6}$/);
+    });
+
+    it('shows a loading overlay when loading with results', () => {
+      const renderer = render({ results, isLoading: true });
+      expect(renderer.root.findAllByType('ActivityIndicator' as any)).toHaveLength(1);
+    });
+  });
+
+  describe('events', () => {
+    it('fires onSearch with nativeEvent.query when text changes', () => {
+      const onSearch = jest.fn();
+      const renderer = render({ onSearch });
+
+      act(() => {
+        renderer.root.findByProps({ testID: 'tvos-search-input' }).props.onChangeText('mars');
+      });
+
+      expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'mars' } });
+    });
+
+    it('fires onSelectItem with nativeEvent.id when a card is pressed', () => {
+      const onSelectItem = jest.fn();
+      const renderer = render({ results, onSelectItem });
+
+      act(() => {
+        renderer.root.findByProps({ testID: 'tvos-search-result-mars' }).props.onPress();
+      });
+
+      expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars' } });
+    });
+
+    it('outlines the focused card with accentColor', () => {
+      const renderer = render({ results, accentColor: '#E50914' });
+      const card = renderer.root.findByProps({ testID: 'tvos-search-result-earth' });
+
+      act(() => card.props.onFocus());
+
+      const frame = card.findAllByType('View' as any)[0];
+      expect(frame.props.style).toEqual(
+        expect.arrayContaining([expect.objectContaining({ borderColor: '#E50914' })])
+      );
+    });
+
+    it('runs a selected recent search and fires onSelectRecentSearch first', () => {
+      const calls: string[] = [];
+      const renderer = render({
+        recentSearches: ['dune'],
+        onSelectRecentSearch: (e) => calls.push(`recent:${e.nativeEvent.query}`),
+        onSearch: (e) => calls.push(`search:${e.nativeEvent.query}`),
+      });
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-recent-0' }).props.onPress());
+
+      expect(calls).toEqual(['recent:dune', 'search:dune']);
+      expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe('dune');
+    });
+
+    it('runs a selected suggestion and fires onSelectSuggestion first', () => {
+      const calls: string[] = [];
+      const renderer = render({
+        searchText: 'du',
+        suggestions: [{ id: 'dune', text: 'Dune', icon: 'film' }],
+        onSelectSuggestion: (e) => calls.push(`suggestion:${e.nativeEvent.id}:${e.nativeEvent.text}`),
+        onSearch: (e) => calls.push(`search:${e.nativeEvent.query}`),
+      });
+      calls.length = 0;
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-suggestion-0' }).props.onPress());
+
+      expect(calls).toEqual(['suggestion:dune:Dune', 'search:Dune']);
+      expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe('Dune');
+    });
+
+    it('does not search again when the suggestion matches the current query', () => {
+      const onSearch = jest.fn();
+      const onSelectSuggestion = jest.fn();
+      const renderer = render({
+        searchText: 'Dune',
+        suggestions: [{ id: 'dune', text: 'Dune' }],
+        onSearch,
+        onSelectSuggestion,
+      });
+      onSearch.mockClear();
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-suggestion-0' }).props.onPress());
+
+      expect(onSelectSuggestion).toHaveBeenCalledTimes(1);
+      expect(onSearch).not.toHaveBeenCalled();
+    });
+
+    it('skips suggestions without an id or text', () => {
+      const renderer = render({
+        suggestions: [
+          { id: '', text: 'No id' },
+          { id: 'empty', text: '' },
+          { id: 'ok', text: 'Ok' },
+        ],
+      });
+
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-suggestion-0' })).toHaveLength(1);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-suggestion-1' })).toHaveLength(0);
+      expect(textContent(renderer)).toContain('Ok');
+    });
+
+    describe('scopes', () => {
+      const scopes = [
+        { id: 'movies', title: 'Movies' },
+        { id: 'tv', title: 'TV' },
+        { id: 'music', title: 'Music' },
+      ];
+
+      function selectedScopes(renderer: ReactTestRenderer): boolean[] {
+        return scopes.map(
+          (_, index) =>
+            renderer.root.findByProps({ testID: `tvos-search-scope-${index}` }).props.accessibilityState
+              .selected
+        );
+      }
+
+      function type(renderer: ReactTestRenderer, text: string) {
+        act(() => renderer.root.findByProps({ testID: 'tvos-search-input' }).props.onChangeText(text));
+      }
+
+      it('selects the first scope and sends it with every search', () => {
+        const onSearch = jest.fn();
+        const renderer = render({ scopes, onSearch });
+
+        type(renderer, 'dune');
+
+        expect(selectedScopes(renderer)).toEqual([true, false, false]);
+        expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'dune', scopeId: 'movies' } });
+      });
+
+      it('fires onScopeChange, then searches again in the picked scope', () => {
+        const calls: string[] = [];
+        const renderer = render({
+          scopes,
+          onScopeChange: (e) => calls.push(`scope:${e.nativeEvent.scopeId}`),
+          onSearch: (e) => calls.push(`search:${e.nativeEvent.query}:${e.nativeEvent.scopeId}`),
+        });
+        type(renderer, 'dune');
+        calls.length = 0;
+
+        act(() => renderer.root.findByProps({ testID: 'tvos-search-scope-1' }).props.onPress());
+
+        expect(calls).toEqual(['scope:tv', 'search:dune:tv']);
+        expect(selectedScopes(renderer)).toEqual([false, true, false]);
+      });
+
+      it('does not search when the field is empty or the scope is already selected', () => {
+        const onSearch = jest.fn();
+        const onScopeChange = jest.fn();
+        const renderer = render({ scopes, onSearch, onScopeChange });
+
+        act(() => renderer.root.findByProps({ testID: 'tvos-search-scope-0' }).props.onPress());
+        act(() => renderer.root.findByProps({ testID: 'tvos-search-scope-2' }).props.onPress());
+
+        expect(onScopeChange.mock.calls).toEqual([[{ nativeEvent: { scopeId: 'music' } }]]);
+        expect(onSearch).not.toHaveBeenCalled();
+      });
+
+      it('keeps the selectedScope shown until the parent follows a pick', () => {
+        const onSearch = jest.fn();
+        const onScopeChange = jest.fn();
+        const renderer = render({ scopes, selectedScope: 'tv', onSearch, onScopeChange });
+        expect(selectedScopes(renderer)).toEqual([false, true, false]);
+
+        act(() => renderer.root.findByProps({ testID: 'tvos-search-scope-2' }).props.onPress());
+        act(() => {
+          renderer.update(
+            <TvosSearchFallbackView
+              results={[]}
+              scopes={[...scopes]}
+              selectedScope="tv"
+              onSearch={onSearch}
+              onScopeChange={onScopeChange}
+            />
+          );
+        });
+        expect(onScopeChange.mock.calls).toEqual([[{ nativeEvent: { scopeId: 'music' } }]]);
+        expect(selectedScopes(renderer)).toEqual([false, true, false]);
+
+        type(renderer, 'dune');
+        act(() => {
+          renderer.update(
+            <TvosSearchFallbackView results={[]} scopes={scopes} selectedScope="music" onSearch={onSearch} />
+          );
+        });
+
+        expect(selectedScopes(renderer)).toEqual([false, false, true]);
+        expect(onSearch.mock.calls.map(([event]) => event.nativeEvent)).toEqual([
+          { query: 'dune', scopeId: 'tv' },
+          { query: 'dune', scopeId: 'music' },
+        ]);
+      });
+
+      it('falls back to the first scope when selectedScope is unknown', () => {
+        const renderer = render({ scopes, selectedScope: 'books' });
+
+        expect(selectedScopes(renderer)).toEqual([true, false, false]);
+      });
+
+      it('omits scopeId without scopes', () => {
+        const onSearch = jest.fn();
+        const renderer = render({ onSearch });
+
+        type(renderer, 'dune');
+
+        expect(onSearch.mock.calls[0][0].nativeEvent).toEqual({ query: 'dune' });
+        expect(renderer.root.findAllByProps({ testID: 'tvos-search-scope-0' })).toHaveLength(0);
+      });
+    });
+
+    it('opens the context menu on long press and fires onItemAction', () => {
+      const onItemAction = jest.fn();
+      const renderer = render({
+        results: [
+          { id: 'earth', title: 'Earth', actions: [{ id: 'remove', title: 'Remove', destructive: true }] },
+        ],
+        onItemAction,
+      });
+      const card = renderer.root.findByProps({ testID: 'tvos-search-result-earth' });
+
+      act(() => card.props.onLongPress());
+      expect(textContent(renderer)).toContain('Remove');
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-action-remove' }).props.onPress());
+
+      expect(onItemAction).toHaveBeenCalledWith({ nativeEvent: { itemId: 'earth', actionId: 'remove' } });
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-action-menu' })).toHaveLength(0);
+    });
+
+    it('uses defaultActions unless a result defines its own', () => {
+      const renderer = render({
+        results: [{ id: 'earth', title: 'Earth' }, { id: 'mars', title: 'Mars', actions: [] }],
+        defaultActions: [{ id: 'watchlist', title: 'Add to Watchlist' }],
+      });
+
+      expect(renderer.root.findByProps({ testID: 'tvos-search-result-earth' }).props.onLongPress).toBeDefined();
+      expect(renderer.root.findByProps({ testID: 'tvos-search-result-mars' }).props.onLongPress).toBeUndefined();
+    });
+
+    it('reports the section id for actions in sections and closes on cancel', () => {
+      const onItemAction = jest.fn();
+      const renderer = render({
+        sections: [{ id: 'movies', title: 'Movies', results: [{ id: 'dune', title: 'Dune' }] }],
+        defaultActions: [{ id: 'watchlist', title: 'Add to Watchlist' }],
+        onItemAction,
+      });
+      const card = renderer.root.findByProps({ testID: 'tvos-search-result-dune' });
+
+      act(() => card.props.onLongPress());
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-action-watchlist' }).props.onPress());
+      expect(onItemAction).toHaveBeenCalledWith({
+        nativeEvent: { itemId: 'dune', actionId: 'watchlist', sectionId: 'movies' },
+      });
+
+      act(() => card.props.onLongPress());
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-action-cancel' }).props.onPress());
+      expect(onItemAction).toHaveBeenCalledTimes(1);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-action-menu' })).toHaveLength(0);
+    });
+
+    it('fires onClearHistory from the clear button', () => {
+      const onClearHistory = jest.fn();
+      const renderer = render({ recentSearches: ['dune'], onClearHistory });
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-clear-history' }).props.onPress());
+
+      expect(onClearHistory).toHaveBeenCalledWith({ nativeEvent: {} });
+    });
+
+    it('fires onFocusItem and onBlurItem with the id and index', () => {
+      const onFocusItem = jest.fn();
+      const onBlurItem = jest.fn();
+      const renderer = render({ results, onFocusItem, onBlurItem });
+      const card = renderer.root.findByProps({ testID: 'tvos-search-result-mars' });
+
+      act(() => card.props.onFocus());
+      act(() => card.props.onBlur());
+
+      expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1 } });
+      expect(onBlurItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1 } });
+    });
+
+    it('reports the index in results when earlier results were skipped', () => {
+      const onFocusItem = jest.fn();
+      const renderer = render({ results: [{ id: '', title: 'No id' }, ...results], onFocusItem });
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-result-mars' }).props.onFocus());
+
+      expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 2 } });
+    });
+
+    it('reports the index within the section for item focus events', () => {
+      const onFocusItem = jest.fn();
+      const renderer = render({
+        sections: [
+          { id: 'movies', title: 'Movies', results },
+          { id: 'live', title: 'Live', results: [{ id: 'news', title: 'News' }] },
+        ],
+        onFocusItem,
+      });
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-result-news' }).props.onFocus());
+
+      expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'news', index: 0, sectionId: 'live' } });
+    });
+
+    it('fires search field focus callbacks from the text input', () => {
+      const onSearchFieldFocused = jest.fn();
+      const onSearchFieldBlurred = jest.fn();
+      const renderer = render({ onSearchFieldFocused, onSearchFieldBlurred });
+      const input = renderer.root.findByProps({ testID: 'tvos-search-input' });
+
+      act(() => input.props.onFocus());
+      act(() => input.props.onBlur());
+
+      expect(onSearchFieldFocused).toHaveBeenCalledWith({ nativeEvent: {} });
+      expect(onSearchFieldBlurred).toHaveBeenCalledWith({ nativeEvent: {} });
+    });
+  });
+
+  describe('searchText prop', () => {
+    it('applies searchText and fires onSearch like the native view', () => {
+      const onSearch = jest.fn();
+      const renderer = render({ onSearch, searchText: 'dune' });
+
+      expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe('dune');
+
+      act(() => {
+        renderer.update(
+          <TvosSearchFallbackView results={[]} onSearch={onSearch} onSelectItem={jest.fn()} searchText="arrival" />
+        );
+      });
+
+      expect(onSearch).toHaveBeenLastCalledWith({ nativeEvent: { query: 'arrival' } });
+      expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe('arrival');
+    });
+
+    it('ignores searchText equal to the current text', () => {
+      const onSearch = jest.fn();
+      const renderer = render({ onSearch });
+
+      act(() => {
+        renderer.root.findByProps({ testID: 'tvos-search-input' }).props.onChangeText('dune');
+      });
+      act(() => {
+        renderer.update(
+          <TvosSearchFallbackView results={[]} onSearch={onSearch} onSelectItem={jest.fn()} searchText="dune" />
+        );
+      });
+
+      expect(onSearch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sections', () => {
+    const sections = [
+      { id: 'movies', title: 'Movies', results },
+      {
+        id: 'live',
+        title: 'Live Channels',
+        results: [{ id: 'news', title: 'News 24' }],
+        layout: { columns: 3, cardWidth: 420, cardHeight: 240 },
+      },
+      { id: 'people', title: 'People', results: [] },
+    ];
+
+    it('renders a header and cards per non-empty section', () => {
+      const renderer = render({ sections, results: [{ id: 'ignored', title: 'Ignored' }] });
+
+      expect(textContent(renderer)).toEqual(
+        expect.arrayContaining(['Movies', 'Live Channels'])
+      );
+      expect(textContent(renderer)).not.toContain('People');
+      expect(renderer.root.findAllByType('Pressable' as any)).toHaveLength(3);
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-result-ignored' })).toHaveLength(0);
+    });
+
+    it('caps results at 500 across sections', () => {
+      const page = (prefix: string) =>
+        Array.from({ length: 300 }, (_, i) => ({ id: `${prefix}${i}`, title: `${prefix} ${i}` }));
+      const renderer = render({
+        sections: [
+          { id: '', title: 'No id', results: page('x') },
+          { id: 'movies', title: 'Movies', results: page('m') },
+          { id: 'tv', title: 'TV', results: page('t') },
+        ],
+      });
+
+      expect(renderer.root.findAllByType('Pressable' as any)).toHaveLength(200);
+      expect(textContent(renderer)).not.toContain('TV');
+    });
+
+    it('applies per-section card geometry', () => {
+      const renderer = render({ sections, cardMargin: 40 });
+      const card = renderer.root.findByProps({ testID: 'tvos-search-result-news' });
+      expect(card.props.style.width).toBe(420);
+
+      // First View is the section container itself, the next one wraps its cards
+      const [, grid] = renderer.root
+        .findByProps({ testID: 'tvos-search-section-live' })
+        .findAllByType('View' as any);
+      expect(grid.props.style).toEqual(expect.arrayContaining([{ width: 3 * (420 + 40) }]));
+    });
+
+    it('reports the sectionId in onSelectItem', () => {
+      const onSelectItem = jest.fn();
+      const renderer = render({ sections, onSelectItem });
+
+      act(() => renderer.root.findByProps({ testID: 'tvos-search-result-news' }).props.onPress());
+
+      expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'news', sectionId: 'live' } });
+    });
+
+    it('shows the no results state when every section is empty', () => {
+      const renderer = render({ sections: [{ id: 'people', title: 'People', results: [] }], searchText: 'zzz' });
+      expect(textContent(renderer)).toContain('No results found');
+    });
+  });
+
+  describe('pagination', () => {
+    function endReached(renderer: ReactTestRenderer): void {
+      act(() => renderer.root.findByType('FlatList' as any).props.onEndReached());
+    }
+
+    it('fires onEndReached with the result count while hasMore is true', () => {
+      const onEndReached = jest.fn();
+      endReached(render({ results, hasMore: true, onEndReached }));
+      expect(onEndReached).toHaveBeenCalledWith({ nativeEvent: { resultCount: 2 } });
+    });
+
+    it('does not fire onEndReached without hasMore or while loading more', () => {
+      const onEndReached = jest.fn();
+      endReached(render({ results, onEndReached }));
+      endReached(render({ results, hasMore: true, isLoadingMore: true, onEndReached }));
+      expect(onEndReached).not.toHaveBeenCalled();
+    });
+
+    it('fires once per page, re-arming when a page load finishes', () => {
+      const onEndReached = jest.fn();
+      const props = { results, hasMore: true, onEndReached, onSearch: jest.fn(), onSelectItem: jest.fn() };
+      const renderer = render(props);
+
+      endReached(renderer);
+      endReached(renderer);
+      expect(onEndReached).toHaveBeenCalledTimes(1);
+
+      act(() => renderer.update(<TvosSearchFallbackView {...props} isLoadingMore />));
+      act(() => renderer.update(<TvosSearchFallbackView {...props} isLoadingMore={false} />));
+      endReached(renderer);
+      expect(onEndReached).toHaveBeenCalledTimes(2);
+    });
+
+    it('converts onEndReachedThreshold from rows to viewport lengths once laid out', () => {
+      const renderer = render({ results, onEndReachedThreshold: 2, cardHeight: 260, cardMargin: 40 });
+      const grid = () => renderer.root.findByType('FlatList' as any);
+
+      act(() => grid().props.onLayout({ nativeEvent: { layout: { height: 1200 } } }));
+
+      expect(grid().props.onEndReachedThreshold).toBe(0.5);
+    });
+
+    it('shows a footer spinner while loading more', () => {
+      expect(render({ results }).root.findAllByProps({ testID: 'tvos-search-loading-more' })).toHaveLength(0);
+      const renderer = render({ results, isLoadingMore: true });
+      expect(renderer.root.findAllByProps({ testID: 'tvos-search-loading-more' })).not.toHaveLength(0);
+    });
+  });
+});
+
+describe('TvosSearchView fallback prop', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockWebPlatform();
+    mockNativeModuleUnavailable();
+  });
+
+  it('renders the fallback view when fallback="auto" and native is unavailable', () => {
+    const { TvosSearchView } = require('../index');
+    const { FallbackSearchView: Fallback } = require('../TvosSearchFallbackView');
+    const renderer = renderView(TvosSearchView, {
+      results: [],
+      onSearch: jest.fn(),
+      onSelectItem: jest.fn(),
+      fallback: 'auto',
+    });
+
+    const fallbackView = renderer.root.findByType(Fallback);
+    expect(fallbackView.props.fallback).toBeUndefined();
+    expect(renderer.root.findAllByProps({ testID: 'tvos-search-input' })).toHaveLength(1);
+  });
+
+  it('renders null by default when native is unavailable', () => {
+    const { TvosSearchView } = require('../index');
+    const result = renderView(TvosSearchView, {
+      results: [],
+      onSearch: jest.fn(),
+      onSelectItem: jest.fn(),
+    }).toJSON();
+
+    expect(result).toBeNull();
+  });
+
+  it('renders the native view on tvOS even when fallback="auto"', () => {
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+
+    const { TvosSearchView } = require('../index');
+    const { FallbackSearchView: Fallback } = require('../TvosSearchFallbackView');
+    const renderer = renderView(TvosSearchView, {
+      results: [],
+      onSearch: jest.fn(),
+      onSelectItem: jest.fn(),
+      fallback: 'auto',
+    });
+    const result: any = renderer.toJSON();
+
+    expect(result.type).toBe('ExpoTvosSearchView');
+    expect(result.props.fallback).toBeUndefined();
+    expect(renderer.root.findAllByType(Fallback)).toHaveLength(0);
+  });
+});
+
+describe('TvosSearchFallbackView ref handle', () => {
+  const { FlatList } = require('react-native');
+
+  function renderWithRef(props: Partial<TvosSearchViewProps> = {}) {
+    const ref = React.createRef<TvosSearchViewHandle>();
+    const inputMock = { focus: jest.fn(), blur: jest.fn() };
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(
+        <TvosSearchFallbackView ref={ref} results={results} {...props} />,
+        { createNodeMock: (element) => (element.type === 'TextInput' ? inputMock : null) }
+      );
+    });
+    return { ref, renderer, inputMock };
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (global as any).__DEV__;
+  });
+
+  it('focuses and blurs the text input', () => {
+    const { ref, inputMock } = renderWithRef();
+
+    ref.current!.focusSearchField();
+    ref.current!.blurSearchField();
+
+    expect(inputMock.focus).toHaveBeenCalled();
+    expect(inputMock.blur).toHaveBeenCalled();
+  });
+
+  it('clears the query and fires onSearch', () => {
+    const onSearch = jest.fn();
+    const { ref, renderer } = renderWithRef({ onSearch, searchText: 'dune' });
+    onSearch.mockClear();
+
+    act(() => ref.current!.clear());
+
+    expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: '' } });
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe('');
+  });
+
+  it('sets the query with and without emitting onSearch', () => {
+    const onSearch = jest.fn();
+    const { ref, renderer } = renderWithRef({ onSearch });
+
+    act(() => ref.current!.setQuery('dune', { emit: false }));
+    expect(onSearch).not.toHaveBeenCalled();
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe('dune');
+
+    act(() => ref.current!.setQuery('arrival'));
+    expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'arrival' } });
+  });
+
+  it('scrolls the grid to the top and to an item row', () => {
+    const scrollToOffset = jest.spyOn(FlatList.prototype, 'scrollToOffset');
+    const scrollToIndex = jest.spyOn(FlatList.prototype, 'scrollToIndex');
+    const { ref } = renderWithRef({ columns: 1 });
+
+    ref.current!.scrollToTop();
+    ref.current!.scrollToItem('mars');
+
+    expect(scrollToOffset).toHaveBeenCalledWith({ offset: 0, animated: true });
+    expect(scrollToIndex).toHaveBeenCalledWith({ index: 1, animated: true });
+  });
+
+  it('warns about unknown ids in scrollToItem during development', () => {
+    (global as any).__DEV__ = true;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const scrollToIndex = jest.spyOn(FlatList.prototype, 'scrollToIndex');
+    const { ref } = renderWithRef();
+
+    ref.current!.scrollToItem('missing');
+
+    expect(scrollToIndex).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("scrollToItem: id 'missing' is not in results")
+    );
+  });
+});
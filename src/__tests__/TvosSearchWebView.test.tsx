@@ -0,0 +1,493 @@
+/**
+ * Tests for the DOM search view used as TvosSearchView on web
+ *
+ * Rendered with react-test-renderer, so DOM elements show up as host
+ * components ('div', 'input') and element refs come from createNodeMock.
+ */
+
+import React from 'react';
+import TestRenderer, { act, type ReactTestInstance, type ReactTestRenderer } from 'react-test-renderer';
+import { TvosSearchWebView } from '../TvosSearchWebView';
+import type { TvosSearchViewHandle, TvosSearchViewProps } from '../index';
+
+const results = [
+  { id: 'earth', title: 'Earth', subtitle: 'The Blue Marble', imageUrl: 'https://example.com/earth.jpg' },
+  { id: 'mars', title: 'Mars' },
+  { id: 'venus', title: 'Venus' },
+  { id: 'jupiter', title: 'Jupiter' },
+  { id: 'saturn', title: 'Saturn' },
+];
+
+/** Element mocks by data-testid, so tests can check focus and scrolling */
+let nodes: Map<string, Record<string, jest.Mock | number>>;
+
+/** Unmounted after each test, so focused cards don't leave marquee timers running */
+let mounted: ReactTestRenderer[];
+
+function createNodeMock(element: React.ReactElement): unknown {
+  const node = {
+    focus: jest.fn(),
+    blur: jest.fn(),
+    scrollTo: jest.fn(),
+    scrollIntoView: jest.fn(),
+  };
+  const testId = element.props['data-testid'];
+  if (testId) nodes.set(testId, node);
+  return node;
+}
+
+function element(props: Partial<TvosSearchViewProps>) {
+  return <TvosSearchWebView results={results} columns={2} {...props} />;
+}
+
+function render(props: Partial<TvosSearchViewProps> = {}): ReactTestRenderer {
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(element(props), { createNodeMock });
+  });
+  mounted.push(renderer);
+  return renderer;
+}
+
+function byTestId(renderer: ReactTestRenderer, testId: string): ReactTestInstance {
+  return renderer.root.findByProps({ 'data-testid': testId });
+}
+
+function pressKey(target: ReactTestInstance, key: string): jest.Mock {
+  const preventDefault = jest.fn();
+  act(() => target.props.onKeyDown({ key, preventDefault }));
+  return preventDefault;
+}
+
+function textContent(renderer: ReactTestRenderer): string[] {
+  const texts: string[] = [];
+  const walk = (node: ReturnType<ReactTestRenderer['toJSON']>) => {
+    if (node === null) return;
+    if (typeof node === 'string') {
+      texts.push(node);
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+      return;
+    }
+    node.children?.forEach((child) => walk(child as any));
+  };
+  walk(renderer.toJSON());
+  return texts;
+}
+
+beforeEach(() => {
+  nodes = new Map();
+  mounted = [];
+});
+
+afterEach(() => {
+  act(() => mounted.forEach((renderer) => renderer.unmount()));
+});
+
+describe('TvosSearchWebView', () => {
+  it('renders an input and a grid with the column count', () => {
+    const renderer = render({ searchText: 'planets', cardWidth: 300, cardMargin: 20 });
+
+    expect(byTestId(renderer, 'tvos-search-input').props.value).toBe('planets');
+    const [grid] = renderer.root.findAll(
+      (node) => node.type === 'div' && node.props.style?.display === 'grid'
+    );
+    expect(grid.props.style).toMatchObject({ gridTemplateColumns: 'repeat(2, 300px)', gap: 20 });
+    expect(renderer.root.findAllByProps({ role: 'button', tabIndex: 0 })).toHaveLength(5);
+  });
+
+  it('falls back to fallbackImageUrl and initials tiles', () => {
+    const renderer = render({
+      results: [{ ...results[0], fallbackImageUrl: 'https://example.com/planet.jpg' }],
+      renderInitials: true,
+      showTitleOverlay: false,
+    });
+    const images = () => renderer.root.findAllByType('img' as any);
+
+    act(() => images()[0].props.onError());
+    expect(images()[0].props.src).toBe('https://example.com/planet.jpg');
+    act(() => images()[0].props.onError());
+    expect(images()).toHaveLength(0);
+    expect(textContent(renderer)).toContain('E');
+  });
+
+  it('fires onSearch as the user types', () => {
+    const onSearch = jest.fn();
+    const renderer = render({ onSearch });
+
+    act(() => byTestId(renderer, 'tvos-search-input').props.onChange({ target: { value: 'ma' } }));
+
+    expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'ma' } });
+    expect(byTestId(renderer, 'tvos-search-input').props.value).toBe('ma');
+  });
+
+  it('shows scope tabs and searches again in the picked scope', () => {
+    const onSearch = jest.fn();
+    const onScopeChange = jest.fn();
+    const renderer = render({
+      scopes: [
+        { id: 'planets', title: 'Planets' },
+        { id: 'moons', title: 'Moons' },
+      ],
+      onSearch,
+      onScopeChange,
+    });
+
+    act(() => byTestId(renderer, 'tvos-search-input').props.onChange({ target: { value: 'ma' } }));
+    act(() => byTestId(renderer, 'tvos-search-scope-1').props.onClick());
+
+    expect(onScopeChange).toHaveBeenCalledWith({ nativeEvent: { scopeId: 'moons' } });
+    expect(onSearch.mock.calls.map(([event]) => event.nativeEvent)).toEqual([
+      { query: 'ma', scopeId: 'planets' },
+      { query: 'ma', scopeId: 'moons' },
+    ]);
+    expect(byTestId(renderer, 'tvos-search-scope-1').props['aria-selected']).toBe(true);
+  });
+
+  it('shows the empty state without a query', () => {
+    const renderer = render({ results: [], emptyStateText: 'Find a planet' });
+
+    expect(textContent(renderer)).toContain('Find a planet');
+  });
+
+  it('shows the no results state for a query without results', () => {
+    const renderer = render({ results: [], searchText: 'pluto' });
+
+    expect(textContent(renderer)).toEqual(
+      expect.arrayContaining(['No results found', 'Try a different search term'])
+    );
+  });
+
+  describe('keyboard navigation', () => {
+    it('moves focus across columns and rows with the arrow keys', () => {
+      const renderer = render();
+
+      pressKey(byTestId(renderer, 'tvos-search-result-earth'), 'ArrowRight');
+      expect(nodes.get('tvos-search-result-mars')!.focus).toHaveBeenCalled();
+
+      pressKey(byTestId(renderer, 'tvos-search-result-mars'), 'ArrowDown');
+      expect(nodes.get('tvos-search-result-jupiter')!.focus).toHaveBeenCalled();
+
+      // The last row has one card, so down from jupiter lands on saturn
+      pressKey(byTestId(renderer, 'tvos-search-result-jupiter'), 'ArrowDown');
+      expect(nodes.get('tvos-search-result-saturn')!.focus).toHaveBeenCalled();
+    });
+
+    it('stays put at the edge of a row', () => {
+      const renderer = render();
+
+      const preventDefault = pressKey(byTestId(renderer, 'tvos-search-result-mars'), 'ArrowRight');
+
+      expect(preventDefault).toHaveBeenCalled();
+      expect(nodes.get('tvos-search-result-venus')!.focus).not.toHaveBeenCalled();
+    });
+
+    it('moves between the search field and the first row', () => {
+      const renderer = render();
+
+      pressKey(byTestId(renderer, 'tvos-search-input'), 'ArrowDown');
+      expect(nodes.get('tvos-search-result-earth')!.focus).toHaveBeenCalled();
+
+      pressKey(byTestId(renderer, 'tvos-search-result-mars'), 'ArrowUp');
+      expect(nodes.get('tvos-search-input')!.focus).toHaveBeenCalled();
+    });
+
+    it('ignores other keys in the search field', () => {
+      const renderer = render();
+
+      const preventDefault = pressKey(byTestId(renderer, 'tvos-search-input'), 'a');
+
+      expect(preventDefault).not.toHaveBeenCalled();
+      expect(nodes.get('tvos-search-result-earth')!.focus).not.toHaveBeenCalled();
+    });
+
+    it('selects the focused card with Enter', () => {
+      const onSelectItem = jest.fn();
+      const onSelect = jest.fn();
+      const renderer = render({ onSelectItem, onSelect });
+
+      pressKey(byTestId(renderer, 'tvos-search-result-venus'), 'Enter');
+
+      expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'venus' } });
+      expect(onSelect).toHaveBeenCalledWith(results[2], 2);
+    });
+
+    it('selects a card on click', () => {
+      const onSelectItem = jest.fn();
+      const renderer = render({ onSelectItem });
+
+      act(() => byTestId(renderer, 'tvos-search-result-mars').props.onClick());
+
+      expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars' } });
+    });
+
+    it('navigates across sections and reports the section id', () => {
+      const onSelectItem = jest.fn();
+      const sections = [
+        { id: 'inner', title: 'Inner', results: results.slice(0, 3) },
+        { id: 'outer', title: 'Outer', results: results.slice(3) },
+      ];
+      const renderer = render({ results: undefined, sections, onSelectItem });
+
+      // venus is alone on the last row of "inner"; down goes to the first row of "outer"
+      pressKey(byTestId(renderer, 'tvos-search-result-venus'), 'ArrowDown');
+      expect(nodes.get('tvos-search-result-jupiter')!.focus).toHaveBeenCalled();
+
+      pressKey(byTestId(renderer, 'tvos-search-result-saturn'), 'Enter');
+      expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'saturn', sectionId: 'outer' } });
+      expect(textContent(renderer)).toEqual(expect.arrayContaining(['Inner', 'Outer']));
+    });
+  });
+
+  describe('focus', () => {
+    it('outlines the focused card in accentColor and fires focus events', () => {
+      const onFocusItem = jest.fn();
+      const onBlurItem = jest.fn();
+      const renderer = render({ accentColor: '#E50914', onFocusItem, onBlurItem });
+      const card = () => byTestId(renderer, 'tvos-search-result-mars');
+
+      act(() => card().props.onFocus());
+      expect(card().props.children[0].props.style.borderColor).toBe('#E50914');
+      expect(card().props.style.transform).toBe('scale(1.05)');
+      expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1 } });
+
+      act(() => card().props.onBlur());
+      expect(card().props.children[0].props.style.borderColor).toBe('transparent');
+      expect(onBlurItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1 } });
+    });
+
+    it('reports the index in results when earlier results were skipped', () => {
+      const onFocusItem = jest.fn();
+      const renderer = render({ results: [{ id: 'untitled', title: '' }, ...results], onFocusItem });
+
+      act(() => byTestId(renderer, 'tvos-search-result-mars').props.onFocus());
+
+      expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 2 } });
+    });
+
+    it('fires onSearchFieldFocused and onSearchFieldBlurred', () => {
+      const onSearchFieldFocused = jest.fn();
+      const onSearchFieldBlurred = jest.fn();
+      const renderer = render({ onSearchFieldFocused, onSearchFieldBlurred });
+
+      act(() => byTestId(renderer, 'tvos-search-input').props.onFocus());
+      act(() => byTestId(renderer, 'tvos-search-input').props.onBlur());
+
+      expect(onSearchFieldFocused).toHaveBeenCalledTimes(1);
+      expect(onSearchFieldBlurred).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires onEndReached once when focus reaches the last rows', () => {
+      const onEndReached = jest.fn();
+      const renderer = render({ hasMore: true, onEndReached, onEndReachedThreshold: 0 });
+
+      act(() => byTestId(renderer, 'tvos-search-result-earth').props.onFocus());
+      expect(onEndReached).not.toHaveBeenCalled();
+
+      act(() => byTestId(renderer, 'tvos-search-result-saturn').props.onFocus());
+      act(() => byTestId(renderer, 'tvos-search-result-saturn').props.onFocus());
+      expect(onEndReached).toHaveBeenCalledTimes(1);
+      expect(onEndReached).toHaveBeenCalledWith({ nativeEvent: { resultCount: 5 } });
+    });
+
+    it('fires onEndReached when scrolled near the end', () => {
+      const onEndReached = jest.fn();
+      const renderer = render({ hasMore: true, onEndReached, cardHeight: 400, cardMargin: 40 });
+
+      act(() =>
+        byTestId(renderer, 'tvos-search-grid').props.onScroll({
+          currentTarget: { scrollTop: 0, clientHeight: 500, scrollHeight: 2000 },
+        })
+      );
+      expect(onEndReached).not.toHaveBeenCalled();
+
+      act(() =>
+        byTestId(renderer, 'tvos-search-grid').props.onScroll({
+          currentTarget: { scrollTop: 1100, clientHeight: 500, scrollHeight: 2000 },
+        })
+      );
+      expect(onEndReached).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('marquee', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function renderMarquee(props: Partial<TvosSearchViewProps>, textWidth: number) {
+      const animation = { cancel: jest.fn() };
+      const animate = jest.fn(() => animation);
+      let renderer!: ReactTestRenderer;
+      act(() => {
+        renderer = TestRenderer.create(element({ results: [results[0]], ...props }), {
+          createNodeMock: () => ({
+            focus: jest.fn(),
+            // The title span and its container
+            scrollWidth: textWidth,
+            clientWidth: 200,
+            animate,
+          }),
+        });
+      });
+      const card = byTestId(renderer, 'tvos-search-result-earth');
+      return { renderer, card, animate, animation };
+    }
+
+    it('scrolls an overflowing title after marqueeDelay while focused', () => {
+      const { renderer, card, animate, animation } = renderMarquee({ marqueeDelay: 2 }, 300);
+
+      act(() => card.props.onFocus());
+      act(() => jest.advanceTimersByTime(1999));
+      expect(animate).not.toHaveBeenCalled();
+
+      act(() => jest.advanceTimersByTime(1));
+      expect(animate).toHaveBeenCalledWith(
+        [{ transform: 'translateX(0)' }, { transform: 'translateX(-340px)' }],
+        expect.objectContaining({ duration: (340 / 30) * 1000, iterations: Infinity })
+      );
+      // A second copy follows the title while scrolling
+      expect(textContent(renderer).filter((text) => text === 'Earth')).toHaveLength(2);
+
+      act(() => byTestId(renderer, 'tvos-search-result-earth').props.onBlur());
+      expect(animation.cancel).toHaveBeenCalled();
+      expect(textContent(renderer).filter((text) => text === 'Earth')).toHaveLength(1);
+    });
+
+    it('does not scroll a title that fits', () => {
+      const { card, animate } = renderMarquee({}, 150);
+
+      act(() => card.props.onFocus());
+      act(() => jest.advanceTimersByTime(5000));
+
+      expect(animate).not.toHaveBeenCalled();
+    });
+
+    it('does not scroll when enableMarquee is false', () => {
+      const { card, animate } = renderMarquee({ enableMarquee: false }, 300);
+
+      act(() => card.props.onFocus());
+      act(() => jest.advanceTimersByTime(5000));
+
+      expect(animate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ref', () => {
+    function renderWithRef(props: Partial<TvosSearchViewProps> = {}) {
+      const ref = React.createRef<TvosSearchViewHandle>();
+      let renderer!: ReactTestRenderer;
+      act(() => {
+        renderer = TestRenderer.create(
+          <TvosSearchWebView ref={ref} results={results} columns={2} {...props} />,
+          { createNodeMock }
+        );
+      });
+      return { renderer, ref };
+    }
+
+    it('focuses and blurs the input', () => {
+      const { ref } = renderWithRef();
+
+      act(() => ref.current!.focusSearchField());
+      act(() => ref.current!.blurSearchField());
+
+      expect(nodes.get('tvos-search-input')!.focus).toHaveBeenCalled();
+      expect(nodes.get('tvos-search-input')!.blur).toHaveBeenCalled();
+    });
+
+    it('sets and clears the query', () => {
+      const onSearch = jest.fn();
+      const { renderer, ref } = renderWithRef({ onSearch });
+
+      act(() => ref.current!.setQuery('mars', { emit: false }));
+      expect(byTestId(renderer, 'tvos-search-input').props.value).toBe('mars');
+      expect(onSearch).not.toHaveBeenCalled();
+
+      act(() => ref.current!.clear());
+      expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: '' } });
+    });
+
+    it('scrolls to the top and to an item', () => {
+      const { ref } = renderWithRef();
+
+      act(() => ref.current!.scrollToTop());
+      act(() => ref.current!.scrollToItem('saturn'));
+
+      expect(nodes.get('tvos-search-grid')!.scrollTo).toHaveBeenCalledWith({ top: 0, behavior: 'smooth' });
+      expect(nodes.get('tvos-search-result-saturn')!.scrollIntoView).toHaveBeenCalled();
+    });
+
+    it('warns about unknown ids in development', () => {
+      (globalThis as any).__DEV__ = true;
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { ref } = renderWithRef();
+
+      act(() => ref.current!.scrollToItem('pluto'));
+
+      expect(warn).toHaveBeenCalledWith("[expo-tvos-search] scrollToItem: id 'pluto' is not in results.");
+      warn.mockRestore();
+      delete (globalThis as any).__DEV__;
+    });
+  });
+
+  it('announces results through a live region', () => {
+    const renderer = render({ results: [], searchText: 'mars', isLoading: true });
+    const liveRegion = () => renderer.root.findByProps({ 'aria-live': 'polite' });
+    expect(liveRegion().props.children).toBe('Searching...');
+
+    act(() => renderer.update(element({ searchText: 'mars', isLoading: false })));
+    expect(liveRegion().props.children).toBe('5 results');
+  });
+
+  it('logs validation warnings in development', () => {
+    (globalThis as any).__DEV__ = true;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    render({ columns: 13 });
+
+    expect(warn).toHaveBeenCalledWith(
+      '[expo-tvos-search] Validation warning [value_clamped]: columns value 13 was clamped to range [1, 10] (columns=10)'
+    );
+    warn.mockRestore();
+    delete (globalThis as any).__DEV__;
+  });
+});
+
+describe('index.web', () => {
+  it('exports the web view as TvosSearchView and reports it available', () => {
+    const web = require('../index.web');
+
+    expect(web.TvosSearchView).toBe(require('../TvosSearchWebView').TvosSearchWebView);
+    expect(web.isNativeSearchAvailable()).toBe(true);
+    expect(typeof web.useTvosSearch).toBe('function');
+  });
+
+  it('loads without react-native', () => {
+    jest.doMock('react-native', () => {
+      throw new Error('react-native is not installed');
+    });
+    try {
+      jest.isolateModules(() => {
+        const web = require('../index.web');
+
+        expect(web.TvosSearchFallbackView).toBeUndefined();
+        expect(web.TvosSearchView).toBeDefined();
+      });
+    } finally {
+      jest.dontMock('react-native');
+    }
+  });
+
+  it('exports TvosSearchFallbackView from the fallback entry', () => {
+    expect(require('../fallback').TvosSearchFallbackView).toBe(
+      require('../TvosSearchFallbackView').TvosSearchFallbackView
+    );
+  });
+});
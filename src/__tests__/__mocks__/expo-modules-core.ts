@@ -5,6 +5,7 @@
 
 declare global {
   var __mockNativeViewAvailable: boolean;
+  var __mockNativeModule: Record<string, unknown> | undefined;
 }
 
 // Only initialize if not already set (allows persistence across module resets)
@@ -14,8 +15,17 @@ if (globalThis.__mockNativeViewAvailable === undefined) {
 
 export const requireNativeViewManager = (_name: string) => {
   if (globalThis.__mockNativeViewAvailable) {
-    // Return a mock component function
-    return () => null;
+    // Return a host component name so react-test-renderer renders it as an
+    // inspectable element, with refs resolved through createNodeMock
+    return 'ExpoTvosSearchView';
+  }
+  return null;
+};
+
+// Module functions set by mockNativeModuleFunctions, available with the view
+export const requireOptionalNativeModule = (_name: string) => {
+  if (globalThis.__mockNativeViewAvailable) {
+    return globalThis.__mockNativeModule ?? null;
   }
   return null;
 };
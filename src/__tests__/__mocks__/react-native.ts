@@ -39,3 +39,52 @@ export interface ViewStyle {
   flex?: number;
   [key: string]: unknown;
 }
+
+// Host components render as plain elements so tests can inspect their props
+export const View = 'View';
+export const Text = 'Text';
+export const TextInput = 'TextInput';
+export const Image = 'Image';
+export const Pressable = 'Pressable';
+export const ActivityIndicator = 'ActivityIndicator';
+
+// Renders every item eagerly (no virtualization) inside a host element.
+// A class so refs work; scroll methods are no-ops for tests to spy on.
+const React = require('react');
+
+export class FlatList<T> extends React.Component<{
+  data: T[];
+  renderItem: (info: { item: T; index: number }) => unknown;
+  keyExtractor: (item: T, index: number) => string;
+  [key: string]: unknown;
+}> {
+  scrollToOffset(_params: { offset: number; animated?: boolean }): void {}
+
+  scrollToIndex(_params: { index: number; animated?: boolean }): void {}
+
+  render() {
+    const { data, renderItem, keyExtractor, ListFooterComponent, ...rest } = this.props;
+    return React.createElement(
+      'FlatList',
+      rest,
+      data.map((item: T, index: number) =>
+        React.createElement(React.Fragment, { key: keyExtractor(item, index) }, renderItem({ item, index }))
+      ),
+      ListFooterComponent ?? null
+    );
+  }
+}
+
+// 1080p Apple TV scale
+export const PixelRatio = {
+  get: (): number => 1,
+};
+
+// Announcements are no-ops for tests to spy on
+export const AccessibilityInfo = {
+  announceForAccessibility: (_message: string): void => {},
+};
+
+export const StyleSheet = {
+  create: <T>(styles: T): T => styles,
+};
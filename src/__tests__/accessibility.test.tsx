@@ -0,0 +1,154 @@
+/**
+ * Tests for accessibility labels, hints and result announcements
+ */
+
+import React from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { AccessibilityInfo } from 'react-native';
+import { buildAccessibilityLabel } from '../accessibility';
+import { TvosSearchFallbackView } from '../TvosSearchFallbackView';
+import type { TvosSearchViewProps } from '../index';
+import { mockTvOSPlatform, mockNativeModuleAvailable, renderView } from './setup';
+
+const results = [
+  { id: 'earth', title: 'Earth', subtitle: 'The Blue Marble', badges: ['NEW', '4K'] },
+  { id: 'mars', title: 'Mars', accessibilityLabel: 'Mars, the red planet', accessibilityHint: 'Opens details' },
+];
+
+describe('buildAccessibilityLabel', () => {
+  it('joins title, subtitle and badges', () => {
+    expect(buildAccessibilityLabel(results[0])).toBe('Earth, The Blue Marble, NEW, 4K');
+  });
+
+  it('skips missing and empty parts', () => {
+    expect(buildAccessibilityLabel({ title: 'Mars', subtitle: '', badges: ['', 'HD'] })).toBe('Mars, HD');
+    expect(buildAccessibilityLabel({ title: 'Venus' })).toBe('Venus');
+  });
+});
+
+describe('TvosSearchView accessibility props', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  function nativeProps(props: Record<string, unknown>) {
+    const { TvosSearchView } = require('../index');
+    const renderer = renderView(TvosSearchView, props);
+    return renderer.root.findByType('ExpoTvosSearchView' as any).props;
+  }
+
+  it('sends the search field label under its own name', () => {
+    const props = nativeProps({ accessibilityLabel: 'Search movies and shows' });
+
+    expect(props.searchFieldAccessibilityLabel).toBe('Search movies and shows');
+    expect(props).not.toHaveProperty('accessibilityLabel');
+  });
+
+  it('picks the announcement plural form for the result count', () => {
+    expect(nativeProps({ results: [results[0]] }).accessibilityResultsAnnouncement).toBe('{count} result');
+    expect(nativeProps({ results }).accessibilityResultsAnnouncement).toBe('{count} results');
+    expect(
+      nativeProps({ sections: [{ id: 'planets', title: 'Planets', results }], locale: 'fr' })
+        .accessibilityResultsAnnouncement
+    ).toBe('{count} résultats');
+  });
+
+  it('counts only the results the view shows for the plural form', () => {
+    const props = nativeProps({ results: [results[0], { id: '', title: 'No id' }] });
+
+    expect(props.accessibilityResultsAnnouncement).toBe('{count} result');
+  });
+
+  it('passes a custom announcement template through', () => {
+    const props = nativeProps({
+      results,
+      accessibilityResultsAnnouncement: { one: '{count} planet', other: '{count} planets for {query}' },
+    });
+
+    expect(props.accessibilityResultsAnnouncement).toBe('{count} planets for {query}');
+  });
+});
+
+describe('TvosSearchFallbackView accessibility', () => {
+  let announceSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    announceSpy = jest.spyOn(AccessibilityInfo, 'announceForAccessibility');
+  });
+
+  afterEach(() => {
+    announceSpy.mockRestore();
+  });
+
+  function element(props: Partial<TvosSearchViewProps>) {
+    return <TvosSearchFallbackView results={[]} onSearch={jest.fn()} {...props} />;
+  }
+
+  function render(props: Partial<TvosSearchViewProps>): ReactTestRenderer {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(element(props));
+    });
+    return renderer;
+  }
+
+  it('labels cards and the search field', () => {
+    const renderer = render({ results, accessibilityLabel: 'Search planets' });
+
+    const earth = renderer.root.findByProps({ testID: 'tvos-search-result-earth' });
+    const mars = renderer.root.findByProps({ testID: 'tvos-search-result-mars' });
+    expect(earth.props.accessibilityLabel).toBe('Earth, The Blue Marble, NEW, 4K');
+    expect(mars.props.accessibilityLabel).toBe('Mars, the red planet');
+    expect(mars.props.accessibilityHint).toBe('Opens details');
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.accessibilityLabel).toBe(
+      'Search planets'
+    );
+  });
+
+  it('announces searching, then the result count', () => {
+    const renderer = render({ searchText: 'ear', isLoading: true });
+    expect(announceSpy).toHaveBeenLastCalledWith('Searching...');
+
+    act(() => renderer.update(element({ searchText: 'ear', results, isLoading: false })));
+    expect(announceSpy).toHaveBeenLastCalledWith('2 results');
+    expect(announceSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('announces no results and skips the empty query', () => {
+    const renderer = render({});
+    expect(announceSpy).not.toHaveBeenCalled();
+
+    act(() => renderer.update(element({ searchText: 'zzz', isLoading: true })));
+    act(() => renderer.update(element({ searchText: 'zzz', isLoading: false })));
+    expect(announceSpy).toHaveBeenLastCalledWith('No results found');
+  });
+
+  it('fills {count} and {query} in a custom template', () => {
+    render({
+      searchText: 'ear',
+      results: [results[0]],
+      accessibilityResultsAnnouncement: { one: '{count} planet for {query}', other: '{count} planets' },
+    });
+
+    expect(announceSpy).toHaveBeenCalledWith('1 planet for ear');
+  });
+
+  it('picks the plural form from the announced count when results are skipped', () => {
+    render({
+      searchText: 'ear',
+      results: [results[0], { id: 'untitled', title: '' }],
+      accessibilityResultsAnnouncement: { one: '{count} planet for {query}', other: '{count} planets' },
+    });
+
+    expect(announceSpy).toHaveBeenCalledWith('1 planet for ear');
+  });
+
+  it('does not repeat the announcement for unrelated updates', () => {
+    const renderer = render({ searchText: 'ear', results });
+    act(() => renderer.update(element({ searchText: 'ear', results: [...results] })));
+
+    expect(announceSpy).toHaveBeenCalledTimes(1);
+  });
+});
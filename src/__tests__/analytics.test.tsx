@@ -0,0 +1,198 @@
+/**
+ * Tests for the analytics prop and withSearchAnalytics
+ *
+ * Driven through TvosSearchFallbackView, which shares the instrumentation
+ * with TvosSearchView.
+ */
+
+import React from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { TvosSearchFallbackView } from '../TvosSearchFallbackView';
+import type { TvosSearchViewProps } from '../index';
+import { mockTvOSPlatform, mockNativeModuleAvailable, renderView } from './setup';
+
+const results = [
+  { id: 'earth', title: 'Earth' },
+  { id: 'mars', title: 'Mars' },
+];
+
+describe('analytics prop', () => {
+  let now: number;
+  let nowSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = 1_000;
+    nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+  });
+
+  function element(props: Partial<TvosSearchViewProps>) {
+    return <TvosSearchFallbackView results={[]} {...props} />;
+  }
+
+  function render(props: Partial<TvosSearchViewProps>): ReactTestRenderer {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(element(props));
+    });
+    return renderer;
+  }
+
+  function type(renderer: ReactTestRenderer, text: string) {
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-input' }).props.onChangeText(text));
+  }
+
+  function eventTypes(analytics: jest.Mock): string[] {
+    return analytics.mock.calls.map(([event]) => event.type);
+  }
+
+  it('reports a query and the time to its first results', () => {
+    const analytics = jest.fn();
+    const renderer = render({ analytics });
+
+    type(renderer, 'ear');
+    act(() => renderer.update(element({ analytics, isLoading: true })));
+    now = 1_250;
+    act(() => renderer.update(element({ analytics, results, isLoading: false })));
+
+    expect(analytics.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'search_performed', query: 'ear', timestamp: 1_000 },
+      { type: 'results_shown', query: 'ear', resultCount: 2, timeToFirstResultMs: 250, timestamp: 1_250 },
+    ]);
+  });
+
+  it('reports zero results once per query', () => {
+    const analytics = jest.fn();
+    const renderer = render({ analytics });
+
+    type(renderer, 'zzz');
+    act(() => renderer.update(element({ analytics, results: [] })));
+    act(() => renderer.update(element({ analytics, results: [], isLoading: false })));
+
+    expect(eventTypes(analytics)).toEqual(['search_performed', 'zero_results']);
+  });
+
+  it('does not report stale results before new ones arrive', () => {
+    const analytics = jest.fn();
+    const shown = [results[0]];
+    const renderer = render({ analytics, results: shown });
+
+    type(renderer, 'mar');
+    act(() => renderer.update(element({ analytics, results: shown })));
+    expect(eventTypes(analytics)).toEqual(['search_performed']);
+
+    act(() => renderer.update(element({ analytics, results: [results[1]] })));
+    expect(analytics).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'results_shown', resultCount: 1 }));
+  });
+
+  it('reports the selected position and query', () => {
+    const analytics = jest.fn();
+    const renderer = render({ analytics });
+    type(renderer, 'mars');
+    act(() => renderer.update(element({ analytics, results })));
+
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-result-mars' }).props.onPress());
+
+    expect(analytics).toHaveBeenLastCalledWith({
+      type: 'result_selected',
+      query: 'mars',
+      id: 'mars',
+      position: 1,
+      timestamp: 1_000,
+    });
+  });
+
+  it('reports abandonment on unmount after a query without a selection', () => {
+    const analytics = jest.fn();
+    const renderer = render({ analytics });
+    type(renderer, 'ea');
+    now = 1_500;
+    type(renderer, 'ear');
+    type(renderer, '');
+
+    now = 4_000;
+    act(() => renderer.unmount());
+
+    expect(analytics).toHaveBeenLastCalledWith({
+      type: 'session_abandoned',
+      query: 'ear',
+      searchCount: 2,
+      durationMs: 3_000,
+      timestamp: 4_000,
+    });
+  });
+
+  it('does not report abandonment after a selection', () => {
+    const analytics = jest.fn();
+    const renderer = render({ analytics, results });
+    type(renderer, 'ear');
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-result-earth' }).props.onPress());
+
+    act(() => renderer.unmount());
+
+    expect(eventTypes(analytics)).not.toContain('session_abandoned');
+  });
+
+  it('still calls the consumer callbacks with the same events', () => {
+    const onSearch = jest.fn();
+    const onSelectItem = jest.fn();
+    const renderer = render({ analytics: jest.fn(), results, onSearch, onSelectItem });
+
+    type(renderer, 'ear');
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-result-earth' }).props.onPress());
+
+    expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'ear' } });
+    expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'earth' } });
+  });
+
+  it('keeps the search view working when the sink throws', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const onSearch = jest.fn();
+    const renderer = render({
+      analytics: () => {
+        throw new Error('offline');
+      },
+      onSearch,
+    });
+
+    type(renderer, 'ear');
+
+    expect(onSearch).toHaveBeenCalledTimes(1);
+    warnSpy.mockRestore();
+  });
+});
+
+describe('withSearchAnalytics', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  it('reports every instance to the wrapper sink and the analytics prop', () => {
+    const { TvosSearchView, withSearchAnalytics } = require('../index');
+    const wrapperSink = jest.fn();
+    const propSink = jest.fn();
+    const TrackedSearchView = withSearchAnalytics(TvosSearchView, wrapperSink);
+
+    const renderer = renderView(TrackedSearchView, { analytics: propSink });
+    const native = renderer.root.findByType('ExpoTvosSearchView' as any);
+    require('react-test-renderer').act(() => native.props.onSearch({ nativeEvent: { query: 'dune' } }));
+
+    expect(native.props).not.toHaveProperty('analytics');
+    expect(wrapperSink).toHaveBeenCalledWith(expect.objectContaining({ type: 'search_performed', query: 'dune' }));
+    expect(propSink).toHaveBeenCalledWith(expect.objectContaining({ type: 'search_performed', query: 'dune' }));
+  });
+
+  it('leaves the native props unchanged without analytics', () => {
+    const { TvosSearchView } = require('../index');
+    const onSearch = jest.fn();
+
+    const renderer = renderView(TvosSearchView, { onSearch });
+
+    expect(renderer.root.findByType('ExpoTvosSearchView' as any).props.onSearch).toBe(onSearch);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for convenience callback resolution (onQueryChange, onSelect)
+ */
+
+import { resolveEventHandlers } from '../eventHandlers';
+import type { SearchResult } from '../index';
+
+interface Movie extends SearchResult {
+  mediaType: 'movie' | 'show';
+  route: string;
+}
+
+const movies: Movie[] = [
+  { id: 'dune', title: 'Dune', mediaType: 'movie', route: '/movie/dune' },
+  { id: 'severance', title: 'Severance', mediaType: 'show', route: '/show/severance' },
+];
+
+describe('resolveEventHandlers', () => {
+  afterEach(() => {
+    delete (global as any).__DEV__;
+  });
+
+  it('returns props unchanged when no convenience callbacks are given', () => {
+    const onSearch = jest.fn();
+    const onSelectItem = jest.fn();
+    const resolved = resolveEventHandlers({ results: movies, onSearch, onSelectItem });
+
+    expect(resolved.onSearch).toBe(onSearch);
+    expect(resolved.onSelectItem).toBe(onSelectItem);
+  });
+
+  it('strips convenience callbacks from the resolved props', () => {
+    const resolved = resolveEventHandlers({
+      results: movies,
+      onQueryChange: jest.fn(),
+      onSelect: jest.fn(),
+    });
+
+    expect(resolved).not.toHaveProperty('onQueryChange');
+    expect(resolved).not.toHaveProperty('onSelect');
+  });
+
+  describe('onQueryChange', () => {
+    it('fires with the query alongside onSearch', () => {
+      const onSearch = jest.fn();
+      const onQueryChange = jest.fn();
+      const resolved = resolveEventHandlers({ results: [], onSearch, onQueryChange });
+
+      resolved.onSearch!({ nativeEvent: { query: 'dune' } });
+
+      expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'dune' } });
+      expect(onQueryChange).toHaveBeenCalledWith('dune');
+    });
+
+    it('works without onSearch', () => {
+      const onQueryChange = jest.fn();
+      const resolved = resolveEventHandlers({ results: [], onQueryChange });
+
+      resolved.onSearch!({ nativeEvent: { query: '' } });
+
+      expect(onQueryChange).toHaveBeenCalledWith('');
+    });
+  });
+
+  describe('onSelect', () => {
+    it('fires with the typed item and its index alongside onSelectItem', () => {
+      const onSelectItem = jest.fn();
+      const onSelect = jest.fn<void, [Movie, number]>();
+      const resolved = resolveEventHandlers({ results: movies, onSelectItem, onSelect });
+
+      resolved.onSelectItem!({ nativeEvent: { id: 'severance' } });
+
+      expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'severance' } });
+      expect(onSelect).toHaveBeenCalledWith(movies[1], 1);
+      expect(onSelect.mock.calls[0][0].route).toBe('/show/severance');
+    });
+
+    it('resolves the item within its section when using sections', () => {
+      const onSelect = jest.fn<void, [Movie, number]>();
+      const resolved = resolveEventHandlers({
+        sections: [
+          { id: 'movies', title: 'Movies', results: [movies[0]] },
+          { id: 'shows', title: 'Shows', results: [movies[1], movies[0]] },
+        ],
+        onSelect,
+      });
+
+      resolved.onSelectItem!({ nativeEvent: { id: 'dune', sectionId: 'shows' } });
+
+      expect(onSelect).toHaveBeenCalledWith(movies[0], 1);
+    });
+
+    it('skips onSelect and warns in development for unknown ids', () => {
+      (global as any).__DEV__ = true;
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const onSelectItem = jest.fn();
+      const onSelect = jest.fn();
+      const resolved = resolveEventHandlers({ results: movies, onSelectItem, onSelect });
+
+      resolved.onSelectItem!({ nativeEvent: { id: 'missing' } });
+
+      expect(onSelectItem).toHaveBeenCalled();
+      expect(onSelect).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining("selected id 'missing' is not in results")
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('does not warn for unknown ids outside development', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const onSelect = jest.fn();
+      const resolved = resolveEventHandlers({ results: movies, onSelect });
+
+      resolved.onSelectItem!({ nativeEvent: { id: 'missing' } });
+
+      expect(onSelect).not.toHaveBeenCalled();
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+});
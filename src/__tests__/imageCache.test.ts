@@ -0,0 +1,134 @@
+/**
+ * Tests for the image cache module functions: prefetchImages, clearImageCache,
+ * getImageCacheStats and configureImageCache
+ */
+
+import {
+  mockNativeModuleAvailable,
+  mockNativeModuleFunctions,
+  mockTvOSPlatform,
+} from './setup';
+
+const emptyStats = { count: 0, totalCostBytes: 0, countLimit: 0, costLimitBytes: 0 };
+
+describe('image cache functions', () => {
+  describe('with the native module', () => {
+    let native: {
+      prefetchImages: jest.Mock;
+      clearImageCache: jest.Mock;
+      getImageCacheStats: jest.Mock;
+      configureImageCache: jest.Mock;
+    };
+
+    beforeEach(() => {
+      mockTvOSPlatform();
+      mockNativeModuleAvailable();
+      native = {
+        prefetchImages: jest.fn().mockResolvedValue(2),
+        clearImageCache: jest.fn(),
+        getImageCacheStats: jest.fn().mockReturnValue({
+          count: 12,
+          totalCostBytes: 4_000_000,
+          countLimit: 100,
+          costLimitBytes: 104_857_600,
+        }),
+        configureImageCache: jest.fn(),
+      };
+      mockNativeModuleFunctions(native);
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).__DEV__;
+    });
+
+    it('prefetches unique, non-empty URLs', async () => {
+      const { prefetchImages } = require('../index');
+
+      await expect(prefetchImages(['https://a/1.jpg', '', 'https://a/2.jpg', 'https://a/1.jpg'])).resolves.toBe(2);
+      expect(native.prefetchImages).toHaveBeenCalledWith(['https://a/1.jpg', 'https://a/2.jpg']);
+    });
+
+    it('skips the native call when there is nothing to prefetch', async () => {
+      const { prefetchImages } = require('../index');
+
+      await expect(prefetchImages([''])).resolves.toBe(0);
+      expect(native.prefetchImages).not.toHaveBeenCalled();
+    });
+
+    it('clears the cache and returns native stats', () => {
+      const { clearImageCache, getImageCacheStats } = require('../index');
+
+      clearImageCache();
+
+      expect(native.clearImageCache).toHaveBeenCalledTimes(1);
+      expect(getImageCacheStats()).toEqual({
+        count: 12,
+        totalCostBytes: 4_000_000,
+        countLimit: 100,
+        costLimitBytes: 104_857_600,
+      });
+    });
+
+    it('passes limits to native, leaving omitted ones unchanged', () => {
+      const { configureImageCache } = require('../index');
+
+      configureImageCache({ countLimit: 300.7 });
+      configureImageCache({ costLimitBytes: 0 });
+
+      expect(native.configureImageCache.mock.calls).toEqual([
+        [300, null],
+        [null, 0],
+      ]);
+    });
+
+    it('ignores invalid limits with a development warning', () => {
+      (globalThis as any).__DEV__ = true;
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { configureImageCache } = require('../index');
+
+      configureImageCache({ countLimit: -1, costLimitBytes: 50_000_000 });
+      configureImageCache({ countLimit: NaN });
+
+      expect(native.configureImageCache.mock.calls).toEqual([[null, 50_000_000]]);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('configureImageCache: countLimit must be a non-negative number, got -1')
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('without the native view', () => {
+    it('falls back to no-ops', async () => {
+      const { clearImageCache, configureImageCache, getImageCacheStats, prefetchImages } = require('../index');
+
+      await expect(prefetchImages(['https://a/1.jpg'])).resolves.toBe(0);
+      expect(() => clearImageCache()).not.toThrow();
+      expect(() => configureImageCache({ countLimit: 10 })).not.toThrow();
+      expect(getImageCacheStats()).toEqual(emptyStats);
+    });
+
+    it('falls back to no-ops on tvOS when only the module functions are missing', async () => {
+      mockTvOSPlatform();
+      mockNativeModuleAvailable();
+      const { getImageCacheStats, isNativeSearchAvailable, prefetchImages } = require('../index');
+
+      expect(isNativeSearchAvailable()).toBe(true);
+      await expect(prefetchImages(['https://a/1.jpg'])).resolves.toBe(0);
+      expect(getImageCacheStats()).toEqual(emptyStats);
+    });
+
+    it('falls back to no-ops when isNativeSearchAvailable() is overridden to false', () => {
+      mockTvOSPlatform();
+      mockNativeModuleAvailable();
+      const clearImageCache = jest.fn();
+      mockNativeModuleFunctions({ clearImageCache });
+      const { setNativeSearchAvailable } = require('../testing');
+      const index = require('../index');
+
+      setNativeSearchAvailable(false);
+      index.clearImageCache();
+
+      expect(clearImageCache).not.toHaveBeenCalled();
+    });
+  });
+});
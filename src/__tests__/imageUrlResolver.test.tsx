@@ -0,0 +1,165 @@
+/**
+ * Tests for imageUrlResolver: the template resolver, effective card sizes, and
+ * the prop on TvosSearchView and TvosSearchFallbackView
+ */
+
+import React from 'react';
+import type { ImageUrlResolver } from '../imageUrlResolver';
+import { createTemplateImageUrlResolver, getImageSize } from '../imageUrlResolver';
+import type { SearchResult } from '../index';
+import { mockNativeModuleAvailable, mockTvOSPlatform, renderView } from './setup';
+
+describe('createTemplateImageUrlResolver', () => {
+  const size = { width: 280, height: 420, scale: 2 };
+
+  it('fills in ids and sizes', () => {
+    const resolve = createTemplateImageUrlResolver(
+      'https://cdn.example.com/{id}?w={width}&h={height}&pw={pixelWidth}&ph={pixelHeight}&s={scale}'
+    );
+
+    expect(resolve({ id: 'movie 1', title: 'Movie' }, size)).toBe(
+      'https://cdn.example.com/movie%201?w=280&h=420&pw=560&ph=840&s=2'
+    );
+  });
+
+  it('rounds fractional sizes', () => {
+    const resolve = createTemplateImageUrlResolver('https://cdn/{id}?w={pixelWidth}&h={height}');
+
+    expect(resolve({ id: '1', title: 'A' }, { width: 420, height: 236.25, scale: 1.5 })).toBe(
+      'https://cdn/1?w=630&h=236'
+    );
+  });
+
+  it('encodes the original imageUrl and skips results without one', () => {
+    const resolve = createTemplateImageUrlResolver('https://proxy/resize?src={imageUrl}&w={width}');
+
+    expect(resolve({ id: '1', title: 'A', imageUrl: 'https://img/a.jpg?v=2' }, size)).toBe(
+      'https://proxy/resize?src=https%3A%2F%2Fimg%2Fa.jpg%3Fv%3D2&w=280'
+    );
+    expect(resolve({ id: '2', title: 'B' }, size)).toBeUndefined();
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    const resolve = createTemplateImageUrlResolver('https://cdn/{id}/{format}');
+
+    expect(resolve({ id: '1', title: 'A' }, size)).toBe('https://cdn/1/{format}');
+  });
+});
+
+describe('getImageSize', () => {
+  it('defaults to the native card size', () => {
+    expect(getImageSize({ id: '1', title: 'A' }, {}, 1)).toEqual({ width: 280, height: 420, scale: 1 });
+  });
+
+  it('clamps card sizes and follows the result aspect ratio', () => {
+    expect(getImageSize({ id: '1', title: 'A' }, { cardWidth: 2000, cardHeight: 10 }, 2)).toEqual({
+      width: 1000,
+      height: 50,
+      scale: 2,
+    });
+    expect(getImageSize({ id: '1', title: 'A', aspectRatio: 16 / 9 }, { cardWidth: 400 }, 1).height).toBe(225);
+    expect(getImageSize({ id: '1', title: 'A', aspectRatio: 100 }, { cardWidth: 400 }, 1).height).toBe(100);
+  });
+});
+
+describe('imageUrlResolver prop', () => {
+  const results: SearchResult[] = [
+    { id: '1', title: 'Poster', imageUrl: 'https://img/1.jpg' },
+    { id: '2', title: 'Still', aspectRatio: 16 / 9 },
+  ];
+
+  const sizeResolver: ImageUrlResolver = (result, { width, height, scale }) =>
+    `https://cdn/${result.id}?w=${width}&h=${height}&s=${scale}`;
+
+  beforeEach(() => {
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).__DEV__;
+  });
+
+  function nativeProps(props: Record<string, unknown>) {
+    const { TvosSearchView } = require('../index');
+    const renderer = renderView(TvosSearchView, { results, ...props });
+    return renderer.root.findByType('ExpoTvosSearchView' as any).props;
+  }
+
+  it('resolves URLs with the effective card size before they reach the view', () => {
+    const props = nativeProps({ imageUrlResolver: sizeResolver, cardWidth: 400, cardHeight: 600 });
+
+    expect(props.imageUrlResolver).toBeUndefined();
+    expect(props.results.map((result: SearchResult) => result.imageUrl)).toEqual([
+      'https://cdn/1?w=400&h=600&s=1',
+      'https://cdn/2?w=400&h=225&s=1',
+    ]);
+  });
+
+  it('uses layout preset sizes', () => {
+    const props = nativeProps({ imageUrlResolver: sizeResolver, layout: 'landscape' });
+
+    expect(props.results[0].imageUrl).toBe('https://cdn/1?w=573&h=322&s=1');
+  });
+
+  it('uses each section layout', () => {
+    const props = nativeProps({
+      imageUrlResolver: sizeResolver,
+      results: undefined,
+      sections: [
+        { id: 'movies', title: 'Movies', results: [results[0]] },
+        { id: 'live', title: 'Live', results: [{ id: '3', title: 'Channel' }], layout: { cardWidth: 420, cardHeight: 240 } },
+      ],
+    });
+
+    expect(props.sections[0].results[0].imageUrl).toBe('https://cdn/1?w=280&h=420&s=1');
+    expect(props.sections[1].results[0].imageUrl).toBe('https://cdn/3?w=420&h=240&s=1');
+  });
+
+  it('keeps the original URL when the resolver returns undefined', () => {
+    const props = nativeProps({ imageUrlResolver: () => undefined });
+
+    expect(props.results[0]).toBe(results[0]);
+  });
+
+  it('keeps the resolved results across re-renders with the same resolver', () => {
+    const { TvosSearchView } = require('../index');
+    const { act } = require('react-test-renderer');
+    const renderer = renderView(TvosSearchView, { results, imageUrlResolver: sizeResolver });
+    const first = renderer.root.findByType('ExpoTvosSearchView' as any).props.results;
+
+    act(() => renderer.update(<TvosSearchView results={results} imageUrlResolver={sizeResolver} columns={4} />));
+
+    expect(renderer.root.findByType('ExpoTvosSearchView' as any).props.results).toBe(first);
+  });
+
+  it('passes the original result to onSelect', () => {
+    const onSelect = jest.fn();
+    const props = nativeProps({ imageUrlResolver: sizeResolver, onSelect });
+
+    require('react-test-renderer').act(() => props.onSelectItem({ nativeEvent: { id: '1' } }));
+
+    expect(onSelect).toHaveBeenCalledWith(results[0], 0);
+  });
+
+  it('validates resolved URLs', () => {
+    (globalThis as any).__DEV__ = true;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    nativeProps({ imageUrlResolver: (result: SearchResult) => `http://cdn/${result.id}` });
+
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('[url_insecure]: 2 image URL(s) use insecure HTTP'));
+    warnSpy.mockRestore();
+  });
+
+  it('applies to TvosSearchFallbackView', () => {
+    const { TvosSearchFallbackView } = require('../TvosSearchFallbackView');
+    const renderer = renderView(TvosSearchFallbackView, {
+      results,
+      imageUrlResolver: createTemplateImageUrlResolver('https://cdn/{id}?w={pixelWidth}'),
+    });
+
+    const images = renderer.root.findAllByType('Image' as any);
+    expect(images.map((image) => image.props.source.uri)).toEqual(['https://cdn/1?w=280', 'https://cdn/2?w=280']);
+  });
+});
@@ -11,6 +11,7 @@ import {
   mockWebPlatform,
   mockNativeModuleAvailable,
   mockNativeModuleUnavailable,
+  renderView,
 } from './setup';
 
 describe('isNativeSearchAvailable', () => {
@@ -63,11 +64,11 @@ describe('TvosSearchView', () => {
 
   it('returns null when native module is unavailable', () => {
     const { TvosSearchView } = require('../index');
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
     expect(result).toBeNull();
   });
 });
@@ -137,7 +138,7 @@ describe('TvosSearchViewProps overlayTitleSize', () => {
 
     // Should not throw when overlayTitleSize is provided
     expect(() => {
-      TvosSearchView({
+      renderView(TvosSearchView, {
         results: [],
         onSearch: jest.fn(),
         onSelectItem: jest.fn(),
@@ -153,7 +154,7 @@ describe('TvosSearchViewProps overlayTitleSize', () => {
 
     testCases.forEach((size) => {
       expect(() => {
-        TvosSearchView({
+        renderView(TvosSearchView, {
           results: [],
           onSearch: jest.fn(),
           onSelectItem: jest.fn(),
@@ -168,7 +169,7 @@ describe('TvosSearchViewProps overlayTitleSize', () => {
 
     // Should not throw when overlayTitleSize is omitted
     expect(() => {
-      TvosSearchView({
+      renderView(TvosSearchView, {
         results: [],
         onSearch: jest.fn(),
         onSelectItem: jest.fn(),
@@ -371,11 +372,11 @@ describe('TvosSearchView development logging', () => {
     mockNativeModuleUnavailable();
 
     const { TvosSearchView } = require('../index');
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     expect(result).toBeNull();
     expect(consoleWarnSpy).toHaveBeenCalledWith(
@@ -394,11 +395,11 @@ describe('TvosSearchView development logging', () => {
     mockNativeModuleUnavailable();
 
     const { TvosSearchView } = require('../index');
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     expect(result).toBeNull();
     expect(consoleInfoSpy).toHaveBeenCalledWith(
@@ -417,11 +418,11 @@ describe('TvosSearchView development logging', () => {
     mockNativeModuleUnavailable();
 
     const { TvosSearchView } = require('../index');
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     expect(result).toBeNull();
     expect(consoleWarnSpy).not.toHaveBeenCalled();
@@ -436,11 +437,11 @@ describe('TvosSearchView development logging', () => {
     mockNativeModuleUnavailable();
 
     const { TvosSearchView } = require('../index');
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     expect(result).toBeNull();
     expect(consoleWarnSpy).not.toHaveBeenCalled();
@@ -457,11 +458,11 @@ describe('TvosSearchView development logging', () => {
     globalThis.__mockNativeViewAvailable = false;
 
     const { TvosSearchView } = require('../index');
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     expect(result).toBeNull();
     expect(consoleInfoSpy).toHaveBeenCalledWith(
@@ -482,11 +483,11 @@ describe('TvosSearchView with native module available', () => {
   it('renders when NativeView is available', () => {
     const { TvosSearchView } = require('../index');
 
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     // Should render JSX element, not null
     expect(result).not.toBeNull();
@@ -504,7 +505,7 @@ describe('TvosSearchView with native module available', () => {
       { id: '2', title: 'Test 2' },
     ];
 
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: mockResults,
       columns: 3,
       placeholder: 'Search...',
@@ -520,7 +521,7 @@ describe('TvosSearchView with native module available', () => {
       onSearch: mockOnSearch,
       onSelectItem: mockOnSelectItem,
       onError: mockOnError,
-    });
+    }).toJSON();
 
     // Component should render
     expect(result).not.toBeNull();
@@ -529,11 +530,11 @@ describe('TvosSearchView with native module available', () => {
   it('renders with minimal required props', () => {
     const { TvosSearchView } = require('../index');
 
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
-    });
+    }).toJSON();
 
     expect(result).not.toBeNull();
   });
@@ -545,7 +546,7 @@ describe('TvosSearchView with native module available', () => {
     const mockOnSearchFieldFocused = jest.fn();
     const mockOnSearchFieldBlurred = jest.fn();
 
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [{ id: 'test', title: 'Test', subtitle: 'Sub', imageUrl: 'http://example.com/img.jpg' }],
       columns: 5,
       placeholder: 'Custom placeholder',
@@ -577,7 +578,7 @@ describe('TvosSearchView with native module available', () => {
       onSearchFieldFocused: mockOnSearchFieldFocused,
       onSearchFieldBlurred: mockOnSearchFieldBlurred,
       style: { flex: 1 },
-    });
+    }).toJSON();
 
     expect(result).not.toBeNull();
   });
@@ -586,12 +587,12 @@ describe('TvosSearchView with native module available', () => {
     const { TvosSearchView } = require('../index');
 
     // onSearchFieldFocused and onSearchFieldBlurred are optional
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
       // Note: onSearchFieldFocused and onSearchFieldBlurred are not provided
-    });
+    }).toJSON();
 
     expect(result).not.toBeNull();
   });
@@ -599,12 +600,12 @@ describe('TvosSearchView with native module available', () => {
   it('accepts searchText prop', () => {
     const { TvosSearchView } = require('../index');
 
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
       searchText: 'test query',
-    });
+    }).toJSON();
 
     expect(result).not.toBeNull();
   });
@@ -612,14 +613,171 @@ describe('TvosSearchView with native module available', () => {
   it('accepts undefined searchText prop', () => {
     const { TvosSearchView } = require('../index');
 
-    const result = TvosSearchView({
+    const result = renderView(TvosSearchView, {
       results: [],
       onSearch: jest.fn(),
       onSelectItem: jest.fn(),
       searchText: undefined,
-    });
+    }).toJSON();
 
     expect(result).not.toBeNull();
   });
 });
 
+
+describe('TvosSearchView convenience callbacks', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  it('resolves onSelect to the typed result', () => {
+    const { TvosSearchView } = require('../index');
+    const onSelect = jest.fn();
+    const results = [
+      { id: 'a', title: 'A', route: '/a' },
+      { id: 'b', title: 'B', route: '/b' },
+    ];
+
+    const element: any = renderView(TvosSearchView, { results, onSelect }).toJSON();
+    element.props.onSelectItem({ nativeEvent: { id: 'b' } });
+
+    expect(onSelect).toHaveBeenCalledWith(results[1], 1);
+    expect(element.props.onSelect).toBeUndefined();
+  });
+
+  it('forwards onQueryChange through onSearch', () => {
+    const { TvosSearchView } = require('../index');
+    const onQueryChange = jest.fn();
+
+    const element: any = renderView(TvosSearchView, { results: [], onQueryChange }).toJSON();
+    element.props.onSearch({ nativeEvent: { query: 'mars' } });
+
+    expect(onQueryChange).toHaveBeenCalledWith('mars');
+    expect(element.props.onQueryChange).toBeUndefined();
+  });
+});
+
+describe('TvosSearchView ref handle', () => {
+  let nativeMethods: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+    nativeMethods = {
+      focusSearchField: jest.fn().mockResolvedValue(undefined),
+      blurSearchField: jest.fn().mockResolvedValue(undefined),
+      clear: jest.fn().mockResolvedValue(undefined),
+      setQuery: jest.fn().mockResolvedValue(undefined),
+      scrollToTop: jest.fn().mockResolvedValue(undefined),
+      scrollToItem: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  afterEach(() => {
+    delete (global as any).__DEV__;
+  });
+
+  function renderWithRef(props: Record<string, unknown> = {}) {
+    const { TvosSearchView } = require('../index');
+    const ref = { current: null as any };
+    renderView(
+      TvosSearchView,
+      { results: [{ id: 'a', title: 'A' }], ref, ...props },
+      { createNodeMock: () => nativeMethods }
+    );
+    return ref;
+  }
+
+  it('forwards focus and blur to the native view', () => {
+    const ref = renderWithRef();
+
+    ref.current.focusSearchField();
+    ref.current.blurSearchField();
+
+    expect(nativeMethods.focusSearchField).toHaveBeenCalled();
+    expect(nativeMethods.blurSearchField).toHaveBeenCalled();
+  });
+
+  it('forwards clear and scrollToTop to the native view', () => {
+    const ref = renderWithRef();
+
+    ref.current.clear();
+    ref.current.scrollToTop();
+
+    expect(nativeMethods.clear).toHaveBeenCalled();
+    expect(nativeMethods.scrollToTop).toHaveBeenCalled();
+  });
+
+  it('emits onSearch from setQuery by default', () => {
+    const ref = renderWithRef();
+
+    ref.current.setQuery('dune');
+
+    expect(nativeMethods.setQuery).toHaveBeenCalledWith('dune', true);
+  });
+
+  it('passes emit: false through to the native view', () => {
+    const ref = renderWithRef();
+
+    ref.current.setQuery('dune', { emit: false });
+
+    expect(nativeMethods.setQuery).toHaveBeenCalledWith('dune', false);
+  });
+
+  it('scrolls to known result ids', () => {
+    const ref = renderWithRef();
+
+    ref.current.scrollToItem('a');
+
+    expect(nativeMethods.scrollToItem).toHaveBeenCalledWith('a');
+  });
+
+  it('scrolls to items inside sections', () => {
+    const ref = renderWithRef({
+      sections: [{ id: 'live', title: 'Live', results: [{ id: 'news', title: 'News' }] }],
+    });
+
+    ref.current.scrollToItem('news');
+
+    expect(nativeMethods.scrollToItem).toHaveBeenCalledWith('news');
+  });
+
+  it('skips and warns about unknown ids in scrollToItem', () => {
+    (global as any).__DEV__ = true;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const ref = renderWithRef();
+
+    ref.current.scrollToItem('missing');
+
+    expect(nativeMethods.scrollToItem).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("scrollToItem: id 'missing' is not in results")
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('logs rejected native calls in development', async () => {
+    (global as any).__DEV__ = true;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const error = new Error('view not mounted');
+    nativeMethods.focusSearchField.mockRejectedValue(error);
+    const ref = renderWithRef();
+
+    ref.current.focusSearchField();
+    await Promise.resolve();
+
+    expect(warnSpy).toHaveBeenCalledWith('[expo-tvos-search] focusSearchField() failed:', error);
+    warnSpy.mockRestore();
+  });
+
+  it('leaves the ref null when rendering null', () => {
+    mockWebPlatform();
+    mockNativeModuleUnavailable();
+    const ref = renderWithRef();
+
+    expect(ref.current).toBeNull();
+  });
+});
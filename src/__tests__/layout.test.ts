@@ -0,0 +1,113 @@
+/**
+ * Tests for computeGridLayout and the layout presets
+ *
+ * Widths include the grid's 60pt side padding from TvosSearchContentView.
+ */
+
+import { computeGridLayout, LAYOUT_PRESETS, requiredGridWidth } from '../layout';
+import { mockTvOSPlatform, mockNativeModuleAvailable, renderView } from './setup';
+
+describe('computeGridLayout', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    delete (global as any).__DEV__;
+  });
+
+  it('fills the screen width for the given columns and aspect ratio', () => {
+    expect(computeGridLayout({ columns: 4, aspectRatio: 16 / 9 })).toEqual({
+      columns: 4,
+      cardWidth: 420,
+      cardHeight: 236,
+      cardMargin: 40,
+    });
+  });
+
+  it('uses the container width and margin', () => {
+    const layout = computeGridLayout({ containerWidth: 1200, columns: 3, aspectRatio: 1, margin: 20 });
+
+    expect(layout).toEqual({ columns: 3, cardWidth: 346, cardHeight: 346, cardMargin: 20 });
+    expect(requiredGridWidth(layout.columns, layout.cardWidth, layout.cardMargin)).toBeLessThanOrEqual(1200);
+  });
+
+  it('picks the column count closest to the target card width', () => {
+    // 6 columns of 266pt are closer to 280pt than 5 columns of 328pt
+    expect(computeGridLayout({ aspectRatio: 2 / 3 }).columns).toBe(6);
+    expect(computeGridLayout({ aspectRatio: 2 / 3, targetCardWidth: 200 }).columns).toBe(8);
+  });
+
+  it('keeps columns and sizes within the native ranges', () => {
+    expect(computeGridLayout({ columns: 0, aspectRatio: 1 }).columns).toBe(1);
+    expect(computeGridLayout({ columns: 1, aspectRatio: 1 }).cardWidth).toBe(1000);
+    expect(computeGridLayout({ columns: 5, aspectRatio: 0.1 }).cardHeight).toBe(1000);
+  });
+
+  it('warns in development when the cards cannot fit', () => {
+    (global as any).__DEV__ = true;
+    const layout = computeGridLayout({ containerWidth: 600, columns: 10, aspectRatio: 1 });
+
+    expect(layout.cardWidth).toBe(50);
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[expo-tvos-search] computeGridLayout: 10 columns of 50pt cards need 980pt, which overflows the 600pt container.'
+    );
+  });
+
+  it('does not warn when the cards fit', () => {
+    (global as any).__DEV__ = true;
+    computeGridLayout({ columns: 10, aspectRatio: 1 });
+
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('LAYOUT_PRESETS', () => {
+  it.each(Object.entries(LAYOUT_PRESETS))('%s fits a 1920pt screen', (_name, layout) => {
+    expect(requiredGridWidth(layout.columns, layout.cardWidth, layout.cardMargin)).toBeLessThanOrEqual(1920);
+  });
+
+  it('matches each preset aspect ratio', () => {
+    expect(LAYOUT_PRESETS.portrait).toEqual({ columns: 5, cardWidth: 328, cardHeight: 492, cardMargin: 40 });
+    expect(LAYOUT_PRESETS.landscape).toEqual({ columns: 3, cardWidth: 573, cardHeight: 322, cardMargin: 40 });
+    expect(LAYOUT_PRESETS.square).toEqual({ columns: 6, cardWidth: 266, cardHeight: 266, cardMargin: 40 });
+    expect(LAYOUT_PRESETS.compact).toEqual({ columns: 7, cardWidth: 231, cardHeight: 347, cardMargin: 30 });
+  });
+});
+
+describe('TvosSearchView layout prop', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  function nativeProps(props: Record<string, unknown>) {
+    const { TvosSearchView } = require('../index');
+    const renderer = renderView(TvosSearchView, props);
+    return renderer.root.findByType('ExpoTvosSearchView' as any).props;
+  }
+
+  it('passes the preset geometry to the native view', () => {
+    const props = nativeProps({ layout: 'landscape' });
+
+    expect(props).toEqual(
+      expect.objectContaining({ columns: 3, cardWidth: 573, cardHeight: 322, cardMargin: 40 })
+    );
+    expect(props).not.toHaveProperty('layout');
+  });
+
+  it('lets flat props win over the preset, and the preset win over the theme', () => {
+    const { createSearchTheme } = require('../theme');
+    const theme = createSearchTheme({ grid: { columns: 8 }, card: { padding: 24 } });
+
+    const props = nativeProps({ layout: 'square', theme, cardMargin: 20 });
+
+    expect(props.columns).toBe(6);
+    expect(props.cardMargin).toBe(20);
+    expect(props.cardPadding).toBe(24);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for placeholder helpers: BlurHash/ThumbHash format checks and initials tiles
+ */
+
+import {
+  getInitials,
+  getInitialsColor,
+  INITIALS_COLORS,
+  isValidBlurhash,
+  isValidThumbhash,
+} from '../placeholders';
+
+describe('isValidBlurhash', () => {
+  it('accepts well-formed hashes', () => {
+    expect(isValidBlurhash('LEHV6nWB2yk8pyo0adR*.7kCMdnj')).toBe(true);
+    expect(isValidBlurhash('00TI:j')).toBe(true);
+  });
+
+  it('rejects lengths that do not match the size flag', () => {
+    expect(isValidBlurhash('LEHV6nWB2yk8pyo0adR*.7kCMdn')).toBe(false);
+    expect(isValidBlurhash('LEHV6')).toBe(false);
+  });
+
+  it('rejects characters outside base83', () => {
+    expect(isValidBlurhash('LEHV6nWB2yk8pyo0adR*.7kCMd"j')).toBe(false);
+    expect(isValidBlurhash('LEHV6nWB2yk8pyo0adR*.7kCMd j')).toBe(false);
+  });
+});
+
+describe('isValidThumbhash', () => {
+  it('accepts well-formed hashes, with or without padding', () => {
+    expect(isValidThumbhash('1QcSHQRnh493V4dIh4eXh1h4kJUI')).toBe(true);
+    expect(isValidThumbhash('3OcRJYB4d3h/iIeHeEh3eIhw+j2w')).toBe(true);
+    expect(isValidThumbhash('1QcSHQRnh493V4dIh4eXh1h4kJUIAA==')).toBe(true);
+    expect(isValidThumbhash('1QcSHQRnh493V4dIh4eXh1h4kJUIAA')).toBe(true);
+  });
+
+  it('rejects hashes too short for their header', () => {
+    expect(isValidThumbhash('1QcSHQRnh493V4dIh4eXh1h4')).toBe(false);
+    expect(isValidThumbhash('1QcS')).toBe(false);
+    expect(isValidThumbhash('')).toBe(false);
+  });
+
+  it('rejects non-base64 strings', () => {
+    expect(isValidThumbhash('1QcSHQRnh493V4dIh4eXh1h4kJU!')).toBe(false);
+    expect(isValidThumbhash('LEHV6nWB2yk8pyo0adR*.7kCMdnj')).toBe(false);
+  });
+});
+
+describe('getInitials', () => {
+  it.each([
+    ['star wars: a new hope', 'SW'],
+    ['Interstellar', 'I'],
+    ['  the   matrix ', 'TM'],
+    ['(500) Days of Summer', '5D'],
+    ['Amélie', 'A'],
+    ['— ', ''],
+  ])('%s → %s', (title, initials) => {
+    expect(getInitials(title)).toBe(initials);
+  });
+});
+
+describe('getInitialsColor', () => {
+  it('picks a stable palette color per title, matching SearchResultItem.initialsColor', () => {
+    expect(INITIALS_COLORS).toContain(getInitialsColor('Star Wars'));
+    expect(getInitialsColor('Star Wars')).toBe('#039BE5');
+  });
+
+  it('spreads titles across the palette', () => {
+    const colors = new Set(['Alien', 'Brazil', 'Casablanca', 'Dune', 'Heat', 'Jaws', 'Up', 'Vertigo'].map(getInitialsColor));
+    expect(colors.size).toBeGreaterThan(3);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for queryTransform: the built-in normalizers, normalizeQuery, and the
+ * prop on TvosSearchView and TvosSearchFallbackView
+ */
+
+import React from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { TvosSearchFallbackView } from '../TvosSearchFallbackView';
+import type { TvosSearchViewProps } from '../index';
+import { normalizeQuery, queryNormalizers } from '../queryTransform';
+import { mockNativeModuleAvailable, mockTvOSPlatform, renderView } from './setup';
+
+const { trim, collapseWhitespace, stripDiacritics, lowercase, minLength } = queryNormalizers;
+
+describe('queryNormalizers', () => {
+  it('trims and collapses whitespace', () => {
+    expect(trim('  blade runner \n')).toBe('blade runner');
+    expect(collapseWhitespace('blade \t  runner')).toBe('blade runner');
+  });
+
+  it('strips diacritics and keeps other scripts intact', () => {
+    expect(stripDiacritics('Amélie Pokémon Über ñandú')).toBe('Amelie Pokemon Uber nandu');
+    expect(stripDiacritics('기생충')).toBe('기생충');
+  });
+
+  it('lowercases', () => {
+    expect(lowercase('Blade RUNNER')).toBe('blade runner');
+  });
+
+  it('drops queries shorter than the minimum length', () => {
+    expect(minLength(3)('ab')).toBe('');
+    expect(minLength(3)('abc')).toBe('abc');
+  });
+});
+
+describe('normalizeQuery', () => {
+  it('applies normalizers in order', () => {
+    expect(normalizeQuery('  Amélie   Poulain ', [trim, collapseWhitespace, stripDiacritics])).toBe(
+      'Amelie Poulain'
+    );
+  });
+
+  it('accepts a single normalizer', () => {
+    expect(normalizeQuery(' x ', trim)).toBe('x');
+  });
+
+  it('stops once a normalizer drops the query', () => {
+    const after = jest.fn((query: string) => query);
+
+    expect(normalizeQuery(' a ', [trim, minLength(2), after])).toBe('');
+    expect(after).not.toHaveBeenCalled();
+  });
+});
+
+describe('queryTransform prop', () => {
+  function element(props: Partial<TvosSearchViewProps>) {
+    return <TvosSearchFallbackView results={[]} {...props} />;
+  }
+
+  function render(props: Partial<TvosSearchViewProps>): ReactTestRenderer {
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = TestRenderer.create(element(props));
+    });
+    return renderer;
+  }
+
+  function type(renderer: ReactTestRenderer, text: string) {
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-input' }).props.onChangeText(text));
+  }
+
+  function queries(handler: jest.Mock): string[] {
+    return handler.mock.calls.map(([event]) => event.nativeEvent.query);
+  }
+
+  it('passes normalized queries to onSearch and keeps the raw text in the field', () => {
+    const onSearch = jest.fn();
+    const renderer = render({ onSearch, queryTransform: [trim, stripDiacritics] });
+
+    type(renderer, ' Amél');
+
+    expect(queries(onSearch)).toEqual(['Amel']);
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.value).toBe(' Amél');
+  });
+
+  it('only fires when the normalized query changes', () => {
+    const onSearch = jest.fn();
+    const onQueryChange = jest.fn();
+    const renderer = render({ onSearch, onQueryChange, queryTransform: [trim, collapseWhitespace] });
+
+    type(renderer, 'blade');
+    type(renderer, 'blade ');
+    type(renderer, 'blade  ');
+    type(renderer, 'blade r');
+
+    expect(queries(onSearch)).toEqual(['blade', 'blade r']);
+    expect(onQueryChange.mock.calls).toEqual([['blade'], ['blade r']]);
+  });
+
+  it('fires again for the same query in a new scope', () => {
+    const onSearch = jest.fn();
+    const scopes = [
+      { id: 'movies', title: 'Movies' },
+      { id: 'tv', title: 'TV' },
+    ];
+    const renderer = render({ onSearch, scopes, queryTransform: trim });
+
+    type(renderer, 'blade ');
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-scope-1' }).props.onPress());
+
+    expect(onSearch.mock.calls.map(([event]) => event.nativeEvent)).toEqual([
+      { query: 'blade', scopeId: 'movies' },
+      { query: 'blade', scopeId: 'tv' },
+    ]);
+  });
+
+  it('reports dropped queries as empty, once', () => {
+    const onSearch = jest.fn();
+    const renderer = render({ onSearch, queryTransform: minLength(3) });
+
+    type(renderer, 'bla');
+    type(renderer, 'bl');
+    type(renderer, 'b');
+
+    expect(queries(onSearch)).toEqual(['bla', '']);
+  });
+
+  it('uses the latest transform', () => {
+    const onSearch = jest.fn();
+    const renderer = render({ onSearch, queryTransform: trim });
+
+    act(() => renderer.update(element({ onSearch, queryTransform: lowercase })));
+    type(renderer, ' ABC');
+
+    expect(queries(onSearch)).toEqual([' abc']);
+  });
+
+  it('passes queries through unchanged without a transform', () => {
+    const onSearch = jest.fn();
+    const renderer = render({ onSearch });
+
+    type(renderer, 'a ');
+    type(renderer, 'a');
+
+    expect(queries(onSearch)).toEqual(['a ', 'a']);
+  });
+
+  it('is not sent to the native view', () => {
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+    const { TvosSearchView } = require('../index');
+    const onSearch = jest.fn();
+    const renderer = renderView(TvosSearchView, { results: [], onSearch, queryTransform: trim });
+
+    const native = renderer.root.findByType('ExpoTvosSearchView' as any);
+    expect(native.props.queryTransform).toBeUndefined();
+
+    require('react-test-renderer').act(() => native.props.onSearch({ nativeEvent: { query: ' x ' } }));
+    expect(queries(onSearch)).toEqual(['x']);
+  });
+});
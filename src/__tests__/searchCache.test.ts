@@ -0,0 +1,136 @@
+/**
+ * Tests for createSearchCache: LRU eviction, TTL staleness, prefix filtering,
+ * and invalidation
+ */
+
+import { createSearchCache } from '../searchCache';
+
+const starWars = { id: 'sw', title: 'Star Wars' };
+const startrek = { id: 'st', title: 'Star Trek', subtitle: 'The Original Series' };
+const stardust = { id: 'sd', title: 'Stardust' };
+
+describe('createSearchCache', () => {
+  let now: number;
+  let nowSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = 1_000;
+    nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+  });
+
+  it('returns null on a miss', () => {
+    const cache = createSearchCache();
+
+    expect(cache.get('star')).toBeNull();
+  });
+
+  it('returns fresh results for the same normalized query', () => {
+    const cache = createSearchCache();
+    cache.set('Star', [starWars], 'page-2');
+
+    expect(cache.get('  star ')).toEqual({
+      results: [starWars],
+      nextCursor: 'page-2',
+      stale: false,
+      exact: true,
+    });
+  });
+
+  it('marks results stale after ttlMs', () => {
+    const cache = createSearchCache({ ttlMs: 1_000 });
+    cache.set('star', [starWars]);
+
+    now = 1_999;
+    expect(cache.get('star')!.stale).toBe(false);
+    now = 2_000;
+    expect(cache.get('star')!.stale).toBe(true);
+  });
+
+  it('evicts the least recently used query', () => {
+    const cache = createSearchCache({ maxEntries: 2 });
+    cache.set('a', []);
+    cache.set('b', []);
+    cache.get('a');
+    cache.set('c', []);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).not.toBeNull();
+    expect(cache.get('c')).not.toBeNull();
+  });
+
+  it('filters the longest cached prefix locally', () => {
+    const cache = createSearchCache();
+    cache.set('s', [starWars, startrek, stardust, { id: 'x', title: 'Sunshine' }]);
+    cache.set('sta', [starWars, startrek, stardust]);
+
+    expect(cache.get('star t')).toEqual({
+      results: [startrek],
+      nextCursor: null,
+      stale: true,
+      exact: false,
+    });
+  });
+
+  it('matches subtitles by default', () => {
+    const cache = createSearchCache();
+    cache.set('the', [starWars, startrek]);
+
+    expect(cache.get('the orig')!.results).toEqual([startrek]);
+  });
+
+  it('does not filter paginated prefixes, which may be incomplete', () => {
+    const cache = createSearchCache();
+    cache.set('star', [starWars], 'page-2');
+
+    expect(cache.get('star w')).toBeNull();
+  });
+
+  it('supports custom key normalization and matching', () => {
+    const cache = createSearchCache({
+      normalizeKey: (query) => query,
+      matchesQuery: (result, query) => query === 'Stars' && result.title.endsWith('Wars'),
+    });
+    cache.set('Star', [starWars, startrek, stardust]);
+
+    expect(cache.get('star')).toBeNull();
+    expect(cache.get('Stars')!.results).toEqual([starWars]);
+  });
+
+  it('invalidates one query, matching queries, or everything', () => {
+    const cache = createSearchCache();
+    cache.set('star', []);
+    cache.set('trek', []);
+    cache.set('dust', []);
+
+    cache.invalidate(' STAR ');
+    expect(cache.get('star')).toBeNull();
+
+    cache.invalidate((key) => key.startsWith('t'));
+    expect(cache.get('trek')).toBeNull();
+    expect(cache.size).toBe(1);
+
+    cache.invalidate();
+    expect(cache.size).toBe(0);
+  });
+
+  it('keeps results for each scope apart', () => {
+    const cache = createSearchCache();
+    cache.set('star', [starWars], null, 'movies');
+    cache.set('star', [], null, 'tv');
+
+    expect(cache.get('star', 'movies')!.results).toEqual([starWars]);
+    expect(cache.get('star w', 'movies')!.results).toEqual([starWars]);
+    expect(cache.get('star', 'tv')!.results).toEqual([]);
+    expect(cache.get('star w', 'tv')!.results).toEqual([]);
+    expect(cache.get('star')).toBeNull();
+    expect(cache.get('star', 'music')).toBeNull();
+
+    cache.invalidate('star');
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests for search history stores and the useSearchHistory hook
+ */
+
+import { act } from 'react-test-renderer';
+import { renderHook } from './setup';
+import {
+  createAsyncStorageSearchHistory,
+  createInMemorySearchHistory,
+  createMemoryStorage,
+  type SearchHistoryStorage,
+  type SearchHistoryStore,
+} from '../searchHistory';
+import { useSearchHistory } from '../useSearchHistory';
+
+describe('createInMemorySearchHistory', () => {
+  it('starts empty', async () => {
+    await expect(createInMemorySearchHistory().getRecentSearches()).resolves.toEqual([]);
+  });
+
+  it('keeps the most recent query first', async () => {
+    const history = createInMemorySearchHistory();
+    await history.addRecentSearch('dune');
+    await expect(history.addRecentSearch('arrival')).resolves.toEqual(['arrival', 'dune']);
+  });
+
+  it('dedupes queries ignoring case and whitespace, keeping the latest spelling', async () => {
+    const history = createInMemorySearchHistory();
+    await history.addRecentSearch('Blade Runner');
+    await history.addRecentSearch('dune');
+    await expect(history.addRecentSearch('  blade   runner ')).resolves.toEqual([
+      'blade   runner',
+      'dune',
+    ]);
+  });
+
+  it('ignores empty queries', async () => {
+    const history = createInMemorySearchHistory();
+    await history.addRecentSearch('dune');
+    await expect(history.addRecentSearch('   ')).resolves.toEqual(['dune']);
+  });
+
+  it('drops the oldest queries beyond maxSize', async () => {
+    const history = createInMemorySearchHistory({ maxSize: 2 });
+    await history.addRecentSearch('a');
+    await history.addRecentSearch('b');
+    await expect(history.addRecentSearch('c')).resolves.toEqual(['c', 'b']);
+  });
+
+  it('removes single queries and clears the history', async () => {
+    const history = createInMemorySearchHistory();
+    await history.addRecentSearch('dune');
+    await history.addRecentSearch('arrival');
+
+    await expect(history.removeRecentSearch('DUNE')).resolves.toEqual(['arrival']);
+    await history.clear();
+    await expect(history.getRecentSearches()).resolves.toEqual([]);
+  });
+
+  it('namespaces shared storage by profile', async () => {
+    const storage = createMemoryStorage();
+    const alice = createInMemorySearchHistory({ storage, profileId: 'alice' });
+    const bob = createInMemorySearchHistory({ storage, profileId: 'bob' });
+
+    await alice.addRecentSearch('dune');
+    await bob.addRecentSearch('bluey');
+
+    await expect(alice.getRecentSearches()).resolves.toEqual(['dune']);
+    await expect(bob.getRecentSearches()).resolves.toEqual(['bluey']);
+  });
+});
+
+describe('createAsyncStorageSearchHistory', () => {
+  function mockStorage(initial: Record<string, string> = {}): jest.Mocked<SearchHistoryStorage> {
+    const items = new Map(Object.entries(initial));
+    return {
+      getItem: jest.fn(async (key: string) => items.get(key) ?? null),
+      setItem: jest.fn(async (key: string, value: string) => {
+        items.set(key, value);
+      }),
+      removeItem: jest.fn(async (key: string) => {
+        items.delete(key);
+      }),
+    };
+  }
+
+  it('persists JSON under a prefixed, per-profile key', async () => {
+    const storage = mockStorage();
+    const history = createAsyncStorageSearchHistory(storage, { profileId: 'kids' });
+
+    await history.addRecentSearch('bluey');
+
+    expect(storage.setItem).toHaveBeenCalledWith('expo-tvos-search:history:kids', '["bluey"]');
+  });
+
+  it('uses a custom key prefix', async () => {
+    const storage = mockStorage();
+    await createAsyncStorageSearchHistory(storage, { keyPrefix: 'app:recent' }).clear();
+    expect(storage.removeItem).toHaveBeenCalledWith('app:recent:default');
+  });
+
+  it('applies adds made without awaiting in call order', async () => {
+    const storage = mockStorage();
+    const history = createAsyncStorageSearchHistory(storage);
+
+    const picked = history.addRecentSearch('dune');
+    const submitted = history.addRecentSearch('arrival');
+
+    await expect(picked).resolves.toEqual(['dune']);
+    await expect(submitted).resolves.toEqual(['arrival', 'dune']);
+    await expect(history.getRecentSearches()).resolves.toEqual(['arrival', 'dune']);
+  });
+
+  it('keeps applying changes after a failed write', async () => {
+    const storage = mockStorage();
+    storage.setItem.mockRejectedValueOnce(new Error('disk full'));
+    const history = createAsyncStorageSearchHistory(storage);
+
+    const failed = history.addRecentSearch('dune');
+    const next = history.addRecentSearch('arrival');
+
+    await expect(failed).rejects.toThrow('disk full');
+    await expect(next).resolves.toEqual(['arrival']);
+  });
+
+  it('recovers from corrupt or unexpected stored values', async () => {
+    const corrupt = mockStorage({ 'expo-tvos-search:history:default': '{not json' });
+    await expect(createAsyncStorageSearchHistory(corrupt).getRecentSearches()).resolves.toEqual([]);
+
+    const mixed = mockStorage({ 'expo-tvos-search:history:default': '["dune", 42, null]' });
+    await expect(createAsyncStorageSearchHistory(mixed).getRecentSearches()).resolves.toEqual(['dune']);
+  });
+});
+
+describe('useSearchHistory', () => {
+  afterEach(() => {
+    delete (global as any).__DEV__;
+  });
+
+  async function renderHistory(store: SearchHistoryStore) {
+    let rendered!: ReturnType<typeof renderHook<SearchHistoryStore, ReturnType<typeof useSearchHistory>>>;
+    await act(async () => {
+      rendered = renderHook(useSearchHistory, store);
+    });
+    return rendered;
+  }
+
+  it('loads the recent searches from the store', async () => {
+    const store = createInMemorySearchHistory();
+    await store.addRecentSearch('dune');
+
+    const { result } = await renderHistory(store);
+
+    expect(result.current.recentSearches).toEqual(['dune']);
+  });
+
+  it('adds, removes and clears through the store', async () => {
+    const { result } = await renderHistory(createInMemorySearchHistory());
+
+    await act(async () => result.current.addRecentSearch('dune'));
+    await act(async () => result.current.addRecentSearch('arrival'));
+    expect(result.current.recentSearches).toEqual(['arrival', 'dune']);
+
+    await act(async () => result.current.removeRecentSearch('dune'));
+    expect(result.current.recentSearches).toEqual(['arrival']);
+
+    await act(async () => result.current.onClearHistory());
+    expect(result.current.recentSearches).toEqual([]);
+  });
+
+  it('reloads when the store changes, e.g. switching profiles', async () => {
+    const storage = createMemoryStorage();
+    const alice = createInMemorySearchHistory({ storage, profileId: 'alice' });
+    const bob = createInMemorySearchHistory({ storage, profileId: 'bob' });
+    await alice.addRecentSearch('dune');
+    await bob.addRecentSearch('bluey');
+
+    const { result, rerender } = await renderHistory(alice);
+    expect(result.current.recentSearches).toEqual(['dune']);
+
+    await act(async () => rerender(bob));
+    expect(result.current.recentSearches).toEqual(['bluey']);
+  });
+
+  it('logs store failures in development and keeps the list', async () => {
+    (global as any).__DEV__ = true;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const error = new Error('quota exceeded');
+    const store = createInMemorySearchHistory();
+    await store.addRecentSearch('dune');
+    jest.spyOn(store, 'addRecentSearch').mockRejectedValue(error);
+
+    const { result } = await renderHistory(store);
+    await act(async () => result.current.addRecentSearch('arrival'));
+
+    expect(result.current.recentSearches).toEqual(['dune']);
+    expect(warnSpy).toHaveBeenCalledWith('[expo-tvos-search] Search history add failed:', error);
+    warnSpy.mockRestore();
+  });
+});
@@ -3,10 +3,16 @@
  * Uses global state to persist mock values across module resets
  */
 
+import React from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+
 // Import mocks to initialize globals
 import './__mocks__/react-native';
 import './__mocks__/expo-modules-core';
 
+// Tell React we're in a test environment that supports act()
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
 // Helper to simulate tvOS platform
 export function mockTvOSPlatform(): void {
   globalThis.__mockPlatformOS = 'ios';
@@ -39,6 +45,68 @@ export function mockNativeModuleAvailable(): void {
 // Helper to mock native module as unavailable
 export function mockNativeModuleUnavailable(): void {
   globalThis.__mockNativeViewAvailable = false;
+  globalThis.__mockNativeModule = undefined;
+}
+
+// Helper to provide native module functions (used with mockNativeModuleAvailable)
+export function mockNativeModuleFunctions(functions: Record<string, unknown>): void {
+  globalThis.__mockNativeModule = functions;
+}
+
+// Renders a hook inside a test component and exposes its latest return value
+export function renderHook<P, R>(
+  hook: (props: P) => R,
+  initialProps: P
+): {
+  result: { readonly current: R };
+  rerender: (props: P) => void;
+  unmount: () => void;
+} {
+  let current: R;
+  function HookHost({ hookProps }: { hookProps: P }) {
+    current = hook(hookProps);
+    return null;
+  }
+
+  let renderer: TestRenderer.ReactTestRenderer;
+  act(() => {
+    renderer = TestRenderer.create(React.createElement(HookHost, { hookProps: initialProps }));
+  });
+
+  return {
+    result: {
+      get current() {
+        return current;
+      },
+    },
+    rerender: (props: P) => {
+      act(() => {
+        renderer.update(React.createElement(HookHost, { hookProps: props }));
+      });
+    },
+    unmount: () => {
+      act(() => {
+        renderer.unmount();
+      });
+    },
+  };
+}
+
+// Renders a component with react-test-renderer from the current module registry.
+// Modules required after jest.resetModules() get a fresh React copy, and the
+// renderer must share it for hooks to work.
+export function renderView(
+  Component: React.ElementType,
+  props: Record<string, unknown>,
+  options?: { createNodeMock?: (element: React.ReactElement) => unknown }
+): TestRenderer.ReactTestRenderer {
+  const FreshReact = require('react');
+  const FreshTestRenderer = require('react-test-renderer');
+  let renderer!: TestRenderer.ReactTestRenderer;
+  FreshTestRenderer.act(() => {
+    renderer = FreshTestRenderer.create(FreshReact.createElement(Component, props), options);
+  });
+  return renderer;
 }
 
 // Reset mocks between tests
@@ -0,0 +1,57 @@
+/**
+ * Tests for arrow-key focus movement on the web search view grid
+ */
+
+import { findNextFocus, type GridCell } from '../spatialNavigation';
+
+// Cards in rows of `perRow`, 20 apart, with x at each card's center
+function grid(count: number, perRow: number, firstRow = 0, width = 100): GridCell[] {
+  return Array.from({ length: count }, (_, index) => ({
+    row: firstRow + Math.floor(index / perRow),
+    x: (index % perRow) * (width + 20) + width / 2,
+  }));
+}
+
+describe('findNextFocus', () => {
+  // Two full rows of three and a last row of one
+  const cells = grid(7, 3);
+
+  it('moves left and right within a row', () => {
+    expect(findNextFocus(cells, 1, 'left')).toBe(0);
+    expect(findNextFocus(cells, 1, 'right')).toBe(2);
+  });
+
+  it('stops at the ends of a row', () => {
+    expect(findNextFocus(cells, 0, 'left')).toBeNull();
+    expect(findNextFocus(cells, 2, 'right')).toBeNull();
+    expect(findNextFocus(cells, 6, 'right')).toBeNull();
+  });
+
+  it('moves up and down to the same column', () => {
+    expect(findNextFocus(cells, 1, 'down')).toBe(4);
+    expect(findNextFocus(cells, 4, 'up')).toBe(1);
+  });
+
+  it('moves down to the nearest card of a shorter row', () => {
+    expect(findNextFocus(cells, 5, 'down')).toBe(6);
+  });
+
+  it('returns null when leaving the top or bottom of the grid', () => {
+    expect(findNextFocus(cells, 0, 'up')).toBeNull();
+    expect(findNextFocus(cells, 6, 'down')).toBeNull();
+  });
+
+  it('lines up rows with a different column count', () => {
+    // A section of 3 wide cards followed by a section of 6 narrow cards
+    const mixed = [...grid(3, 3, 0, 200), ...grid(6, 6, 1, 80)];
+
+    // Middle wide card (center 320) lands on the narrow card centered at 340
+    expect(findNextFocus(mixed, 1, 'down')).toBe(6);
+    // Fifth narrow card (center 440) goes up to the last wide card (center 540)
+    expect(findNextFocus(mixed, 7, 'up')).toBe(2);
+  });
+
+  it('returns null for an unknown cell', () => {
+    expect(findNextFocus(cells, 10, 'down')).toBeNull();
+  });
+});
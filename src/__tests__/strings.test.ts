@@ -0,0 +1,190 @@
+/**
+ * Tests for built-in string catalogs, locale resolution and formatting
+ */
+
+import { formatSearchString, getSearchStrings, registerSearchStrings } from '../strings';
+import {
+  mockTvOSPlatform,
+  mockWebPlatform,
+  mockNativeModuleAvailable,
+  mockNativeModuleUnavailable,
+  renderView,
+} from './setup';
+
+describe('getSearchStrings', () => {
+  it('returns the English prop defaults without a locale', () => {
+    expect(getSearchStrings()).toEqual(
+      expect.objectContaining({
+        placeholder: 'Search...',
+        emptyStateText: 'Search your library',
+        searchingText: 'Searching...',
+        noResultsText: 'No results found',
+        noResultsHintText: 'Try a different search term',
+        recentSearchesTitle: 'Recent Searches',
+        clearHistoryText: 'Clear Recent Searches',
+      })
+    );
+  });
+
+  it.each(['es', 'fr', 'de', 'it', 'pt', 'nl', 'ru', 'ja', 'ko', 'zh-Hans', 'zh-Hant'])(
+    '%s translates every string',
+    (locale) => {
+      const english = getSearchStrings('en');
+      const strings = getSearchStrings(locale);
+
+      for (const key of Object.keys(english) as (keyof typeof english)[]) {
+        expect(strings[key]).not.toEqual(english[key]);
+      }
+    }
+  );
+
+  it('falls back from region to language, ignoring case and underscores', () => {
+    expect(getSearchStrings('fr-CA').placeholder).toBe('Rechercher...');
+    expect(getSearchStrings('PT_br').placeholder).toBe('Buscar...');
+  });
+
+  it('maps Chinese regions to the matching script', () => {
+    expect(getSearchStrings('zh-TW').placeholder).toBe('搜尋...');
+    expect(getSearchStrings('zh-HK').placeholder).toBe('搜尋...');
+    expect(getSearchStrings('zh-CN').placeholder).toBe('搜索...');
+    expect(getSearchStrings('zh').placeholder).toBe('搜索...');
+  });
+
+  it('falls back to English for unknown locales', () => {
+    expect(getSearchStrings('xx-YY')).toEqual(getSearchStrings());
+  });
+});
+
+describe('registerSearchStrings', () => {
+  it('adds a language, filling missing keys from English', () => {
+    registerSearchStrings('sv', { placeholder: 'Sök...', noResultsText: 'Inga resultat' });
+
+    const strings = getSearchStrings('sv-SE');
+    expect(strings.placeholder).toBe('Sök...');
+    expect(strings.noResultsText).toBe('Inga resultat');
+    expect(strings.searchingText).toBe('Searching...');
+  });
+
+  it('overrides built-in strings for a region, keeping the language for the rest', () => {
+    registerSearchStrings('fr-CA', { emptyStateText: 'Cherchez dans votre vidéothèque' });
+
+    expect(getSearchStrings('fr-CA').emptyStateText).toBe('Cherchez dans votre vidéothèque');
+    expect(getSearchStrings('fr-CA').placeholder).toBe('Rechercher...');
+    expect(getSearchStrings('fr').emptyStateText).toBe('Recherchez dans votre bibliothèque');
+  });
+
+  it('merges repeated registrations', () => {
+    registerSearchStrings('da', { placeholder: 'Søg...' });
+    registerSearchStrings('da', { noResultsText: 'Ingen resultater' });
+
+    expect(getSearchStrings('da')).toEqual(
+      expect.objectContaining({ placeholder: 'Søg...', noResultsText: 'Ingen resultater' })
+    );
+  });
+});
+
+describe('formatSearchString', () => {
+  it('fills placeholders and leaves unknown ones', () => {
+    expect(formatSearchString('{greeting}, {name}!', { greeting: 'Hi' })).toBe('Hi, {name}!');
+  });
+
+  it('picks the plural form for the count', () => {
+    const { resultsCount } = getSearchStrings('en');
+
+    expect(formatSearchString(resultsCount, { count: 1, query: 'Mars' })).toBe('1 result for “Mars”');
+    expect(formatSearchString(resultsCount, { count: 3, query: 'Mars' })).toBe('3 results for “Mars”');
+  });
+
+  it('uses the locale plural rules', () => {
+    const { resultsCount } = getSearchStrings('ru');
+
+    expect(formatSearchString(resultsCount, { count: 1, query: 'Марс' }, 'ru')).toBe(
+      '1 результат по запросу «Марс»'
+    );
+    expect(formatSearchString(resultsCount, { count: 3, query: 'Марс' }, 'ru')).toBe(
+      '3 результата по запросу «Марс»'
+    );
+    expect(formatSearchString(resultsCount, { count: 5, query: 'Марс' }, 'ru')).toBe(
+      '5 результатов по запросу «Марс»'
+    );
+  });
+
+  it('formats numbers for the locale', () => {
+    const { resultsCount } = getSearchStrings('de');
+
+    expect(formatSearchString(resultsCount, { count: 1200, query: 'Mars' }, 'de')).toBe(
+      '1.200 Ergebnisse für „Mars“'
+    );
+  });
+
+  it('falls back to the other form when a category is missing', () => {
+    expect(formatSearchString({ other: '{count} items' }, { count: 1 })).toBe('1 items');
+  });
+});
+
+describe('TvosSearchView locale prop', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  function nativeProps(props: Record<string, unknown>) {
+    const { TvosSearchView } = require('../index');
+    const renderer = renderView(TvosSearchView, props);
+    return renderer.root.findByType('ExpoTvosSearchView' as any).props;
+  }
+
+  it('fills unset string props for the locale', () => {
+    const props = nativeProps({ locale: 'es', noResultsText: 'Nada por aquí' });
+
+    expect(props.placeholder).toBe('Buscar...');
+    expect(props.recentSearchesTitle).toBe('Búsquedas recientes');
+    expect(props.noResultsText).toBe('Nada por aquí');
+    expect(props).not.toHaveProperty('locale');
+  });
+
+  it('does not send actionMenuCancelText to the native view', () => {
+    expect(nativeProps({ locale: 'de' })).not.toHaveProperty('actionMenuCancelText');
+  });
+
+  it('does not add string props without a locale', () => {
+    const props = nativeProps({});
+
+    expect(props).not.toHaveProperty('placeholder');
+    expect(props).not.toHaveProperty('emptyStateText');
+  });
+});
+
+describe('TvosSearchFallbackView locale prop', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockWebPlatform();
+    mockNativeModuleUnavailable();
+  });
+
+  it('renders the localized strings', () => {
+    const { TvosSearchFallbackView } = require('../TvosSearchFallbackView');
+    const renderer = renderView(TvosSearchFallbackView, { locale: 'de', results: [] });
+
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.placeholder).toBe('Suchen...');
+    expect(JSON.stringify(renderer.toJSON())).toContain('Durchsuche deine Mediathek');
+  });
+
+  it('localizes the action menu through TvosSearchView fallback="auto"', () => {
+    const { act } = require('react-test-renderer');
+    const { TvosSearchView } = require('../index');
+    const renderer = renderView(TvosSearchView, {
+      fallback: 'auto',
+      locale: 'de',
+      results: [{ id: 'dune', title: 'Dune' }],
+      defaultActions: [{ id: 'watchlist', title: 'Merken' }],
+    });
+
+    act(() => renderer.root.findByProps({ testID: 'tvos-search-result-dune' }).props.onLongPress());
+
+    expect(
+      renderer.root.findByProps({ testID: 'tvos-search-action-cancel' }).findByType('Text' as any).props.children
+    ).toBe('Abbrechen');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for the getSuggestions helper
+ */
+
+import { getSuggestions } from '../suggestions';
+
+const results = [
+  { id: '1', title: 'Star Wars' },
+  { id: '2', title: 'Stargate' },
+  { id: '3', title: 'The Martian' },
+  { id: '4', title: 'Star Wars' },
+];
+
+describe('getSuggestions', () => {
+  it('returns prefix matches from result titles', () => {
+    expect(getSuggestions('star', { results })).toEqual([
+      { id: 'title:star wars', text: 'Star Wars', icon: 'magnifyingglass' },
+      { id: 'title:stargate', text: 'Stargate', icon: 'magnifyingglass' },
+    ]);
+  });
+
+  it('lists recent searches before result titles', () => {
+    expect(
+      getSuggestions('st', { results, recentSearches: ['stranger things', 'dune'] }).map((s) => s.text)
+    ).toEqual(['stranger things', 'Star Wars', 'Stargate']);
+  });
+
+  it('marks recent searches with a history icon', () => {
+    expect(getSuggestions('du', { recentSearches: ['dune'] })).toEqual([
+      { id: 'recent:dune', text: 'dune', icon: 'clock.arrow.circlepath' },
+    ]);
+  });
+
+  it('matches ignoring case and extra whitespace', () => {
+    expect(getSuggestions('  STAR   w', { results }).map((s) => s.text)).toEqual(['Star Wars']);
+  });
+
+  it('skips entries that repeat the query or an earlier suggestion', () => {
+    expect(
+      getSuggestions('star wars', { results, recentSearches: ['Star Wars', 'star wars: andor'] }).map(
+        (s) => s.id
+      )
+    ).toEqual(['recent:star wars: andor']);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(getSuggestions('   ', { results, recentSearches: ['dune'] })).toEqual([]);
+  });
+
+  it('limits the number of suggestions', () => {
+    expect(getSuggestions('s', { results }, { limit: 1 })).toHaveLength(1);
+    expect(getSuggestions('s', { results }).length).toBeLessThanOrEqual(8);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Tests for the expo-tvos-search/testing entry point
+ *
+ * Modules are required per test so index and testing share one registry
+ * (and one override) after jest.resetModules().
+ */
+
+import type { ReactTestRenderer } from 'react-test-renderer';
+import { mockTvOSPlatform, mockNativeModuleAvailable, renderView } from './setup';
+
+const results = [
+  { id: 'earth', title: 'Earth' },
+  { id: 'mars', title: 'Mars', subtitle: 'Red planet' },
+];
+
+function load() {
+  return {
+    index: require('../index') as typeof import('../index'),
+    testing: require('../testing') as typeof import('../testing'),
+    act: require('react-test-renderer').act as (callback: () => void) => void,
+  };
+}
+
+describe('setNativeSearchAvailable', () => {
+  it('makes isNativeSearchAvailable() return true off tvOS', () => {
+    const { index, testing } = load();
+    expect(index.isNativeSearchAvailable()).toBe(false);
+
+    testing.setNativeSearchAvailable(true);
+    expect(index.isNativeSearchAvailable()).toBe(true);
+  });
+
+  it('makes isNativeSearchAvailable() return false when the native module loaded', () => {
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+    const { index, testing } = load();
+    expect(index.isNativeSearchAvailable()).toBe(true);
+
+    testing.setNativeSearchAvailable(false);
+    expect(index.isNativeSearchAvailable()).toBe(false);
+
+    testing.resetNativeSearchAvailable();
+    expect(index.isNativeSearchAvailable()).toBe(true);
+  });
+
+  it('renders the fallback view when unavailable and fallback="auto"', () => {
+    const { index, testing } = load();
+    testing.setNativeSearchAvailable(false);
+    const renderer = renderView(index.TvosSearchView, { results, fallback: 'auto' });
+
+    expect(renderer.root.findAllByType(testing.MOCK_SEARCH_VIEW_TYPE as any)).toHaveLength(0);
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' })).toBeTruthy();
+  });
+});
+
+describe('MockTvosSearchView', () => {
+  function render(props: Record<string, unknown>) {
+    const modules = load();
+    modules.testing.setNativeSearchAvailable(true);
+    const renderer = renderView(modules.index.TvosSearchView, { results, ...props });
+    return { ...modules, renderer };
+  }
+
+  it('renders the native props and a Text per result', () => {
+    const { renderer, testing } = render({ columns: 4, placeholder: 'Find planets' });
+
+    const props = testing.getSearchViewProps(renderer);
+    expect(props.columns).toBe(4);
+    expect(props.placeholder).toBe('Find planets');
+    expect(props.results).toBe(results);
+    expect(renderer.root.findByProps({ testID: 'expo-tvos-search-result-mars' }).props.children).toBe(
+      'Mars'
+    );
+  });
+
+  it('renders results from sections', () => {
+    const sections = [{ id: 'planets', title: 'Planets', results }];
+    const { renderer } = render({ results: undefined, sections });
+
+    expect(renderer.root.findByProps({ testID: 'expo-tvos-search-result-earth' })).toBeTruthy();
+  });
+
+  it('fires events from the view functions on the handle', () => {
+    const onSearch = jest.fn();
+    const onSearchFieldFocused = jest.fn();
+    const onSearchFieldBlurred = jest.fn();
+    const { act, index, testing } = load();
+    testing.setNativeSearchAvailable(true);
+    const ref = require('react').createRef() as { current: import('../index').TvosSearchViewHandle };
+    renderView(index.TvosSearchView, {
+      results,
+      onSearch,
+      onSearchFieldFocused,
+      onSearchFieldBlurred,
+      ref,
+    });
+
+    act(() => {
+      ref.current.focusSearchField();
+      ref.current.setQuery('mars');
+      ref.current.setQuery('silent', { emit: false });
+      ref.current.clear();
+      ref.current.blurSearchField();
+      ref.current.scrollToTop();
+      ref.current.scrollToItem('earth');
+    });
+
+    expect(onSearchFieldFocused).toHaveBeenCalledTimes(1);
+    expect(onSearchFieldBlurred).toHaveBeenCalledTimes(1);
+    expect(onSearch.mock.calls.map(([event]) => event.nativeEvent.query)).toEqual(['mars', '']);
+  });
+
+  it('sends the selected scope with searches from the handle', () => {
+    const onSearch = jest.fn();
+    const { act, index, testing } = load();
+    testing.setNativeSearchAvailable(true);
+    const ref = require('react').createRef() as { current: import('../index').TvosSearchViewHandle };
+    const scopes = [
+      { id: 'movies', title: 'Movies' },
+      { id: 'tv', title: 'TV' },
+    ];
+    const renderer = renderView(index.TvosSearchView, { results, scopes, onSearch, ref });
+
+    act(() => {
+      ref.current.setQuery('mars');
+      ref.current.clear();
+    });
+    act(() => {
+      renderer.update(
+        require('react').createElement(index.TvosSearchView, { results, scopes, selectedScope: 'tv', onSearch, ref })
+      );
+    });
+    act(() => {
+      ref.current.clear();
+    });
+
+    expect(onSearch.mock.calls.map(([event]) => event.nativeEvent)).toEqual([
+      { query: 'mars', scopeId: 'movies' },
+      { query: '', scopeId: 'movies' },
+      { query: '', scopeId: 'tv' },
+    ]);
+  });
+});
+
+describe('fire helpers', () => {
+  function render(props: Record<string, unknown>) {
+    const { index, testing } = load();
+    testing.setNativeSearchAvailable(true);
+    const renderer: ReactTestRenderer = renderView(index.TvosSearchView, { results, ...props });
+    return { renderer, testing };
+  }
+
+  it('fireSearch calls onSearch with the query', () => {
+    const onSearch = jest.fn();
+    const { renderer, testing } = render({ onSearch });
+
+    testing.fireSearch(renderer, 'ear');
+
+    expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'ear' } });
+  });
+
+  it('fireScopeChange and fireSearch report the scope', () => {
+    const onSearch = jest.fn();
+    const onScopeChange = jest.fn();
+    const { renderer, testing } = render({ onSearch, onScopeChange });
+
+    testing.fireScopeChange(renderer, 'tv');
+    testing.fireSearch(renderer, 'ear', 'tv');
+
+    expect(onScopeChange).toHaveBeenCalledWith({ nativeEvent: { scopeId: 'tv' } });
+    expect(onSearch).toHaveBeenCalledWith({ nativeEvent: { query: 'ear', scopeId: 'tv' } });
+  });
+
+  it('fireSelectItem calls onSelectItem and resolves onSelect', () => {
+    const onSelectItem = jest.fn();
+    const onSelect = jest.fn();
+    const { renderer, testing } = render({ onSelectItem, onSelect });
+
+    testing.fireSelectItem(renderer, 'mars');
+
+    expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars' } });
+    expect(onSelect).toHaveBeenCalledWith(results[1], 1);
+  });
+
+  it('fireSelectItem passes the section id', () => {
+    const onSelectItem = jest.fn();
+    const sections = [{ id: 'planets', title: 'Planets', results }];
+    const { renderer, testing } = render({ results: undefined, sections, onSelectItem });
+
+    testing.fireSelectItem(renderer, 'earth', 'planets');
+
+    expect(onSelectItem).toHaveBeenCalledWith({ nativeEvent: { id: 'earth', sectionId: 'planets' } });
+  });
+
+  it('fireError calls onError with the category and a message', () => {
+    const onError = jest.fn();
+    const { renderer, testing } = render({ onError });
+
+    testing.fireError(renderer, 'image_load_failed');
+    testing.fireError(renderer, 'unknown', 'Boom', 'id=earth');
+
+    expect(onError.mock.calls).toEqual([
+      [{ nativeEvent: { category: 'image_load_failed', message: 'Simulated image_load_failed error' } }],
+      [{ nativeEvent: { category: 'unknown', message: 'Boom', context: 'id=earth' } }],
+    ]);
+  });
+
+  it('fireFocusItem and fireBlurItem send the index in results', () => {
+    const onFocusItem = jest.fn();
+    const onBlurItem = jest.fn();
+    const { renderer, testing } = render({ onFocusItem, onBlurItem });
+
+    testing.fireFocusItem(renderer, 'mars');
+    testing.fireBlurItem(renderer, 'mars');
+
+    expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1 } });
+    expect(onBlurItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1 } });
+    expect(() => testing.fireFocusItem(renderer, 'pluto')).toThrow("No result with id 'pluto'");
+  });
+
+  it('fireFocusItem passes the section id and the index within the section', () => {
+    const onFocusItem = jest.fn();
+    const sections = [{ id: 'planets', title: 'Planets', results }];
+    const { renderer, testing } = render({ results: undefined, sections, onFocusItem });
+
+    testing.fireFocusItem(renderer, 'mars', 'planets');
+
+    expect(onFocusItem).toHaveBeenCalledWith({ nativeEvent: { id: 'mars', index: 1, sectionId: 'planets' } });
+  });
+
+  it('fireSearchFieldFocusChange calls the focus and blur handlers', () => {
+    const onSearchFieldFocused = jest.fn();
+    const onSearchFieldBlurred = jest.fn();
+    const { renderer, testing } = render({ onSearchFieldFocused, onSearchFieldBlurred });
+
+    testing.fireSearchFieldFocusChange(renderer, true);
+    testing.fireSearchFieldFocusChange(renderer, false);
+
+    expect(onSearchFieldFocused).toHaveBeenCalledWith({ nativeEvent: {} });
+    expect(onSearchFieldBlurred).toHaveBeenCalledWith({ nativeEvent: {} });
+  });
+
+  it('accepts a test instance and the mock view itself', () => {
+    const onSearch = jest.fn();
+    const { renderer, testing } = render({ onSearch });
+    const mockView = renderer.root.findByType(testing.MOCK_SEARCH_VIEW_TYPE as any);
+
+    testing.fireSearch(renderer.root, 'a');
+    testing.fireSearch(mockView, 'b');
+    testing.fireSearch({ UNSAFE_root: renderer.root }, 'c');
+
+    expect(onSearch.mock.calls.map(([event]) => event.nativeEvent.query)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('ignores events without a handler', () => {
+    const { renderer, testing } = render({});
+
+    expect(() => testing.fireSearch(renderer, 'ear')).not.toThrow();
+  });
+
+  it('throws when the mock view is not rendered', () => {
+    const { index, testing } = load();
+    const renderer = renderView(index.TvosSearchView, { results });
+
+    expect(() => testing.fireSearch(renderer, 'ear')).toThrow(
+      '[expo-tvos-search] Expected one mock search view, found 0.'
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for search view themes, presets and ThemeProvider
+ */
+
+import { createSearchTheme, searchThemePresets } from '../theme';
+import {
+  mockTvOSPlatform,
+  mockWebPlatform,
+  mockNativeModuleAvailable,
+  mockNativeModuleUnavailable,
+  renderView,
+} from './setup';
+
+describe('createSearchTheme', () => {
+  it('returns the prop defaults without overrides', () => {
+    expect(createSearchTheme()).toEqual({
+      colorScheme: 'system',
+      colors: { text: undefined, accent: '#FFC312' },
+      card: {
+        width: 280,
+        height: 420,
+        margin: 40,
+        padding: 16,
+        imageContentMode: 'fill',
+        showTitle: false,
+        showSubtitle: false,
+        showTitleOverlay: true,
+        showFocusBorder: false,
+      },
+      typography: { overlayTitleSize: 20 },
+      grid: { columns: 5, topInset: 0 },
+      marquee: { enabled: true, delay: 1.5 },
+    });
+  });
+
+  it('deep-merges overrides, keeping sibling values', () => {
+    const theme = createSearchTheme({ colors: { accent: '#E50914' }, card: { showFocusBorder: true } });
+
+    expect(theme.colors).toEqual({ text: undefined, accent: '#E50914' });
+    expect(theme.card.width).toBe(280);
+    expect(theme.card.showFocusBorder).toBe(true);
+  });
+
+  it('ignores undefined overrides', () => {
+    expect(createSearchTheme({ grid: { columns: undefined } }).grid.columns).toBe(5);
+  });
+
+  it('extends a base theme without mutating it', () => {
+    const theme = createSearchTheme({ grid: { columns: 6 } }, searchThemePresets.darkCinema);
+
+    expect(theme.colors.accent).toBe('#E50914');
+    expect(theme.grid.columns).toBe(6);
+    expect(searchThemePresets.darkCinema.grid.columns).toBe(5);
+  });
+});
+
+describe('searchThemePresets', () => {
+  it.each(Object.entries(searchThemePresets))('%s is a complete theme', (_name, theme) => {
+    expect(Object.keys(theme).sort()).toEqual(Object.keys(createSearchTheme()).sort());
+  });
+
+  it('high contrast turns on focus borders and off marquee motion', () => {
+    expect(searchThemePresets.highContrast.card.showFocusBorder).toBe(true);
+    expect(searchThemePresets.highContrast.marquee.enabled).toBe(false);
+  });
+});
+
+describe('TvosSearchView theming', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockTvOSPlatform();
+    mockNativeModuleAvailable();
+  });
+
+  // Renders an element tree and returns the props that reach the native view
+  function nativeProps(element: unknown) {
+    const renderer = renderView(() => element, {});
+    return renderer.root.findByType('ExpoTvosSearchView' as any).props;
+  }
+
+  it('passes the theme to the native view as flat props', () => {
+    const React = require('react');
+    const { TvosSearchView, searchThemePresets: presets } = require('../index');
+
+    const props = nativeProps(React.createElement(TvosSearchView, { theme: presets.darkCinema }));
+
+    expect(props).toEqual(
+      expect.objectContaining({ colorScheme: 'dark', textColor: '#F5F5F5', accentColor: '#E50914', columns: 5 })
+    );
+    expect(props).not.toHaveProperty('theme');
+  });
+
+  it('lets flat props win over the theme', () => {
+    const React = require('react');
+    const { TvosSearchView, searchThemePresets: presets } = require('../index');
+
+    const props = nativeProps(
+      React.createElement(TvosSearchView, { theme: presets.darkCinema, accentColor: '#1DB954', columns: 3 })
+    );
+
+    expect(props.accentColor).toBe('#1DB954');
+    expect(props.columns).toBe(3);
+    expect(props.textColor).toBe('#F5F5F5');
+  });
+
+  it('inherits the ThemeProvider theme, replaced by a theme prop', () => {
+    const React = require('react');
+    const { TvosSearchView, ThemeProvider, searchThemePresets: presets } = require('../index');
+
+    const inherited = nativeProps(
+      React.createElement(ThemeProvider, { theme: presets.light }, React.createElement(TvosSearchView, {}))
+    );
+    expect(inherited.colorScheme).toBe('light');
+    expect(inherited.showTitle).toBe(true);
+
+    const replaced = nativeProps(
+      React.createElement(
+        ThemeProvider,
+        { theme: presets.light },
+        React.createElement(TvosSearchView, { theme: presets.highContrast })
+      )
+    );
+    expect(replaced.colorScheme).toBe('dark');
+    expect(replaced.showFocusBorder).toBe(true);
+  });
+
+  it('does not add styling props without a theme', () => {
+    const React = require('react');
+    const { TvosSearchView } = require('../index');
+
+    const props = nativeProps(React.createElement(TvosSearchView, { results: [] }));
+
+    expect(props).not.toHaveProperty('accentColor');
+    expect(props).not.toHaveProperty('columns');
+  });
+});
+
+describe('TvosSearchFallbackView theming', () => {
+  beforeEach(() => {
+    jest.resetModules();
+    mockWebPlatform();
+    mockNativeModuleUnavailable();
+  });
+
+  it('applies the ThemeProvider theme', () => {
+    const React = require('react');
+    const { TvosSearchFallbackView, ThemeProvider, createSearchTheme: create } = require('../index');
+    const theme = create({ colors: { text: '#123456', accent: '#654321' }, grid: { columns: 2 } });
+
+    const renderer = renderView(ThemeProvider, {
+      theme,
+      children: React.createElement(TvosSearchFallbackView, { results: [{ id: '1', title: 'One' }] }),
+    });
+
+    expect(renderer.root.findByType('FlatList' as any).props.numColumns).toBe(2);
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.style[1]).toEqual({
+      color: '#123456',
+      borderColor: '#654321',
+    });
+  });
+
+  it('lets a partial theme prop replace the ThemeProvider theme with fallback="auto"', () => {
+    const React = require('react');
+    const { TvosSearchView, ThemeProvider, createSearchTheme: create } = require('../index');
+    const provided = create({ colors: { text: '#123456', accent: '#654321' } });
+    const partial = { colors: { accent: '#ABCDEF' }, card: {}, typography: {}, grid: {}, marquee: {} };
+
+    const renderer = renderView(ThemeProvider, {
+      theme: provided,
+      children: React.createElement(TvosSearchView, { fallback: 'auto', theme: partial, results: [] }),
+    });
+
+    expect(renderer.root.findByProps({ testID: 'tvos-search-input' }).props.style[1]).toEqual({
+      color: '#FFFFFF',
+      borderColor: '#ABCDEF',
+    });
+  });
+});
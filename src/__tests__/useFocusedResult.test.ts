@@ -0,0 +1,112 @@
+/**
+ * Tests for the useFocusedResult hook
+ */
+
+import { act } from 'react-test-renderer';
+import { renderHook } from './setup';
+import { useFocusedResult, type UseFocusedResultOptions } from '../useFocusedResult';
+import type { SearchResult } from '../index';
+
+const results: SearchResult[] = [
+  { id: 'dune', title: 'Dune' },
+  { id: 'arrival', title: 'Arrival' },
+  { id: 'sicario', title: 'Sicario' },
+];
+
+function focusEvent(id: string, index = 0) {
+  return { nativeEvent: { id, index } };
+}
+
+describe('useFocusedResult', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts with no focused result', () => {
+    const { result } = renderHook(useFocusedResult, results);
+    expect(result.current.focusedResult).toBeNull();
+  });
+
+  it('resolves the focused result after the debounce', () => {
+    const { result } = renderHook(useFocusedResult, results);
+
+    act(() => result.current.onFocusItem(focusEvent('arrival', 1)));
+    expect(result.current.focusedResult).toBeNull();
+
+    act(() => jest.advanceTimersByTime(250));
+    expect(result.current.focusedResult).toBe(results[1]);
+  });
+
+  it('skips cards the focus passes over while scrolling', () => {
+    const { result } = renderHook(
+      (items: SearchResult[]) => useFocusedResult(items, { debounceMs: 100 }),
+      results
+    );
+    const seen: Array<SearchResult | null> = [];
+
+    for (const [index, item] of results.entries()) {
+      act(() => {
+        if (index > 0) result.current.onBlurItem(focusEvent(results[index - 1].id, index - 1));
+        result.current.onFocusItem(focusEvent(item.id, index));
+      });
+      act(() => jest.advanceTimersByTime(50));
+      seen.push(result.current.focusedResult);
+    }
+    act(() => jest.advanceTimersByTime(100));
+
+    expect(seen).toEqual([null, null, null]);
+    expect(result.current.focusedResult).toBe(results[2]);
+  });
+
+  it('clears the focused result when focus leaves the grid', () => {
+    const { result } = renderHook(useFocusedResult, results);
+
+    act(() => result.current.onFocusItem(focusEvent('dune')));
+    act(() => jest.advanceTimersByTime(250));
+    act(() => result.current.onBlurItem(focusEvent('dune')));
+    act(() => jest.advanceTimersByTime(250));
+
+    expect(result.current.focusedResult).toBeNull();
+  });
+
+  it('keeps the last focused result when clearOnBlur is false', () => {
+    const { result } = renderHook(
+      (options: UseFocusedResultOptions) => useFocusedResult(results, options),
+      { clearOnBlur: false }
+    );
+
+    act(() => result.current.onFocusItem(focusEvent('dune')));
+    act(() => jest.advanceTimersByTime(250));
+    act(() => result.current.onBlurItem(focusEvent('dune')));
+    act(() => jest.advanceTimersByTime(250));
+
+    expect(result.current.focusedResult).toBe(results[0]);
+  });
+
+  it('tracks the latest results and returns null once the result is gone', () => {
+    const { result, rerender } = renderHook(useFocusedResult, results);
+
+    act(() => result.current.onFocusItem(focusEvent('dune')));
+    act(() => jest.advanceTimersByTime(250));
+
+    const refreshed = [{ id: 'dune', title: 'Dune: Part One' }];
+    rerender(refreshed);
+    expect(result.current.focusedResult).toBe(refreshed[0]);
+
+    rerender([{ id: 'arrival', title: 'Arrival' }]);
+    expect(result.current.focusedResult).toBeNull();
+  });
+
+  it('cancels a pending focus change on unmount', () => {
+    const { result, unmount } = renderHook(useFocusedResult, results);
+
+    act(() => result.current.onFocusItem(focusEvent('dune')));
+    unmount();
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
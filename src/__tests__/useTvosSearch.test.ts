@@ -0,0 +1,596 @@
+/**
+ * Tests for the useTvosSearch hook
+ *
+ * Covers debouncing, loading state, minimum query length, discarding
+ * responses for superseded queries, and cursor pagination.
+ */
+
+import { act } from 'react-test-renderer';
+import { renderHook } from './setup';
+import { useTvosSearch, type SearchPage, type UseTvosSearchOptions } from '../useTvosSearch';
+import type { SearchResult } from '../index';
+import { queryNormalizers } from '../queryTransform';
+import { createSearchCache } from '../searchCache';
+
+function searchEvent(query: string) {
+  return { nativeEvent: { query } };
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('useTvosSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns idle state initially', () => {
+    const fetchResults = jest.fn();
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    expect(result.current.results).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(result.current.query).toBe('');
+    expect(result.current.searchText).toBeUndefined();
+  });
+
+  it('debounces fetchResults until typing stops', async () => {
+    const fetchResults = jest.fn().mockResolvedValue([]);
+    const { result } = renderHook(useTvosSearch, { fetchResults, debounceMs: 200 });
+
+    act(() => result.current.onSearch(searchEvent('s')));
+    act(() => jest.advanceTimersByTime(100));
+    act(() => result.current.onSearch(searchEvent('st')));
+    act(() => jest.advanceTimersByTime(100));
+    act(() => result.current.onSearch(searchEvent('sta')));
+
+    expect(fetchResults).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(200);
+    });
+
+    expect(fetchResults).toHaveBeenCalledTimes(1);
+    expect(fetchResults).toHaveBeenCalledWith('sta', { signal: expect.any(Object) });
+  });
+
+  it('sets isLoading while pending and applies results', async () => {
+    const items: SearchResult[] = [{ id: '1', title: 'Star Wars' }];
+    const pending = deferred<SearchResult[]>();
+    const fetchResults = jest.fn().mockReturnValue(pending.promise);
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.query).toBe('star');
+
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(result.current.isLoading).toBe(true);
+
+    await act(async () => {
+      pending.resolve(items);
+    });
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.results).toEqual(items);
+  });
+
+  it('discards responses for superseded queries', async () => {
+    const first = deferred<SearchResult[]>();
+    const second = deferred<SearchResult[]>();
+    const fetchResults = jest
+      .fn()
+      .mockReturnValueOnce(first.promise)
+      .mockReturnValueOnce(second.promise);
+    const { result } = renderHook(useTvosSearch, { fetchResults, debounceMs: 100 });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+    const firstSignal: AbortSignal = fetchResults.mock.calls[0][1].signal;
+
+    act(() => result.current.onSearch(searchEvent('star trek')));
+    expect(firstSignal.aborted).toBe(true);
+
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+    await act(async () => {
+      second.resolve([{ id: 'trek', title: 'Star Trek' }]);
+    });
+    await act(async () => {
+      first.resolve([{ id: 'wars', title: 'Star Wars' }]);
+    });
+
+    expect(result.current.results).toEqual([{ id: 'trek', title: 'Star Trek' }]);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('clears results for queries shorter than minQueryLength', async () => {
+    const fetchResults = jest.fn().mockResolvedValue([{ id: '1', title: 'Star Wars' }]);
+    const { result } = renderHook(useTvosSearch, { fetchResults, minQueryLength: 2 });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(result.current.results).toHaveLength(1);
+
+    act(() => result.current.onSearch(searchEvent('s ')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(fetchResults).toHaveBeenCalledTimes(1);
+    expect(result.current.results).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('exposes fetch errors and clears isLoading', async () => {
+    const fetchResults = jest.fn().mockRejectedValue(new Error('Network down'));
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(result.current.error).toEqual(new Error('Network down'));
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('fetches the current query again when setQuery is called with it', async () => {
+    const items: SearchResult[] = [{ id: '1', title: 'Star Wars' }];
+    const retry = deferred<SearchResult[]>();
+    const fetchResults = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Network down'))
+      .mockReturnValueOnce(retry.promise);
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(result.current.error).toEqual(new Error('Network down'));
+
+    act(() => result.current.setQuery('star'));
+    expect(result.current.isLoading).toBe(true);
+
+    await act(async () => retry.resolve(items));
+
+    expect(fetchResults).toHaveBeenCalledTimes(2);
+    expect(fetchResults).toHaveBeenLastCalledWith('star', { signal: expect.any(Object) });
+    expect(result.current.results).toEqual(items);
+    expect(result.current.error).toBeNull();
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('leaves fetching a different query to the field echoing it through onSearch', async () => {
+    const fetchResults = jest.fn().mockResolvedValue([]);
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    await act(async () => {
+      result.current.setQuery('dune');
+    });
+
+    expect(fetchResults).toHaveBeenCalledTimes(1);
+    expect(result.current.searchText).toBe('dune');
+  });
+
+  it('wraps non-Error rejections in an Error', async () => {
+    const fetchResults = jest.fn().mockRejectedValue('timeout');
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(result.current.error).toBeInstanceOf(Error);
+    expect(result.current.error?.message).toBe('timeout');
+  });
+
+  it('uses the latest fetchResults without resetting the debounce', async () => {
+    const stale = jest.fn().mockResolvedValue([]);
+    const fresh = jest.fn().mockResolvedValue([]);
+    const { result, rerender } = renderHook(
+      (options: UseTvosSearchOptions) => useTvosSearch(options),
+      { fetchResults: stale }
+    );
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    rerender({ fetchResults: fresh });
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(stale).not.toHaveBeenCalled();
+    expect(fresh).toHaveBeenCalledWith('star', expect.anything());
+  });
+
+  it('aborts pending work on unmount', async () => {
+    const fetchResults = jest.fn().mockReturnValue(deferred<SearchResult[]>().promise);
+    const { result, unmount } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    const signal: AbortSignal = fetchResults.mock.calls[0][1].signal;
+
+    unmount();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('exposes initialQuery and setQuery through searchText', () => {
+    const fetchResults = jest.fn();
+    const { result } = renderHook(useTvosSearch, { fetchResults, initialQuery: 'dune' });
+
+    expect(result.current.searchText).toBe('dune');
+    expect(result.current.query).toBe('dune');
+
+    act(() => result.current.setQuery('arrival'));
+
+    expect(result.current.searchText).toBe('arrival');
+  });
+
+  it('does not echo typed queries into searchText', () => {
+    const fetchResults = jest.fn().mockResolvedValue([]);
+    const { result } = renderHook(useTvosSearch, { fetchResults });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+
+    expect(result.current.query).toBe('star');
+    expect(result.current.searchText).toBeUndefined();
+  });
+
+  it('fetches normalized queries with queryTransform', async () => {
+    const fetchResults = jest.fn().mockResolvedValue([]);
+    const { trim, stripDiacritics, lowercase } = queryNormalizers;
+    const { result } = renderHook(useTvosSearch, {
+      fetchResults,
+      queryTransform: [trim, stripDiacritics, lowercase],
+    });
+
+    act(() => result.current.onSearch(searchEvent(' Amélie ')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(fetchResults).toHaveBeenCalledWith('amelie', expect.anything());
+    expect(result.current.query).toBe(' Amélie ');
+    expect(result.current.searchText).toBeUndefined();
+  });
+
+  it('does not refetch when the normalized query is unchanged', async () => {
+    const fetchResults = jest.fn().mockResolvedValue([{ id: '1', title: 'Star Wars' }]);
+    const { result } = renderHook(useTvosSearch, {
+      fetchResults,
+      queryTransform: queryNormalizers.trim,
+    });
+
+    act(() => result.current.onSearch(searchEvent('star')));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    act(() => result.current.onSearch(searchEvent('star ')));
+
+    expect(fetchResults).toHaveBeenCalledTimes(1);
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.results).toHaveLength(1);
+    expect(result.current.query).toBe('star ');
+  });
+
+  it('passes the scope to fetchResults and refetches the query in a new scope', async () => {
+    const fetchResults = jest
+      .fn()
+      .mockResolvedValue({ results: [{ id: '1', title: 'Star Wars' }], nextCursor: 'p2' });
+    const { result } = renderHook(useTvosSearch, {
+      fetchResults,
+      queryTransform: queryNormalizers.trim,
+    });
+
+    act(() => result.current.onSearch({ nativeEvent: { query: 'star', scopeId: 'movies' } }));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    act(() => result.current.onSearch({ nativeEvent: { query: 'star', scopeId: 'tv' } }));
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    await act(async () => result.current.onEndReached());
+
+    const calls = fetchResults.mock.calls.map(([query, { scopeId, cursor }]) => [query, scopeId, cursor]);
+    expect(calls).toEqual([
+      ['star', 'movies', undefined],
+      ['star', 'tv', undefined],
+      ['star', 'tv', 'p2'],
+    ]);
+  });
+
+  describe('pagination', () => {
+    const page1: SearchPage = {
+      results: [
+        { id: '1', title: 'Star Wars' },
+        { id: '2', title: 'Star Trek' },
+      ],
+      nextCursor: 'page-2',
+    };
+    const page2: SearchPage = {
+      results: [
+        { id: '2', title: 'Star Trek' },
+        { id: '3', title: 'Stargate' },
+      ],
+      nextCursor: null,
+    };
+
+    async function searchFirstPage(fetchResults: jest.Mock) {
+      const rendered = renderHook(useTvosSearch, { fetchResults });
+      act(() => rendered.result.current.onSearch(searchEvent('star')));
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+      return rendered;
+    }
+
+    it('sets hasMore when a page returns a nextCursor', async () => {
+      const { result } = await searchFirstPage(jest.fn().mockResolvedValue(page1));
+
+      expect(result.current.results).toEqual(page1.results);
+      expect(result.current.hasMore).toBe(true);
+      expect(result.current.isLoadingMore).toBe(false);
+    });
+
+    it('treats plain arrays as a single page', async () => {
+      const { result } = await searchFirstPage(jest.fn().mockResolvedValue(page1.results));
+
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('appends the next page on onEndReached, keeping shown items in place', async () => {
+      const pending = deferred<SearchPage>();
+      const fetchResults = jest.fn().mockResolvedValueOnce(page1).mockReturnValueOnce(pending.promise);
+      const { result } = await searchFirstPage(fetchResults);
+      const shown = result.current.results;
+
+      act(() => result.current.onEndReached());
+      expect(result.current.isLoadingMore).toBe(true);
+      expect(fetchResults).toHaveBeenLastCalledWith('star', {
+        signal: expect.any(Object),
+        cursor: 'page-2',
+      });
+
+      await act(async () => {
+        pending.resolve(page2);
+      });
+
+      expect(result.current.results.map((r) => r.id)).toEqual(['1', '2', '3']);
+      expect(result.current.results[0]).toBe(shown[0]);
+      expect(result.current.results[1]).toBe(shown[1]);
+      expect(result.current.hasMore).toBe(false);
+      expect(result.current.isLoadingMore).toBe(false);
+    });
+
+    it('ignores onEndReached while a page is loading or without more pages', async () => {
+      const fetchResults = jest
+        .fn()
+        .mockResolvedValueOnce(page1)
+        .mockReturnValueOnce(deferred<SearchPage>().promise);
+      const { result } = await searchFirstPage(fetchResults);
+
+      act(() => result.current.onEndReached());
+      act(() => result.current.onEndReached());
+      expect(fetchResults).toHaveBeenCalledTimes(2);
+
+      const single = await searchFirstPage(jest.fn().mockResolvedValue(page1.results));
+      act(() => single.result.current.onEndReached());
+      expect(single.result.current.isLoadingMore).toBe(false);
+    });
+
+    it('keeps the cursor after a failed page so it can be retried', async () => {
+      const fetchResults = jest
+        .fn()
+        .mockResolvedValueOnce(page1)
+        .mockRejectedValueOnce(new Error('Network down'))
+        .mockResolvedValueOnce(page2);
+      const { result } = await searchFirstPage(fetchResults);
+
+      await act(async () => {
+        result.current.onEndReached();
+      });
+      expect(result.current.error).toEqual(new Error('Network down'));
+      expect(result.current.hasMore).toBe(true);
+      expect(result.current.results).toHaveLength(2);
+
+      await act(async () => {
+        result.current.onEndReached();
+      });
+      expect(fetchResults).toHaveBeenLastCalledWith('star', expect.objectContaining({ cursor: 'page-2' }));
+      expect(result.current.results).toHaveLength(3);
+      expect(result.current.error).toBeNull();
+    });
+
+    it('aborts a pending page when the query changes', async () => {
+      const pending = deferred<SearchPage>();
+      const fetchResults = jest
+        .fn()
+        .mockResolvedValueOnce(page1)
+        .mockReturnValueOnce(pending.promise)
+        .mockResolvedValueOnce([{ id: 'x', title: 'Stargate' }]);
+      const { result } = await searchFirstPage(fetchResults);
+
+      act(() => result.current.onEndReached());
+      const pageSignal: AbortSignal = fetchResults.mock.calls[1][1].signal;
+
+      act(() => result.current.onSearch(searchEvent('starg')));
+      expect(pageSignal.aborted).toBe(true);
+      expect(result.current.hasMore).toBe(false);
+      expect(result.current.isLoadingMore).toBe(false);
+
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+      await act(async () => {
+        pending.resolve(page2);
+      });
+
+      expect(result.current.results).toEqual([{ id: 'x', title: 'Stargate' }]);
+    });
+
+    it('stops paginating at the 500-result cap', async () => {
+      const results = Array.from({ length: 500 }, (_, i) => ({ id: `${i}`, title: `Item ${i}` }));
+      const { result } = await searchFirstPage(
+        jest.fn().mockResolvedValue({ results, nextCursor: 'more' })
+      );
+
+      expect(result.current.hasMore).toBe(false);
+    });
+  });
+
+  describe('cache', () => {
+    const starResults = [
+      { id: '1', title: 'Star Wars' },
+      { id: '2', title: 'Star Trek' },
+    ];
+
+    async function search(result: { current: ReturnType<typeof useTvosSearch> }, query: string) {
+      act(() => result.current.onSearch(searchEvent(query)));
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+    }
+
+    it('keeps cached results for each scope apart', async () => {
+      const cache = createSearchCache();
+      cache.set('star', starResults, null, 'movies');
+      const fetchResults = jest.fn().mockResolvedValue([]);
+      const { result } = renderHook(useTvosSearch, { fetchResults, cache });
+
+      act(() => result.current.onSearch({ nativeEvent: { query: 'star', scopeId: 'movies' } }));
+      expect(result.current.results).toEqual(starResults);
+
+      act(() => result.current.onSearch({ nativeEvent: { query: 'star', scopeId: 'tv' } }));
+      expect(result.current.isLoading).toBe(true);
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      expect(fetchResults).toHaveBeenCalledTimes(1);
+      expect(result.current.results).toEqual([]);
+      expect(cache.get('star', 'tv')!.results).toEqual([]);
+    });
+
+    it('stores fetched results and serves fresh ones without fetching', async () => {
+      const cache = createSearchCache();
+      const fetchResults = jest.fn().mockResolvedValue(starResults);
+      const { result } = renderHook(useTvosSearch, { fetchResults, cache });
+
+      await search(result, 'star');
+      await search(result, 'sta');
+      fetchResults.mockClear();
+
+      act(() => result.current.onSearch(searchEvent('star')));
+
+      expect(result.current.results).toEqual(starResults);
+      expect(result.current.isLoading).toBe(false);
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+      expect(fetchResults).not.toHaveBeenCalled();
+    });
+
+    it('shows stale results instantly and revalidates them in the background', async () => {
+      const cache = createSearchCache<SearchResult>({ ttlMs: 0 });
+      cache.set('star', starResults);
+      const fresh = [{ id: '3', title: 'Stargate' }];
+      const fetchResults = jest.fn().mockResolvedValue(fresh);
+      const { result } = renderHook(useTvosSearch, { fetchResults, cache });
+
+      act(() => result.current.onSearch(searchEvent('star')));
+      expect(result.current.results).toEqual(starResults);
+      expect(result.current.isLoading).toBe(false);
+
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+      expect(fetchResults).toHaveBeenCalledWith('star', expect.anything());
+      expect(result.current.results).toEqual(fresh);
+      expect(cache.get('star')!.results).toEqual(fresh);
+    });
+
+    it('filters a broader cached query while fetching the narrower one', async () => {
+      const cache = createSearchCache<SearchResult>();
+      cache.set('star', starResults);
+      const pending = deferred<SearchResult[]>();
+      const fetchResults = jest.fn().mockReturnValue(pending.promise);
+      const { result } = renderHook(useTvosSearch, { fetchResults, cache });
+
+      await search(result, 'star t');
+      expect(result.current.results).toEqual([starResults[1]]);
+      expect(result.current.isLoading).toBe(true);
+      expect(fetchResults).toHaveBeenCalledWith('star t', expect.anything());
+
+      await act(async () => {
+        pending.resolve([starResults[1], { id: '4', title: 'Star Trek: Picard' }]);
+      });
+      expect(result.current.results).toHaveLength(2);
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it('keeps loading when the broader cached query filters down to nothing', async () => {
+      const cache = createSearchCache<SearchResult>();
+      cache.set('star', starResults);
+      const pending = deferred<SearchResult[]>();
+      const fetchResults = jest.fn().mockReturnValue(pending.promise);
+      const { result } = renderHook(useTvosSearch, { fetchResults, cache });
+
+      act(() => result.current.onSearch(searchEvent('start')));
+      expect(result.current).toEqual(expect.objectContaining({ results: [], isLoading: true }));
+
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+        pending.resolve([{ id: '5', title: 'Start Up' }]);
+      });
+      expect(result.current).toEqual(
+        expect.objectContaining({ results: [{ id: '5', title: 'Start Up' }], isLoading: false })
+      );
+    });
+
+    it('restores cached pages and their cursor', async () => {
+      const cache = createSearchCache<SearchResult>();
+      cache.set('star', starResults, 'page-2');
+      const fetchResults = jest.fn().mockResolvedValue({ results: [], nextCursor: null });
+      const { result } = renderHook(useTvosSearch, { fetchResults, cache });
+
+      act(() => result.current.onSearch(searchEvent('star')));
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        result.current.onEndReached();
+      });
+      expect(fetchResults).toHaveBeenCalledWith('star', { signal: expect.any(Object), cursor: 'page-2' });
+      expect(cache.get('star')!.nextCursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * Tests for JS-side prop validation
+ *
+ * Expected messages and ranges match ExpoTvosSearchModule.swift and
+ * ExpoTvosSearchView.updateResults so warnings look the same on and off device.
+ */
+
+import { LAYOUT_PRESETS } from '../layout';
+import { validateSearchViewProps } from '../validation';
+import { mockWebPlatform, mockNativeModuleUnavailable, renderView } from './setup';
+
+function types(warnings: ReturnType<typeof validateSearchViewProps>): string[] {
+  return warnings.map((w) => w.nativeEvent.type);
+}
+
+describe('validateSearchViewProps', () => {
+  it('returns no warnings for valid props', () => {
+    expect(
+      validateSearchViewProps({
+        results: [
+          { id: '1', title: 'Earth', imageUrl: 'https://example.com/earth.jpg' },
+          { id: '2', title: 'Mars', imageUrl: 'file:///posters/mars.jpg' },
+          { id: '3', title: 'Venus', imageUrl: 'data:image/png;base64,AAAA' },
+        ],
+        columns: 5,
+        topInset: 140,
+        marqueeDelay: 1.5,
+        cardWidth: 280,
+        cardHeight: 420,
+        cardMargin: 40,
+        cardPadding: 16,
+        overlayTitleSize: 20,
+        placeholder: 'Search...',
+      })
+    ).toEqual([]);
+  });
+
+  it('returns no warnings for empty props', () => {
+    expect(validateSearchViewProps({})).toEqual([]);
+  });
+
+  describe('numeric clamping', () => {
+    it.each([
+      ['columns', 0, 1, 10, 1],
+      ['columns', 12, 1, 10, 10],
+      ['topInset', -10, 0, 500, 0],
+      ['topInset', 600, 0, 500, 500],
+      ['marqueeDelay', 90, 0, 60, 60],
+      ['cardWidth', 20, 50, 1000, 50],
+      ['cardHeight', 1200, 50, 1000, 1000],
+      ['cardMargin', 250, 0, 200, 200],
+      ['cardPadding', -1, 0, 100, 0],
+      ['overlayTitleSize', 100, 8, 72, 72],
+      ['onEndReachedThreshold', 15, 0, 10, 10],
+    ])('clamps %s=%p to [%p, %p]', (name, value, min, max, clamped) => {
+      // Clamped columns and margins can also overflow the screen; see 'grid fit'
+      expect(validateSearchViewProps({ [name]: value })[0]).toEqual({
+        nativeEvent: {
+          type: 'value_clamped',
+          message: `${name} value ${value} was clamped to range [${min}, ${max}]`,
+          context: `${name}=${clamped}`,
+        },
+      });
+    });
+
+    it('accepts boundary values', () => {
+      expect(validateSearchViewProps({ columns: 1, cardWidth: 1000, marqueeDelay: 0 })).toEqual([]);
+    });
+  });
+
+  describe('grid fit', () => {
+    it('accepts the default grid and every layout preset', () => {
+      expect(validateSearchViewProps({})).toEqual([]);
+      for (const preset of Object.values(LAYOUT_PRESETS)) {
+        expect(validateSearchViewProps(preset)).toEqual([]);
+      }
+    });
+
+    it('warns when columns x cardWidth overflow the screen', () => {
+      expect(validateSearchViewProps({ columns: 6, cardWidth: 300 })).toEqual([
+        {
+          nativeEvent: {
+            type: 'layout_overflow',
+            message: '6 columns of 300pt cards need 2120pt, which overflows the 1920pt screen',
+            context: 'columns=6, cardWidth=300, cardMargin=40',
+          },
+        },
+      ]);
+    });
+
+    it('includes margins and uses clamped values', () => {
+      expect(types(validateSearchViewProps({ columns: 5, cardWidth: 300, cardMargin: 80 }))).toEqual([
+        'layout_overflow',
+      ]);
+      expect(validateSearchViewProps({ columns: 12, cardWidth: 200 })).toEqual([
+        expect.objectContaining({ nativeEvent: expect.objectContaining({ type: 'value_clamped' }) }),
+        expect.objectContaining({
+          nativeEvent: expect.objectContaining({
+            type: 'layout_overflow',
+            context: 'columns=10, cardWidth=200, cardMargin=40',
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe('string truncation', () => {
+    it('warns when string props exceed 500 characters', () => {
+      const long = 'a'.repeat(501);
+      expect(validateSearchViewProps({ placeholder: long, noResultsText: long })).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_truncated',
+            message: 'placeholder truncated to 500 characters',
+            context: 'original length: 501',
+          },
+        },
+        {
+          nativeEvent: {
+            type: 'value_truncated',
+            message: 'noResultsText truncated to 500 characters',
+            context: 'original length: 501',
+          },
+        },
+      ]);
+    });
+
+    it('accepts strings of exactly 500 characters', () => {
+      expect(validateSearchViewProps({ searchText: 'a'.repeat(500) })).toEqual([]);
+    });
+  });
+
+  describe('results', () => {
+    it('warns when results exceed the 500-item cap', () => {
+      const results = Array.from({ length: 501 }, (_, i) => ({ id: `${i}`, title: `Item ${i}` }));
+      expect(validateSearchViewProps({ results })).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: 'Results array truncated from 501 to 500 items',
+            context: 'maxResults=500',
+          },
+        },
+      ]);
+    });
+
+    it('warns about results with empty id or title', () => {
+      const warnings = validateSearchViewProps({
+        results: [
+          { id: '', title: 'No id' },
+          { id: 'no-title', title: '' },
+          { id: 'ok', title: 'Ok' },
+        ],
+      });
+      expect(warnings).toEqual([
+        {
+          nativeEvent: {
+            type: 'validation_failed',
+            message: 'Skipped 2 result(s) due to missing required fields',
+            context: 'validResults=1, skipped=2',
+          },
+        },
+      ]);
+    });
+
+    it('warns about duplicate ids', () => {
+      const warnings = validateSearchViewProps({
+        results: [
+          { id: 'a', title: 'A' },
+          { id: 'b', title: 'B' },
+          { id: 'a', title: 'A again' },
+          { id: 'a', title: 'A third' },
+        ],
+      });
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].nativeEvent).toEqual({
+        type: 'validation_failed',
+        message: '1 result id(s) appear more than once; ids must be unique',
+        context: 'duplicateIds=a',
+      });
+    });
+
+    it('warns about invalid image URL schemes', () => {
+      const warnings = validateSearchViewProps({
+        results: [
+          { id: '1', title: 'A', imageUrl: 'ftp://example.com/a.jpg' },
+          { id: '2', title: 'B', imageUrl: 'not a url' },
+        ],
+      });
+      expect(warnings).toEqual([
+        {
+          nativeEvent: {
+            type: 'url_invalid',
+            message: '2 image URL(s) failed validation',
+            context: 'Non-HTTP/HTTPS or malformed URLs',
+          },
+        },
+      ]);
+    });
+
+    it('rejects oversized data URIs', () => {
+      const imageUrl = 'data:image/png;base64,' + 'A'.repeat(1_000_000);
+      expect(types(validateSearchViewProps({ results: [{ id: '1', title: 'A', imageUrl }] }))).toEqual([
+        'url_invalid',
+      ]);
+    });
+
+    it('warns about insecure HTTP URLs', () => {
+      const warnings = validateSearchViewProps({
+        results: [{ id: '1', title: 'A', imageUrl: 'HTTP://example.com/a.jpg' }],
+      });
+      expect(warnings).toEqual([
+        {
+          nativeEvent: {
+            type: 'url_insecure',
+            message: '1 image URL(s) use insecure HTTP. HTTPS is recommended.',
+            context: 'Consider using HTTPS URLs',
+          },
+        },
+      ]);
+    });
+
+    it('checks fallbackImageUrl like imageUrl', () => {
+      const warnings = validateSearchViewProps({
+        results: [
+          { id: '1', title: 'A', imageUrl: 'https://example.com/a.jpg', fallbackImageUrl: 'http://example.com/b.jpg' },
+          { id: '2', title: 'B', fallbackImageUrl: 'ftp://example.com/b.jpg' },
+        ],
+      });
+      expect(types(warnings)).toEqual(['url_invalid', 'url_insecure']);
+    });
+
+    it('warns about malformed placeholder hashes', () => {
+      const warnings = validateSearchViewProps({
+        results: [
+          { id: '1', title: 'A', blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', thumbhash: '1QcSHQRnh493V4dIh4eXh1h4kJUI' },
+          { id: '2', title: 'B', blurhash: 'LEHV6nWB2yk8' },
+          { id: '3', title: 'C', thumbhash: '1QcSHQRnh49' },
+        ],
+      });
+      expect(warnings).toEqual([
+        {
+          nativeEvent: {
+            type: 'placeholder_invalid',
+            message: 'Ignored 2 malformed blurhash/thumbhash value(s)',
+            context: 'Check the placeholder hash encoding',
+          },
+        },
+      ]);
+    });
+
+    it('warns about fields exceeding 500 characters', () => {
+      const warnings = validateSearchViewProps({
+        results: [{ id: '1', title: 'A', subtitle: 's'.repeat(501) }],
+      });
+      expect(types(warnings)).toEqual(['field_truncated']);
+      expect(warnings[0].nativeEvent.message).toBe(
+        'Truncated 1 result(s) with fields exceeding 500 characters'
+      );
+    });
+
+    it.each([
+      ['progress', 1.5, 0, 1, 1],
+      ['progress', -0.2, 0, 1, 0],
+      ['aspectRatio', 10, 0.25, 4, 4],
+    ])('clamps result %s=%p to [%p, %p]', (name, value, min, max, clamped) => {
+      expect(validateSearchViewProps({ results: [{ id: 'ep', title: 'Episode', [name]: value }] })).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: `result 'ep' ${name} value ${value} was clamped to range [${min}, ${max}]`,
+            context: `${name}=${clamped}`,
+          },
+        },
+      ]);
+    });
+
+    it('accepts rich metadata within range', () => {
+      expect(
+        validateSearchViewProps({
+          results: [
+            { id: 'ep', title: 'Episode', badges: ['NEW'], progress: 0.4, metadata: ['2024'], aspectRatio: 16 / 9 },
+          ],
+        })
+      ).toEqual([]);
+    });
+
+    it('ignores empty image URLs', () => {
+      expect(validateSearchViewProps({ results: [{ id: '1', title: 'A', imageUrl: '' }] })).toEqual([]);
+    });
+  });
+
+  describe('actions', () => {
+    const watchlist = { id: 'watchlist', title: 'Add to Watchlist', systemImage: 'plus' };
+
+    it('accepts unique actions', () => {
+      expect(
+        validateSearchViewProps({
+          results: [{ id: '1', title: 'A', actions: [watchlist, { id: 'remove', title: 'Remove', destructive: true }] }],
+          defaultActions: [watchlist],
+        })
+      ).toEqual([]);
+    });
+
+    it('flags result actions with duplicate ids or missing fields', () => {
+      const warnings = validateSearchViewProps({
+        results: [
+          { id: '1', title: 'A', actions: [watchlist, { ...watchlist, title: 'Again' }] },
+          { id: '2', title: 'B', actions: [{ id: '', title: 'No id' }, watchlist] },
+        ],
+      });
+      expect(warnings).toEqual([
+        {
+          nativeEvent: {
+            type: 'validation_failed',
+            message: 'Skipped 2 result action(s) with a missing id or title, or a duplicate id',
+            context: 'Action ids must be unique within each list',
+          },
+        },
+      ]);
+    });
+
+    it('flags invalid defaultActions', () => {
+      expect(
+        validateSearchViewProps({ defaultActions: [watchlist, watchlist, { id: 'x', title: '' }] })
+      ).toEqual([
+        {
+          nativeEvent: {
+            type: 'validation_failed',
+            message: 'Skipped 2 defaultActions item(s) with a missing id or title, or a duplicate id',
+            context: 'Action ids must be unique within each list',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('recentSearches', () => {
+    it('warns when more than 20 recent searches are given', () => {
+      const recentSearches = Array.from({ length: 21 }, (_, i) => `query ${i}`);
+      expect(validateSearchViewProps({ recentSearches })).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: 'recentSearches truncated from 21 to 20 items',
+            context: 'maxRecentSearches=20',
+          },
+        },
+      ]);
+    });
+
+    it('warns about recent searches longer than 500 characters', () => {
+      expect(types(validateSearchViewProps({ recentSearches: ['a'.repeat(501)] }))).toEqual([
+        'value_truncated',
+      ]);
+    });
+  });
+
+  describe('suggestions', () => {
+    it('warns when more than 20 suggestions are given', () => {
+      const suggestions = Array.from({ length: 21 }, (_, i) => ({ id: `${i}`, text: `query ${i}` }));
+      expect(validateSearchViewProps({ suggestions })).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: 'suggestions truncated from 21 to 20 items',
+            context: 'maxSuggestions=20',
+          },
+        },
+      ]);
+    });
+
+    it('flags suggestions without an id or text and duplicate ids', () => {
+      const warnings = validateSearchViewProps({
+        suggestions: [
+          { id: 'a', text: 'A' },
+          { id: 'a', text: 'A again' },
+          { id: '', text: 'No id' },
+          { id: 'b', text: '' },
+        ],
+      });
+      expect(warnings.map((w) => w.nativeEvent)).toEqual([
+        {
+          type: 'validation_failed',
+          message: 'Skipped 2 suggestion(s) due to missing id or text',
+          context: 'validSuggestions=2, skipped=2',
+        },
+        {
+          type: 'validation_failed',
+          message: '1 suggestion id(s) appear more than once; ids must be unique',
+          context: 'duplicateSuggestionIds=a',
+        },
+      ]);
+    });
+  });
+
+  describe('scopes', () => {
+    it('warns when more than 10 scopes are given', () => {
+      const scopes = Array.from({ length: 11 }, (_, i) => ({ id: `${i}`, title: `Scope ${i}` }));
+      expect(validateSearchViewProps({ scopes })).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: 'scopes truncated from 11 to 10 items',
+            context: 'maxScopes=10',
+          },
+        },
+      ]);
+    });
+
+    it('flags scopes without an id or title, duplicate ids and an unknown selectedScope', () => {
+      const warnings = validateSearchViewProps({
+        scopes: [
+          { id: 'movies', title: 'Movies' },
+          { id: 'movies', title: 'Films' },
+          { id: '', title: 'No id' },
+          { id: 'tv', title: '' },
+        ],
+        selectedScope: 'tv',
+      });
+      expect(warnings.map((w) => w.nativeEvent)).toEqual([
+        {
+          type: 'validation_failed',
+          message: 'Skipped 2 scope(s) due to missing id or title',
+          context: 'validScopes=2, skipped=2',
+        },
+        {
+          type: 'validation_failed',
+          message: '1 scope id(s) appear more than once; ids must be unique',
+          context: 'duplicateScopeIds=movies',
+        },
+        {
+          type: 'validation_failed',
+          message: "selectedScope 'tv' is not one of scopes; the first scope is selected",
+          context: 'scopeIds=movies',
+        },
+      ]);
+    });
+
+    it('accepts a selectedScope from scopes', () => {
+      const scopes = [
+        { id: 'movies', title: 'Movies' },
+        { id: 'tv', title: 'TV' },
+      ];
+      expect(validateSearchViewProps({ scopes, selectedScope: 'tv' })).toEqual([]);
+    });
+  });
+
+  describe('sections', () => {
+    const items = (prefix: string, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ id: `${prefix}${i}`, title: `Item ${i}` }));
+
+    it('returns no warnings for valid sections', () => {
+      expect(
+        validateSearchViewProps({
+          sections: [
+            { id: 'movies', title: 'Movies', results: items('m', 3) },
+            { id: 'live', title: 'Live', results: items('l', 2), layout: { columns: 3, cardWidth: 420, cardHeight: 240 } },
+          ],
+        })
+      ).toEqual([]);
+    });
+
+    it('applies the result cap across all sections', () => {
+      const warnings = validateSearchViewProps({
+        sections: [
+          { id: 'movies', title: 'Movies', results: items('m', 300) },
+          { id: 'shows', title: 'Shows', results: items('s', 300) },
+        ],
+      });
+      expect(warnings).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: 'Results array truncated from 600 to 500 items',
+            context: 'maxResults=500',
+          },
+        },
+      ]);
+    });
+
+    it('allows the same result id in different sections', () => {
+      const shared = { id: 'dune', title: 'Dune' };
+      expect(
+        validateSearchViewProps({
+          sections: [
+            { id: 'movies', title: 'Movies', results: [shared] },
+            { id: 'trending', title: 'Trending', results: [shared] },
+          ],
+        })
+      ).toEqual([]);
+    });
+
+    it('flags duplicate ids within a section', () => {
+      const warnings = validateSearchViewProps({
+        sections: [{ id: 'movies', title: 'Movies', results: [...items('m', 2), { id: 'm0', title: 'Again' }] }],
+      });
+      expect(warnings.map((w) => w.nativeEvent.context)).toEqual(['duplicateIds=m0']);
+    });
+
+    it('flags missing and duplicate section ids', () => {
+      const warnings = validateSearchViewProps({
+        sections: [
+          { id: 'movies', title: 'Movies', results: [] },
+          { id: 'movies', title: 'More movies', results: [] },
+          { id: '', title: 'No id', results: [] },
+        ],
+      });
+      expect(warnings.map((w) => w.nativeEvent.message)).toEqual([
+        'Skipped 1 section(s) due to missing id',
+        '1 section id(s) appear more than once; ids must be unique',
+      ]);
+    });
+
+    it('clamps per-section layout values', () => {
+      expect(
+        validateSearchViewProps({
+          sections: [{ id: 'live', title: 'Live', results: [], layout: { columns: 12, cardWidth: 20 } }],
+        })
+      ).toEqual([
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: "section 'live' columns value 12 was clamped to range [1, 10]",
+            context: 'columns=10',
+          },
+        },
+        {
+          nativeEvent: {
+            type: 'value_clamped',
+            message: "section 'live' cardWidth value 20 was clamped to range [50, 1000]",
+            context: 'cardWidth=50',
+          },
+        },
+      ]);
+    });
+  });
+});
+
+describe('TvosSearchView development validation', () => {
+  let consoleWarnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.resetModules();
+    mockWebPlatform();
+    mockNativeModuleUnavailable();
+    consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'info').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (global as any).__DEV__;
+  });
+
+  const props = {
+    results: [],
+    columns: 12,
+    onSearch: jest.fn(),
+    onSelectItem: jest.fn(),
+  };
+
+  function validationLogs(): unknown[][] {
+    return consoleWarnSpy.mock.calls.filter(([msg]) => String(msg).includes('Validation warning'));
+  }
+
+  it('logs validation warnings once per view in development', () => {
+    (global as any).__DEV__ = true;
+    const { TvosSearchView } = require('../index');
+    const React = require('react');
+    const { act } = require('react-test-renderer');
+
+    const renderer = renderView(TvosSearchView, props);
+    act(() => renderer.update(React.createElement(TvosSearchView, { ...props, results: [] })));
+
+    expect(validationLogs()).toEqual([
+      [
+        '[expo-tvos-search] Validation warning [value_clamped]: ' +
+          'columns value 12 was clamped to range [1, 10] (columns=10)',
+      ],
+      [
+        '[expo-tvos-search] Validation warning [layout_overflow]: ' +
+          '10 columns of 280pt cards need 3280pt, which overflows the 1920pt screen ' +
+          '(columns=10, cardWidth=280, cardMargin=40)',
+      ],
+    ]);
+  });
+
+  it('logs the warnings again for a remounted view', () => {
+    (global as any).__DEV__ = true;
+    const { TvosSearchView } = require('../index');
+    const { act } = require('react-test-renderer');
+
+    const first = renderView(TvosSearchView, props);
+    act(() => first.unmount());
+    renderView(TvosSearchView, props);
+
+    expect(validationLogs()).toHaveLength(4);
+  });
+
+  it('validates again when a validated prop changes', () => {
+    (global as any).__DEV__ = true;
+    const { TvosSearchView } = require('../index');
+    const React = require('react');
+    const { act } = require('react-test-renderer');
+
+    const renderer = renderView(TvosSearchView, props);
+    act(() => renderer.update(React.createElement(TvosSearchView, { ...props, columns: 14 })));
+
+    expect(validationLogs()[2]).toEqual([
+      '[expo-tvos-search] Validation warning [value_clamped]: ' +
+        'columns value 14 was clamped to range [1, 10] (columns=10)',
+    ]);
+  });
+
+  it('does not validate when __DEV__ is false', () => {
+    (global as any).__DEV__ = false;
+    const { TvosSearchView } = require('../index');
+
+    renderView(TvosSearchView, props);
+
+    expect(consoleWarnSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,26 @@
+import type { SearchResult } from "./index";
+
+/**
+ * Builds a VoiceOver label from a result's title, subtitle and badges,
+ * e.g. "Interstellar, 2014, NEW, 4K".
+ *
+ * This is the label the native card and `TvosSearchFallbackView` use when a
+ * result has no `accessibilityLabel`, matching
+ * `SearchResultItem.defaultAccessibilityLabel`. Use it as a starting point for
+ * custom labels.
+ *
+ * @example
+ * ```ts
+ * const results = movies.map((movie) => ({
+ *   ...movie,
+ *   accessibilityLabel: `${buildAccessibilityLabel(movie)}, rated ${movie.rating}`,
+ * }));
+ * ```
+ */
+export function buildAccessibilityLabel(
+  result: Pick<SearchResult, "title" | "subtitle" | "badges">
+): string {
+  return [result.title, result.subtitle ?? "", ...(result.badges ?? [])]
+    .filter((part) => part.length > 0)
+    .join(", ");
+}
@@ -0,0 +1,265 @@
+import React, { forwardRef, useEffect, useRef } from "react";
+import type {
+  SearchEvent,
+  SearchResult,
+  SearchViewErrorCategory,
+  SearchViewErrorEvent,
+  SelectItemEvent,
+  TvosSearchViewHandle,
+  TvosSearchViewProps,
+} from "./index";
+import { findResult, flattenResults } from "./sections";
+
+/**
+ * Funnel events emitted by the `analytics` prop. Every event carries the
+ * `query` it belongs to and a `timestamp` in milliseconds since the epoch.
+ */
+export type SearchAnalyticsEvent =
+  | {
+      /** Fired for each non-empty query from `onSearch` */
+      type: "search_performed";
+      query: string;
+      timestamp: number;
+    }
+  | {
+      /** Fired once per query when its first non-empty results are shown */
+      type: "results_shown";
+      query: string;
+      resultCount: number;
+      /** Time from `search_performed` to the results being shown */
+      timeToFirstResultMs: number;
+      timestamp: number;
+    }
+  | {
+      /** Fired once per query when loading finishes with no results */
+      type: "zero_results";
+      query: string;
+      timestamp: number;
+    }
+  | {
+      /** Fired when a result is selected */
+      type: "result_selected";
+      query: string;
+      id: string;
+      /** Index within `results`, or within the section for `sections` */
+      position: number;
+      sectionId?: string;
+      timestamp: number;
+    }
+  | {
+      /** Fired for each `onError` event */
+      type: "search_error";
+      query: string;
+      category: SearchViewErrorCategory;
+      message: string;
+      timestamp: number;
+    }
+  | {
+      /** Fired on unmount when the last non-empty query ended without a selection */
+      type: "session_abandoned";
+      query: string;
+      /** Queries performed during the session */
+      searchCount: number;
+      /** Time from the session's first query to unmount */
+      durationMs: number;
+      timestamp: number;
+    };
+
+/**
+ * Receives analytics events, e.g. to forward them to Segment, Amplitude or a
+ * custom endpoint. Errors thrown by a sink are logged in development and
+ * never reach the search view.
+ */
+export type SearchAnalyticsSink = (event: SearchAnalyticsEvent) => void;
+
+/** Distributes `Omit` over the event union, so each variant keeps its own fields. */
+type EventWithoutTimestamp<E> = E extends SearchAnalyticsEvent ? Omit<E, "timestamp"> : never;
+
+/** Tracking state for the queries of one mounted search view. */
+interface AnalyticsSession {
+  /** Current query; empty before the first search or after clearing */
+  query: string;
+  searchStartedAt: number;
+  /** Whether `results_shown` or `zero_results` was emitted for `query` */
+  outcomeReported: boolean;
+  /** Results when the query was performed, to tell new results from stale ones */
+  resultsAtSearch: unknown;
+  /** Whether `isLoading` turned on after the query was performed */
+  sawLoading: boolean;
+  /** Last non-empty query, kept when the field is cleared */
+  lastQuery: string;
+  /** Whether a result was selected since the last query */
+  selected: boolean;
+  searchCount: number;
+  sessionStartedAt: number | null;
+}
+
+/**
+ * Instruments `onSearch`, `onSelectItem`, `onError` and the `results` prop
+ * with the `analytics` sink. The consumer's own callbacks are still called
+ * first, with the same events. Without a sink, props are returned unchanged
+ * apart from removing `analytics`.
+ */
+export function useSearchAnalytics<T extends SearchResult>(
+  props: TvosSearchViewProps<T>
+): Omit<TvosSearchViewProps<T>, "analytics"> {
+  const { analytics, ...rest } = props;
+
+  // Latest sink and props, so wrapped callbacks stay stable across renders
+  const sinkRef = useRef(analytics);
+  sinkRef.current = analytics;
+  const propsRef = useRef(rest);
+  propsRef.current = rest;
+
+  const sessionRef = useRef<AnalyticsSession>({
+    query: "",
+    searchStartedAt: 0,
+    outcomeReported: true,
+    resultsAtSearch: undefined,
+    sawLoading: false,
+    lastQuery: "",
+    selected: false,
+    searchCount: 0,
+    sessionStartedAt: null,
+  });
+
+  const emit = (event: EventWithoutTimestamp<SearchAnalyticsEvent>) => {
+    const sink = sinkRef.current;
+    if (!sink) return;
+    try {
+      sink({ ...event, timestamp: Date.now() } as SearchAnalyticsEvent);
+    } catch (error) {
+      if (typeof __DEV__ !== "undefined" && __DEV__) {
+        console.warn("[expo-tvos-search] Analytics sink failed:", error);
+      }
+    }
+  };
+  const emitRef = useRef(emit);
+  emitRef.current = emit;
+
+  const { results, sections, isLoading } = rest;
+
+  // Report the outcome of the current query once loading finishes with new results
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session.query || session.outcomeReported) return;
+    if (isLoading) {
+      session.sawLoading = true;
+      return;
+    }
+    const current = sections ?? results;
+    if (current === session.resultsAtSearch && !session.sawLoading) return;
+
+    session.outcomeReported = true;
+    const resultCount = flattenResults({ results, sections }).length;
+    if (resultCount > 0) {
+      emitRef.current({
+        type: "results_shown",
+        query: session.query,
+        resultCount,
+        timeToFirstResultMs: Date.now() - session.searchStartedAt,
+      });
+    } else {
+      emitRef.current({ type: "zero_results", query: session.query });
+    }
+  }, [results, sections, isLoading]);
+
+  // Report abandonment when the view goes away after a query without a selection
+  useEffect(
+    () => () => {
+      const session = sessionRef.current;
+      if (!session.lastQuery || session.selected || session.sessionStartedAt === null) return;
+      emitRef.current({
+        type: "session_abandoned",
+        query: session.lastQuery,
+        searchCount: session.searchCount,
+        durationMs: Date.now() - session.sessionStartedAt,
+      });
+    },
+    []
+  );
+
+  const handlersRef = useRef<{
+    onSearch: (event: SearchEvent) => void;
+    onSelectItem: (event: SelectItemEvent) => void;
+    onError: (event: SearchViewErrorEvent) => void;
+  } | null>(null);
+
+  if (!handlersRef.current) {
+    handlersRef.current = {
+      onSearch: (event) => {
+        propsRef.current.onSearch?.(event);
+        const query = event.nativeEvent.query.trim();
+        const session = sessionRef.current;
+        session.query = query;
+        session.outcomeReported = query === "";
+        if (!query) return;
+
+        const { results: current, sections: currentSections } = propsRef.current;
+        session.searchStartedAt = Date.now();
+        session.resultsAtSearch = currentSections ?? current;
+        session.sawLoading = false;
+        session.lastQuery = query;
+        session.selected = false;
+        session.searchCount += 1;
+        session.sessionStartedAt ??= session.searchStartedAt;
+        emitRef.current({ type: "search_performed", query });
+      },
+      onSelectItem: (event) => {
+        propsRef.current.onSelectItem?.(event);
+        const { id, sectionId } = event.nativeEvent;
+        const session = sessionRef.current;
+        session.selected = true;
+        const found = findResult(propsRef.current, id, sectionId);
+        emitRef.current({
+          type: "result_selected",
+          query: session.query,
+          id,
+          position: found ? found.index : -1,
+          ...(sectionId === undefined ? {} : { sectionId }),
+        });
+      },
+      onError: (event) => {
+        propsRef.current.onError?.(event);
+        const { category, message } = event.nativeEvent;
+        emitRef.current({ type: "search_error", query: sessionRef.current.query, category, message });
+      },
+    };
+  }
+
+  if (!analytics) return rest;
+  return { ...rest, ...handlersRef.current };
+}
+
+/**
+ * Wraps a search view component so every instance reports to `analytics`.
+ * An `analytics` prop passed to the wrapped component also receives events.
+ *
+ * @example
+ * ```tsx
+ * const TrackedSearchView = withSearchAnalytics(TvosSearchView, (event) => {
+ *   segment.track(event.type, event);
+ * });
+ *
+ * <TrackedSearchView results={results} onSearch={handleSearch} />
+ * ```
+ *
+ * The wrapped component takes the props of `Component`; pass them explicitly
+ * to keep typed results, e.g. `withSearchAnalytics<TvosSearchViewProps<Movie>>(...)`.
+ */
+export function withSearchAnalytics<P extends Pick<TvosSearchViewProps, "analytics">>(
+  Component: React.ComponentType<P & React.RefAttributes<TvosSearchViewHandle>>,
+  analytics: SearchAnalyticsSink
+): React.ForwardRefExoticComponent<React.PropsWithoutRef<P> & React.RefAttributes<TvosSearchViewHandle>> {
+  return forwardRef<TvosSearchViewHandle, P>(function WithSearchAnalytics(props, ref) {
+    const own = props.analytics;
+    const sink: SearchAnalyticsSink = own
+      ? (event) => {
+          analytics(event);
+          own(event);
+        }
+      : analytics;
+    const innerProps = { ...props, analytics: sink } as P;
+    return <Component {...innerProps} ref={ref} />;
+  });
+}
@@ -0,0 +1,60 @@
+import type { SearchEvent, SearchResult, SelectItemEvent, TvosSearchViewProps } from "./index";
+import { findResult } from "./sections";
+
+/**
+ * Props after convenience callbacks (`onQueryChange`, `onSelect`) have been
+ * folded into the `nativeEvent` handlers the views actually fire.
+ */
+export type ResolvedSearchViewProps<T extends SearchResult = SearchResult> = Omit<
+  TvosSearchViewProps<T>,
+  "onQueryChange" | "onSelect"
+>;
+
+/**
+ * Folds `onQueryChange` and `onSelect` into `onSearch` and `onSelectItem`.
+ *
+ * `onSelect` receives the typed result resolved from `nativeEvent.id` (within
+ * `nativeEvent.sectionId` when using `sections`). When the id isn't shown
+ * (e.g. results changed between render and selection),
+ * `onSelect` is skipped and a warning is logged in development.
+ *
+ * Props without convenience callbacks are returned unchanged.
+ */
+export function resolveEventHandlers<T extends SearchResult>(
+  props: TvosSearchViewProps<T>
+): ResolvedSearchViewProps<T> {
+  const { onQueryChange, onSelect, ...rest } = props;
+  if (!onQueryChange && !onSelect) {
+    return rest;
+  }
+
+  const { onSearch, onSelectItem } = rest;
+  const resolved: ResolvedSearchViewProps<T> = { ...rest };
+
+  if (onQueryChange) {
+    resolved.onSearch = (event: SearchEvent) => {
+      onSearch?.(event);
+      onQueryChange(event.nativeEvent.query);
+    };
+  }
+
+  if (onSelect) {
+    resolved.onSelectItem = (event: SelectItemEvent) => {
+      onSelectItem?.(event);
+      const { id, sectionId } = event.nativeEvent;
+      const found = findResult(rest, id, sectionId);
+      if (!found) {
+        if (typeof __DEV__ !== "undefined" && __DEV__) {
+          console.warn(
+            `[expo-tvos-search] onSelect skipped: selected id '${id}' is not in results. ` +
+              "This can happen if results changed while the selection was in flight."
+          );
+        }
+        return;
+      }
+      onSelect(found.item, found.index);
+    };
+  }
+
+  return resolved;
+}
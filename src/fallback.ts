@@ -0,0 +1,6 @@
+/**
+ * `expo-tvos-search/fallback` entry point. `TvosSearchFallbackView` is built
+ * from React Native primitives, so it lives here rather than in the web entry,
+ * which must bundle without react-native.
+ */
+export { TvosSearchFallbackView } from "./TvosSearchFallbackView";
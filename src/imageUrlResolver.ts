@@ -0,0 +1,138 @@
+import { useMemo } from "react";
+import type { SearchResult, SearchSection } from "./index";
+
+/**
+ * Size a card displays its image at, passed to `imageUrlResolver`.
+ */
+export interface ImageSize {
+  /** Card width in points */
+  width: number;
+  /** Image height in points, following the result's `aspectRatio` when set */
+  height: number;
+  /** Screen scale: pixels per point (2 on a 4K Apple TV) */
+  scale: number;
+}
+
+/**
+ * Returns the image URL for a result at the size its card displays it, e.g. a
+ * CDN URL with width parameters or a signed URL. Returning `undefined` keeps
+ * the result's own `imageUrl`.
+ */
+export type ImageUrlResolver<T extends SearchResult = SearchResult> = (
+  result: T,
+  size: ImageSize
+) => string | undefined;
+
+// Defaults and ranges mirror SearchViewModel and ExpoTvosSearchModule.swift
+const DEFAULT_CARD_WIDTH = 280;
+const DEFAULT_CARD_HEIGHT = 420;
+const CARD_SIZE_RANGE = [50, 1000] as const;
+const ASPECT_RATIO_RANGE = [0.25, 4] as const;
+
+function clamp(value: number, [min, max]: readonly [number, number]): number {
+  return Math.min(Math.max(min, value), max);
+}
+
+/**
+ * Creates an `imageUrlResolver` that fills in a URL template.
+ * - `{id}`, `{imageUrl}`: the result's fields, URI-encoded
+ * - `{width}`, `{height}`: the card's image size in points
+ * - `{pixelWidth}`, `{pixelHeight}`: the same size in pixels (points × scale)
+ * - `{scale}`: the screen scale
+ *
+ * Sizes are rounded to whole numbers. Results without an `imageUrl` keep none
+ * when the template uses `{imageUrl}`. Create the resolver once, outside render.
+ *
+ * @example
+ * ```tsx
+ * const posterUrl = createTemplateImageUrlResolver(
+ *   "https://cdn.example.com/posters/{id}?w={pixelWidth}&h={pixelHeight}"
+ * );
+ *
+ * <TvosSearchView results={results} imageUrlResolver={posterUrl} />
+ * ```
+ */
+export function createTemplateImageUrlResolver(template: string): ImageUrlResolver {
+  const usesImageUrl = template.includes("{imageUrl}");
+  return (result, { width, height, scale }) => {
+    if (usesImageUrl && !result.imageUrl) return undefined;
+    const values: Record<string, string> = {
+      id: encodeURIComponent(result.id),
+      imageUrl: encodeURIComponent(result.imageUrl ?? ""),
+      width: String(Math.round(width)),
+      height: String(Math.round(height)),
+      pixelWidth: String(Math.round(width * scale)),
+      pixelHeight: String(Math.round(height * scale)),
+      scale: String(scale),
+    };
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+  };
+}
+
+interface ImageUrlSource<T extends SearchResult> {
+  results?: T[];
+  sections?: SearchSection<T>[];
+  cardWidth?: number;
+  cardHeight?: number;
+  imageUrlResolver?: ImageUrlResolver<T>;
+}
+
+/**
+ * Computes the size each result's image is shown at: the section's layout,
+ * then the view's `cardWidth`/`cardHeight`, with the result's `aspectRatio`
+ * overriding the height, all clamped like the native view.
+ */
+export function getImageSize(
+  result: SearchResult,
+  cardSize: { cardWidth?: number; cardHeight?: number },
+  scale: number
+): ImageSize {
+  const width = clamp(cardSize.cardWidth ?? DEFAULT_CARD_WIDTH, CARD_SIZE_RANGE);
+  const height =
+    result.aspectRatio !== undefined && result.aspectRatio > 0
+      ? width / clamp(result.aspectRatio, ASPECT_RATIO_RANGE)
+      : clamp(cardSize.cardHeight ?? DEFAULT_CARD_HEIGHT, CARD_SIZE_RANGE);
+  return { width, height, scale };
+}
+
+/**
+ * Applies the `imageUrlResolver` prop to `results` and `sections` before they
+ * reach the view, so cards receive URLs sized for them. Resolved URLs are
+ * validated like any other `imageUrl`. Results are copied only when their URL
+ * changes, and only re-resolved when the resolver, results or card size change. Props are returned unchanged apart from removing `imageUrlResolver`
+ * when there is no resolver.
+ */
+export function useResolvedImageUrls<T extends SearchResult, P extends ImageUrlSource<T>>(
+  props: P & ImageUrlSource<T>,
+  scale: number
+): Omit<P, "imageUrlResolver"> {
+  const { imageUrlResolver, ...rest } = props;
+  const { results, sections, cardWidth, cardHeight } = rest;
+
+  const resolved = useMemo(() => {
+    if (!imageUrlResolver) return null;
+    const resolveAll = (
+      items: T[],
+      cardSize: { cardWidth?: number; cardHeight?: number }
+    ): T[] =>
+      items.map((result) => {
+        const imageUrl =
+          imageUrlResolver(result, getImageSize(result, cardSize, scale)) ?? result.imageUrl;
+        return imageUrl === result.imageUrl ? result : { ...result, imageUrl };
+      });
+
+    return {
+      results: results && resolveAll(results, { cardWidth, cardHeight }),
+      sections: sections?.map((section) => ({
+        ...section,
+        results: resolveAll(section.results, {
+          cardWidth: section.layout?.cardWidth ?? cardWidth,
+          cardHeight: section.layout?.cardHeight ?? cardHeight,
+        }),
+      })),
+    };
+  }, [imageUrlResolver, results, sections, cardWidth, cardHeight, scale]);
+
+  if (!resolved) return rest;
+  return { ...rest, results: resolved.results, sections: resolved.sections };
+}
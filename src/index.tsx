@@ -1,6 +1,21 @@
-import React from "react";
+import React, { forwardRef, useImperativeHandle, useRef } from "react";
 import type { ViewStyle } from "react-native";
-import { Platform } from "react-native";
+import { PixelRatio, Platform } from "react-native";
+import { useSearchAnalytics, type SearchAnalyticsSink } from "./analytics";
+import { resolveEventHandlers, type ResolvedSearchViewProps } from "./eventHandlers";
+import { useResolvedImageUrls, type ImageUrlResolver } from "./imageUrlResolver";
+import type { LayoutPreset } from "./layout";
+import {
+  getNativeViewOverride,
+  type NativeViewMethods,
+  type NativeViewProps,
+} from "./nativeViewOverride";
+import { useQueryTransform, type QueryTransform } from "./queryTransform";
+import { flattenResults } from "./sections";
+import { localizeProps, type PluralForms } from "./strings";
+import { useThemedProps, type SearchViewTheme } from "./theme";
+import { FallbackSearchView } from "./TvosSearchFallbackView";
+import { useValidationWarnings } from "./validation";
 
 /**
  * Event payload for search text changes.
@@ -10,6 +25,8 @@ export interface SearchEvent {
   nativeEvent: {
     /** The current search query string entered by the user */
     query: string;
+    /** Id of the selected scope, when using `scopes` */
+    scopeId?: string;
   };
 }
 
@@ -21,9 +38,85 @@ export interface SelectItemEvent {
   nativeEvent: {
     /** The unique identifier of the selected search result */
     id: string;
+    /** Id of the section containing the result, when using `sections` */
+    sectionId?: string;
   };
 }
 
+/**
+ * Event payload for result focus changes.
+ * Fired when a result card gains or loses focus.
+ */
+export interface FocusItemEvent {
+  nativeEvent: {
+    /** The unique identifier of the focused (or blurred) result */
+    id: string;
+    /**
+     * Index of the result in `results`, or within its section when using `sections`.
+     * Skipped results (missing id or title) still count, so `results[index]` is this result.
+     */
+    index: number;
+    /** Id of the section containing the result, when using `sections` */
+    sectionId?: string;
+  };
+}
+
+/**
+ * Event payload for selecting a recent search.
+ * Fired before the query is placed in the search field (which then fires `onSearch`).
+ */
+export interface RecentSearchEvent {
+  nativeEvent: {
+    /** The recent query the user selected */
+    query: string;
+  };
+}
+
+/**
+ * Event payload for selecting a query suggestion.
+ * Fired before the suggestion's text is placed in the search field (which then fires `onSearch`).
+ */
+export interface SelectSuggestionEvent {
+  nativeEvent: {
+    /** The `id` of the selected suggestion */
+    id: string;
+    /** The suggestion's text, which becomes the query */
+    text: string;
+  };
+}
+
+/**
+ * Event payload for picking a search scope.
+ * When the search field has a query, `onSearch` then fires again with the new `scopeId`.
+ */
+export interface ScopeChangeEvent {
+  nativeEvent: {
+    /** The `id` of the scope the user picked */
+    scopeId: string;
+  };
+}
+
+/**
+ * Event payload for choosing a result's context menu action.
+ */
+export interface ItemActionEvent {
+  nativeEvent: {
+    /** The `id` of the result whose menu was opened */
+    itemId: string;
+    /** The `id` of the chosen action */
+    actionId: string;
+    /** Id of the section containing the result, when using `sections` */
+    sectionId?: string;
+  };
+}
+
+/**
+ * Event payload for the "clear recent searches" action.
+ */
+export interface ClearHistoryEvent {
+  nativeEvent: Record<string, never>;
+}
+
 /**
  * Categories of errors that can occur in the search view.
  */
@@ -55,7 +148,16 @@ export interface SearchViewErrorEvent {
 export interface ValidationWarningEvent {
   nativeEvent: {
     /** Type of validation warning */
-    type: "field_truncated" | "value_clamped" | "value_truncated" | "results_truncated" | "url_invalid" | "url_insecure" | "validation_failed";
+    type:
+      | "field_truncated"
+      | "value_clamped"
+      | "value_truncated"
+      | "results_truncated"
+      | "url_invalid"
+      | "url_insecure"
+      | "validation_failed"
+      | "layout_overflow"
+      | "placeholder_invalid";
     /** Human-readable warning message */
     message: string;
     /** Optional additional context */
@@ -72,6 +174,60 @@ export interface SearchFieldFocusEvent {
   nativeEvent: Record<string, never>;
 }
 
+/**
+ * Event payload for reaching the end of the results grid.
+ * Fired when the user scrolls within `onEndReachedThreshold` rows of the last
+ * row while `hasMore` is true.
+ */
+export interface EndReachedEvent {
+  nativeEvent: {
+    /** Number of results currently shown (use it to request the next page) */
+    resultCount: number;
+  };
+}
+
+/**
+ * Options for `TvosSearchViewHandle.setQuery`.
+ */
+export interface SetQueryOptions {
+  /**
+   * Whether to fire `onSearch` for the new text.
+   * Pass `false` to update the field without triggering a search.
+   * @default true
+   */
+  emit?: boolean;
+}
+
+/**
+ * Imperative API exposed through a `ref` on `TvosSearchView`.
+ * Lets remote-button shortcuts and "search for similar" flows drive the view
+ * without round-tripping through the `searchText` prop.
+ *
+ * @example
+ * ```tsx
+ * const searchRef = useRef<TvosSearchViewHandle>(null);
+ *
+ * <TvosSearchView ref={searchRef} {...props} />
+ *
+ * searchRef.current?.setQuery('Blade Runner');
+ * searchRef.current?.focusSearchField();
+ * ```
+ */
+export interface TvosSearchViewHandle {
+  /** Moves focus to the search field, bringing up the keyboard */
+  focusSearchField(): void;
+  /** Removes focus from the search field, dismissing the keyboard */
+  blurSearchField(): void;
+  /** Clears the search field. Fires `onSearch` with an empty query. */
+  clear(): void;
+  /** Sets the search field text, firing `onSearch` unless `emit` is `false` */
+  setQuery(text: string, options?: SetQueryOptions): void;
+  /** Scrolls the results grid to the top */
+  scrollToTop(): void;
+  /** Scrolls the results grid to the result with the given id */
+  scrollToItem(id: string): void;
+}
+
 /**
  * Represents a single search result displayed in the grid.
  */
@@ -84,11 +240,151 @@ export interface SearchResult {
   subtitle?: string;
   /** Optional image URL for the result poster/thumbnail. Supports HTTPS, HTTP, file://, and data: URIs */
   imageUrl?: string;
+  /**
+   * Image shown when `imageUrl` is missing or fails to load, e.g. generic artwork
+   * for the result's genre. Validated like `imageUrl`.
+   */
+  fallbackImageUrl?: string;
+  /**
+   * BlurHash (https://blurha.sh) drawn while the image loads, or in place of a
+   * missing image. Malformed hashes are ignored with a `placeholder_invalid` warning.
+   */
+  blurhash?: string;
+  /**
+   * Base64 ThumbHash (https://evanw.github.io/thumbhash), used like `blurhash`
+   * when that isn't set. Malformed hashes are ignored with a `placeholder_invalid` warning.
+   */
+  thumbhash?: string;
+  /**
+   * Short labels shown in the top leading corner of the image, e.g. "NEW", "4K" or a rating.
+   */
+  badges?: string[];
+  /**
+   * Watch progress from 0 to 1, drawn as a bar along the bottom of the image.
+   * Values outside the range are clamped with a `value_clamped` warning.
+   */
+  progress?: number;
+  /**
+   * Extra lines shown below the subtitle when `showSubtitle` is enabled, e.g. year or runtime.
+   */
+  metadata?: string[];
+  /**
+   * Image width divided by height (e.g. `16 / 9` for episode stills, `2 / 3` for posters).
+   * Overrides `cardHeight` for this card; clamped to 0.25-4.
+   */
+  aspectRatio?: number;
+  /**
+   * What VoiceOver reads for the card. Defaults to the title, subtitle and
+   * badges (see `buildAccessibilityLabel`).
+   */
+  accessibilityLabel?: string;
+  /**
+   * VoiceOver hint describing what selecting the card does, e.g. "Opens the movie details".
+   */
+  accessibilityHint?: string;
+  /**
+   * Context menu actions shown when the card is long-pressed.
+   * Overrides `defaultActions`; pass an empty array to show no menu for this result.
+   */
+  actions?: SearchResultAction[];
+}
+
+/**
+ * A context menu action for a result card, e.g. "Add to Watchlist".
+ * Action ids must be unique within each list.
+ */
+export interface SearchResultAction {
+  /** Unique identifier for the action (reported as `actionId` in `onItemAction`) */
+  id: string;
+  /** Menu item label */
+  title: string;
+  /** Optional SF Symbol name shown next to the title, e.g. "plus" */
+  systemImage?: string;
+  /** Shows the action in the destructive (red) style */
+  destructive?: boolean;
+}
+
+/**
+ * A query suggestion listed below the search field.
+ */
+export interface SearchSuggestion {
+  /** Unique identifier for the suggestion (reported in `onSelectSuggestion`) */
+  id: string;
+  /** Text shown in the list and used as the query when selected */
+  text: string;
+  /** Optional SF Symbol name shown before the text, e.g. "clock.arrow.circlepath" */
+  icon?: string;
+}
+
+/**
+ * A search scope shown in the scope bar below the search field, e.g. "Movies" or "TV".
+ */
+export interface SearchScope {
+  /** Unique identifier for the scope (reported as `scopeId`) */
+  id: string;
+  /** Label shown in the scope bar */
+  title: string;
+}
+
+/**
+ * Card geometry for a single section. Omitted values fall back to the
+ * view-level `columns`, `cardWidth` and `cardHeight` props, with the same ranges.
+ */
+export interface SectionLayout {
+  /** Number of columns in this section's grid (clamped 1-10) */
+  columns?: number;
+  /** Card width in points (clamped 50-1000) */
+  cardWidth?: number;
+  /** Card height in points (clamped 50-1000) */
+  cardHeight?: number;
+}
+
+/**
+ * A titled group of results, e.g. movies, shows, people or live channels.
+ * Result ids must be unique within a section; `onSelectItem` reports the `sectionId`.
+ */
+export interface SearchSection<T extends SearchResult = SearchResult> {
+  /** Unique identifier for the section (reported as `sectionId` on selection) */
+  id: string;
+  /** Header text shown above the section's cards (omit or leave empty for no header) */
+  title: string;
+  /** Results in this section */
+  results: T[];
+  /** Optional card geometry for this section, e.g. landscape cards for live channels */
+  layout?: SectionLayout;
+}
+
+/**
+ * Limits for the native image cache shared by all search views.
+ * Omitted fields keep their current value; `0` removes the limit.
+ */
+export interface ImageCacheConfig {
+  /** Maximum number of cached images (default 100) */
+  countLimit?: number;
+  /** Maximum total decoded size of cached images, in bytes (default 100 MB) */
+  costLimitBytes?: number;
+}
+
+/**
+ * Snapshot of the native image cache returned by `getImageCacheStats()`.
+ */
+export interface ImageCacheStats {
+  /** Number of cached images */
+  count: number;
+  /** Approximate decoded size of the cached images, in bytes */
+  totalCostBytes: number;
+  /** Current count limit (`0` means unlimited) */
+  countLimit: number;
+  /** Current size limit in bytes (`0` means unlimited) */
+  costLimitBytes: number;
 }
 
 /**
  * Props for the TvosSearchView component.
  *
+ * Generic over the result type, so results can carry app-specific fields
+ * (media type, route, rating) that come back typed in `onSelect`.
+ *
  * @example
  * ```tsx
  * <TvosSearchView
@@ -103,15 +399,32 @@ export interface SearchResult {
  * />
  * ```
  */
-export interface TvosSearchViewProps {
+export interface TvosSearchViewProps<T extends SearchResult = SearchResult> {
   /**
    * Array of search results to display in the grid.
    * Each result should have a unique `id`.
    * Arrays larger than 500 items are truncated.
    * Results with empty `id` or `title` are skipped.
+   * Ignored when `sections` is provided.
+   * @default []
    * @maximum 500
    */
-  results: SearchResult[];
+  results?: T[];
+
+  /**
+   * Grouped results, rendered as consecutive sections, each with a header and
+   * its own card geometry. Takes precedence over `results`.
+   * The 500-result cap applies across all sections combined.
+   * `onEndReached` pagination applies to flat `results` only.
+   * @example
+   * ```tsx
+   * sections={[
+   *   { id: 'movies', title: 'Movies', results: movies },
+   *   { id: 'live', title: 'Live Channels', results: channels, layout: { columns: 3, cardWidth: 420, cardHeight: 240 } },
+   * ]}
+   * ```
+   */
+  sections?: SearchSection<T>[];
 
   /**
    * Number of columns in the results grid.
@@ -136,7 +449,10 @@ export interface TvosSearchViewProps {
    * **Warning:** Avoid setting `searchText` inside your `onSearch` handler with
    * transforms (e.g., trimming, lowercasing). The native guard only prevents
    * same-value loops — transformed values will trigger a new `onSearch` event,
-   * creating an infinite update cycle.
+   * creating an infinite update cycle. To normalize queries, use `queryTransform`
+   * instead: it rewrites what `onSearch` receives and leaves the field alone.
+   *
+   * For one-off updates, prefer `ref.current.setQuery(text)` (see `TvosSearchViewHandle`).
    */
   searchText?: string;
 
@@ -165,6 +481,15 @@ export interface TvosSearchViewProps {
    */
   showFocusBorder?: boolean;
 
+  /**
+   * Draw a colored tile with the title's initials (e.g. "SW" for "Star Wars")
+   * behind each image, so results without artwork, or whose images fail, still
+   * look distinct. The color is derived from the title.
+   * `blurhash`/`thumbhash` take precedence on the native view.
+   * @default false
+   */
+  renderInitials?: boolean;
+
   /**
    * Extra top padding in points for tab bar clearance.
    * Useful when the view is displayed under a navigation bar.
@@ -197,6 +522,34 @@ export interface TvosSearchViewProps {
    */
   marqueeDelay?: number;
 
+  /**
+   * BCP 47 locale (e.g. `"fr"`, `"pt-BR"`, `"zh-TW"`) whose built-in strings
+   * fill `placeholder`, `emptyStateText`, `searchingText`, `noResultsText`,
+   * `noResultsHintText`, `recentSearchesTitle`, `clearHistoryText` and
+   * `actionMenuCancelText` when they aren't set. Unknown locales fall back to their language, then English.
+   * Add or override catalogs with `registerSearchStrings`.
+   * @default English strings
+   */
+  locale?: string;
+
+  /**
+   * VoiceOver label for the search field.
+   * @default The `placeholder` text
+   */
+  accessibilityLabel?: string;
+
+  /**
+   * What VoiceOver announces when results arrive, with `{count}` and `{query}`
+   * placeholders. Pass `PluralForms` to vary it by count. While loading with no
+   * results, `searchingText` is announced; with none found, `noResultsText`.
+   * @default The `locale`'s "{count} results" string
+   * @example
+   * ```tsx
+   * accessibilityResultsAnnouncement={{ one: '{count} movie for {query}', other: '{count} movies for {query}' }}
+   * ```
+   */
+  accessibilityResultsAnnouncement?: string | PluralForms;
+
   /**
    * Text displayed when the search field is empty and no results are shown.
    * @default "Search your library"
@@ -221,6 +574,67 @@ export interface TvosSearchViewProps {
    */
   noResultsHintText?: string;
 
+  /**
+   * Recent queries shown as selectable entries in place of `emptyStateText`
+   * while the search field is empty, most recent first.
+   * Lists longer than 20 entries are truncated.
+   * Use `useSearchHistory` to load them from a `SearchHistoryStore`.
+   * @maximum 20
+   */
+  recentSearches?: string[];
+
+  /**
+   * Query suggestions listed below the search field as the user types.
+   * Selecting one places its text in the field and fires `onSearch` once,
+   * so there's no need to echo it back through `searchText`.
+   * Use `getSuggestions` to derive them from results and recent searches.
+   * Lists longer than 20 entries are truncated.
+   * @maximum 20
+   */
+  suggestions?: SearchSuggestion[];
+
+  /**
+   * Scopes shown in a bar below the search field to narrow the search,
+   * e.g. "Movies", "TV" and "Music". The selected scope's id is sent with
+   * every `onSearch` event as `scopeId`. Requires tvOS 16.4 on the native view.
+   * Lists longer than 10 entries are truncated.
+   * @maximum 10
+   */
+  scopes?: SearchScope[];
+
+  /**
+   * Id of the selected scope, as a controlled value: while it names one of
+   * `scopes`, that scope stays selected, and the user's picks only fire
+   * `onScopeChange` until this prop is updated to match. Leave it unset to let
+   * the view manage the selection itself, starting with the first scope.
+   */
+  selectedScope?: string;
+
+  /**
+   * Context menu actions for results that don't define their own `actions`.
+   * The menu opens on a long press of the remote's select button.
+   */
+  defaultActions?: SearchResultAction[];
+
+  /**
+   * Heading shown above `recentSearches`.
+   * @default "Recent Searches"
+   */
+  recentSearchesTitle?: string;
+
+  /**
+   * Label of the button that fires `onClearHistory`.
+   * @default "Clear Recent Searches"
+   */
+  clearHistoryText?: string;
+
+  /**
+   * Cancel button of the action menu `TvosSearchFallbackView` shows for
+   * results with `actions`. The native view uses the system context menu.
+   * @default "Cancel"
+   */
+  actionMenuCancelText?: string;
+
   /**
    * Color for text and UI elements in the search interface.
    * Hex color string (e.g., "#FFFFFF", "#E5E5E5").
@@ -249,6 +663,31 @@ export interface TvosSearchViewProps {
    */
   colorScheme?: 'light' | 'dark' | 'system';
 
+  /**
+   * Theme supplying defaults for the styling props (`textColor`, `accentColor`,
+   * `colorScheme`, card dimensions, overlay and marquee options, `columns`, `topInset`).
+   * Replaces any `ThemeProvider` theme; flat props that are set always win.
+   * Build one with `createSearchTheme` or use a `searchThemePresets` entry.
+   * @example
+   * ```tsx
+   * <TvosSearchView theme={searchThemePresets.darkCinema} accentColor="#1DB954" {...props} />
+   * ```
+   */
+  theme?: SearchViewTheme;
+
+  /**
+   * Card geometry preset that sets `columns`, `cardWidth`, `cardHeight` and
+   * `cardMargin` to values that fit a 1920pt screen.
+   * - `'portrait'`: 2:3 posters, 5 columns
+   * - `'landscape'`: 16:9 stills, 3 columns
+   * - `'square'`: 1:1 artwork, 6 columns
+   * - `'compact'`: smaller 2:3 posters, 7 columns
+   *
+   * Takes precedence over the theme; the individual props still win when set.
+   * For other ratios or container widths, spread the result of `computeGridLayout`.
+   */
+  layout?: LayoutPreset;
+
   /**
    * Width of each result card in points.
    * Allows customization for portrait, landscape, or square layouts.
@@ -280,6 +719,31 @@ export interface TvosSearchViewProps {
    */
   imageContentMode?: 'fill' | 'fit' | 'contain';
 
+  /**
+   * Rewrites each result's `imageUrl` for the size its card displays it at,
+   * e.g. to add CDN width parameters or short-lived signed tokens.
+   * Called in JS with the effective card size (section layout, `cardWidth`/`cardHeight`,
+   * and the result's `aspectRatio`) before results reach the view. Resolved URLs
+   * get the usual `url_invalid`/`url_insecure` checks.
+   * Use `createTemplateImageUrlResolver` for simple URL templates.
+   *
+   * Pass a stable function (defined outside the component or wrapped in
+   * `useCallback`): a new one on every render re-resolves every result and
+   * sends a new results array to the native view.
+   *
+   * @example
+   * ```tsx
+   * const resolveImageUrl = useCallback<ImageUrlResolver<Movie>>(
+   *   (movie, { width, height, scale }) =>
+   *     signUrl(`${CDN}/${movie.posterPath}?w=${width * scale}&h=${height * scale}`),
+   *   [signUrl]
+   * );
+   *
+   * <TvosSearchView results={movies} imageUrlResolver={resolveImageUrl} />
+   * ```
+   */
+  imageUrlResolver?: ImageUrlResolver<T>;
+
   /**
    * Spacing between cards in the grid layout (both horizontal and vertical).
    * Values outside 0-200 range are clamped.
@@ -318,13 +782,140 @@ export interface TvosSearchViewProps {
    * **Note:** If using the `searchText` prop, do not set it to a transformed
    * value inside this handler — see `searchText` docs for loop prevention.
    */
-  onSearch: (event: SearchEvent) => void;
+  onSearch?: (event: SearchEvent) => void;
 
   /**
    * Callback fired when a search result is selected.
-   * Use the `id` from the event to identify which result was selected.
+   * Use the `id` from the event to identify which result was selected,
+   * and `sectionId` to tell which section it came from when using `sections`.
+   */
+  onSelectItem?: (event: SelectItemEvent) => void;
+
+  /**
+   * Convenience callback fired with the query string when the search text changes.
+   * Fires alongside `onSearch`; the same debouncing and `searchText` caveats apply.
+   * @example
+   * ```tsx
+   * onQueryChange={(query) => setQuery(query)}
+   * ```
+   */
+  onQueryChange?: (query: string) => void;
+
+  /**
+   * Normalizers applied to each query before `onSearch` and `onQueryChange` fire,
+   * in order. The search field keeps showing what the user typed; nothing is
+   * sent back to the view, so there is no `searchText` update loop.
+   * A normalizer returning `""` drops the query, which is then reported as empty,
+   * and handlers only fire when the normalized query changes.
+   * @example
+   * ```tsx
+   * const { trim, collapseWhitespace, stripDiacritics, minLength } = queryNormalizers;
+   * queryTransform={[trim, collapseWhitespace, stripDiacritics, minLength(2)]}
+   * ```
+   */
+  queryTransform?: QueryTransform;
+
+  /**
+   * Convenience callback fired with the selected result and its index in `results`
+   * (or within its section, when using `sections`).
+   * Fires alongside `onSelectItem`, so there's no need to look results up by id.
+   * Selections whose id isn't in `results` are skipped (with a warning in development).
+   * @example
+   * ```tsx
+   * onSelect={(item, index) => router.push(item.route)}
+   * ```
+   */
+  onSelect?: (item: T, index: number) => void;
+
+  /**
+   * Callback fired when the user selects one of `recentSearches`.
+   * The query is then placed in the search field, firing `onSearch` as usual.
+   */
+  onSelectRecentSearch?: (event: RecentSearchEvent) => void;
+
+  /**
+   * Callback fired when the user chooses a result's context menu action.
+   * @example
+   * ```tsx
+   * onItemAction={(e) => {
+   *   if (e.nativeEvent.actionId === 'watchlist') addToWatchlist(e.nativeEvent.itemId);
+   * }}
+   * ```
+   */
+  onItemAction?: (event: ItemActionEvent) => void;
+
+  /**
+   * Callback fired when the user selects one of `suggestions`.
+   * The suggestion's text is then placed in the search field, firing `onSearch` as usual.
+   */
+  onSelectSuggestion?: (event: SelectSuggestionEvent) => void;
+
+  /**
+   * Callback fired when the user picks one of `scopes`.
+   * When the field has a query, `onSearch` then fires again with the new `scopeId`,
+   * so a fetcher reading `scopeId` (like `useTvosSearch`'s) reloads for the scope.
+   * @example
+   * ```tsx
+   * onScopeChange={(e) => setScope(e.nativeEvent.scopeId)}
+   * ```
+   */
+  onScopeChange?: (event: ScopeChangeEvent) => void;
+
+  /**
+   * Callback fired when the user chooses to clear `recentSearches`.
+   * Clear the history (e.g. `useSearchHistory`'s `onClearHistory`) to hide the list.
+   */
+  onClearHistory?: (event: ClearHistoryEvent) => void;
+
+  /**
+   * Callback fired when a result card gains focus.
+   * Fires for every card the focus passes over while scrolling; use
+   * `useFocusedResult` to debounce it before loading backdrops or detail data.
+   */
+  onFocusItem?: (event: FocusItemEvent) => void;
+
+  /**
+   * Callback fired when a result card loses focus.
+   * When focus moves between cards, fires for the old card before `onFocusItem`
+   * fires for the new one.
    */
-  onSelectItem: (event: SelectItemEvent) => void;
+  onBlurItem?: (event: FocusItemEvent) => void;
+
+  /**
+   * Callback fired when the user scrolls near the end of the results grid.
+   * Only fires while `hasMore` is true and `isLoadingMore` is false, and at most
+   * once per page: it re-arms when `results` grows or `isLoadingMore` turns off.
+   * Append the next page to `results`; cards already shown keep their position and focus.
+   * @example
+   * ```tsx
+   * onEndReached={() => loadNextPage()}
+   * ```
+   */
+  onEndReached?: (event: EndReachedEvent) => void;
+
+  /**
+   * How close to the end of the grid, in rows, the user must scroll before
+   * `onEndReached` fires. `0` fires only when the last row appears.
+   * Values outside 0-10 range are clamped.
+   * @default 1
+   * @minimum 0
+   * @maximum 10
+   */
+  onEndReachedThreshold?: number;
+
+  /**
+   * Whether more results can be loaded. `onEndReached` only fires while this is true.
+   * Results are still capped at 500 items in total.
+   * @default false
+   */
+  hasMore?: boolean;
+
+  /**
+   * Whether the next page is loading. Shows a footer spinner below the grid
+   * and suppresses `onEndReached` until it turns off.
+   * @default false
+   */
+  isLoadingMore?: boolean;
 
   /**
    * Optional callback fired when errors occur.
@@ -384,23 +975,64 @@ export interface TvosSearchViewProps {
    */
   onSearchFieldBlurred?: (event: SearchFieldFocusEvent) => void;
 
+  /**
+   * Receives funnel events (`search_performed`, `results_shown`, `zero_results`,
+   * `result_selected`, `search_error`, `session_abandoned`) derived from
+   * `onSearch`, `onSelectItem`, `onError` and the `results` prop.
+   * Your own callbacks are still called with the same events.
+   * To instrument every instance, wrap the component with `withSearchAnalytics`.
+   * @example
+   * ```tsx
+   * analytics={(event) => segment.track(event.type, event)}
+   * ```
+   */
+  analytics?: SearchAnalyticsSink;
+
+  /**
+   * What to render when the native view is unavailable (non-tvOS platforms,
+   * or the native module wasn't built).
+   * - `'none'`: Render `null` (default)
+   * - `'auto'`: Render `TvosSearchFallbackView`, a React Native implementation
+   *   that accepts the same props and fires the same events
+   * @default "none"
+   */
+  fallback?: 'none' | 'auto';
+
   /**
    * Optional style for the view container.
    */
   style?: ViewStyle;
 }
 
+/**
+ * Module functions registered by ExpoTvosSearchModule for the image cache.
+ */
+interface NativeModuleFunctions {
+  prefetchImages(urls: string[]): Promise<number>;
+  clearImageCache(): void;
+  getImageCacheStats(): ImageCacheStats;
+  configureImageCache(countLimit: number | null, costLimitBytes: number | null): void;
+}
+
 /**
  * Native view component loaded at module initialization.
  * Returns null on non-tvOS platforms or when the native module is unavailable.
  */
-let NativeView: React.ComponentType<TvosSearchViewProps> | null = null;
+let NativeView: React.ComponentType<NativeViewProps> | null = null;
+
+/**
+ * Native module functions loaded alongside the view, or null when unavailable.
+ */
+let NativeModule: NativeModuleFunctions | null = null;
 
 if (Platform.OS === "ios" && Platform.isTV) {
   try {
-    const { requireNativeViewManager } = require("expo-modules-core");
+    const { requireNativeViewManager, requireOptionalNativeModule } = require("expo-modules-core");
     if (typeof requireNativeViewManager === "function") {
       NativeView = requireNativeViewManager("ExpoTvosSearch");
+      if (typeof requireOptionalNativeModule === "function") {
+        NativeModule = requireOptionalNativeModule("ExpoTvosSearch");
+      }
     } else {
       console.warn(
         "[expo-tvos-search] requireNativeViewManager is not a function. " +
@@ -443,13 +1075,125 @@ if (Platform.OS === "ios" && Platform.isTV) {
   }
 }
 
+/**
+ * Returns the view set by `expo-tvos-search/testing` when there is one,
+ * otherwise the native view loaded at module initialization.
+ */
+function getNativeView(): React.ComponentType<NativeViewProps> | null {
+  const override = getNativeViewOverride();
+  return override === undefined ? NativeView : override;
+}
+
+function TvosSearchViewImpl<T extends SearchResult>(
+  props: TvosSearchViewProps<T>,
+  ref: React.ForwardedRef<TvosSearchViewHandle>
+): JSX.Element | null {
+  const { fallback = "none", ...rest } = useThemedProps(localizeProps(useSearchAnalytics(props)));
+  // URLs are resolved after the handlers, so onSelect still receives the app's own result objects
+  const viewProps = useResolvedImageUrls(
+    useQueryTransform(resolveEventHandlers(rest)),
+    PixelRatio.get()
+  );
+
+  useValidationWarnings(viewProps);
+
+  if (!getNativeView()) {
+    if (fallback === "auto") {
+      return <FallbackSearchView {...viewProps} ref={ref} />;
+    }
+
+    // Warn in development when native module is unavailable
+    if (typeof __DEV__ !== "undefined" && __DEV__) {
+      const isRunningOnTvOS = Platform.OS === "ios" && Platform.isTV;
+
+      if (isRunningOnTvOS) {
+        // On tvOS but module failed to load - this is unexpected
+        console.warn(
+          "[expo-tvos-search] TvosSearchView is rendering null on tvOS. " +
+            "This usually means:\n" +
+            "1. The native module wasn't built properly (try 'expo prebuild --clean')\n" +
+            "2. expo-modules-core is missing or incompatible\n" +
+            "3. The app needs to be restarted after installing the module\n\n" +
+            "Check the earlier console logs for specific error details."
+        );
+      } else {
+        // Not on tvOS - expected behavior, but developer might want to know
+        console.info(
+          "[expo-tvos-search] TvosSearchView is not available on " +
+            `${Platform.OS}${Platform.isTV ? " (TV)" : ""}. ` +
+            "Use isNativeSearchAvailable() to check before rendering this component."
+        );
+      }
+    }
+    return null;
+  }
+  return <NativeSearchView {...viewProps} ref={ref} />;
+}
+
+/**
+ * Calls a native view function, logging failures in development instead of
+ * surfacing unhandled promise rejections from fire-and-forget handle methods.
+ */
+function callNative(name: keyof NativeViewMethods, call: Promise<void> | undefined): void {
+  call?.catch((error: unknown) => {
+    if (typeof __DEV__ !== "undefined" && __DEV__) {
+      console.warn(`[expo-tvos-search] ${name}() failed:`, error);
+    }
+  });
+}
+
+/**
+ * Renders the native view and adapts its view functions to `TvosSearchViewHandle`.
+ */
+const NativeSearchView = forwardRef<TvosSearchViewHandle, ResolvedSearchViewProps>(
+  function NativeSearchView(props, ref) {
+    const nativeRef = useRef<NativeViewMethods>(null);
+
+    // Latest results, so scrollToItem can check ids without recreating the handle
+    const resultsRef = useRef(flattenResults(props));
+    resultsRef.current = flattenResults(props);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        focusSearchField: () =>
+          callNative("focusSearchField", nativeRef.current?.focusSearchField()),
+        blurSearchField: () => callNative("blurSearchField", nativeRef.current?.blurSearchField()),
+        clear: () => callNative("clear", nativeRef.current?.clear()),
+        setQuery: (text, options) =>
+          callNative("setQuery", nativeRef.current?.setQuery(text, options?.emit ?? true)),
+        scrollToTop: () => callNative("scrollToTop", nativeRef.current?.scrollToTop()),
+        scrollToItem: (id) => {
+          if (!resultsRef.current.some((result) => result.id === id)) {
+            if (typeof __DEV__ !== "undefined" && __DEV__) {
+              console.warn(`[expo-tvos-search] scrollToItem: id '${id}' is not in results.`);
+            }
+            return;
+          }
+          callNative("scrollToItem", nativeRef.current?.scrollToItem(id));
+        },
+      }),
+      []
+    );
+
+    // The native view is non-null whenever this component renders
+    const Native = getNativeView()!;
+    // The native context menu has its own Cancel button
+    const { accessibilityLabel, actionMenuCancelText: _actionMenuCancelText, ...nativeProps } = props;
+    return <Native {...nativeProps} searchFieldAccessibilityLabel={accessibilityLabel} ref={nativeRef} />;
+  }
+);
+
 /**
  * Native tvOS search view component using SwiftUI's `.searchable` modifier.
  *
  * This component provides a native search experience on tvOS with proper focus
  * handling and keyboard navigation. On non-tvOS platforms or when the native
  * module is unavailable, it renders `null` - use `isNativeSearchAvailable()`
- * to check availability and render a fallback.
+ * to check availability and render a fallback, or pass `fallback="auto"` to
+ * render `TvosSearchFallbackView` instead.
+ *
+ * Pass a `ref` to control the view imperatively (see `TvosSearchViewHandle`).
  *
  * @example
  * ```tsx
@@ -466,7 +1210,7 @@ if (Platform.OS === "ios" && Platform.isTV) {
  *     <TvosSearchView
  *       results={results}
  *       onSearch={(e) => fetchResults(e.nativeEvent.query)}
- *       onSelectItem={(e) => router.push(`/detail/${e.nativeEvent.id}`)}
+ *       onSelect={(item) => router.push(`/detail/${item.id}`)}
  *       style={{ flex: 1 }}
  *     />
  *   );
@@ -474,37 +1218,14 @@ if (Platform.OS === "ios" && Platform.isTV) {
  * ```
  *
  * @param props - Component props
- * @returns The native search view on tvOS, or `null` if unavailable
+ * @returns The native search view on tvOS, the fallback view when `fallback="auto"`,
+ * or `null` if unavailable
  */
-export function TvosSearchView(props: TvosSearchViewProps): JSX.Element | null {
-  if (!NativeView) {
-    // Warn in development when native module is unavailable
-    if (typeof __DEV__ !== "undefined" && __DEV__) {
-      const isRunningOnTvOS = Platform.OS === "ios" && Platform.isTV;
-
-      if (isRunningOnTvOS) {
-        // On tvOS but module failed to load - this is unexpected
-        console.warn(
-          "[expo-tvos-search] TvosSearchView is rendering null on tvOS. " +
-            "This usually means:\n" +
-            "1. The native module wasn't built properly (try 'expo prebuild --clean')\n" +
-            "2. expo-modules-core is missing or incompatible\n" +
-            "3. The app needs to be restarted after installing the module\n\n" +
-            "Check the earlier console logs for specific error details."
-        );
-      } else {
-        // Not on tvOS - expected behavior, but developer might want to know
-        console.info(
-          "[expo-tvos-search] TvosSearchView is not available on " +
-            `${Platform.OS}${Platform.isTV ? " (TV)" : ""}. ` +
-            "Use isNativeSearchAvailable() to check before rendering this component."
-        );
-      }
-    }
-    return null;
-  }
-  return <NativeView {...props} />;
-}
+export const TvosSearchView = forwardRef(TvosSearchViewImpl) as <
+  T extends SearchResult = SearchResult,
+>(
+  props: TvosSearchViewProps<T> & React.RefAttributes<TvosSearchViewHandle>
+) => JSX.Element | null;
 
 /**
  * Checks if the native tvOS search component is available.
@@ -528,5 +1249,127 @@ export function TvosSearchView(props: TvosSearchViewProps): JSX.Element | null {
  * ```
  */
 export function isNativeSearchAvailable(): boolean {
-  return NativeView !== null;
+  return getNativeView() !== null;
+}
+
+/**
+ * Returns the native module when the native view is in use, so the image cache
+ * functions are no-ops wherever `isNativeSearchAvailable()` is false.
+ */
+function getNativeModule(): NativeModuleFunctions | null {
+  return isNativeSearchAvailable() ? NativeModule : null;
+}
+
+/**
+ * Loads images into the native image cache ahead of time, e.g. posters for
+ * likely queries, so their cards appear without a loading state.
+ * Images are fetched a few at a time; URLs with unsupported schemes and
+ * images that fail to load are skipped.
+ *
+ * @returns How many of the images are now cached (0 when the native view is unavailable)
+ *
+ * @example
+ * ```ts
+ * await prefetchImages(trending.map((movie) => movie.imageUrl));
+ * ```
+ */
+export async function prefetchImages(urls: readonly string[]): Promise<number> {
+  const native = getNativeModule();
+  const uniqueUrls = [...new Set(urls.filter((url) => typeof url === "string" && url.length > 0))];
+  if (!native || uniqueUrls.length === 0) return 0;
+  return native.prefetchImages(uniqueUrls);
 }
+
+/**
+ * Removes every image from the native image cache, e.g. to free memory when
+ * leaving the search screen. No-op when the native view is unavailable.
+ */
+export function clearImageCache(): void {
+  getNativeModule()?.clearImageCache();
+}
+
+/**
+ * Returns the size and limits of the native image cache.
+ * All values are 0 when the native view is unavailable.
+ */
+export function getImageCacheStats(): ImageCacheStats {
+  const native = getNativeModule();
+  if (!native) {
+    return { count: 0, totalCostBytes: 0, countLimit: 0, costLimitBytes: 0 };
+  }
+  return native.getImageCacheStats();
+}
+
+/**
+ * Changes the native image cache limits (100 images / 100 MB by default).
+ * Lowering a limit evicts the least recently used images. Negative or
+ * non-finite values are ignored with a development warning.
+ * No-op when the native view is unavailable.
+ *
+ * @example
+ * ```ts
+ * configureImageCache({ countLimit: 300, costLimitBytes: 200 * 1024 * 1024 });
+ * ```
+ */
+export function configureImageCache(config: ImageCacheConfig): void {
+  const limit = (name: keyof ImageCacheConfig): number | null => {
+    const value = config[name];
+    if (value === undefined) return null;
+    if (!Number.isFinite(value) || value < 0) {
+      if (typeof __DEV__ !== "undefined" && __DEV__) {
+        console.warn(
+          `[expo-tvos-search] configureImageCache: ${name} must be a non-negative number, got ${value}. Ignoring it.`
+        );
+      }
+      return null;
+    }
+    return Math.floor(value);
+  };
+
+  const countLimit = limit("countLimit");
+  const costLimitBytes = limit("costLimitBytes");
+  if (countLimit === null && costLimitBytes === null) return;
+  getNativeModule()?.configureImageCache(countLimit, costLimitBytes);
+}
+
+export type { ResolvedSearchViewProps } from "./eventHandlers";
+export { TvosSearchFallbackView } from "./TvosSearchFallbackView";
+export { buildAccessibilityLabel } from "./accessibility";
+export { withSearchAnalytics } from "./analytics";
+export { createTemplateImageUrlResolver } from "./imageUrlResolver";
+export { computeGridLayout, LAYOUT_PRESETS } from "./layout";
+export { normalizeQuery, queryNormalizers } from "./queryTransform";
+export { createSearchCache } from "./searchCache";
+export {
+  createAsyncStorageSearchHistory,
+  createInMemorySearchHistory,
+  createMemoryStorage,
+} from "./searchHistory";
+export { formatSearchString, getSearchStrings, registerSearchStrings } from "./strings";
+export { getSuggestions } from "./suggestions";
+export { createSearchTheme, searchThemePresets, ThemeProvider, useSearchTheme } from "./theme";
+export { useFocusedResult } from "./useFocusedResult";
+export { useSearchHistory } from "./useSearchHistory";
+export { useTvosSearch } from "./useTvosSearch";
+export { validateSearchViewProps } from "./validation";
+export type { SearchAnalyticsEvent, SearchAnalyticsSink } from "./analytics";
+export type { ImageSize, ImageUrlResolver } from "./imageUrlResolver";
+export type { GridLayout, GridLayoutOptions, LayoutPreset } from "./layout";
+export type { QueryNormalizer, QueryTransform } from "./queryTransform";
+export type { SearchCache, SearchCacheHit, SearchCacheOptions } from "./searchCache";
+export type {
+  SearchHistoryOptions,
+  SearchHistoryStorage,
+  SearchHistoryStore,
+} from "./searchHistory";
+export type { PluralForms, SearchStrings } from "./strings";
+export type { GetSuggestionsOptions, SuggestionSource } from "./suggestions";
+export type { DeepPartial, SearchThemeOverrides, SearchViewTheme } from "./theme";
+export type { UseFocusedResultOptions, UseFocusedResultResult } from "./useFocusedResult";
+export type { UseSearchHistoryResult } from "./useSearchHistory";
+export type {
+  FetchResultsContext,
+  SearchPage,
+  UseTvosSearchOptions,
+  UseTvosSearchResult,
+} from "./useTvosSearch";
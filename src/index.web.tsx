@@ -0,0 +1,70 @@
+/**
+ * Web entry point, resolved instead of index.tsx by bundlers that prefer
+ * `.web` files (Metro, webpack with react-native-web). `TvosSearchView` renders
+ * a DOM search view with arrow-key navigation instead of `null`; everything
+ * else is shared with index.tsx, except `TvosSearchFallbackView`, which needs
+ * react-native and is imported from `expo-tvos-search/fallback` instead.
+ */
+import type React from "react";
+import type {
+  ImageCacheConfig,
+  ImageCacheStats,
+  SearchResult,
+  TvosSearchViewHandle,
+  TvosSearchViewProps,
+} from "./index";
+import { TvosSearchWebView } from "./TvosSearchWebView";
+
+/**
+ * DOM implementation of the tvOS search view for TV-style browser builds.
+ * Accepts the same props and fires the same events as the native view;
+ * `fallback` is ignored since there is always something to render.
+ *
+ * @see TvosSearchWebView for the keyboard and focus behaviour
+ */
+export const TvosSearchView = TvosSearchWebView as <T extends SearchResult = SearchResult>(
+  props: TvosSearchViewProps<T> & React.RefAttributes<TvosSearchViewHandle>
+) => JSX.Element;
+
+/**
+ * On web, `TvosSearchView` always renders (as a DOM view), so this returns `true`.
+ */
+export function isNativeSearchAvailable(): boolean {
+  return true;
+}
+
+/** No image cache on web; browsers cache images themselves. Resolves to 0. */
+export async function prefetchImages(_urls: readonly string[]): Promise<number> {
+  return 0;
+}
+
+/** No-op on web. */
+export function clearImageCache(): void {}
+
+/** All values are 0 on web. */
+export function getImageCacheStats(): ImageCacheStats {
+  return { count: 0, totalCostBytes: 0, countLimit: 0, costLimitBytes: 0 };
+}
+
+/** No-op on web. */
+export function configureImageCache(_config: ImageCacheConfig): void {}
+
+export type * from "./index";
+export { buildAccessibilityLabel } from "./accessibility";
+export { withSearchAnalytics } from "./analytics";
+export { createTemplateImageUrlResolver } from "./imageUrlResolver";
+export { computeGridLayout, LAYOUT_PRESETS } from "./layout";
+export { normalizeQuery, queryNormalizers } from "./queryTransform";
+export { createSearchCache } from "./searchCache";
+export {
+  createAsyncStorageSearchHistory,
+  createInMemorySearchHistory,
+  createMemoryStorage,
+} from "./searchHistory";
+export { formatSearchString, getSearchStrings, registerSearchStrings } from "./strings";
+export { getSuggestions } from "./suggestions";
+export { createSearchTheme, searchThemePresets, ThemeProvider, useSearchTheme } from "./theme";
+export { useFocusedResult } from "./useFocusedResult";
+export { useSearchHistory } from "./useSearchHistory";
+export { useTvosSearch } from "./useTvosSearch";
+export { validateSearchViewProps } from "./validation";
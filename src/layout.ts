@@ -0,0 +1,135 @@
+/**
+ * Named card layouts for a full-width grid on a 1920pt tvOS screen.
+ * - `portrait`: 2:3 posters, 5 columns
+ * - `landscape`: 16:9 stills and channels, 3 columns
+ * - `square`: 1:1 artwork (albums, podcasts), 6 columns
+ * - `compact`: smaller 2:3 posters, 7 columns
+ */
+export type LayoutPreset = "portrait" | "landscape" | "square" | "compact";
+
+/**
+ * Options for `computeGridLayout`.
+ */
+export interface GridLayoutOptions {
+  /**
+   * Width available to the grid in points, including its side padding.
+   * @default 1920
+   */
+  containerWidth?: number;
+
+  /**
+   * Number of columns. When omitted, the count whose cards come closest to
+   * `targetCardWidth` is used.
+   */
+  columns?: number;
+
+  /** Card image width divided by height, e.g. `2 / 3` for posters or `16 / 9` for stills */
+  aspectRatio: number;
+
+  /**
+   * Spacing between cards in points.
+   * @default 40
+   */
+  margin?: number;
+
+  /**
+   * Preferred card width when `columns` is omitted.
+   * @default 280
+   */
+  targetCardWidth?: number;
+}
+
+/**
+ * Card geometry returned by `computeGridLayout`, named after the props it feeds.
+ */
+export interface GridLayout {
+  columns: number;
+  cardWidth: number;
+  cardHeight: number;
+  cardMargin: number;
+}
+
+/** Width of a 1080p tvOS screen in points. */
+export const TVOS_SCREEN_WIDTH = 1920;
+
+/** Horizontal padding on each side of the grid, matching TvosSearchContentView. */
+export const GRID_HORIZONTAL_PADDING = 60;
+
+// Same ranges the native module clamps to
+const MIN_COLUMNS = 1;
+const MAX_COLUMNS = 10;
+const MIN_CARD_SIZE = 50;
+const MAX_CARD_SIZE = 1000;
+
+const DEFAULT_MARGIN = 40;
+const DEFAULT_TARGET_CARD_WIDTH = 280;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(min, value), max);
+}
+
+/**
+ * Width a grid needs for `columns` cards of `cardWidth` with `cardMargin` between
+ * them, including the grid's side padding.
+ */
+export function requiredGridWidth(columns: number, cardWidth: number, cardMargin: number): number {
+  return columns * cardWidth + (columns - 1) * cardMargin + 2 * GRID_HORIZONTAL_PADDING;
+}
+
+/**
+ * Computes card sizes that fill the grid width for a given aspect ratio.
+ *
+ * Cards are as wide as the columns allow, and as tall as the aspect ratio
+ * requires. Columns and sizes are kept within the native ranges (1-10 columns,
+ * 50-1000pt cards). When that still overflows `containerWidth` (too many
+ * columns for the space), a warning is logged in development.
+ *
+ * @example
+ * ```tsx
+ * const layout = computeGridLayout({ columns: 4, aspectRatio: 16 / 9 });
+ * // { columns: 4, cardWidth: 420, cardHeight: 236, cardMargin: 40 }
+ *
+ * <TvosSearchView {...layout} results={episodes} />
+ * ```
+ */
+export function computeGridLayout(options: GridLayoutOptions): GridLayout {
+  const {
+    containerWidth = TVOS_SCREEN_WIDTH,
+    aspectRatio,
+    margin = DEFAULT_MARGIN,
+    targetCardWidth = DEFAULT_TARGET_CARD_WIDTH,
+  } = options;
+  const available = containerWidth - 2 * GRID_HORIZONTAL_PADDING;
+
+  const columns = clamp(
+    Math.floor(
+      options.columns ?? Math.round((available + margin) / (targetCardWidth + margin))
+    ),
+    MIN_COLUMNS,
+    MAX_COLUMNS
+  );
+  const cardWidth = clamp(
+    Math.floor((available - (columns - 1) * margin) / columns),
+    MIN_CARD_SIZE,
+    MAX_CARD_SIZE
+  );
+  const cardHeight = clamp(Math.round(cardWidth / aspectRatio), MIN_CARD_SIZE, MAX_CARD_SIZE);
+
+  const required = requiredGridWidth(columns, cardWidth, margin);
+  if (required > containerWidth && typeof __DEV__ !== "undefined" && __DEV__) {
+    console.warn(
+      `[expo-tvos-search] computeGridLayout: ${columns} columns of ${cardWidth}pt cards need ` +
+        `${required}pt, which overflows the ${containerWidth}pt container.`
+    );
+  }
+
+  return { columns, cardWidth, cardHeight, cardMargin: margin };
+}
+
+/** Geometry for each `layout` preset on a full-width 1920pt grid. */
+export const LAYOUT_PRESETS: Readonly<Record<LayoutPreset, GridLayout>> = {
+  portrait: computeGridLayout({ columns: 5, aspectRatio: 2 / 3 }),
+  landscape: computeGridLayout({ columns: 3, aspectRatio: 16 / 9 }),
+  square: computeGridLayout({ columns: 6, aspectRatio: 1 }),
+  compact: computeGridLayout({ columns: 7, aspectRatio: 2 / 3, margin: 30 }),
+};
@@ -0,0 +1,34 @@
+import type React from "react";
+import type { ResolvedSearchViewProps } from "./eventHandlers";
+
+/**
+ * View functions registered by ExpoTvosSearchModule, available on the native view's ref.
+ */
+export interface NativeViewMethods {
+  focusSearchField(): Promise<void>;
+  blurSearchField(): Promise<void>;
+  clear(): Promise<void>;
+  setQuery(text: string, emit: boolean): Promise<void>;
+  scrollToTop(): Promise<void>;
+  scrollToItem(id: string): Promise<void>;
+}
+
+/** `accessibilityLabel` is sent as `searchFieldAccessibilityLabel` so it labels the field, not the whole view. */
+export type NativeViewProps = Omit<ResolvedSearchViewProps, "accessibilityLabel"> & {
+  searchFieldAccessibilityLabel?: string;
+} & React.RefAttributes<NativeViewMethods>;
+
+/**
+ * Component rendered in place of the native view, set by `expo-tvos-search/testing`.
+ * `undefined` uses the view loaded from the native module, `null` makes the
+ * native view unavailable.
+ */
+let nativeViewOverride: React.ComponentType<NativeViewProps> | null | undefined;
+
+export function setNativeViewOverride(view: React.ComponentType<NativeViewProps> | null | undefined): void {
+  nativeViewOverride = view;
+}
+
+export function getNativeViewOverride(): React.ComponentType<NativeViewProps> | null | undefined {
+  return nativeViewOverride;
+}
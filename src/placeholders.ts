@@ -0,0 +1,112 @@
+/**
+ * Placeholder helpers shared by validation and the JS views. The format checks
+ * and initials mirror BlurHashDecoder, ThumbHashDecoder and SearchResultItem
+ * in ios/, so warnings and tiles match the native view.
+ */
+
+const BASE83_CHARACTERS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+const BASE64_CHARACTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Longest accepted hash, matching ExpoTvosSearchView.maxPlaceholderHashLength. */
+const MAX_HASH_LENGTH = 200;
+
+/** Tile colors for `renderInitials`, matching SearchResultItem.initialsColors. */
+export const INITIALS_COLORS = [
+  "#E53935",
+  "#D81B60",
+  "#8E24AA",
+  "#3949AB",
+  "#039BE5",
+  "#00897B",
+  "#43A047",
+  "#FB8C00",
+] as const;
+
+/**
+ * Returns `true` when `hash` is a well-formed BlurHash: base83 characters only,
+ * with the length its size flag (first character) calls for.
+ */
+export function isValidBlurhash(hash: string): boolean {
+  if (hash.length < 6 || hash.length > MAX_HASH_LENGTH) return false;
+  for (const character of hash) {
+    if (!BASE83_CHARACTERS.includes(character)) return false;
+  }
+  const sizeFlag = BASE83_CHARACTERS.indexOf(hash[0]);
+  const componentsX = (sizeFlag % 9) + 1;
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  return hash.length === 4 + 2 * componentsX * componentsY;
+}
+
+/** Decodes standard base64 (padding optional), or returns null when malformed. */
+function decodeBase64(value: string): number[] | null {
+  const unpadded = value.replace(/={1,2}$/, "");
+  if (unpadded.length % 4 === 1) return null;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const character of unpadded) {
+    const digit = BASE64_CHARACTERS.indexOf(character);
+    if (digit === -1) return null;
+    buffer = ((buffer << 6) | digit) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+/** Number of AC coefficients stored for an nx × ny ThumbHash channel. */
+function coefficientCount(nx: number, ny: number): number {
+  let count = 0;
+  for (let cy = 0; cy < ny; cy++) {
+    for (let cx = cy ? 0 : 1; cx * ny < nx * (ny - cy); cx++) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Returns `true` when `hash` is base64 and long enough for the channels its
+ * ThumbHash header declares.
+ */
+export function isValidThumbhash(hash: string): boolean {
+  if (hash.length === 0 || hash.length > MAX_HASH_LENGTH) return false;
+  const bytes = decodeBase64(hash);
+  if (!bytes || bytes.length < 5) return false;
+
+  const hasAlpha = (bytes[2] & 0x80) !== 0;
+  const isLandscape = (bytes[4] & 0x80) !== 0;
+  const lx = Math.max(3, isLandscape ? (hasAlpha ? 5 : 7) : bytes[3] & 7);
+  const ly = Math.max(3, isLandscape ? bytes[3] & 7 : hasAlpha ? 5 : 7);
+  const count =
+    coefficientCount(lx, ly) + 2 * coefficientCount(3, 3) + (hasAlpha ? coefficientCount(5, 5) : 0);
+  return bytes.length >= (hasAlpha ? 6 : 5) + Math.ceil(count / 2);
+}
+
+/**
+ * First letter or digit of the title's first two words, uppercased
+ * (`"star wars: a new hope"` → `"SW"`).
+ */
+export function getInitials(title: string): string {
+  return title
+    .split(/\s+/)
+    .map((word) => Array.from(word).find((character) => /[\p{L}\p{N}]/u.test(character)))
+    .filter((initial): initial is string => initial !== undefined)
+    .slice(0, 2)
+    .map((initial) => initial.toUpperCase())
+    .join("");
+}
+
+/** Initials tile color for a title, stable across renders and platforms. */
+export function getInitialsColor(title: string): string {
+  // djb2 over UTF-16 code units, wrapping at 32 bits like the Swift implementation
+  let hash = 5381;
+  for (let i = 0; i < title.length; i++) {
+    hash = (Math.imul(hash, 33) + title.charCodeAt(i)) >>> 0;
+  }
+  return INITIALS_COLORS[hash % INITIALS_COLORS.length];
+}
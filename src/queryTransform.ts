@@ -0,0 +1,89 @@
+import { useRef } from "react";
+import type { SearchEvent } from "./index";
+
+/**
+ * Rewrites a query before it reaches `onSearch`. Returning `""` drops the
+ * query: it is reported as empty, as if the field were cleared.
+ */
+export type QueryNormalizer = (query: string) => string;
+
+/** A normalizer, or a list of normalizers applied in order. */
+export type QueryTransform = QueryNormalizer | readonly QueryNormalizer[];
+
+/**
+ * Built-in normalizers for `queryTransform`.
+ * - `trim`: removes leading and trailing whitespace
+ * - `collapseWhitespace`: turns runs of whitespace into a single space
+ * - `stripDiacritics`: removes accents and other combining marks (`"Amélie"` → `"Amelie"`)
+ * - `lowercase`: lowercases using the default locale rules
+ * - `minLength(n)`: drops queries shorter than `n` characters
+ */
+export const queryNormalizers = {
+  trim: ((query) => query.trim()) as QueryNormalizer,
+  collapseWhitespace: ((query) => query.replace(/\s+/g, " ")) as QueryNormalizer,
+  // Decompose, drop the combining marks, then recompose (e.g. Hangul syllables)
+  stripDiacritics: ((query) =>
+    query.normalize("NFD").replace(/[\u0300-\u036f]/g, "").normalize("NFC")) as QueryNormalizer,
+  lowercase: ((query) => query.toLowerCase()) as QueryNormalizer,
+  minLength:
+    (length: number): QueryNormalizer =>
+    (query) =>
+      query.length < length ? "" : query,
+};
+
+/**
+ * Applies `transform` to `query`, stopping early once a normalizer drops it.
+ *
+ * @example
+ * ```ts
+ * const { trim, collapseWhitespace, stripDiacritics } = queryNormalizers;
+ * normalizeQuery("  Amélie   Poulain ", [trim, collapseWhitespace, stripDiacritics]);
+ * // "Amelie Poulain"
+ * ```
+ */
+export function normalizeQuery(query: string, transform: QueryTransform): string {
+  const normalizers = typeof transform === "function" ? [transform] : transform;
+  let normalized = query;
+  for (const normalizer of normalizers) {
+    if (normalized === "") break;
+    normalized = normalizer(normalized);
+  }
+  return normalized;
+}
+
+/**
+ * Runs `onSearch` events through the `queryTransform` prop. The handler only
+ * fires when the normalized query or the scope changes, so keystrokes that
+ * normalize to the same query (e.g. a trailing space with `trim`) don't search again.
+ * The field keeps the raw text; nothing is sent back to the view.
+ * Without a transform, props are returned unchanged apart from removing `queryTransform`.
+ */
+export function useQueryTransform<
+  P extends { queryTransform?: QueryTransform; onSearch?: (event: SearchEvent) => void },
+>(props: P): Omit<P, "queryTransform"> {
+  const { queryTransform, ...rest } = props;
+
+  // Latest transform and handler, so the wrapped handler stays stable across renders
+  const latestRef = useRef({ queryTransform, onSearch: rest.onSearch });
+  latestRef.current = { queryTransform, onSearch: rest.onSearch };
+
+  // Last query and scope passed on, or null before the first one
+  const lastSearchRef = useRef<SearchEvent["nativeEvent"] | null>(null);
+
+  const onSearchRef = useRef<((event: SearchEvent) => void) | null>(null);
+  if (!onSearchRef.current) {
+    onSearchRef.current = (event) => {
+      const { queryTransform: transform, onSearch } = latestRef.current;
+      const raw = event.nativeEvent.query;
+      const query = transform ? normalizeQuery(raw, transform) : raw;
+      const last = lastSearchRef.current;
+      if (last && query === last.query && event.nativeEvent.scopeId === last.scopeId) return;
+      const nativeEvent = { ...event.nativeEvent, query };
+      lastSearchRef.current = nativeEvent;
+      onSearch?.({ nativeEvent });
+    };
+  }
+
+  if (!queryTransform || !rest.onSearch) return rest;
+  return { ...rest, onSearch: onSearchRef.current };
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ScopeChangeEvent, SearchEvent, SearchScope } from "./index";
+import { MAX_SCOPES } from "./validation";
+
+/**
+ * Scopes the views show: the first 10, skipping entries without an id or
+ * title, like ExpoTvosSearchModule.swift and ExpoTvosSearchView.updateScopes.
+ */
+export function getValidScopes(scopes: readonly SearchScope[]): SearchScope[] {
+  return scopes.slice(0, MAX_SCOPES).filter((scope) => scope.id && scope.title);
+}
+
+/**
+ * The first candidate naming one of `scopes`, otherwise the first scope
+ * (`undefined` without scopes).
+ */
+function resolveScope(
+  scopes: readonly SearchScope[],
+  ...candidates: (string | undefined)[]
+): string | undefined {
+  const match = candidates.find(
+    (candidate) => candidate !== undefined && scopes.some((scope) => scope.id === candidate)
+  );
+  return match ?? scopes[0]?.id;
+}
+
+/**
+ * Selected scope for the JS views, mirroring ExpoTvosSearchView.applySelectedScope
+ * and SearchViewModel.selectScope:
+ * - A `selectedScope` naming one of `scopes` is always the selected scope
+ * - Otherwise the view picks its own: the current scope while it still exists,
+ *   falling back to the first scope
+ * - `selectScope` (a user pick) fires `onScopeChange`, and switches only when
+ *   `selectedScope` doesn't control the selection
+ * - `onSwitch` runs whenever the scope changes from one scope to another, so
+ *   the view can search again
+ */
+export function useSearchScope(
+  scopes: readonly SearchScope[],
+  selectedScope: string | undefined,
+  onScopeChange: ((event: ScopeChangeEvent) => void) | undefined,
+  onSwitch: (scopeId: string) => void
+): { scopes: SearchScope[]; scopeId: string | undefined; selectScope: (id: string) => void } {
+  const validScopes = getValidScopes(scopes);
+  const controlled = selectedScope !== undefined && validScopes.some((scope) => scope.id === selectedScope);
+  // Scope shown while `selectedScope` doesn't name one; follows the prop while it does,
+  // so the selection stays put if the prop is later cleared
+  const [current, setCurrent] = useState(selectedScope);
+  if (controlled && current !== selectedScope) {
+    setCurrent(selectedScope);
+  }
+  const scopeId = resolveScope(validScopes, selectedScope, current);
+
+  const onSwitchRef = useRef(onSwitch);
+  onSwitchRef.current = onSwitch;
+  const previousRef = useRef(scopeId);
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = scopeId;
+    if (previous !== undefined && scopeId !== undefined && previous !== scopeId) {
+      onSwitchRef.current(scopeId);
+    }
+  }, [scopeId]);
+
+  const latestRef = useRef({ scopeId, controlled, onScopeChange });
+  latestRef.current = { scopeId, controlled, onScopeChange };
+  const selectScope = useCallback((id: string) => {
+    const latest = latestRef.current;
+    if (id === latest.scopeId) return;
+    latest.onScopeChange?.({ nativeEvent: { scopeId: id } });
+    // A controlled scope only changes once the app passes the new `selectedScope`
+    if (!latest.controlled) setCurrent(id);
+  }, []);
+
+  return { scopes: validScopes, scopeId, selectScope };
+}
+
+/** `onSearch` payload for a query, with `scopeId` only when a scope is selected. */
+export function searchEvent(query: string, scopeId: string | undefined): SearchEvent {
+  return { nativeEvent: scopeId === undefined ? { query } : { query, scopeId } };
+}
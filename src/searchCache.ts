@@ -0,0 +1,185 @@
+import type { SearchResult } from "./index";
+
+/**
+ * Options for `createSearchCache`.
+ */
+export interface SearchCacheOptions<T extends SearchResult = SearchResult> {
+  /**
+   * Maximum number of queries kept; the least recently used are evicted first.
+   * @default 50
+   */
+  maxEntries?: number;
+
+  /**
+   * How long cached results stay fresh, in milliseconds. Stale results are still
+   * returned, flagged so callers refetch them in the background.
+   * @default 300000 (5 minutes)
+   */
+  ttlMs?: number;
+
+  /**
+   * Maps a query to its cache key. By default queries that differ only in case
+   * or surrounding/repeated whitespace share an entry.
+   */
+  normalizeKey?: (query: string) => string;
+
+  /**
+   * Whether a result of a broader cached query also matches `query`, used to
+   * filter the cached results locally. `query` is already normalized with
+   * `normalizeKey`. By default the normalized title or subtitle must contain it.
+   */
+  matchesQuery?: (result: T, query: string) => boolean;
+}
+
+/**
+ * Results returned by `SearchCache.get`.
+ */
+export interface SearchCacheHit<T extends SearchResult = SearchResult> {
+  results: T[];
+  /** Cursor for the next page when the cached results were paginated */
+  nextCursor: string | null;
+  /**
+   * Whether the results should be refetched: they are older than `ttlMs`, or
+   * were filtered from a broader query (`exact` is false)
+   */
+  stale: boolean;
+  /** `false` when the results were filtered from a cached prefix of the query */
+  exact: boolean;
+}
+
+/**
+ * In-memory LRU cache of search results keyed by normalized query and, with
+ * `scopes`, by scope, so results for one scope are never shown for another.
+ * Pass it to `useTvosSearch` through the `cache` option, or use it directly from `onSearch`.
+ */
+export interface SearchCache<T extends SearchResult = SearchResult> {
+  /**
+   * Returns the cached results for `query`, or, when it isn't cached, the
+   * results of the longest cached prefix (e.g. "star" for "star w") filtered
+   * with `matchesQuery`. Only complete result sets (no `nextCursor`) are filtered.
+   * Only results stored with the same `scopeId` are considered.
+   * Returns `null` on a miss.
+   */
+  get(query: string, scopeId?: string): SearchCacheHit<T> | null;
+  /** Stores the results for `query` in the scope `scopeId`, marking them fresh */
+  set(query: string, results: T[], nextCursor?: string | null, scopeId?: string): void;
+  /**
+   * Removes cached queries: every query when called without arguments (e.g. after
+   * the catalog changes), the given query, or the queries a predicate matches.
+   * Queries are removed in every scope; the predicate receives the normalized query.
+   */
+  invalidate(query?: string | ((key: string) => boolean)): void;
+  /** Number of cached queries, counting a query cached in two scopes twice */
+  readonly size: number;
+}
+
+interface CacheEntry<T> {
+  /** Normalized query */
+  key: string;
+  results: T[];
+  nextCursor: string | null;
+  storedAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+function defaultNormalizeKey(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Map key for a normalized query within a scope. */
+function entryKey(key: string, scopeId: string | undefined): string {
+  return scopeId === undefined ? key : `${scopeId}\u0000${key}`;
+}
+
+/**
+ * Creates an LRU cache of search results with stale-while-revalidate semantics.
+ *
+ * Retyping a query (or backspacing to one already searched) returns its results
+ * instantly. Narrowing a query filters the results of a broader one locally
+ * until the fresh response arrives.
+ *
+ * @example
+ * ```ts
+ * const searchCache = createSearchCache<Movie>({ maxEntries: 100, ttlMs: 60_000 });
+ *
+ * const searchProps = useTvosSearch({ fetchResults, cache: searchCache });
+ *
+ * // After the catalog changes
+ * searchCache.invalidate();
+ * ```
+ */
+export function createSearchCache<T extends SearchResult = SearchResult>(
+  options: SearchCacheOptions<T> = {}
+): SearchCache<T> {
+  const maxEntries = Math.max(1, Math.floor(options.maxEntries ?? DEFAULT_MAX_ENTRIES));
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const normalizeKey = options.normalizeKey ?? defaultNormalizeKey;
+  const matchesQuery =
+    options.matchesQuery ??
+    ((result: T, query: string) =>
+      normalizeKey(result.title).includes(query) ||
+      (result.subtitle !== undefined && normalizeKey(result.subtitle).includes(query)));
+
+  // Map iteration order is insertion order, so the first key is the least recently used
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const touch = (mapKey: string, entry: CacheEntry<T>) => {
+    entries.delete(mapKey);
+    entries.set(mapKey, entry);
+  };
+
+  const isStale = (entry: CacheEntry<T>) => Date.now() - entry.storedAt >= ttlMs;
+
+  return {
+    get(query, scopeId) {
+      const key = normalizeKey(query);
+      const entry = entries.get(entryKey(key, scopeId));
+      if (entry) {
+        touch(entryKey(key, scopeId), entry);
+        return { results: entry.results, nextCursor: entry.nextCursor, stale: isStale(entry), exact: true };
+      }
+
+      for (let length = key.length - 1; length > 0; length--) {
+        const prefix = entryKey(key.slice(0, length), scopeId);
+        const broader = entries.get(prefix);
+        if (!broader || broader.nextCursor !== null) continue;
+        touch(prefix, broader);
+        return {
+          results: broader.results.filter((result) => matchesQuery(result, key)),
+          nextCursor: null,
+          stale: true,
+          exact: false,
+        };
+      }
+      return null;
+    },
+
+    set(query, results, nextCursor = null, scopeId) {
+      const key = normalizeKey(query);
+      touch(entryKey(key, scopeId), { key, results, nextCursor, storedAt: Date.now() });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    invalidate(query) {
+      if (query === undefined) {
+        entries.clear();
+      } else {
+        const matches =
+          typeof query === "string"
+            ? ((key: string) => key === normalizeKey(query))
+            : query;
+        for (const [mapKey, entry] of [...entries]) {
+          if (matches(entry.key)) entries.delete(mapKey);
+        }
+      }
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
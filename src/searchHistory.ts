@@ -0,0 +1,172 @@
+/**
+ * Persists recent search queries, most recent first.
+ *
+ * All methods are async so implementations can be backed by storage like
+ * AsyncStorage; mutating methods resolve with the updated list.
+ */
+export interface SearchHistoryStore {
+  /** Loads the recent searches, most recent first */
+  getRecentSearches(): Promise<string[]>;
+  /** Records a query, moving it to the front if already present */
+  addRecentSearch(query: string): Promise<string[]>;
+  /** Removes a single query */
+  removeRecentSearch(query: string): Promise<string[]>;
+  /** Removes every recent search */
+  clear(): Promise<void>;
+}
+
+/**
+ * Key-value storage with the AsyncStorage API subset the history store needs.
+ * `@react-native-async-storage/async-storage` satisfies it directly.
+ */
+export interface SearchHistoryStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Options shared by the search history adapters.
+ */
+export interface SearchHistoryOptions {
+  /**
+   * Maximum number of queries kept; older ones are dropped.
+   * @default 10
+   */
+  maxSize?: number;
+
+  /**
+   * Profile the history belongs to, so each profile on a shared TV keeps its own list.
+   * @default "default"
+   */
+  profileId?: string;
+
+  /**
+   * Storage key prefix; the profile id is appended to it.
+   * @default "expo-tvos-search:history"
+   */
+  keyPrefix?: string;
+}
+
+const DEFAULT_MAX_SIZE = 10;
+const DEFAULT_PROFILE_ID = "default";
+const DEFAULT_KEY_PREFIX = "expo-tvos-search:history";
+
+/** Queries that differ only in case or surrounding/repeated whitespace are duplicates. */
+function dedupeKey(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function parseHistory(raw: string | null): string[] {
+  if (raw === null) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    // Corrupt entries shouldn't break search; start over
+    return [];
+  }
+}
+
+/** Pending mutations per storage and key; each waits for the one before it. */
+const writeQueues = new WeakMap<SearchHistoryStorage, Map<string, Promise<unknown>>>();
+
+/**
+ * Runs a read-modify-write after earlier ones on the same storage key, so two
+ * quick adds (a suggestion pick followed by a submit) can't both read the old
+ * list and drop an entry.
+ */
+function enqueueWrite<T>(storage: SearchHistoryStorage, key: string, task: () => Promise<T>): Promise<T> {
+  const queues = writeQueues.get(storage) ?? new Map<string, Promise<unknown>>();
+  writeQueues.set(storage, queues);
+  const result = (queues.get(key) ?? Promise.resolve()).then(task);
+  // A failed write rejects its own caller but doesn't block the ones after it
+  const tail = result.catch(() => undefined);
+  queues.set(key, tail);
+  void tail.then(() => {
+    if (queues.get(key) === tail) queues.delete(key);
+  });
+  return result;
+}
+
+/**
+ * Creates a search history store on top of any AsyncStorage-compatible storage.
+ *
+ * Queries are trimmed, empty queries are ignored, and duplicates (ignoring case
+ * and whitespace) are collapsed into the most recent entry. Changes to the same
+ * storage key are applied one at a time, in call order.
+ *
+ * @example
+ * ```ts
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * const history = createAsyncStorageSearchHistory(AsyncStorage, { profileId: user.id, maxSize: 8 });
+ * ```
+ */
+export function createAsyncStorageSearchHistory(
+  storage: SearchHistoryStorage,
+  options: SearchHistoryOptions = {}
+): SearchHistoryStore {
+  const {
+    maxSize = DEFAULT_MAX_SIZE,
+    profileId = DEFAULT_PROFILE_ID,
+    keyPrefix = DEFAULT_KEY_PREFIX,
+  } = options;
+  const key = `${keyPrefix}:${profileId}`;
+  const limit = Math.max(0, Math.floor(maxSize));
+
+  const read = async () => parseHistory(await storage.getItem(key));
+  const write = async (queries: string[]) => {
+    await storage.setItem(key, JSON.stringify(queries));
+    return queries;
+  };
+
+  return {
+    getRecentSearches: async () => (await read()).slice(0, limit),
+    addRecentSearch: (query) =>
+      enqueueWrite(storage, key, async () => {
+        const trimmed = query.trim();
+        const current = await read();
+        if (!trimmed) return current.slice(0, limit);
+        const keyed = dedupeKey(trimmed);
+        const rest = current.filter((entry) => dedupeKey(entry) !== keyed);
+        return write([trimmed, ...rest].slice(0, limit));
+      }),
+    removeRecentSearch: (query) =>
+      enqueueWrite(storage, key, async () => {
+        const keyed = dedupeKey(query);
+        return write((await read()).filter((entry) => dedupeKey(entry) !== keyed));
+      }),
+    clear: () => enqueueWrite(storage, key, () => storage.removeItem(key)),
+  };
+}
+
+/**
+ * Creates a search history store kept in memory for the lifetime of the app.
+ * Useful for tests, web demos, or when persistence isn't wanted.
+ *
+ * Stores created with the same `storage` share it, namespaced by `profileId`.
+ */
+export function createInMemorySearchHistory(
+  options: SearchHistoryOptions & { storage?: SearchHistoryStorage } = {}
+): SearchHistoryStore {
+  const { storage = createMemoryStorage(), ...rest } = options;
+  return createAsyncStorageSearchHistory(storage, rest);
+}
+
+/**
+ * Map-backed `SearchHistoryStorage`, for sharing one in-memory backend
+ * between several profiles' history stores.
+ */
+export function createMemoryStorage(): SearchHistoryStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
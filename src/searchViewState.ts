@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useImperativeHandle, useRef, useState } from "react";
+import type {
+  EndReachedEvent,
+  ScopeChangeEvent,
+  SearchEvent,
+  SearchResult,
+  SearchScope,
+  SearchSection,
+  SearchSuggestion,
+  TvosSearchViewHandle,
+  TvosSearchViewProps,
+} from "./index";
+import { searchEvent, useSearchScope } from "./scopes";
+import { MAX_RESULTS } from "./validation";
+
+// State and rules shared by TvosSearchFallbackView and TvosSearchWebView, so
+// both JS views behave like SearchViewModel in ios/ExpoTvosSearchView.swift.
+// Defaults mirror SearchViewModel.
+export const DEFAULT_COLUMNS = 5;
+export const DEFAULT_PLACEHOLDER = "Search...";
+export const DEFAULT_ACCENT_COLOR = "#FFC312";
+export const DEFAULT_CARD_WIDTH = 280;
+export const DEFAULT_CARD_HEIGHT = 420;
+export const DEFAULT_CARD_MARGIN = 40;
+export const DEFAULT_CARD_PADDING = 16;
+export const DEFAULT_OVERLAY_TITLE_SIZE = 20;
+export const DEFAULT_EMPTY_STATE_TEXT = "Search your library";
+export const DEFAULT_SEARCHING_TEXT = "Searching...";
+export const DEFAULT_NO_RESULTS_TEXT = "No results found";
+export const DEFAULT_NO_RESULTS_HINT_TEXT = "Try a different search term";
+export const DEFAULT_END_REACHED_THRESHOLD = 1;
+export const DEFAULT_RECENT_SEARCHES_TITLE = "Recent Searches";
+export const DEFAULT_CLEAR_HISTORY_TEXT = "Clear Recent Searches";
+export const DEFAULT_RESULTS_ANNOUNCEMENT = "{count} results";
+export const MAX_RECENT_SEARCHES = 20;
+const MAX_SUGGESTIONS = 20;
+
+/** Same range the native module clamps `columns` to. */
+export function clampColumns(columns: number): number {
+  return Math.min(Math.max(1, Math.floor(columns)), 10);
+}
+
+/** Text color for `colorScheme` unless the theme or props set `textColor`. */
+export function getTextColor(
+  textColor: string | undefined,
+  colorScheme: TvosSearchViewProps["colorScheme"]
+): string {
+  return textColor ?? (colorScheme === "light" ? "#000000" : "#FFFFFF");
+}
+
+/** Match the native view: results with empty id or title are skipped. */
+function isValidResult(item: SearchResult): boolean {
+  return Boolean(item.id && item.title);
+}
+
+/**
+ * Shown results: the first 500, like ExpoTvosSearchModule.swift, skipping the
+ * ones the native view skips.
+ */
+export function getValidResults<T extends SearchResult>(results: T[]): T[] {
+  return results.slice(0, MAX_RESULTS).filter(isValidResult);
+}
+
+/**
+ * Shown sections, or `null` without `sections`. Like the native module, the
+ * 500-result cap applies across all sections combined. Sections without an id
+ * are skipped, and so are sections left with no valid results.
+ */
+export function getValidSections<T extends SearchResult>(
+  sections: SearchSection<T>[] | undefined
+): SearchSection<T>[] | null {
+  if (!sections) return null;
+  let remaining = MAX_RESULTS;
+  return sections
+    .map((section) => {
+      const kept = section.results.slice(0, remaining);
+      remaining -= kept.length;
+      return { ...section, results: kept.filter(isValidResult) };
+    })
+    .filter((section) => section.id && section.results.length > 0);
+}
+
+/** A section's card size and column count, falling back to the view's. */
+export function getSectionLayout(
+  section: SearchSection,
+  view: { columns: number; cardWidth: number; cardHeight: number }
+): { columns: number; cardWidth: number; cardHeight: number } {
+  return {
+    columns: clampColumns(section.layout?.columns ?? view.columns),
+    cardWidth: section.layout?.cardWidth ?? view.cardWidth,
+    cardHeight: section.layout?.cardHeight ?? view.cardHeight,
+  };
+}
+
+/** Shown suggestions: the first 20, skipping entries without an id or text. */
+export function getValidSuggestions(suggestions: SearchSuggestion[]): SearchSuggestion[] {
+  return suggestions.slice(0, MAX_SUGGESTIONS).filter((suggestion) => suggestion.id && suggestion.text);
+}
+
+/**
+ * Mirrors SearchViewModel.currentAnnouncement: `searchingText` while loading
+ * with nothing shown, then the result count (or `noResultsText`).
+ *
+ * @returns The text to announce, or `null` when there is nothing to announce
+ */
+export function getResultsAnnouncement(
+  query: string,
+  resultCount: number,
+  isLoading: boolean,
+  texts: {
+    searchingText: string;
+    noResultsText: string;
+    template: TvosSearchViewProps["accessibilityResultsAnnouncement"];
+  }
+): string | null {
+  if (query === "") return null;
+  if (isLoading) return resultCount > 0 ? null : texts.searchingText;
+  if (resultCount === 0) return texts.noResultsText;
+  if (typeof texts.template !== "string") return null;
+  return texts.template.split("{count}").join(String(resultCount)).split("{query}").join(query);
+}
+
+/**
+ * Passes `announcement` to `announce` after the render that produced it, once
+ * per text and query.
+ */
+export function useResultsAnnouncement(
+  announcement: string | null,
+  query: string,
+  announce: (text: string) => void
+): void {
+  const announceRef = useRef(announce);
+  announceRef.current = announce;
+  const lastRef = useRef<{ text: string; query: string } | null>(null);
+
+  useEffect(() => {
+    if (announcement === null) return;
+    const last = lastRef.current;
+    if (last && last.text === announcement && last.query === query) return;
+    lastRef.current = { text: announcement, query };
+    announceRef.current(announcement);
+  }, [announcement, query]);
+}
+
+/** The search field's text and selected scope. */
+export interface SearchQueryState {
+  query: string;
+  /** Latest query, for callbacks that aren't recreated on every render */
+  queryRef: React.MutableRefObject<string>;
+  /** Sets the field's text without searching */
+  setQueryText: (text: string) => void;
+  /** Sets the field's text and fires `onSearch` with the selected scope */
+  handleChangeText: (text: string) => void;
+  scopes: SearchScope[];
+  scopeId: string | undefined;
+  selectScope: (id: string) => void;
+}
+
+/**
+ * The search field's text, kept in sync with `searchText` like
+ * ExpoTvosSearchView.searchTextProp, and the selected scope. Switching scopes
+ * with a query in the field searches again, like SearchViewModel.selectedScope.
+ */
+export function useSearchQuery(props: {
+  searchText?: string;
+  onSearch?: (event: SearchEvent) => void;
+  scopes: readonly SearchScope[];
+  selectedScope?: string;
+  onScopeChange?: (event: ScopeChangeEvent) => void;
+}): SearchQueryState {
+  const { searchText, onSearch } = props;
+  const [query, setQueryText] = useState(searchText ?? "");
+
+  // Latest query, so the searchText effect can apply the same-value guard as the native view
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const onSearchRef = useRef(onSearch);
+  onSearchRef.current = onSearch;
+
+  const { scopes, scopeId, selectScope } = useSearchScope(
+    props.scopes,
+    props.selectedScope,
+    props.onScopeChange,
+    (id) => {
+      if (queryRef.current !== "") onSearchRef.current?.(searchEvent(queryRef.current, id));
+    }
+  );
+  const scopeIdRef = useRef(scopeId);
+  scopeIdRef.current = scopeId;
+
+  const handleChangeText = useCallback((text: string) => {
+    setQueryText(text);
+    onSearchRef.current?.(searchEvent(text, scopeIdRef.current));
+  }, []);
+
+  // Only apply `searchText` when it differs from the current text
+  useEffect(() => {
+    if (searchText === undefined || searchText === queryRef.current) return;
+    handleChangeText(searchText);
+  }, [searchText, handleChangeText]);
+
+  return { query, queryRef, setQueryText, handleChangeText, scopes, scopeId, selectScope };
+}
+
+/**
+ * Mirrors SearchViewModel.resultDidAppear: the returned function fires
+ * `onEndReached` once per page, re-armed when a page load finishes.
+ */
+export function useEndReached(
+  resultCount: number,
+  props: {
+    hasMore: boolean;
+    isLoadingMore: boolean;
+    onEndReached?: (event: EndReachedEvent) => void;
+  }
+): () => void {
+  const { hasMore, isLoadingMore, onEndReached } = props;
+  const endReachedCountRef = useRef<number | null>(null);
+
+  // Re-arm once a page load finishes
+  useEffect(() => {
+    if (!isLoadingMore) endReachedCountRef.current = null;
+  }, [isLoadingMore]);
+
+  return () => {
+    if (!hasMore || isLoadingMore || endReachedCountRef.current === resultCount) return;
+    endReachedCountRef.current = resultCount;
+    onEndReached?.({ nativeEvent: { resultCount } });
+  };
+}
+
+/** How a view scrolls its grid, for `TvosSearchViewHandle`. */
+export interface SearchViewScroller {
+  scrollToTop(): void;
+  /** Scrolls to the result with `id`, returning `false` when it isn't shown */
+  scrollToItem(id: string): boolean;
+}
+
+/**
+ * Exposes `TvosSearchViewHandle` on `ref`. `scroller` may change on every
+ * render; the handle always uses the latest one.
+ */
+export function useSearchViewHandle(
+  ref: React.ForwardedRef<TvosSearchViewHandle>,
+  search: SearchQueryState,
+  inputRef: React.RefObject<{ focus(): void; blur(): void }>,
+  scroller: SearchViewScroller
+): void {
+  const { queryRef, setQueryText, handleChangeText } = search;
+  const scrollerRef = useRef(scroller);
+  scrollerRef.current = scroller;
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      focusSearchField: () => inputRef.current?.focus(),
+      blurSearchField: () => inputRef.current?.blur(),
+      clear: () => {
+        if (queryRef.current !== "") handleChangeText("");
+      },
+      setQuery: (text, options) => {
+        if (text === queryRef.current) return;
+        if (options?.emit ?? true) {
+          handleChangeText(text);
+        } else {
+          setQueryText(text);
+        }
+      },
+      scrollToTop: () => scrollerRef.current.scrollToTop(),
+      scrollToItem: (id) => {
+        if (scrollerRef.current.scrollToItem(id)) return;
+        if (typeof __DEV__ !== "undefined" && __DEV__) {
+          console.warn(`[expo-tvos-search] scrollToItem: id '${id}' is not in results.`);
+        }
+      },
+    }),
+    [handleChangeText]
+  );
+}
@@ -0,0 +1,34 @@
+import type { SearchResult, TvosSearchViewProps } from "./index";
+
+type ResultSource<T extends SearchResult> = Pick<TvosSearchViewProps<T>, "results" | "sections">;
+
+/**
+ * Results in display order: every section's results when `sections` is
+ * provided, otherwise `results`.
+ */
+export function flattenResults<T extends SearchResult>(props: ResultSource<T>): T[] {
+  if (props.sections) {
+    return props.sections.flatMap((section) => section.results);
+  }
+  return props.results ?? [];
+}
+
+/**
+ * Finds a selected result by id. With `sections`, the lookup is scoped to the
+ * section named by `sectionId` and `index` is the position within that section.
+ *
+ * @returns The result and its index, or `null` when it isn't shown
+ */
+export function findResult<T extends SearchResult>(
+  props: ResultSource<T>,
+  id: string,
+  sectionId?: string
+): { item: T; index: number } | null {
+  let results = props.results ?? [];
+  if (props.sections) {
+    const section = props.sections.find((candidate) => candidate.id === sectionId);
+    results = section?.results ?? [];
+  }
+  const index = results.findIndex((result) => result.id === id);
+  return index === -1 ? null : { item: results[index], index };
+}
@@ -0,0 +1,66 @@
+/** Arrow-key direction for moving focus between cards. */
+export type FocusDirection = "up" | "down" | "left" | "right";
+
+/**
+ * Position of a focusable card: its row across the whole grid (section rows
+ * continue the count) and the horizontal center of its column.
+ */
+export interface GridCell {
+  row: number;
+  x: number;
+}
+
+/**
+ * Finds the cell focus moves to from `cells[from]`, the way the tvOS focus
+ * engine moves between grid cards.
+ *
+ * Left and right move to the neighbouring card in the same row and stop at the
+ * row's ends. Up and down move to the nearest row above or below, picking the
+ * card whose center is closest (the leftmost on a tie), so rows with fewer
+ * cards or sections with other column counts still line up.
+ *
+ * @returns The index of the next cell, or `null` when focus would leave the grid
+ */
+export function findNextFocus(
+  cells: readonly GridCell[],
+  from: number,
+  direction: FocusDirection
+): number | null {
+  const current = cells[from];
+  if (!current) return null;
+
+  if (direction === "left" || direction === "right") {
+    let best: number | null = null;
+    cells.forEach((cell, index) => {
+      if (cell.row !== current.row) return;
+      const isAhead = direction === "left" ? cell.x < current.x : cell.x > current.x;
+      if (!isAhead) return;
+      if (best === null || Math.abs(cell.x - current.x) < Math.abs(cells[best].x - current.x)) {
+        best = index;
+      }
+    });
+    return best;
+  }
+
+  let targetRow: number | null = null;
+  for (const cell of cells) {
+    const isAhead = direction === "up" ? cell.row < current.row : cell.row > current.row;
+    if (!isAhead) continue;
+    if (
+      targetRow === null ||
+      (direction === "up" ? cell.row > targetRow : cell.row < targetRow)
+    ) {
+      targetRow = cell.row;
+    }
+  }
+  if (targetRow === null) return null;
+
+  let best: number | null = null;
+  cells.forEach((cell, index) => {
+    if (cell.row !== targetRow) return;
+    if (best === null || Math.abs(cell.x - current.x) < Math.abs(cells[best].x - current.x)) {
+      best = index;
+    }
+  });
+  return best;
+}
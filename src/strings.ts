@@ -0,0 +1,444 @@
+import type { SearchResult, SearchSection } from "./index";
+import { getValidResults, getValidSections } from "./searchViewState";
+
+/**
+ * Plural variants of a string, keyed by `Intl.PluralRules` category.
+ * Only `other` is required; missing categories fall back to it.
+ */
+export interface PluralForms {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+/**
+ * Built-in user-facing strings. Templates may contain `{placeholders}`,
+ * filled in by `formatSearchString`.
+ */
+export interface SearchStrings {
+  /** `placeholder` prop */
+  placeholder: string;
+  /** `emptyStateText` prop */
+  emptyStateText: string;
+  /** `searchingText` prop */
+  searchingText: string;
+  /** `noResultsText` prop */
+  noResultsText: string;
+  /** `noResultsHintText` prop */
+  noResultsHintText: string;
+  /** `recentSearchesTitle` prop */
+  recentSearchesTitle: string;
+  /** `clearHistoryText` prop */
+  clearHistoryText: string;
+  /** `actionMenuCancelText` prop */
+  actionMenuCancelText: string;
+  /** Result count for a query, with `{count}` and `{query}` placeholders */
+  resultsCount: PluralForms;
+  /** `accessibilityResultsAnnouncement` prop */
+  resultsAnnouncement: PluralForms;
+}
+
+/** Strings that map directly onto `TvosSearchView` props. */
+type LocalizedProp =
+  | "placeholder"
+  | "emptyStateText"
+  | "searchingText"
+  | "noResultsText"
+  | "noResultsHintText"
+  | "recentSearchesTitle"
+  | "clearHistoryText"
+  | "actionMenuCancelText";
+
+const LOCALIZED_PROPS: readonly LocalizedProp[] = [
+  "placeholder",
+  "emptyStateText",
+  "searchingText",
+  "noResultsText",
+  "noResultsHintText",
+  "recentSearchesTitle",
+  "clearHistoryText",
+  "actionMenuCancelText",
+];
+
+/** English strings, matching the prop defaults (and SearchViewModel in ios/ExpoTvosSearchView.swift). */
+const ENGLISH: SearchStrings = {
+  placeholder: "Search...",
+  emptyStateText: "Search your library",
+  searchingText: "Searching...",
+  noResultsText: "No results found",
+  noResultsHintText: "Try a different search term",
+  recentSearchesTitle: "Recent Searches",
+  clearHistoryText: "Clear Recent Searches",
+  actionMenuCancelText: "Cancel",
+  resultsCount: {
+    one: "{count} result for “{query}”",
+    other: "{count} results for “{query}”",
+  },
+  resultsAnnouncement: {
+    one: "{count} result",
+    other: "{count} results",
+  },
+};
+
+/** Catalogs for the major tvOS storefront languages, keyed by lowercase BCP 47 tag. */
+const BUILT_IN_CATALOGS: Record<string, SearchStrings> = {
+  en: ENGLISH,
+  es: {
+    placeholder: "Buscar...",
+    emptyStateText: "Busca en tu biblioteca",
+    searchingText: "Buscando...",
+    noResultsText: "No se encontraron resultados",
+    noResultsHintText: "Prueba con otro término de búsqueda",
+    recentSearchesTitle: "Búsquedas recientes",
+    clearHistoryText: "Borrar búsquedas recientes",
+    actionMenuCancelText: "Cancelar",
+    resultsCount: {
+      one: "{count} resultado para «{query}»",
+      other: "{count} resultados para «{query}»",
+    },
+    resultsAnnouncement: {
+      one: "{count} resultado",
+      other: "{count} resultados",
+    },
+  },
+  fr: {
+    placeholder: "Rechercher...",
+    emptyStateText: "Recherchez dans votre bibliothèque",
+    searchingText: "Recherche en cours...",
+    noResultsText: "Aucun résultat",
+    noResultsHintText: "Essayez un autre terme de recherche",
+    recentSearchesTitle: "Recherches récentes",
+    clearHistoryText: "Effacer les recherches récentes",
+    actionMenuCancelText: "Annuler",
+    resultsCount: {
+      one: "{count} résultat pour « {query} »",
+      other: "{count} résultats pour « {query} »",
+    },
+    resultsAnnouncement: {
+      one: "{count} résultat",
+      other: "{count} résultats",
+    },
+  },
+  de: {
+    placeholder: "Suchen...",
+    emptyStateText: "Durchsuche deine Mediathek",
+    searchingText: "Suche läuft...",
+    noResultsText: "Keine Ergebnisse gefunden",
+    noResultsHintText: "Versuche einen anderen Suchbegriff",
+    recentSearchesTitle: "Letzte Suchanfragen",
+    clearHistoryText: "Letzte Suchanfragen löschen",
+    actionMenuCancelText: "Abbrechen",
+    resultsCount: {
+      one: "{count} Ergebnis für „{query}“",
+      other: "{count} Ergebnisse für „{query}“",
+    },
+    resultsAnnouncement: {
+      one: "{count} Ergebnis",
+      other: "{count} Ergebnisse",
+    },
+  },
+  it: {
+    placeholder: "Cerca...",
+    emptyStateText: "Cerca nella tua libreria",
+    searchingText: "Ricerca in corso...",
+    noResultsText: "Nessun risultato trovato",
+    noResultsHintText: "Prova con un altro termine di ricerca",
+    recentSearchesTitle: "Ricerche recenti",
+    clearHistoryText: "Cancella ricerche recenti",
+    actionMenuCancelText: "Annulla",
+    resultsCount: {
+      one: "{count} risultato per “{query}”",
+      other: "{count} risultati per “{query}”",
+    },
+    resultsAnnouncement: {
+      one: "{count} risultato",
+      other: "{count} risultati",
+    },
+  },
+  pt: {
+    placeholder: "Buscar...",
+    emptyStateText: "Busque na sua biblioteca",
+    searchingText: "Buscando...",
+    noResultsText: "Nenhum resultado encontrado",
+    noResultsHintText: "Tente outro termo de busca",
+    recentSearchesTitle: "Buscas recentes",
+    clearHistoryText: "Limpar buscas recentes",
+    actionMenuCancelText: "Cancelar",
+    resultsCount: {
+      one: "{count} resultado para “{query}”",
+      other: "{count} resultados para “{query}”",
+    },
+    resultsAnnouncement: {
+      one: "{count} resultado",
+      other: "{count} resultados",
+    },
+  },
+  nl: {
+    placeholder: "Zoeken...",
+    emptyStateText: "Doorzoek je bibliotheek",
+    searchingText: "Bezig met zoeken...",
+    noResultsText: "Geen resultaten gevonden",
+    noResultsHintText: "Probeer een andere zoekterm",
+    recentSearchesTitle: "Recente zoekopdrachten",
+    clearHistoryText: "Wis recente zoekopdrachten",
+    actionMenuCancelText: "Annuleer",
+    resultsCount: {
+      one: "{count} resultaat voor ‘{query}’",
+      other: "{count} resultaten voor ‘{query}’",
+    },
+    resultsAnnouncement: {
+      one: "{count} resultaat",
+      other: "{count} resultaten",
+    },
+  },
+  ru: {
+    placeholder: "Поиск...",
+    emptyStateText: "Поиск по вашей медиатеке",
+    searchingText: "Идёт поиск...",
+    noResultsText: "Ничего не найдено",
+    noResultsHintText: "Попробуйте другой запрос",
+    recentSearchesTitle: "Недавние запросы",
+    clearHistoryText: "Очистить недавние запросы",
+    actionMenuCancelText: "Отмена",
+    resultsCount: {
+      one: "{count} результат по запросу «{query}»",
+      few: "{count} результата по запросу «{query}»",
+      many: "{count} результатов по запросу «{query}»",
+      other: "{count} результата по запросу «{query}»",
+    },
+    resultsAnnouncement: {
+      one: "{count} результат",
+      few: "{count} результата",
+      many: "{count} результатов",
+      other: "{count} результата",
+    },
+  },
+  ja: {
+    placeholder: "検索...",
+    emptyStateText: "ライブラリを検索",
+    searchingText: "検索中...",
+    noResultsText: "結果が見つかりません",
+    noResultsHintText: "別のキーワードをお試しください",
+    recentSearchesTitle: "最近の検索",
+    clearHistoryText: "最近の検索を消去",
+    actionMenuCancelText: "キャンセル",
+    resultsCount: {
+      other: "「{query}」の検索結果: {count}件",
+    },
+    resultsAnnouncement: {
+      other: "{count}件の結果",
+    },
+  },
+  ko: {
+    placeholder: "검색...",
+    emptyStateText: "보관함 검색",
+    searchingText: "검색 중...",
+    noResultsText: "검색 결과 없음",
+    noResultsHintText: "다른 검색어를 입력해 보세요",
+    recentSearchesTitle: "최근 검색",
+    clearHistoryText: "최근 검색 지우기",
+    actionMenuCancelText: "취소",
+    resultsCount: {
+      other: "‘{query}’에 대한 결과 {count}개",
+    },
+    resultsAnnouncement: {
+      other: "결과 {count}개",
+    },
+  },
+  "zh-hans": {
+    placeholder: "搜索...",
+    emptyStateText: "搜索你的资料库",
+    searchingText: "正在搜索...",
+    noResultsText: "未找到结果",
+    noResultsHintText: "请尝试其他搜索词",
+    recentSearchesTitle: "最近搜索",
+    clearHistoryText: "清除最近搜索",
+    actionMenuCancelText: "取消",
+    resultsCount: {
+      other: "“{query}”的 {count} 个结果",
+    },
+    resultsAnnouncement: {
+      other: "{count} 个结果",
+    },
+  },
+  "zh-hant": {
+    placeholder: "搜尋...",
+    emptyStateText: "搜尋你的資料庫",
+    searchingText: "正在搜尋...",
+    noResultsText: "找不到結果",
+    noResultsHintText: "請嘗試其他搜尋字詞",
+    recentSearchesTitle: "最近搜尋",
+    clearHistoryText: "清除最近搜尋",
+    actionMenuCancelText: "取消",
+    resultsCount: {
+      other: "「{query}」的 {count} 個結果",
+    },
+    resultsAnnouncement: {
+      other: "{count} 個結果",
+    },
+  },
+};
+
+/** Region tags whose script isn't spelled out, mapped to the catalog that covers them. */
+const LOCALE_ALIASES: Record<string, string> = {
+  zh: "zh-hans",
+  "zh-cn": "zh-hans",
+  "zh-sg": "zh-hans",
+  "zh-tw": "zh-hant",
+  "zh-hk": "zh-hant",
+  "zh-mo": "zh-hant",
+};
+
+/** Catalogs added with `registerSearchStrings`, keyed by lowercase tag. */
+const registeredCatalogs = new Map<string, Partial<SearchStrings>>();
+
+function normalizeLocale(locale: string): string {
+  return locale.trim().replace(/_/g, "-").toLowerCase();
+}
+
+/**
+ * Tags to look up for `locale`, most specific first:
+ * `"fr-CA"` → `["fr-ca", "fr"]`, `"zh-TW"` → `["zh-tw", "zh-hant", "zh"]`.
+ */
+function localeChain(locale: string): string[] {
+  const chain: string[] = [];
+  const subtags = normalizeLocale(locale).split("-").filter(Boolean);
+  for (let length = subtags.length; length > 0; length--) {
+    const tag = subtags.slice(0, length).join("-");
+    chain.push(tag);
+    const alias = LOCALE_ALIASES[tag];
+    if (alias && !chain.includes(alias)) chain.push(alias);
+  }
+  return chain;
+}
+
+/**
+ * Adds or extends the strings for a locale. Keys left out fall back to the
+ * locale's language (e.g. `fr` for `fr-CA`), then to English, so a catalog can
+ * override a few built-in strings or add a language that isn't bundled.
+ * Registering the same locale again merges into the earlier registration.
+ *
+ * @example
+ * ```ts
+ * registerSearchStrings('sv', {
+ *   placeholder: 'Sök...',
+ *   noResultsText: 'Inga resultat',
+ *   resultsCount: { one: '{count} träff för ”{query}”', other: '{count} träffar för ”{query}”' },
+ * });
+ * ```
+ */
+export function registerSearchStrings(locale: string, strings: Partial<SearchStrings>): void {
+  const key = normalizeLocale(locale);
+  registeredCatalogs.set(key, { ...registeredCatalogs.get(key), ...strings });
+}
+
+/**
+ * Returns the complete set of strings for `locale`.
+ *
+ * Looks up registered and built-in catalogs from the full tag down to the
+ * language, falling back to English for anything not found. Case and `_`
+ * separators are ignored. Without a locale, returns the English defaults.
+ */
+export function getSearchStrings(locale?: string): SearchStrings {
+  if (!locale) return ENGLISH;
+  let strings: SearchStrings = ENGLISH;
+  for (const tag of localeChain(locale).reverse()) {
+    strings = { ...strings, ...BUILT_IN_CATALOGS[tag], ...registeredCatalogs.get(tag) };
+  }
+  return strings;
+}
+
+/** Plural category for `count`, or a simple one/other split where `Intl.PluralRules` is unavailable. */
+function pluralCategory(count: number, locale: string | undefined): Intl.LDMLPluralRule {
+  if (typeof Intl !== "undefined" && typeof Intl.PluralRules === "function") {
+    try {
+      return new Intl.PluralRules(locale).select(count);
+    } catch {
+      // Unsupported locale tag; fall through to the simple rule
+    }
+  }
+  return count === 1 ? "one" : "other";
+}
+
+/**
+ * Fills `{placeholders}` in a template from `values`. When given `PluralForms`,
+ * the form is picked by `values.count` using the locale's plural rules.
+ * Numbers are formatted for the locale; unknown placeholders are left as-is.
+ *
+ * @example
+ * ```ts
+ * const strings = getSearchStrings('de');
+ * formatSearchString(strings.resultsCount, { count: 3, query: 'Mars' }, 'de');
+ * // "3 Ergebnisse für „Mars“"
+ * ```
+ */
+export function formatSearchString(
+  template: string | PluralForms,
+  values: Record<string, string | number> = {},
+  locale?: string
+): string {
+  let text: string;
+  if (typeof template === "string") {
+    text = template;
+  } else {
+    const count = typeof values.count === "number" ? values.count : Number(values.count);
+    text = template[pluralCategory(count, locale)] ?? template.other;
+  }
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? value.toLocaleString(locale) : value;
+  });
+}
+
+/**
+ * Number of results shown, flat or across sections: the count the views
+ * announce, so skipped and capped results don't pick the plural form.
+ */
+function resultCount(props: { results?: SearchResult[]; sections?: SearchSection[] }): number {
+  const sections = getValidSections(props.sections);
+  if (sections) {
+    return sections.reduce((total, section) => total + section.results.length, 0);
+  }
+  return getValidResults(props.results ?? []).length;
+}
+
+/**
+ * Fills the string props left unset with the strings for the `locale` prop.
+ * Props that are set always win. The returned props no longer include `locale`.
+ *
+ * Also resolves `accessibilityResultsAnnouncement` to a single template for the
+ * current result count, since plural rules aren't available natively; the
+ * native view fills in `{count}` and `{query}`.
+ */
+export function localizeProps<
+  P extends {
+    locale?: string;
+    accessibilityResultsAnnouncement?: string | PluralForms;
+    results?: SearchResult[];
+    sections?: SearchSection[];
+  },
+>(props: P): Omit<P, "locale"> {
+  const { locale, ...rest } = props;
+  const strings = getSearchStrings(locale);
+  const localized: Record<string, unknown> = { ...rest };
+
+  if (locale) {
+    for (const name of LOCALIZED_PROPS) {
+      if (localized[name] === undefined) {
+        localized[name] = strings[name];
+      }
+    }
+  }
+
+  const announcement = props.accessibilityResultsAnnouncement ?? strings.resultsAnnouncement;
+  localized.accessibilityResultsAnnouncement =
+    typeof announcement === "string"
+      ? announcement
+      : (announcement[pluralCategory(resultCount(props), locale)] ?? announcement.other);
+
+  return localized as Omit<P, "locale">;
+}
@@ -0,0 +1,77 @@
+import type { SearchResult, SearchSuggestion } from "./index";
+
+/**
+ * Where `getSuggestions` looks for completions.
+ */
+export interface SuggestionSource {
+  /** Recent queries, most recent first (e.g. from `useSearchHistory`) */
+  recentSearches?: string[];
+  /** Results whose titles are offered as completions */
+  results?: SearchResult[];
+}
+
+/**
+ * Options for `getSuggestions`.
+ */
+export interface GetSuggestionsOptions {
+  /**
+   * Maximum number of suggestions returned.
+   * @default 8
+   */
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 8;
+const RECENT_SEARCH_ICON = "clock.arrow.circlepath";
+const RESULT_TITLE_ICON = "magnifyingglass";
+
+/** Matching ignores case and surrounding/repeated whitespace. */
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Derives prefix suggestions for `query` from recent searches and result titles.
+ *
+ * Recent searches come first, then result titles, each in their original order.
+ * Entries that only repeat the query, or repeat an earlier suggestion, are skipped.
+ * An empty query has no suggestions, since `recentSearches` already covers it.
+ *
+ * @example
+ * ```tsx
+ * const suggestions = useMemo(
+ *   () => getSuggestions(query, { recentSearches, results }),
+ *   [query, recentSearches, results]
+ * );
+ *
+ * <TvosSearchView {...searchProps} suggestions={suggestions} />
+ * ```
+ */
+export function getSuggestions(
+  query: string,
+  source: SuggestionSource,
+  options: GetSuggestionsOptions = {}
+): SearchSuggestion[] {
+  const { limit = DEFAULT_LIMIT } = options;
+  const prefix = normalize(query);
+  if (!prefix) return [];
+
+  const seen = new Set([prefix]);
+  const suggestions: SearchSuggestion[] = [];
+
+  const add = (text: string, kind: "recent" | "title", icon: string) => {
+    const key = normalize(text);
+    if (!key.startsWith(prefix) || seen.has(key)) return;
+    seen.add(key);
+    suggestions.push({ id: `${kind}:${key}`, text: text.trim(), icon });
+  };
+
+  for (const recent of source.recentSearches ?? []) {
+    add(recent, "recent", RECENT_SEARCH_ICON);
+  }
+  for (const result of source.results ?? []) {
+    add(result.title, "title", RESULT_TITLE_ICON);
+  }
+
+  return suggestions.slice(0, Math.max(0, Math.floor(limit)));
+}
@@ -0,0 +1,240 @@
+import React, { forwardRef, useImperativeHandle, useRef } from "react";
+import { Text } from "react-native";
+import type { SearchFieldFocusEvent, SearchResult, SearchViewErrorCategory } from "./index";
+import {
+  setNativeViewOverride,
+  type NativeViewMethods,
+  type NativeViewProps,
+} from "./nativeViewOverride";
+import { getValidScopes, searchEvent } from "./scopes";
+import { findResult, flattenResults } from "./sections";
+
+/**
+ * Element type rendered by `MockTvosSearchView`, the same name the native view
+ * has in the view hierarchy. It receives every prop sent to the native side.
+ */
+export const MOCK_SEARCH_VIEW_TYPE = "ExpoTvosSearchView";
+
+/** Props of an element in a rendered test tree. */
+type TestProps = Record<string, unknown>;
+
+/**
+ * The parts of a react-test-renderer `ReactTestInstance` the helpers use.
+ * Instances from `@testing-library/react-native` queries work too.
+ */
+export interface SearchViewTestInstance {
+  type: unknown;
+  props: TestProps;
+  findAll(predicate: (node: SearchViewTestInstance) => boolean): SearchViewTestInstance[];
+}
+
+/**
+ * What the `fire*` helpers accept: a react-test-renderer renderer, a
+ * `@testing-library/react-native` render result, or any test instance
+ * containing the mock view.
+ */
+export type SearchViewTarget =
+  | SearchViewTestInstance
+  | { root: SearchViewTestInstance }
+  | { UNSAFE_root: SearchViewTestInstance };
+
+/**
+ * Stand-in for the native view, rendered by `TvosSearchView` after
+ * `setNativeSearchAvailable(true)`. Renders a `MOCK_SEARCH_VIEW_TYPE` element
+ * carrying the native props, with each result's title as a `Text` child
+ * (`testID` `expo-tvos-search-result-<id>`), so tests can query what the
+ * search view shows.
+ *
+ * The view functions behind `TvosSearchViewHandle` fire the events the native
+ * view would: `focusSearchField`/`blurSearchField` fire `onSearchFieldFocused`/
+ * `onSearchFieldBlurred`, `setQuery` fires `onSearch` when `emit` is true and
+ * `clear` fires `onSearch` with an empty query. Like the native view, these
+ * `onSearch` events carry the selected scope's id when there are `scopes`:
+ * `selectedScope` when it names one, otherwise the first scope.
+ */
+export const MockTvosSearchView = forwardRef<NativeViewMethods, Omit<NativeViewProps, "ref">>(
+  function MockTvosSearchView(props, ref) {
+    const propsRef = useRef(props);
+    propsRef.current = props;
+
+    const emitSearch = (query: string) => {
+      const { onSearch, scopes = [], selectedScope } = propsRef.current;
+      const validScopes = getValidScopes(scopes);
+      const scope = validScopes.find((candidate) => candidate.id === selectedScope) ?? validScopes[0];
+      onSearch?.(searchEvent(query, scope?.id));
+    };
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        focusSearchField: async () => {
+          propsRef.current.onSearchFieldFocused?.({ nativeEvent: {} });
+        },
+        blurSearchField: async () => {
+          propsRef.current.onSearchFieldBlurred?.({ nativeEvent: {} });
+        },
+        clear: async () => {
+          emitSearch("");
+        },
+        setQuery: async (text, emit) => {
+          if (emit) emitSearch(text);
+        },
+        scrollToTop: async () => {},
+        scrollToItem: async () => {},
+      }),
+      []
+    );
+
+    const results: SearchResult[] = flattenResults(props);
+    return React.createElement(
+      MOCK_SEARCH_VIEW_TYPE,
+      props,
+      results.map((result) => (
+        <Text key={result.id} testID={`expo-tvos-search-result-${result.id}`}>
+          {result.title}
+        </Text>
+      ))
+    );
+  }
+);
+
+/**
+ * Controls what `isNativeSearchAvailable()` returns. With `true`, `TvosSearchView`
+ * renders `MockTvosSearchView` on every platform; with `false`, it renders
+ * `null` (or the fallback view with `fallback="auto"`).
+ * Call `resetNativeSearchAvailable()` to go back to detecting the native module.
+ *
+ * @example
+ * ```tsx
+ * beforeEach(() => setNativeSearchAvailable(true));
+ * afterEach(() => resetNativeSearchAvailable());
+ * ```
+ */
+export function setNativeSearchAvailable(available: boolean): void {
+  setNativeViewOverride(available ? MockTvosSearchView : null);
+}
+
+/**
+ * Undoes `setNativeSearchAvailable`, so availability depends on the native module again.
+ */
+export function resetNativeSearchAvailable(): void {
+  setNativeViewOverride(undefined);
+}
+
+/**
+ * Finds the props of the mock view rendered inside `view`.
+ * Throws when there is no mock view, or more than one.
+ */
+export function getSearchViewProps(view: SearchViewTarget): TestProps {
+  const root =
+    "root" in view ? view.root : "UNSAFE_root" in view ? view.UNSAFE_root : view;
+  const found =
+    root.type === MOCK_SEARCH_VIEW_TYPE
+      ? [root]
+      : root.findAll((node) => node.type === MOCK_SEARCH_VIEW_TYPE);
+  if (found.length !== 1) {
+    throw new Error(
+      `[expo-tvos-search] Expected one mock search view, found ${found.length}. ` +
+        "Call setNativeSearchAvailable(true) before rendering TvosSearchView."
+    );
+  }
+  return found[0].props;
+}
+
+/**
+ * Runs `callback` inside react-test-renderer's `act` when it is installed,
+ * so state updates from event handlers are flushed before assertions.
+ */
+function runInAct(callback: () => void): void {
+  let act: ((callback: () => void) => void) | undefined;
+  try {
+    act = require("react-test-renderer").act;
+  } catch {
+    act = undefined;
+  }
+  if (act) {
+    act(callback);
+  } else {
+    callback();
+  }
+}
+
+/** Calls the mock view's `name` handler with `nativeEvent`, if it has one. */
+function fireNativeEvent(view: SearchViewTarget, name: string, nativeEvent: object): void {
+  const handler = getSearchViewProps(view)[name];
+  if (typeof handler !== "function") return;
+  runInAct(() => (handler as (event: { nativeEvent: object }) => void)({ nativeEvent }));
+}
+
+/**
+ * Fires `onSearch` as if the user typed `query` into the search field.
+ * Pass `scopeId` when the view has `scopes`, as the native view always sends the selected one.
+ */
+export function fireSearch(view: SearchViewTarget, query: string, scopeId?: string): void {
+  fireNativeEvent(view, "onSearch", scopeId === undefined ? { query } : { query, scopeId });
+}
+
+/**
+ * Fires `onScopeChange` as if the user picked the scope with `scopeId`.
+ * The native view then searches again when the field has a query; follow up
+ * with `fireSearch(view, query, scopeId)` to simulate that.
+ */
+export function fireScopeChange(view: SearchViewTarget, scopeId: string): void {
+  fireNativeEvent(view, "onScopeChange", { scopeId });
+}
+
+/**
+ * Fires `onSelectItem` (and so `onSelect`) as if the user selected the result with `id`.
+ * Pass `sectionId` for results shown in `sections`.
+ */
+export function fireSelectItem(view: SearchViewTarget, id: string, sectionId?: string): void {
+  fireNativeEvent(view, "onSelectItem", sectionId === undefined ? { id } : { id, sectionId });
+}
+
+/**
+ * Fires `onError` with `category`, and a generic message unless one is given.
+ */
+export function fireError(
+  view: SearchViewTarget,
+  category: SearchViewErrorCategory,
+  message: string = `Simulated ${category} error`,
+  context?: string
+): void {
+  fireNativeEvent(view, "onError", context === undefined ? { category, message } : { category, message, context });
+}
+
+/** Fires `onFocusItem` or `onBlurItem` for the shown result with `id`. */
+function fireItemFocusEvent(view: SearchViewTarget, name: string, id: string, sectionId?: string): void {
+  const props = getSearchViewProps(view) as Pick<NativeViewProps, "results" | "sections">;
+  const found = findResult(props, id, sectionId);
+  if (!found) {
+    throw new Error(`[expo-tvos-search] No result with id '${id}' in the mock search view.`);
+  }
+  const { index } = found;
+  fireNativeEvent(view, name, sectionId === undefined ? { id, index } : { id, index, sectionId });
+}
+
+/**
+ * Fires `onFocusItem` as if the result with `id` gained focus, with its index
+ * in `results` (or in the section named by `sectionId`). Throws when the
+ * result isn't shown.
+ */
+export function fireFocusItem(view: SearchViewTarget, id: string, sectionId?: string): void {
+  fireItemFocusEvent(view, "onFocusItem", id, sectionId);
+}
+
+/**
+ * Fires `onBlurItem` as if the result with `id` lost focus. When focus moves
+ * between cards, the native view blurs the old card before focusing the new one.
+ */
+export function fireBlurItem(view: SearchViewTarget, id: string, sectionId?: string): void {
+  fireItemFocusEvent(view, "onBlurItem", id, sectionId);
+}
+
+/**
+ * Fires `onSearchFieldFocused` when `focused` is true, `onSearchFieldBlurred` otherwise.
+ */
+export function fireSearchFieldFocusChange(view: SearchViewTarget, focused: boolean): void {
+  const nativeEvent: SearchFieldFocusEvent["nativeEvent"] = {};
+  fireNativeEvent(view, focused ? "onSearchFieldFocused" : "onSearchFieldBlurred", nativeEvent);
+}
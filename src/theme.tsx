@@ -0,0 +1,249 @@
+import React, { createContext, useContext } from "react";
+import type { SearchResult, TvosSearchViewProps } from "./index";
+import { LAYOUT_PRESETS } from "./layout";
+
+/**
+ * Visual settings for a search view, grouped by what they style.
+ * Each value corresponds to a flat `TvosSearchView` prop, noted per field.
+ */
+export interface SearchViewTheme {
+  /** `colorScheme` prop */
+  colorScheme: "light" | "dark" | "system";
+  colors: {
+    /** `textColor` prop; `undefined` uses the system default */
+    text?: string;
+    /** `accentColor` prop */
+    accent: string;
+  };
+  card: {
+    /** `cardWidth` prop */
+    width: number;
+    /** `cardHeight` prop */
+    height: number;
+    /** `cardMargin` prop */
+    margin: number;
+    /** `cardPadding` prop */
+    padding: number;
+    /** `imageContentMode` prop */
+    imageContentMode: "fill" | "fit" | "contain";
+    /** `showTitle` prop */
+    showTitle: boolean;
+    /** `showSubtitle` prop */
+    showSubtitle: boolean;
+    /** `showTitleOverlay` prop */
+    showTitleOverlay: boolean;
+    /** `showFocusBorder` prop */
+    showFocusBorder: boolean;
+  };
+  typography: {
+    /** `overlayTitleSize` prop */
+    overlayTitleSize: number;
+  };
+  grid: {
+    /** `columns` prop */
+    columns: number;
+    /** `topInset` prop */
+    topInset: number;
+  };
+  marquee: {
+    /** `enableMarquee` prop */
+    enabled: boolean;
+    /** `marqueeDelay` prop */
+    delay: number;
+  };
+}
+
+/** Recursively optional, for theme overrides. */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/** Overrides accepted by `createSearchTheme`. */
+export type SearchThemeOverrides = DeepPartial<SearchViewTheme>;
+
+/** Theme matching the prop defaults (and SearchViewModel in ios/ExpoTvosSearchView.swift). */
+const DEFAULT_THEME: SearchViewTheme = {
+  colorScheme: "system",
+  colors: {
+    text: undefined,
+    accent: "#FFC312",
+  },
+  card: {
+    width: 280,
+    height: 420,
+    margin: 40,
+    padding: 16,
+    imageContentMode: "fill",
+    showTitle: false,
+    showSubtitle: false,
+    showTitleOverlay: true,
+    showFocusBorder: false,
+  },
+  typography: {
+    overlayTitleSize: 20,
+  },
+  grid: {
+    columns: 5,
+    topInset: 0,
+  },
+  marquee: {
+    enabled: true,
+    delay: 1.5,
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Merges `overrides` into `base` without mutating either; `undefined` overrides are ignored. */
+function deepMerge<T>(base: T, overrides: DeepPartial<T> | undefined): T {
+  if (!overrides) return base;
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key]) ? deepMerge(merged[key], value) : value;
+  }
+  return merged as T;
+}
+
+/**
+ * Creates a complete theme by deep-merging `overrides` into the defaults,
+ * or into `base` (e.g. a preset) when given.
+ *
+ * @example
+ * ```ts
+ * const brandTheme = createSearchTheme({ colors: { accent: '#E50914' }, card: { showFocusBorder: true } });
+ * const compactCinema = createSearchTheme({ grid: { columns: 6 } }, searchThemePresets.darkCinema);
+ * ```
+ */
+export function createSearchTheme(
+  overrides: SearchThemeOverrides = {},
+  base: SearchViewTheme = DEFAULT_THEME
+): SearchViewTheme {
+  return deepMerge(base, overrides);
+}
+
+/**
+ * Built-in themes.
+ * - `darkCinema`: dark scheme with a red accent and title overlays
+ * - `light`: light scheme with titles below the cards
+ * - `highContrast`: white text, yellow focus borders, larger titles, and no marquee motion
+ */
+export const searchThemePresets: Readonly<Record<"darkCinema" | "light" | "highContrast", SearchViewTheme>> = {
+  darkCinema: createSearchTheme({
+    colorScheme: "dark",
+    colors: { text: "#F5F5F5", accent: "#E50914" },
+    card: { showTitleOverlay: true },
+  }),
+  light: createSearchTheme({
+    colorScheme: "light",
+    colors: { text: "#1C1C1E", accent: "#0A84FF" },
+    card: { showTitle: true, showSubtitle: true, showTitleOverlay: false },
+  }),
+  highContrast: createSearchTheme({
+    colorScheme: "dark",
+    colors: { text: "#FFFFFF", accent: "#FFD60A" },
+    card: { showFocusBorder: true },
+    typography: { overlayTitleSize: 26 },
+    marquee: { enabled: false },
+  }),
+};
+
+const SearchThemeContext = createContext<SearchViewTheme | null>(null);
+
+/**
+ * Provides a theme to every `TvosSearchView` and `TvosSearchFallbackView` below it.
+ * A view's own `theme` prop replaces the provided theme.
+ *
+ * @example
+ * ```tsx
+ * <ThemeProvider theme={searchThemePresets.darkCinema}>
+ *   <App />
+ * </ThemeProvider>
+ * ```
+ */
+export function ThemeProvider({
+  theme,
+  children,
+}: {
+  theme: SearchViewTheme;
+  children?: React.ReactNode;
+}): JSX.Element {
+  return <SearchThemeContext.Provider value={theme}>{children}</SearchThemeContext.Provider>;
+}
+
+/**
+ * Returns the theme from the nearest `ThemeProvider`, or `null` outside one.
+ */
+export function useSearchTheme(): SearchViewTheme | null {
+  return useContext(SearchThemeContext);
+}
+
+type ThemedProp =
+  | "colorScheme"
+  | "textColor"
+  | "accentColor"
+  | "cardWidth"
+  | "cardHeight"
+  | "cardMargin"
+  | "cardPadding"
+  | "imageContentMode"
+  | "showTitle"
+  | "showSubtitle"
+  | "showTitleOverlay"
+  | "showFocusBorder"
+  | "overlayTitleSize"
+  | "columns"
+  | "topInset"
+  | "enableMarquee"
+  | "marqueeDelay";
+
+/** Flattens a theme into the props it stands for. */
+function themeToProps(theme: SearchViewTheme): Pick<TvosSearchViewProps, ThemedProp> {
+  return {
+    colorScheme: theme.colorScheme,
+    textColor: theme.colors.text,
+    accentColor: theme.colors.accent,
+    cardWidth: theme.card.width,
+    cardHeight: theme.card.height,
+    cardMargin: theme.card.margin,
+    cardPadding: theme.card.padding,
+    imageContentMode: theme.card.imageContentMode,
+    showTitle: theme.card.showTitle,
+    showSubtitle: theme.card.showSubtitle,
+    showTitleOverlay: theme.card.showTitleOverlay,
+    showFocusBorder: theme.card.showFocusBorder,
+    overlayTitleSize: theme.typography.overlayTitleSize,
+    columns: theme.grid.columns,
+    topInset: theme.grid.topInset,
+    enableMarquee: theme.marquee.enabled,
+    marqueeDelay: theme.marquee.delay,
+  };
+}
+
+/**
+ * Applies the `layout` preset, then the `theme` prop (or the `ThemeProvider`
+ * theme), as defaults for the flat styling props. Flat props that are set always win.
+ * The returned props no longer include `theme` or `layout`.
+ */
+export function useThemedProps<T extends SearchResult>(
+  props: TvosSearchViewProps<T>
+): Omit<TvosSearchViewProps<T>, "theme" | "layout"> {
+  const contextTheme = useSearchTheme();
+  const { theme: themeProp, layout, ...rest } = props;
+  const theme = themeProp ?? contextTheme;
+  if (!theme && !layout) return rest;
+
+  const themed: Record<string, unknown> = { ...rest };
+  const defaults = [(layout && LAYOUT_PRESETS[layout]) ?? {}, theme ? themeToProps(theme) : {}];
+  for (const source of defaults) {
+    for (const [key, value] of Object.entries(source)) {
+      if (themed[key] === undefined && value !== undefined) {
+        themed[key] = value;
+      }
+    }
+  }
+  return themed as Omit<TvosSearchViewProps<T>, "theme" | "layout">;
+}
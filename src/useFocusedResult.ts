@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { FocusItemEvent, SearchResult } from "./index";
+
+/**
+ * Options for the `useFocusedResult` hook.
+ */
+export interface UseFocusedResultOptions {
+  /**
+   * Delay in milliseconds focus must rest on a card before it becomes the focused result.
+   * Cards the focus passes over while scrolling are skipped.
+   * @default 250
+   */
+  debounceMs?: number;
+
+  /**
+   * Whether moving focus out of the grid (e.g. back to the search field) clears
+   * `focusedResult`. Set to `false` to keep showing the last focused title.
+   * @default true
+   */
+  clearOnBlur?: boolean;
+}
+
+/**
+ * Value returned by `useFocusedResult`.
+ * `onFocusItem` and `onBlurItem` map directly onto `TvosSearchView` props.
+ */
+export interface UseFocusedResultResult<T extends SearchResult = SearchResult> {
+  /** The result focus has settled on, or `null` */
+  focusedResult: T | null;
+  /** Handler to pass as `TvosSearchView`'s `onFocusItem` prop */
+  onFocusItem: (event: FocusItemEvent) => void;
+  /** Handler to pass as `TvosSearchView`'s `onBlurItem` prop */
+  onBlurItem: (event: FocusItemEvent) => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 250;
+
+/**
+ * Tracks the focused result, debounced so rapid focus changes while scrolling
+ * don't each trigger a backdrop swap or detail fetch.
+ *
+ * The focused result is looked up by id in the latest `results`, so it stays
+ * current when results refresh and becomes `null` if it's no longer shown.
+ * With `sections`, pass every section's results (ids must then be unique overall).
+ *
+ * @example
+ * ```tsx
+ * const { focusedResult, ...focusProps } = useFocusedResult(results);
+ *
+ * useEffect(() => {
+ *   if (focusedResult) prefetchDetails(focusedResult.id);
+ * }, [focusedResult]);
+ *
+ * return (
+ *   <ImageBackground source={{ uri: focusedResult?.backdropUrl }} style={{ flex: 1 }}>
+ *     <TvosSearchView results={results} {...focusProps} onSearch={handleSearch} />
+ *   </ImageBackground>
+ * );
+ * ```
+ */
+export function useFocusedResult<T extends SearchResult = SearchResult>(
+  results: T[],
+  options: UseFocusedResultOptions = {}
+): UseFocusedResultResult<T> {
+  const { debounceMs = DEFAULT_DEBOUNCE_MS, clearOnBlur = true } = options;
+
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const schedule = useCallback(
+    (id: string | null) => {
+      if (timerRef.current !== null) {
+        clearTimeout(timerRef.current);
+      }
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        setFocusedId(id);
+      }, debounceMs);
+    },
+    [debounceMs]
+  );
+
+  useEffect(
+    () => () => {
+      if (timerRef.current !== null) {
+        clearTimeout(timerRef.current);
+      }
+    },
+    []
+  );
+
+  const onFocusItem = useCallback(
+    (event: FocusItemEvent) => schedule(event.nativeEvent.id),
+    [schedule]
+  );
+
+  // Moving between cards fires blur then focus, so the pending focus replaces this
+  const onBlurItem = useCallback(() => {
+    if (clearOnBlur) schedule(null);
+  }, [schedule, clearOnBlur]);
+
+  const focusedResult = useMemo(
+    () => (focusedId === null ? null : results.find((result) => result.id === focusedId) ?? null),
+    [results, focusedId]
+  );
+
+  return { focusedResult, onFocusItem, onBlurItem };
+}
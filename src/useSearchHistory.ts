@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SearchHistoryStore } from "./searchHistory";
+
+/**
+ * Value returned by `useSearchHistory`.
+ * `recentSearches` and `onClearHistory` map directly onto `TvosSearchView` props.
+ */
+export interface UseSearchHistoryResult {
+  /** Recent searches loaded from the store, most recent first */
+  recentSearches: string[];
+  /** Records a query (e.g. when the user selects a result for it) */
+  addRecentSearch: (query: string) => void;
+  /** Removes a single query */
+  removeRecentSearch: (query: string) => void;
+  /** Handler to pass as `TvosSearchView`'s `onClearHistory` prop */
+  onClearHistory: () => void;
+}
+
+/**
+ * Keeps `recentSearches` in sync with a `SearchHistoryStore`.
+ *
+ * Loads the history on mount and whenever `store` changes (e.g. switching
+ * profiles). Store failures are logged in development and leave the list unchanged.
+ *
+ * @example
+ * ```tsx
+ * const history = useMemo(() => createAsyncStorageSearchHistory(AsyncStorage, { profileId }), [profileId]);
+ * const { addRecentSearch, removeRecentSearch, ...historyProps } = useSearchHistory(history);
+ *
+ * <TvosSearchView
+ *   {...historyProps}
+ *   results={results}
+ *   onSelectItem={() => addRecentSearch(query)}
+ * />
+ * ```
+ */
+export function useSearchHistory(store: SearchHistoryStore): UseSearchHistoryResult {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  // Latest store, so responses from a previous store (profile) are discarded
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  const apply = useCallback(
+    (source: SearchHistoryStore, action: string, operation: Promise<string[] | void>) => {
+      operation.then(
+        (next) => {
+          if (source !== storeRef.current) return;
+          setRecentSearches(next ?? []);
+        },
+        (error: unknown) => {
+          if (typeof __DEV__ !== "undefined" && __DEV__) {
+            console.warn(`[expo-tvos-search] Search history ${action} failed:`, error);
+          }
+        }
+      );
+    },
+    []
+  );
+
+  useEffect(() => {
+    setRecentSearches([]);
+    apply(store, "load", store.getRecentSearches());
+  }, [store, apply]);
+
+  const addRecentSearch = useCallback(
+    (query: string) => apply(storeRef.current, "add", storeRef.current.addRecentSearch(query)),
+    [apply]
+  );
+
+  const removeRecentSearch = useCallback(
+    (query: string) => apply(storeRef.current, "remove", storeRef.current.removeRecentSearch(query)),
+    [apply]
+  );
+
+  const onClearHistory = useCallback(
+    () => apply(storeRef.current, "clear", storeRef.current.clear()),
+    [apply]
+  );
+
+  return { recentSearches, addRecentSearch, removeRecentSearch, onClearHistory };
+}
@@ -0,0 +1,377 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { EndReachedEvent, SearchEvent, SearchResult } from "./index";
+import { normalizeQuery, type QueryTransform } from "./queryTransform";
+import type { SearchCache } from "./searchCache";
+import { MAX_RESULTS } from "./validation";
+
+/**
+ * Context passed to `fetchResults` for each debounced query.
+ */
+export interface FetchResultsContext {
+  /**
+   * Aborted as soon as a newer query supersedes this one or the component unmounts.
+   * Pass it to `fetch()` (or check `signal.aborted`) to cancel in-flight work.
+   */
+  signal: AbortSignal;
+  /**
+   * Cursor for the page to load: `undefined` for the first page of a query,
+   * otherwise the `nextCursor` returned with the previous page.
+   */
+  cursor?: string;
+  /**
+   * Id of the scope selected when the query was searched, when the view has
+   * `scopes`. Picking another scope searches the query again with its id.
+   */
+  scopeId?: string;
+}
+
+/**
+ * One page of results for a paginated backend.
+ */
+export interface SearchPage<T extends SearchResult = SearchResult> {
+  /** Results on this page */
+  results: T[];
+  /** Cursor for the next page, or `null`/omitted when this is the last page */
+  nextCursor?: string | null;
+}
+
+/**
+ * Options for the `useTvosSearch` hook.
+ */
+export interface UseTvosSearchOptions<T extends SearchResult = SearchResult> {
+  /**
+   * Loads results for a query. Only the response for the latest query is applied;
+   * responses for superseded queries are discarded even if they resolve later.
+   *
+   * Return an array for a single page, or a `SearchPage` with a `nextCursor` to
+   * enable pagination: `onEndReached` then calls `fetchResults` again with that
+   * `cursor` and appends the page to `results`.
+   */
+  fetchResults: (query: string, context: FetchResultsContext) => Promise<T[] | SearchPage<T>>;
+
+  /**
+   * Delay in milliseconds after the last keystroke before `fetchResults` is called.
+   * @default 300
+   */
+  debounceMs?: number;
+
+  /**
+   * Minimum trimmed query length that triggers a fetch.
+   * Shorter queries clear the results without calling `fetchResults`.
+   * @default 1
+   */
+  minQueryLength?: number;
+
+  /**
+   * Normalizers applied to each query before `minQueryLength` is checked and
+   * `fetchResults` is called (see `queryNormalizers`). Keystrokes that normalize
+   * to the query already shown or pending don't fetch again.
+   */
+  queryTransform?: QueryTransform;
+
+  /**
+   * Cache from `createSearchCache`. Cached queries show their results immediately;
+   * fresh ones skip `fetchResults`, while stale ones are refetched in the background
+   * without setting `isLoading`. Results filtered from a broader query are shown
+   * with `isLoading` set until the fetch settles, since the filter may miss matches.
+   * Fetched pages are stored back into the cache, under their scope when using `scopes`.
+   */
+  cache?: SearchCache<T>;
+
+  /**
+   * Initial value for the search field (e.g., restored state or a deep link).
+   * Passed to the view as `searchText`, which fires `onSearch` natively.
+   */
+  initialQuery?: string;
+}
+
+/**
+ * Value returned by `useTvosSearch`.
+ * `results`, `isLoading`, `onSearch`, `searchText`, `hasMore`, `isLoadingMore`
+ * and `onEndReached` map directly onto `TvosSearchView` props; destructure the
+ * rest before spreading.
+ */
+export interface UseTvosSearchResult<T extends SearchResult = SearchResult> {
+  /** Results for the latest completed query */
+  results: T[];
+  /** Whether a query is pending (debouncing or fetching); cached results revalidate without it */
+  isLoading: boolean;
+  /** Handler to pass as `TvosSearchView`'s `onSearch` prop */
+  onSearch: (event: SearchEvent) => void;
+  /**
+   * Text to pass as `TvosSearchView`'s `searchText` prop.
+   * Only changes through `initialQuery` or `setQuery`, never by echoing what the
+   * user typed, so it cannot cause the update loop described in the `searchText` docs.
+   */
+  searchText: string | undefined;
+  /** Whether the latest query has another page (its last page returned a `nextCursor`) */
+  hasMore: boolean;
+  /** Whether the next page is being fetched */
+  isLoadingMore: boolean;
+  /**
+   * Handler to pass as `TvosSearchView`'s `onEndReached` prop.
+   * Fetches the next page and appends it; ignored while a page or query is loading.
+   */
+  onEndReached: (event?: EndReachedEvent) => void;
+  /** Error thrown by the latest `fetchResults` call, or `null` */
+  error: Error | null;
+  /** The latest query reported by the search field */
+  query: string;
+  /**
+   * Programmatically set the search field text (e.g., "search for similar").
+   * The native field reports the change back through `onSearch`. Setting the
+   * current query fetches it again right away, skipping the debounce and the
+   * cache, e.g. to retry after `error`.
+   */
+  setQuery: (text: string) => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 300;
+const DEFAULT_MIN_QUERY_LENGTH = 1;
+
+function toPage<T extends SearchResult>(response: T[] | SearchPage<T>): SearchPage<T> {
+  return Array.isArray(response) ? { results: response } : response;
+}
+
+/**
+ * Appends a page without touching the results already shown. Ids already present
+ * (e.g. items that shifted between pages) are dropped to keep ids unique.
+ */
+function appendPage<T extends SearchResult>(current: T[], page: T[]): T[] {
+  const seen = new Set(current.map((result) => result.id));
+  const added = page.filter((result) => !seen.has(result.id));
+  return added.length > 0 ? [...current, ...added] : current;
+}
+
+/**
+ * Debounced search state for `TvosSearchView`.
+ *
+ * Handles the glue every search screen needs: debouncing `onSearch`, keeping
+ * `isLoading` in sync, and cancelling in-flight requests via `AbortSignal` so a
+ * slow response for an older query can never overwrite a newer one.
+ * Returning a `SearchPage` from `fetchResults` adds cursor pagination.
+ *
+ * @example
+ * ```tsx
+ * const { error, query, setQuery, ...searchProps } = useTvosSearch({
+ *   fetchResults: async (query, { signal }) => {
+ *     const res = await fetch(`${API}/search?q=${encodeURIComponent(query)}`, { signal });
+ *     return res.json();
+ *   },
+ * });
+ *
+ * return (
+ *   <TvosSearchView
+ *     {...searchProps}
+ *     onSelectItem={(e) => router.push(`/detail/${e.nativeEvent.id}`)}
+ *     style={{ flex: 1 }}
+ *   />
+ * );
+ * ```
+ */
+export function useTvosSearch<T extends SearchResult = SearchResult>(
+  options: UseTvosSearchOptions<T>
+): UseTvosSearchResult<T> {
+  const {
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+    minQueryLength = DEFAULT_MIN_QUERY_LENGTH,
+    initialQuery,
+  } = options;
+
+  const [results, setResults] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [query, setQueryState] = useState(initialQuery ?? "");
+  const [searchText, setSearchText] = useState<string | undefined>(initialQuery);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Latest fetcher, so callers can pass an inline function without resetting the debounce
+  const fetchResultsRef = useRef(options.fetchResults);
+  fetchResultsRef.current = options.fetchResults;
+
+  // Latest transform, so an inline list of normalizers doesn't recreate onSearch
+  const queryTransformRef = useRef(options.queryTransform);
+  queryTransformRef.current = options.queryTransform;
+  const cacheRef = useRef(options.cache);
+  cacheRef.current = options.cache;
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const moreControllerRef = useRef<AbortController | null>(null);
+
+  // Query and scope the shown results belong to, the cursor for its next page,
+  // and the results themselves, so onEndReached stays stable across renders
+  const resultsQueryRef = useRef("");
+  const resultsScopeRef = useRef<string | undefined>(undefined);
+  // Normalized query and scope of the latest search, to skip keystrokes that don't change them
+  const activeQueryRef = useRef<string | null>(null);
+  const activeScopeRef = useRef<string | undefined>(undefined);
+  const cursorRef = useRef<string | null>(null);
+  const resultsRef = useRef(results);
+  resultsRef.current = results;
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const cancelPending = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (controllerRef.current) {
+      controllerRef.current.abort();
+      controllerRef.current = null;
+    }
+    if (moreControllerRef.current) {
+      moreControllerRef.current.abort();
+      moreControllerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelPending, [cancelPending]);
+
+  const runFetch = useCallback(
+    async (text: string, scopeId: string | undefined, controller: AbortController) => {
+      try {
+        const page = toPage(
+          await fetchResultsRef.current(text, { signal: controller.signal, scopeId })
+        );
+        if (controller !== controllerRef.current) return;
+        controllerRef.current = null;
+        resultsQueryRef.current = text;
+        resultsScopeRef.current = scopeId;
+        cursorRef.current = page.nextCursor ?? null;
+        cacheRef.current?.set(text, page.results, cursorRef.current, scopeId);
+        setResults(page.results);
+        setHasMore(cursorRef.current !== null && page.results.length < MAX_RESULTS);
+        setError(null);
+        setIsLoading(false);
+      } catch (err) {
+        if (controller !== controllerRef.current) return;
+        controllerRef.current = null;
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const onSearch = useCallback(
+    (event: SearchEvent) => {
+      const { query: rawQuery, scopeId } = event.nativeEvent;
+      setQueryState(rawQuery);
+      const queryTransform = queryTransformRef.current;
+      const text = queryTransform ? normalizeQuery(rawQuery, queryTransform) : rawQuery;
+      if (queryTransform && text === activeQueryRef.current && scopeId === activeScopeRef.current) {
+        return;
+      }
+      activeQueryRef.current = text;
+      activeScopeRef.current = scopeId;
+
+      cancelPending();
+      cursorRef.current = null;
+      setHasMore(false);
+      setIsLoadingMore(false);
+
+      if (text.trim().length < minQueryLength) {
+        setResults([]);
+        setError(null);
+        setIsLoading(false);
+        return;
+      }
+
+      // Show cached results right away; only fetch when they need revalidating
+      const cached = cacheRef.current?.get(text, scopeId) ?? null;
+      if (cached) {
+        resultsQueryRef.current = text;
+        resultsScopeRef.current = scopeId;
+        cursorRef.current = cached.nextCursor;
+        setResults(cached.results);
+        setHasMore(cached.nextCursor !== null && cached.results.length < MAX_RESULTS);
+        setError(null);
+        // A filtered broader query is only a preview, so an empty one isn't "no results" yet
+        setIsLoading(!cached.exact);
+        if (!cached.stale) return;
+      } else {
+        setIsLoading(true);
+      }
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        void runFetch(text, scopeId, controller);
+      }, debounceMs);
+    },
+    [cancelPending, runFetch, debounceMs, minQueryLength]
+  );
+
+  const runLoadMore = useCallback(async (cursor: string, controller: AbortController) => {
+    try {
+      const page = toPage(
+        await fetchResultsRef.current(resultsQueryRef.current, {
+          signal: controller.signal,
+          cursor,
+          scopeId: resultsScopeRef.current,
+        })
+      );
+      if (controller !== moreControllerRef.current) return;
+      moreControllerRef.current = null;
+      const next = appendPage(resultsRef.current, page.results);
+      cursorRef.current = page.nextCursor ?? null;
+      cacheRef.current?.set(resultsQueryRef.current, next, cursorRef.current, resultsScopeRef.current);
+      setResults(next);
+      setHasMore(cursorRef.current !== null && next.length < MAX_RESULTS);
+      setError(null);
+      setIsLoadingMore(false);
+    } catch (err) {
+      if (controller !== moreControllerRef.current) return;
+      moreControllerRef.current = null;
+      // Keep the cursor so scrolling to the end again retries the page
+      setError(err instanceof Error ? err : new Error(String(err)));
+      setIsLoadingMore(false);
+    }
+  }, []);
+
+  const onEndReached = useCallback(() => {
+    const cursor = cursorRef.current;
+    if (cursor === null || controllerRef.current || moreControllerRef.current) return;
+    if (resultsRef.current.length >= MAX_RESULTS) return;
+
+    setIsLoadingMore(true);
+    const controller = new AbortController();
+    moreControllerRef.current = controller;
+    void runLoadMore(cursor, controller);
+  }, [runLoadMore]);
+
+  const setQuery = useCallback(
+    (text: string) => {
+      setSearchText(text);
+      // The field doesn't report text it already shows, so fetch the current query again here
+      if (text !== queryRef.current) return;
+      const active = activeQueryRef.current;
+      if (active === null || active.trim().length < minQueryLength) return;
+
+      cancelPending();
+      setIsLoadingMore(false);
+      setIsLoading(true);
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      void runFetch(active, activeScopeRef.current, controller);
+    },
+    [cancelPending, runFetch, minQueryLength]
+  );
+
+  return {
+    results,
+    isLoading,
+    onSearch,
+    searchText,
+    hasMore,
+    isLoadingMore,
+    onEndReached,
+    error,
+    query,
+    setQuery,
+  };
+}
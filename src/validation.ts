@@ -0,0 +1,617 @@
+import { useEffect, useRef } from "react";
+import type {
+  SearchResult,
+  SearchResultAction,
+  SearchScope,
+  SearchSection,
+  SearchSuggestion,
+  TvosSearchViewProps,
+  ValidationWarningEvent,
+} from "./index";
+import { requiredGridWidth, TVOS_SCREEN_WIDTH } from "./layout";
+import { isValidBlurhash, isValidThumbhash } from "./placeholders";
+
+// Limits mirror ExpoTvosSearchModule.swift and ExpoTvosSearchView.updateResults
+export const MAX_RESULTS = 500;
+const MAX_STRING_LENGTH = 500;
+const MAX_DATA_URL_LENGTH = 1_000_000;
+const MAX_RECENT_SEARCHES = 20;
+const MAX_SUGGESTIONS = 20;
+export const MAX_SCOPES = 10;
+
+/** Per-result numeric ranges, matching ExpoTvosSearchView.progressRange and aspectRatioRange. */
+const RESULT_RANGES = {
+  progress: [0, 1],
+  aspectRatio: [0.25, 4],
+} as const;
+
+/** Accepted image URL schemes, matching `ImageUrlParser.allowedSchemes`. */
+const ALLOWED_IMAGE_SCHEMES = new Set(["http", "https", "data", "file"]);
+
+type NumericProp =
+  | "columns"
+  | "topInset"
+  | "marqueeDelay"
+  | "cardWidth"
+  | "cardHeight"
+  | "cardMargin"
+  | "cardPadding"
+  | "overlayTitleSize"
+  | "onEndReachedThreshold";
+
+/** Documented ranges for numeric props, as clamped by the native module. */
+const NUMERIC_RANGES: Record<NumericProp, readonly [min: number, max: number]> = {
+  columns: [1, 10],
+  topInset: [0, 500],
+  marqueeDelay: [0, 60],
+  cardWidth: [50, 1000],
+  cardHeight: [50, 1000],
+  cardMargin: [0, 200],
+  cardPadding: [0, 100],
+  overlayTitleSize: [8, 72],
+  onEndReachedThreshold: [0, 10],
+};
+
+type StringProp =
+  | "placeholder"
+  | "searchText"
+  | "emptyStateText"
+  | "searchingText"
+  | "noResultsText"
+  | "noResultsHintText"
+  | "recentSearchesTitle"
+  | "clearHistoryText"
+  | "actionMenuCancelText"
+  | "accessibilityLabel"
+  | "accessibilityResultsAnnouncement";
+
+const STRING_PROPS: readonly StringProp[] = [
+  "placeholder",
+  "searchText",
+  "emptyStateText",
+  "searchingText",
+  "noResultsText",
+  "noResultsHintText",
+  "recentSearchesTitle",
+  "clearHistoryText",
+  "actionMenuCancelText",
+  "accessibilityLabel",
+  "accessibilityResultsAnnouncement",
+];
+
+function clampTo(name: NumericProp, value: number): number {
+  const [min, max] = NUMERIC_RANGES[name];
+  return Math.min(Math.max(min, value), max);
+}
+
+type WarningType = ValidationWarningEvent["nativeEvent"]["type"];
+
+function warning(type: WarningType, message: string, context?: string): ValidationWarningEvent {
+  return { nativeEvent: context === undefined ? { type, message } : { type, message, context } };
+}
+
+/** Returns the lowercased URL scheme, or null when the string has none. */
+function urlScheme(url: string): string | null {
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Counts actions ExpoTvosSearchView.parseActions skips: a missing id or title,
+ * or an id already used earlier in the same list.
+ */
+function countSkippedActions(actions: SearchResultAction[]): number {
+  const seenIds = new Set<string>();
+  let skipped = 0;
+  for (const action of actions) {
+    if (!action.id || !action.title || seenIds.has(action.id)) {
+      skipped += 1;
+      continue;
+    }
+    seenIds.add(action.id);
+  }
+  return skipped;
+}
+
+/**
+ * Validates results split into groups (one group for flat `results`, one per section).
+ * The result cap applies across all groups combined; ids must be unique within a group.
+ */
+function validateResults(groups: SearchResult[][], warnings: ValidationWarningEvent[]): void {
+  const totalResults = groups.reduce((total, group) => total + group.length, 0);
+  if (totalResults > MAX_RESULTS) {
+    warnings.push(
+      warning(
+        "value_clamped",
+        `Results array truncated from ${totalResults} to ${MAX_RESULTS} items`,
+        `maxResults=${MAX_RESULTS}`
+      )
+    );
+  }
+
+  let skippedCount = 0;
+  let urlValidationFailures = 0;
+  let httpUrlCount = 0;
+  let truncatedFields = 0;
+  let skippedActions = 0;
+  let invalidPlaceholders = 0;
+  const duplicateIds = new Set<string>();
+
+  // The native side only processes the first MAX_RESULTS items
+  let remaining = MAX_RESULTS;
+  const limitedGroups = groups.map((group) => {
+    const kept = group.slice(0, remaining);
+    remaining -= kept.length;
+    return kept;
+  });
+
+  for (const group of limitedGroups) {
+    const seenIds = new Set<string>();
+    for (const result of group) {
+      if (!result.id || !result.title) {
+        skippedCount += 1;
+        continue;
+      }
+
+      if (seenIds.has(result.id)) {
+        duplicateIds.add(result.id);
+      }
+      seenIds.add(result.id);
+
+      for (const url of [result.imageUrl, result.fallbackImageUrl]) {
+        if (!url) continue;
+        const scheme = urlScheme(url);
+        if (!scheme || !ALLOWED_IMAGE_SCHEMES.has(scheme)) {
+          urlValidationFailures += 1;
+        } else if (scheme === "data" && url.length > MAX_DATA_URL_LENGTH) {
+          urlValidationFailures += 1;
+        } else if (scheme === "http") {
+          httpUrlCount += 1;
+        }
+      }
+
+      if (result.blurhash && !isValidBlurhash(result.blurhash)) {
+        invalidPlaceholders += 1;
+      }
+      if (result.thumbhash && !isValidThumbhash(result.thumbhash)) {
+        invalidPlaceholders += 1;
+      }
+
+      if (
+        result.id.length > MAX_STRING_LENGTH ||
+        result.title.length > MAX_STRING_LENGTH ||
+        (result.subtitle?.length ?? 0) > MAX_STRING_LENGTH
+      ) {
+        truncatedFields += 1;
+      }
+
+      if (result.actions) {
+        skippedActions += countSkippedActions(result.actions);
+      }
+
+      for (const name of ["progress", "aspectRatio"] as const) {
+        const value = result[name];
+        if (typeof value !== "number") continue;
+        const [min, max] = RESULT_RANGES[name];
+        const clamped = Math.min(Math.max(min, value), max);
+        if (clamped !== value) {
+          warnings.push(
+            warning(
+              "value_clamped",
+              `result '${result.id}' ${name} value ${value} was clamped to range [${min}, ${max}]`,
+              `${name}=${clamped}`
+            )
+          );
+        }
+      }
+    }
+  }
+
+  const validCount = Math.min(totalResults, MAX_RESULTS) - skippedCount;
+
+  if (skippedCount > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `Skipped ${skippedCount} result(s) due to missing required fields`,
+        `validResults=${validCount}, skipped=${skippedCount}`
+      )
+    );
+  }
+  if (duplicateIds.size > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `${duplicateIds.size} result id(s) appear more than once; ids must be unique`,
+        `duplicateIds=${Array.from(duplicateIds).join(", ")}`
+      )
+    );
+  }
+  if (urlValidationFailures > 0) {
+    warnings.push(
+      warning(
+        "url_invalid",
+        `${urlValidationFailures} image URL(s) failed validation`,
+        "Non-HTTP/HTTPS or malformed URLs"
+      )
+    );
+  }
+  if (httpUrlCount > 0) {
+    warnings.push(
+      warning(
+        "url_insecure",
+        `${httpUrlCount} image URL(s) use insecure HTTP. HTTPS is recommended.`,
+        "Consider using HTTPS URLs"
+      )
+    );
+  }
+  if (truncatedFields > 0) {
+    warnings.push(
+      warning(
+        "field_truncated",
+        `Truncated ${truncatedFields} result(s) with fields exceeding ${MAX_STRING_LENGTH} characters`,
+        "Check id, title, or subtitle field lengths"
+      )
+    );
+  }
+  if (skippedActions > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `Skipped ${skippedActions} result action(s) with a missing id or title, or a duplicate id`,
+        "Action ids must be unique within each list"
+      )
+    );
+  }
+  if (invalidPlaceholders > 0) {
+    warnings.push(
+      warning(
+        "placeholder_invalid",
+        `Ignored ${invalidPlaceholders} malformed blurhash/thumbhash value(s)`,
+        "Check the placeholder hash encoding"
+      )
+    );
+  }
+}
+
+type SectionLayoutProp = "columns" | "cardWidth" | "cardHeight";
+
+/** Validates section ids and per-section layouts, then their results as one capped set. */
+function validateSections(sections: SearchSection[], warnings: ValidationWarningEvent[]): void {
+  for (const section of sections) {
+    if (!section.layout) continue;
+    for (const name of ["columns", "cardWidth", "cardHeight"] as SectionLayoutProp[]) {
+      const value = section.layout[name];
+      if (typeof value !== "number") continue;
+      const [min, max] = NUMERIC_RANGES[name];
+      const clamped = Math.min(Math.max(min, value), max);
+      if (clamped !== value) {
+        warnings.push(
+          warning(
+            "value_clamped",
+            `section '${section.id}' ${name} value ${value} was clamped to range [${min}, ${max}]`,
+            `${name}=${clamped}`
+          )
+        );
+      }
+    }
+  }
+
+  validateResults(
+    sections.map((section) => section.results),
+    warnings
+  );
+
+  const sectionIds = new Set<string>();
+  const duplicateSectionIds = new Set<string>();
+  let skippedSections = 0;
+  for (const section of sections) {
+    if (!section.id) {
+      skippedSections += 1;
+      continue;
+    }
+    if (sectionIds.has(section.id)) {
+      duplicateSectionIds.add(section.id);
+    }
+    sectionIds.add(section.id);
+  }
+
+  if (skippedSections > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `Skipped ${skippedSections} section(s) due to missing id`,
+        `validSections=${sections.length - skippedSections}, skipped=${skippedSections}`
+      )
+    );
+  }
+  if (duplicateSectionIds.size > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `${duplicateSectionIds.size} section id(s) appear more than once; ids must be unique`,
+        `duplicateSectionIds=${Array.from(duplicateSectionIds).join(", ")}`
+      )
+    );
+  }
+}
+
+/**
+ * Mirrors the suggestions cap in ExpoTvosSearchModule.swift and the
+ * id/text checks in ExpoTvosSearchView.updateSuggestions.
+ */
+function validateSuggestions(
+  suggestions: SearchSuggestion[],
+  warnings: ValidationWarningEvent[]
+): void {
+  if (suggestions.length > MAX_SUGGESTIONS) {
+    warnings.push(
+      warning(
+        "value_clamped",
+        `suggestions truncated from ${suggestions.length} to ${MAX_SUGGESTIONS} items`,
+        `maxSuggestions=${MAX_SUGGESTIONS}`
+      )
+    );
+  }
+
+  let valid = 0;
+  let skipped = 0;
+  const seenIds = new Set<string>();
+  const duplicateIds = new Set<string>();
+  for (const suggestion of suggestions.slice(0, MAX_SUGGESTIONS)) {
+    if (!suggestion.id || !suggestion.text) {
+      skipped++;
+      continue;
+    }
+    valid++;
+    if (seenIds.has(suggestion.id)) {
+      duplicateIds.add(suggestion.id);
+    }
+    seenIds.add(suggestion.id);
+  }
+
+  if (skipped > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `Skipped ${skipped} suggestion(s) due to missing id or text`,
+        `validSuggestions=${valid}, skipped=${skipped}`
+      )
+    );
+  }
+  if (duplicateIds.size > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `${duplicateIds.size} suggestion id(s) appear more than once; ids must be unique`,
+        `duplicateSuggestionIds=${Array.from(duplicateIds).join(", ")}`
+      )
+    );
+  }
+}
+
+/**
+ * Mirrors the scopes cap in ExpoTvosSearchModule.swift and the id/title checks
+ * in ExpoTvosSearchView.updateScopes. Also flags duplicate scope ids and a
+ * `selectedScope` that names none of the scopes.
+ */
+function validateScopes(
+  scopes: SearchScope[],
+  selectedScope: string | undefined,
+  warnings: ValidationWarningEvent[]
+): void {
+  if (scopes.length > MAX_SCOPES) {
+    warnings.push(
+      warning(
+        "value_clamped",
+        `scopes truncated from ${scopes.length} to ${MAX_SCOPES} items`,
+        `maxScopes=${MAX_SCOPES}`
+      )
+    );
+  }
+
+  let valid = 0;
+  let skipped = 0;
+  const seenIds = new Set<string>();
+  const duplicateIds = new Set<string>();
+  for (const scope of scopes.slice(0, MAX_SCOPES)) {
+    if (!scope.id || !scope.title) {
+      skipped++;
+      continue;
+    }
+    valid++;
+    if (seenIds.has(scope.id)) {
+      duplicateIds.add(scope.id);
+    }
+    seenIds.add(scope.id);
+  }
+
+  if (skipped > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `Skipped ${skipped} scope(s) due to missing id or title`,
+        `validScopes=${valid}, skipped=${skipped}`
+      )
+    );
+  }
+  if (duplicateIds.size > 0) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `${duplicateIds.size} scope id(s) appear more than once; ids must be unique`,
+        `duplicateScopeIds=${Array.from(duplicateIds).join(", ")}`
+      )
+    );
+  }
+  if (selectedScope !== undefined && seenIds.size > 0 && !seenIds.has(selectedScope)) {
+    warnings.push(
+      warning(
+        "validation_failed",
+        `selectedScope '${selectedScope}' is not one of scopes; the first scope is selected`,
+        `scopeIds=${Array.from(seenIds).join(", ")}`
+      )
+    );
+  }
+}
+
+/**
+ * Validates `TvosSearchView` props against the same rules the native module applies.
+ *
+ * Native validation only runs on a real Apple TV and reports through
+ * `onValidationWarning`. This mirrors its clamping ranges, grid fit check, string and result
+ * truncation, and result checks in TypeScript so the same mistakes surface in
+ * Jest, on web, and in CI. It also flags duplicate result, section, suggestion and scope
+ * ids, which the native grid does not detect, and a `selectedScope` missing from `scopes`. With `sections`, the result cap
+ * applies across all sections combined.
+ *
+ * @param props - Props to validate (only the validated fields are read)
+ * @returns Warnings in the same shape as native `onValidationWarning` events
+ *
+ * @example
+ * ```ts
+ * const warnings = validateSearchViewProps({ results, columns: 12 });
+ * // [{ nativeEvent: { type: 'value_clamped', message: 'columns value 12 was clamped to range [1, 10]', context: 'columns=10' } }]
+ * ```
+ */
+export function validateSearchViewProps<T extends SearchResult = SearchResult>(
+  props: Partial<TvosSearchViewProps<T>>
+): ValidationWarningEvent[] {
+  const warnings: ValidationWarningEvent[] = [];
+
+  if (props.sections) {
+    validateSections(props.sections, warnings);
+  } else if (props.results) {
+    validateResults([props.results], warnings);
+  }
+
+  for (const name of Object.keys(NUMERIC_RANGES) as NumericProp[]) {
+    const value = props[name];
+    if (typeof value !== "number") continue;
+    const [min, max] = NUMERIC_RANGES[name];
+    const clamped = Math.min(Math.max(min, value), max);
+    if (clamped !== value) {
+      warnings.push(
+        warning(
+          "value_clamped",
+          `${name} value ${value} was clamped to range [${min}, ${max}]`,
+          `${name}=${clamped}`
+        )
+      );
+    }
+  }
+
+  // Mirrors ExpoTvosSearchView.checkGridFits, using the clamped values and native defaults
+  const columns = clampTo("columns", props.columns ?? 5);
+  const cardWidth = clampTo("cardWidth", props.cardWidth ?? 280);
+  const cardMargin = clampTo("cardMargin", props.cardMargin ?? 40);
+  const required = requiredGridWidth(columns, cardWidth, cardMargin);
+  if (required > TVOS_SCREEN_WIDTH) {
+    warnings.push(
+      warning(
+        "layout_overflow",
+        `${columns} columns of ${Math.round(cardWidth)}pt cards need ${Math.ceil(required)}pt, ` +
+          `which overflows the ${TVOS_SCREEN_WIDTH}pt screen`,
+        `columns=${columns}, cardWidth=${Math.round(cardWidth)}, cardMargin=${Math.round(cardMargin)}`
+      )
+    );
+  }
+
+  for (const name of STRING_PROPS) {
+    const value = props[name];
+    if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+      warnings.push(
+        warning(
+          "value_truncated",
+          `${name} truncated to ${MAX_STRING_LENGTH} characters`,
+          `original length: ${value.length}`
+        )
+      );
+    }
+  }
+
+  if (props.recentSearches) {
+    const { recentSearches } = props;
+    if (recentSearches.length > MAX_RECENT_SEARCHES) {
+      warnings.push(
+        warning(
+          "value_clamped",
+          `recentSearches truncated from ${recentSearches.length} to ${MAX_RECENT_SEARCHES} items`,
+          `maxRecentSearches=${MAX_RECENT_SEARCHES}`
+        )
+      );
+    }
+    for (const query of recentSearches.slice(0, MAX_RECENT_SEARCHES)) {
+      if (query.length > MAX_STRING_LENGTH) {
+        warnings.push(
+          warning(
+            "value_truncated",
+            `recentSearches item truncated to ${MAX_STRING_LENGTH} characters`,
+            `original length: ${query.length}`
+          )
+        );
+      }
+    }
+  }
+
+  if (props.defaultActions) {
+    const skipped = countSkippedActions(props.defaultActions);
+    if (skipped > 0) {
+      warnings.push(
+        warning(
+          "validation_failed",
+          `Skipped ${skipped} defaultActions item(s) with a missing id or title, or a duplicate id`,
+          "Action ids must be unique within each list"
+        )
+      );
+    }
+  }
+
+  if (props.suggestions) {
+    validateSuggestions(props.suggestions, warnings);
+  }
+
+  if (props.scopes) {
+    validateScopes(props.scopes, props.selectedScope, warnings);
+  }
+
+  return warnings;
+}
+
+/** Props `validateSearchViewProps` reads, in a fixed order for effect dependencies. */
+const VALIDATED_PROPS = [
+  "results",
+  "sections",
+  ...(Object.keys(NUMERIC_RANGES) as NumericProp[]),
+  ...STRING_PROPS,
+  "recentSearches",
+  "defaultActions",
+  "suggestions",
+  "scopes",
+  "selectedScope",
+] as const;
+
+/**
+ * Logs JS-side validation warnings in development, once per distinct warning
+ * for each mounted view. Validation runs after render, and again only when one
+ * of the validated props changes. Mirrors the native clamping/truncation so
+ * mistakes surface off-device too.
+ */
+export function useValidationWarnings<T extends SearchResult>(props: TvosSearchViewProps<T>): void {
+  // Warnings this view already logged, keyed by type and message
+  const loggedRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (typeof __DEV__ === "undefined" || !__DEV__) return;
+    const logged = (loggedRef.current ??= new Set());
+    for (const { nativeEvent } of validateSearchViewProps(props)) {
+      const key = `${nativeEvent.type}:${nativeEvent.message}`;
+      if (logged.has(key)) continue;
+      logged.add(key);
+      console.warn(
+        `[expo-tvos-search] Validation warning [${nativeEvent.type}]: ${nativeEvent.message}` +
+          (nativeEvent.context ? ` (${nativeEvent.context})` : "")
+      );
+    }
+  }, VALIDATED_PROPS.map((name) => props[name]));
+}